@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Check, FilePlus, FileText, LayoutTemplate, Pencil, Trash2, X } from "lucide-react";
+import { StoredDocumentSummary } from "../type";
+
+export interface DocumentLibraryProps {
+   documents: StoredDocumentSummary[];
+   currentDocumentId: string;
+   onOpen: (id: string) => void;
+   onCreate: () => void;
+   onCreateFromTemplate?: () => void;
+   onDelete: (id: string) => void;
+   onRename: (id: string, name: string) => void;
+   onClose: () => void;
+}
+
+// "My documents" picker - lists stored documents for opening, renaming and deleting
+export const DocumentLibrary: React.FC<DocumentLibraryProps> = ({
+   documents,
+   currentDocumentId,
+   onOpen,
+   onCreate,
+   onCreateFromTemplate,
+   onDelete,
+   onRename,
+   onClose
+}) => {
+   const [editingId, setEditingId] = useState<string | null>(null);
+   const [editingName, setEditingName] = useState('');
+
+   const startRename = (doc: StoredDocumentSummary) => {
+      setEditingId(doc.id);
+      setEditingName(doc.name);
+   };
+
+   const commitRename = () => {
+      const name = editingName.trim();
+      if (editingId && name) onRename(editingId, name);
+      setEditingId(null);
+   };
+
+   return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+         <div className="bg-white rounded-lg shadow-xl w-[520px] max-h-[70vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-5 py-4 border-b">
+               <div className="text-lg font-medium">My Documents</div>
+               <div className="flex items-center gap-2">
+                  {onCreateFromTemplate && (
+                     <button
+                        onClick={onCreateFromTemplate}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+                     >
+                        <LayoutTemplate size={16} />
+                        From template
+                     </button>
+                  )}
+                  <button
+                     onClick={onCreate}
+                     className="flex items-center gap-2 px-3 py-1.5 bg-green-500 text-white rounded hover:bg-green-600 text-sm"
+                  >
+                     <FilePlus size={16} />
+                     New document
+                  </button>
+                  <button onClick={onClose} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Close">
+                     <X size={18} />
+                  </button>
+               </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2">
+               {documents.length === 0 && (
+                  <div className="text-sm text-gray-500 text-center py-8">No saved documents yet</div>
+               )}
+
+               {documents.map((doc) => (
+                  <div
+                     key={doc.id}
+                     className={`group flex items-center gap-3 px-3 py-2 rounded ${doc.id === currentDocumentId ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                  >
+                     <FileText size={18} className="text-gray-400 shrink-0" />
+
+                     {editingId === doc.id ? (
+                        <input
+                           autoFocus
+                           value={editingName}
+                           onChange={(e) => setEditingName(e.target.value)}
+                           onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename();
+                              if (e.key === 'Escape') setEditingId(null);
+                           }}
+                           onBlur={commitRename}
+                           className="flex-1 px-2 py-1 border rounded text-sm"
+                        />
+                     ) : (
+                        <button onClick={() => onOpen(doc.id)} className="flex-1 min-w-0 text-left">
+                           <div className="text-sm text-gray-800 truncate">
+                              {doc.name}
+                              {doc.id === currentDocumentId && <span className="ml-2 text-xs text-green-600">(open)</span>}
+                           </div>
+                           <div className="text-xs text-gray-400">Edited {new Date(doc.updatedAt).toLocaleString()}</div>
+                        </button>
+                     )}
+
+                     {editingId === doc.id ? (
+                        <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Save name">
+                           <Check size={16} />
+                        </button>
+                     ) : (
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                           <button onClick={() => startRename(doc)} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Rename">
+                              <Pencil size={16} />
+                           </button>
+                           <button
+                              onClick={() => {
+                                 if (window.confirm(`Delete "${doc.name}"? This cannot be undone.`)) onDelete(doc.id);
+                              }}
+                              className="p-1.5 rounded text-red-500 hover:bg-red-50"
+                              title="Delete"
+                           >
+                              <Trash2 size={16} />
+                           </button>
+                        </div>
+                     )}
+                  </div>
+               ))}
+            </div>
+         </div>
+      </div>
+   );
+};
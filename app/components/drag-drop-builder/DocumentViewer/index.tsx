@@ -0,0 +1,254 @@
+'use client'
+
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
+import { Printer } from "lucide-react";
+import { DocumentViewerHandle, DocumentViewerProps, EditorDocument } from "../type";
+import { blocksToHtml, CONTENT_FLOW_HTML, escapeText, sanitizeHtmlBlocks } from "../blockTree";
+import { resolveDocumentMergeFields } from "../documentEngine";
+import { refreshBlocks } from "../blockRegistry";
+import { migrateDocument } from "../migrations";
+import { insertNotes } from "../footnotes";
+import { usePagination } from "../hooks/usePagination";
+import { useCountdownTicker } from "../hooks/useCountdownTicker";
+import { useAnchorLinks } from "../hooks/useAnchorLinks";
+
+const PAGE_PADDING = 40;
+const PAGE_GAP = 20;
+
+// Styles the stored markup relies on - the editor-only rules of EDITOR_STYLES are left out
+const CONTENT_STYLES = /*css*/`
+   *, *::before, *::after {
+      box-sizing: border-box;
+   }
+
+   img {
+      max-width: 100%;
+      height: auto;
+   }
+
+   p, h1, h2, h3, h4, h5, h6, div, span, a {
+      word-wrap: break-word;
+      overflow-wrap: break-word;
+   }
+
+   .content-flow > * {
+      max-width: 100%;
+   }
+`;
+
+const buildViewerStyles = ({ pageWidth, pageHeight }: Pick<EditorDocument, 'pageWidth' | 'pageHeight'>): string => /*css*/`
+   ${CONTENT_STYLES}
+
+   :host {
+      display: block;
+   }
+
+   .pages-wrapper {
+      padding: 20px;
+   }
+
+   .pages-container {
+      position: relative;
+      width: ${pageWidth?.value}${pageWidth?.unit};
+      max-width: 100%;
+      margin: 0 auto;
+      min-height: ${pageHeight?.value}${pageHeight?.unit};
+      background: white;
+      box-shadow: 0 4px 20px rgba(0,0,0,0.15);
+      border-radius: 2px;
+   }
+
+   .content-flow {
+      position: relative;
+      padding: ${PAGE_PADDING}px;
+   }
+
+   .page-overlay {
+      position: absolute;
+      inset: 0;
+      pointer-events: none;
+   }
+
+   .page-overlay .page-gap {
+      background: #f3f4f6;
+      box-shadow: rgba(0, 0, 0, 0.1) 0px 20px 20px -20px inset, rgba(0, 0, 0, 0.1) 0px -20px 20px -20px inset;
+   }
+
+   .page-overlay .page-gap-label {
+      font-size: 11px;
+      color: #6b7280;
+   }
+`;
+
+/**
+ * Standalone HTML for printing: pagination margins are dropped and the breaks the
+ * viewer calculated become real page breaks, so the printout matches the screen.
+ * Footnotes close the page they belong to, endnotes follow the content.
+ */
+const buildPrintHtml = (document: EditorDocument, contentFlow: HTMLElement): string => {
+   const clone = contentFlow.cloneNode(true) as HTMLElement;
+   clone.querySelectorAll<HTMLElement>('[data-pb-orig-mt]').forEach(el => {
+      el.style.marginTop = el.dataset.pbOrigMt ?? '';
+      delete el.dataset.pbOrigMt;
+   });
+   insertNotes(clone, document.notePlacement); // The viewer draws them in the overlay, which isn't printed
+
+   const { pageWidth, pageHeight } = document;
+   const pageSize = pageWidth?.unit === 'px' && pageHeight?.unit === 'px'
+      ? `${pageWidth.value}px ${pageHeight.value}px`
+      : 'auto';
+
+   return /*html*/`<!DOCTYPE html>
+      <html>
+         <head>
+            <meta charset="UTF-8">
+            <title>${escapeText(document.name)}</title>
+            <style>
+               ${CONTENT_STYLES}
+               @page { size: ${pageSize}; margin: ${PAGE_PADDING}px 0; }
+               body { margin: 0; font-family: system-ui, sans-serif; }
+               .content-flow { padding: 0 ${PAGE_PADDING}px; }
+               [data-page-break-before] { break-before: page; page-break-before: always; }
+            </style>
+         </head>
+         <body>${clone.outerHTML}</body>
+      </html>`;
+};
+
+/**
+ * DocumentViewer - Read-only rendering of a saved document
+ *
+ * Features:
+ * - Resolves merge fields from `data`
+ * - Paginates like the editor (usePagination), re-run when images finish loading
+ * - Countdown blocks tick live (useCountdownTicker), `#anchor` links scroll within the document
+ * - Prints through a hidden iframe, one printed page per viewer page
+ * - Mounts no editing code - no selection, toolbars, history or drag & drop
+ *
+ * @example
+ * ```tsx
+ * const viewerRef = useRef<DocumentViewerHandle>(null);
+ *
+ * <DocumentViewer ref={viewerRef} document={savedDocument} data={{ user: { name: 'Ada' } }} />
+ * <button onClick={() => viewerRef.current?.print()}>Print</button>
+ * ```
+ */
+export const DocumentViewer = forwardRef<DocumentViewerHandle, DocumentViewerProps>(function DocumentViewer({
+   document: source,
+   data,
+   showPrintButton = false,
+   className,
+   onPageCountChange
+}, ref) {
+   const shadowRootRef = useRef<ShadowRoot | null>(null);
+   const [shadowReady, setShadowReady] = useState(false);
+   const [pageCount, setPageCount] = useState(1);
+
+   const viewerDocument = useMemo(() => migrateDocument(source), [source]);
+
+   const handlePageCountChange = useCallback((count: number) => {
+      setPageCount(count);
+      onPageCountChange?.(count);
+   }, [onPageCountChange]);
+
+   const { calculatePageBreaks, calculatePageBreaksRAF } = usePagination({
+      shadowRootRef,
+      config: {
+         pageHeight: viewerDocument.pageHeight?.value ?? 0,
+         pageHeightUnit: viewerDocument.pageHeight?.unit ?? 'px',
+         padding: PAGE_PADDING,
+         gap: PAGE_GAP,
+         notePlacement: viewerDocument.notePlacement
+      },
+      onPageCountChange: handlePageCountChange
+   });
+
+   const containerRef = useCallback((node: HTMLDivElement | null) => {
+      if (node) {
+         shadowRootRef.current = node.shadowRoot ?? node.attachShadow({ mode: 'open' });
+         setShadowReady(true);
+      } else {
+         shadowRootRef.current = null;
+         setShadowReady(false);
+      }
+   }, []);
+
+   // Render the document - merge fields are resolved on the block tree, so attributes (links, images) are covered too.
+   // Raw HTML blocks are sanitized again after merging, before anything reaches the live DOM
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!shadowReady || !shadow) return;
+
+      const resolved = resolveDocumentMergeFields(viewerDocument, data ?? {});
+      shadow.innerHTML = /*html*/`
+         <style>${buildViewerStyles(resolved)}</style>
+         <div class="pages-wrapper">
+            <div class="pages-container">
+               <div class="page-overlay"></div>
+               ${CONTENT_FLOW_HTML(blocksToHtml(sanitizeHtmlBlocks(resolved.blocks, shadow.ownerDocument)))}
+            </div>
+         </div>
+      `;
+      refreshBlocks(shadow); // Block settings were merged too - render them again
+      calculatePageBreaks();
+   }, [shadowReady, viewerDocument, data, calculatePageBreaks]);
+
+   useCountdownTicker({ shadowRootRef, enabled: shadowReady });
+   useAnchorLinks({ shadowRootRef, enabled: shadowReady });
+
+   // Images and web fonts change block heights after the first pass
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!shadowReady || !shadow) return;
+
+      let active = true;
+      shadow.addEventListener('load', calculatePageBreaksRAF, true);
+      window.document.fonts?.ready.then(() => {
+         if (active) calculatePageBreaksRAF();
+      });
+      return () => {
+         active = false;
+         shadow.removeEventListener('load', calculatePageBreaksRAF, true);
+      };
+   }, [shadowReady, calculatePageBreaksRAF]);
+
+   const print = useCallback(() => {
+      const contentFlow = shadowRootRef.current?.querySelector('.content-flow') as HTMLElement | null;
+      if (!contentFlow) return;
+
+      const frame = window.document.createElement('iframe');
+      frame.setAttribute('aria-hidden', 'true');
+      frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0; visibility: hidden;';
+      frame.onload = () => {
+         const frameWindow = frame.contentWindow;
+         if (!frameWindow) return;
+         frameWindow.addEventListener('afterprint', () => frame.remove());
+         frameWindow.focus();
+         frameWindow.print();
+      };
+      frame.srcdoc = buildPrintHtml(viewerDocument, contentFlow);
+      window.document.body.appendChild(frame);
+   }, [viewerDocument]);
+
+   useImperativeHandle(ref, () => ({ print }), [print]);
+
+   return (
+      <div className={className}>
+         {showPrintButton && (
+            <div className="flex items-center justify-end gap-3 px-5 pt-3 text-sm text-gray-500">
+               <span>{pageCount} {pageCount === 1 ? 'page' : 'pages'}</span>
+               <button
+                  onClick={print}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded border bg-white text-gray-700 hover:bg-gray-50"
+               >
+                  <Printer size={16} />
+                  Print
+               </button>
+            </div>
+         )}
+         <div ref={containerRef} />
+      </div>
+   );
+});
+
+export default DocumentViewer;
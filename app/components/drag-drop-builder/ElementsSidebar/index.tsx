@@ -1,14 +1,36 @@
-import { useState } from "react";
-import { CONTAINER_LAYOUT_BLOCKS, COMPONENT_BLOCKS } from "../data";
-import { Block } from "../type";
+import { useMemo, useState } from "react";
+import { Link2, Package, Trash2 } from "lucide-react";
+import { Block, DocumentModule } from "../type";
+import { toSidebarBlock } from "../blockRegistry";
+import { getModuleInstanceHtml } from "../moduleLibrary";
+import { useBlockRegistry } from "../hooks/useBlockRegistry";
+
+// Layouts with a drawn column preview - other container blocks show their icon
+const LAYOUT_PREVIEW_IDS = ['1col', '2col', '3col', '4col', '1-2col', '2-1col'];
 
 export interface ElementsSidebarProps {
    onDragStart: (component: Block) => void;
    onDragEnd: () => void;
+   modules?: DocumentModule[];
+   onDeleteModule?: (module: DocumentModule) => void;
 }
 
-export const ElementsSidebar: React.FC<ElementsSidebarProps> = ({ onDragStart, onDragEnd }) => {
+// Modules are dragged like blocks - linked ones carry the module id
+const toModuleBlock = (master: DocumentModule): Block => ({
+   id: master.id,
+   label: master.name,
+   icon: <Package size={20} />,
+   html: getModuleInstanceHtml(master),
+   category: 'blocks'
+});
+
+export const ElementsSidebar: React.FC<ElementsSidebarProps> = ({ onDragStart, onDragEnd, modules = [], onDeleteModule }) => {
    const [activeTab, setActiveTab] = useState<'block' | 'container' | 'modules'>('block');
+   const componentDefinitions = useBlockRegistry({ category: 'blocks' });
+   const containerDefinitions = useBlockRegistry({ category: 'container' });
+
+   const componentBlocks = useMemo(() => componentDefinitions.map(toSidebarBlock), [componentDefinitions]);
+   const containerBlocks = useMemo(() => containerDefinitions.map(toSidebarBlock), [containerDefinitions]);
 
    return (
       <div className="flex flex-col h-full">
@@ -36,7 +58,7 @@ export const ElementsSidebar: React.FC<ElementsSidebarProps> = ({ onDragStart, o
          <div className="flex-1 overflow-y-auto p-4">
             {activeTab === 'block' && (
                <div className="grid grid-cols-2 gap-3">
-                  {COMPONENT_BLOCKS.map((block) => (
+                  {componentBlocks.map((block) => (
                      <div
                         key={block.id}
                         draggable
@@ -53,7 +75,7 @@ export const ElementsSidebar: React.FC<ElementsSidebarProps> = ({ onDragStart, o
 
             {activeTab === 'container' && (
                <div className="space-y-3">
-                  {CONTAINER_LAYOUT_BLOCKS.map((layout) => (
+                  {containerBlocks.map((layout) => (
                      <div
                         key={layout.id}
                         draggable
@@ -63,6 +85,11 @@ export const ElementsSidebar: React.FC<ElementsSidebarProps> = ({ onDragStart, o
                      >
                         <div className="text-sm text-gray-600 mb-2">{layout.label}</div>
                         <div className="flex gap-2">
+                           {!LAYOUT_PREVIEW_IDS.includes(layout.id) && (
+                              <div className="flex-1 h-10 flex items-center justify-center border border-dashed border-green-300 rounded text-gray-400">
+                                 {layout.icon}
+                              </div>
+                           )}
                            {layout.id === '1col' && (
                               <div className="flex-1 h-10 border border-dashed border-green-300 rounded" />
                            )}
@@ -105,9 +132,43 @@ export const ElementsSidebar: React.FC<ElementsSidebarProps> = ({ onDragStart, o
                </div>
             )}
 
-            {activeTab === 'modules' && (
-               <div className="text-center text-gray-500 py-8">
-                  <p>Pre-built modules coming soon</p>
+            {activeTab === 'modules' && modules.length === 0 && (
+               <div className="text-center text-sm text-gray-500 py-8">
+                  <Package size={28} className="mx-auto mb-2 text-gray-300" />
+                  <p>No modules yet. Select an element and choose &quot;Save as Module&quot; to reuse it here.</p>
+               </div>
+            )}
+
+            {activeTab === 'modules' && modules.length > 0 && (
+               <div className="space-y-3">
+                  {modules.map((module) => (
+                     <div
+                        key={module.id}
+                        draggable
+                        onDragStart={() => onDragStart(toModuleBlock(module))}
+                        onDragEnd={onDragEnd}
+                        className="group border rounded-lg p-2 cursor-move hover:border-green-400"
+                     >
+                        <div className="h-20 mb-2 rounded bg-gray-50 flex items-center justify-center overflow-hidden">
+                           {module.thumbnail
+                              ? <div className="w-full h-full bg-contain bg-center bg-no-repeat" style={{ backgroundImage: `url("${module.thumbnail}")` }} />
+                              : <Package size={24} className="text-gray-300" />}
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                           {module.linked && <Link2 size={14} className="text-green-600 shrink-0" aria-label="Linked" />}
+                           <span className="flex-1 text-sm text-gray-600 truncate" title={module.name}>{module.name}</span>
+                           {onDeleteModule && (
+                              <button
+                                 onClick={() => onDeleteModule(module)}
+                                 className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100"
+                                 title="Delete module"
+                              >
+                                 <Trash2 size={14} />
+                              </button>
+                           )}
+                        </div>
+                     </div>
+                  ))}
                </div>
             )}
          </div>
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import { ChevronRight } from "lucide-react";
+import { HistoryEntry } from "../hooks";
+
+export interface HistoryPanelProps {
+   entries: HistoryEntry[];
+   /** Number of applied entries - entries from this index on can be redone */
+   index: number;
+   onJumpTo: (index: number) => void;
+   onClose: () => void;
+}
+
+const formatTime = (timestamp?: number) => timestamp
+   ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+   : '';
+
+// Side panel listing every undo step - clicking a step restores the document to that point
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+   entries,
+   index,
+   onJumpTo,
+   onClose
+}) => {
+   const currentRef = useRef<HTMLButtonElement>(null);
+
+   // Keep the current step in view as the history grows
+   useEffect(() => {
+      currentRef.current?.scrollIntoView({ block: 'nearest' });
+   }, [index, entries.length]);
+
+   const steps = [
+      { key: 'original', label: 'Original', timestamp: undefined, target: 0 },
+      ...entries.map((entry, i) => ({ key: String(entry.id), label: entry.label, timestamp: entry.timestamp, target: i + 1 }))
+   ];
+
+   return (
+      <div className="flex flex-col h-full">
+         <div className="p-4 border-b bg-gray-50 flex items-center gap-2">
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+               <ChevronRight size={18} />
+            </button>
+            <span className="font-medium">History</span>
+            <span className="ml-auto text-xs text-gray-400">{entries.length} steps</span>
+         </div>
+
+         <div className="flex-1 overflow-y-auto p-2">
+            {steps.map(step => {
+               const isCurrent = step.target === index;
+               const isRedoable = step.target > index;
+               return (
+                  <button
+                     key={step.key}
+                     ref={isCurrent ? currentRef : undefined}
+                     onClick={() => onJumpTo(step.target)}
+                     className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded text-left text-sm ${isCurrent ? 'bg-green-50 text-green-700 font-medium' : isRedoable ? 'text-gray-400 hover:bg-gray-50' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                     <span className="truncate">{step.label}</span>
+                     <span className="text-xs text-gray-400 shrink-0">{formatTime(step.timestamp)}</span>
+                  </button>
+               );
+            })}
+         </div>
+
+         <div className="p-3 border-t text-xs text-gray-500">
+            Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z to redo
+         </div>
+      </div>
+   );
+};
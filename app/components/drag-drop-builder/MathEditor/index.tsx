@@ -0,0 +1,118 @@
+import { useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { renderMath } from "../math";
+
+export interface MathPreviewProps {
+   latex: string;
+   display?: boolean;
+}
+
+export interface MathEditorProps {
+   latex?: string; // Formula being edited - empty for a new one
+   onSave: (latex: string) => void; // Empty string removes the equation
+   onClose: () => void;
+}
+
+const EXAMPLES = [
+   { label: 'Fraction', latex: '\\frac{a}{b}' },
+   { label: 'Root', latex: '\\sqrt{x}' },
+   { label: 'Power', latex: 'x^{2}' },
+   { label: 'Sum', latex: '\\sum_{i=1}^{n} i' },
+   { label: 'Integral', latex: '\\int_{a}^{b} f(x)\\,dx' },
+   { label: 'Matrix', latex: '\\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix}' }
+];
+
+// Rendered formula, or why it can't be rendered
+export const MathPreview: React.FC<MathPreviewProps> = ({ latex, display = false }) => {
+   const result = useMemo(() => renderMath(latex, { size: 20, display }), [latex, display]);
+
+   if (!latex.trim()) {
+      return <div className="min-h-16 border rounded-md bg-gray-50 flex items-center justify-center text-xs text-gray-400">Preview</div>;
+   }
+   if ('error' in result) {
+      return <div className="min-h-16 border border-red-200 rounded-md bg-red-50 px-3 py-2 text-xs text-red-600">{result.error}</div>;
+   }
+   return (
+      <div
+         className="min-h-16 border rounded-md bg-gray-50 p-2 flex items-center justify-center overflow-x-auto"
+         dangerouslySetInnerHTML={{ __html: result.svg }}
+      />
+   );
+};
+
+// LaTeX input for inline equations, with a live preview
+export const MathEditor: React.FC<MathEditorProps> = ({ latex: initialLatex = '', onSave, onClose }) => {
+   const [latex, setLatex] = useState(initialLatex);
+   const valid = useMemo(() => !('error' in renderMath(latex)), [latex]);
+
+   const insertExample = (example: string) => setLatex(current => current.trim() ? `${current} ${example}` : example);
+
+   const handleSave = () => {
+      if (latex.trim() && !valid) return;
+      onSave(latex.trim());
+   };
+
+   return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+         <div className="bg-white rounded-lg shadow-xl w-[560px] max-w-[95vw] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-5 py-4 border-b">
+               <div className="text-lg font-medium">{initialLatex ? 'Edit Equation' : 'Insert Equation'}</div>
+               <button onClick={onClose} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Close">
+                  <X size={18} />
+               </button>
+            </div>
+
+            <div className="p-5 space-y-3">
+               <textarea
+                  autoFocus
+                  value={latex}
+                  onChange={(e) => setLatex(e.target.value)}
+                  onKeyDown={(e) => {
+                     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSave();
+                  }}
+                  placeholder="E = mc^2"
+                  rows={3}
+                  spellCheck={false}
+                  className="w-full px-3 py-2 border rounded-md text-sm font-mono"
+               />
+               <div className="flex flex-wrap gap-1.5">
+                  {EXAMPLES.map(example => (
+                     <button
+                        key={example.label}
+                        onClick={() => insertExample(example.latex)}
+                        className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-xs"
+                        title={example.latex}
+                     >
+                        {example.label}
+                     </button>
+                  ))}
+               </div>
+               <MathPreview latex={latex} />
+               <div className="text-xs text-gray-500">
+                  LaTeX math - double-click the equation in the document to edit it again
+               </div>
+            </div>
+
+            <div className="flex justify-end gap-2 px-5 py-4 border-t">
+               {initialLatex && (
+                  <button onClick={() => onSave('')} className="mr-auto px-4 py-2 text-red-600 hover:bg-red-50 rounded text-sm">
+                     Remove
+                  </button>
+               )}
+               <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded text-sm">
+                  Cancel
+               </button>
+               <button
+                  onClick={handleSave}
+                  disabled={!latex.trim() || !valid}
+                  className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 text-sm"
+               >
+                  {initialLatex ? 'Update' : 'Insert'}
+               </button>
+            </div>
+         </div>
+      </div>
+   );
+};
+
+export default MathEditor;
@@ -1,18 +1,27 @@
 import { useEffect, useState } from "react";
 import { PAGE_PRESETS } from "./data";
-import { Height, EditorPage, PagePreset, Width } from "./type";
+import { Height, EditorPage, NotePlacement, PagePreset, Width } from "./type";
 import { ArrowLeftRight, ChevronDown, FileText } from "lucide-react";
 
 export type PageSizeSettingsProps = {
    currentPage: EditorPage;
    onChangeSize: ({ width, height }: { width: Width; height: Height }) => void;
+   notePlacement?: NotePlacement;
+   onChangeNotePlacement?: (placement: NotePlacement) => void;
 }
 
+const NOTE_PLACEMENTS: { label: string; value: NotePlacement }[] = [
+   { label: 'Page bottom', value: 'footnotes' },
+   { label: 'Document end', value: 'endnotes' }
+];
+
 export const defaultPagePreset = PAGE_PRESETS.find(p => p.default) || PAGE_PRESETS[0];
 
 export const PageSizeSettings: React.FC<PageSizeSettingsProps> = ({
    currentPage,
    onChangeSize,
+   notePlacement = 'footnotes',
+   onChangeNotePlacement,
 }) => {
    const [isOpen, setIsOpen] = useState(false);
    const [customWidth, setCustomWidth] = useState<Width>(defaultPagePreset?.width);
@@ -146,6 +155,24 @@ export const PageSizeSettings: React.FC<PageSizeSettingsProps> = ({
                         Apply Size
                      </button>
                   </div>
+
+                  {/* Footnote placement */}
+                  {onChangeNotePlacement && (
+                     <div className="p-3 border-t">
+                        <div className="text-xs font-medium text-gray-500 mb-2">Footnotes</div>
+                        <div className="flex gap-1">
+                           {NOTE_PLACEMENTS.map(({ label, value }) => (
+                              <button
+                                 key={value}
+                                 onClick={() => onChangeNotePlacement(value)}
+                                 className={`flex-1 px-2 py-1.5 text-sm rounded border ${notePlacement === value ? 'bg-green-50 border-green-500 text-green-700' : 'text-gray-700 hover:bg-gray-100'}`}
+                              >
+                                 {label}
+                              </button>
+                           ))}
+                        </div>
+                     </div>
+                  )}
                </div>
             </>
          )}
@@ -3,6 +3,7 @@ import {
    AlignJustify,
    AlignLeft,
    AlignRight,
+   Asterisk,
    Bold,
    Indent,
    Italic,
@@ -20,7 +21,8 @@ import {
    Plus,
    Minus,
    Columns2Icon,
-   Rows2Icon
+   Rows2Icon,
+   Sigma
 } from "lucide-react";
 import { useRef, useEffect, useState } from "react";
 import { RICH_TOOLBAR_FONT_FAMILIES, RICH_TOOLBAR_FONT_SIZES } from "../data";
@@ -38,6 +40,7 @@ export type RichTextToolbarProps = {
    onDeleteTableColumn?: () => void;
    onDeleteTable?: () => void;
    onOpenTableResize?: () => void;
+   onInsertEquation?: () => void; // Opens the LaTeX editor - the equation goes at the caret
 }
 
 export default function RichTextToolbar({
@@ -50,7 +53,8 @@ export default function RichTextToolbar({
    onDeleteTableRow,
    onDeleteTableColumn,
    onDeleteTable,
-   onOpenTableResize
+   onOpenTableResize,
+   onInsertEquation
 }: RichTextToolbarProps) {
    const [fontSize, setFontSize] = useState('16px');
    const [fontFamily, setFontFamily] = useState('Arial');
@@ -215,6 +219,34 @@ export default function RichTextToolbar({
             <Unlink size={16} />
          </button>
 
+         <div className="w-px h-6 bg-gray-300 mx-1" />
+
+         <button
+            onMouseDown={(e) => {
+               e.preventDefault();
+               const text = prompt('Footnote text:');
+               if (text?.trim()) {
+                  onFormat('insertFootnote', text.trim());
+               }
+            }}
+            className="p-2 hover:bg-gray-100 rounded"
+            title="Insert Footnote"
+         >
+            <Asterisk size={16} />
+         </button>
+         {onInsertEquation && (
+            <button
+               onMouseDown={(e) => {
+                  e.preventDefault();
+                  onInsertEquation();
+               }}
+               className="p-2 hover:bg-gray-100 rounded"
+               title="Insert Equation"
+            >
+               <Sigma size={16} />
+            </button>
+         )}
+
          {/* Table Edit Options - only show when table/cell is selected */}
          {(elementInfo?.isTable || elementInfo?.isTableCell || elementInfo?.tableElement) && (
             <>
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { ImageUp, Package, RotateCcw, X } from "lucide-react";
+import { DocumentModule } from "../type";
+
+export interface SaveModuleDialogProps {
+   defaultName: string;
+   snapshot: string; // Generated thumbnail of the selection
+   onSave: (module: Pick<DocumentModule, 'name' | 'thumbnail' | 'linked'>) => void;
+   onClose: () => void;
+}
+
+// "Save as module" dialog - name, thumbnail and whether dropped copies stay linked
+export const SaveModuleDialog: React.FC<SaveModuleDialogProps> = ({
+   defaultName,
+   snapshot,
+   onSave,
+   onClose
+}) => {
+   const [name, setName] = useState(defaultName);
+   const [thumbnail, setThumbnail] = useState(snapshot);
+   const [linked, setLinked] = useState(true);
+
+   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = () => setThumbnail(String(reader.result));
+      reader.onerror = () => console.error('Failed to read thumbnail', reader.error);
+      reader.readAsDataURL(file);
+      e.target.value = '';
+   };
+
+   const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      const trimmed = name.trim();
+      if (trimmed) onSave({ name: trimmed, thumbnail, linked });
+   };
+
+   return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+         <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-[420px] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-5 py-4 border-b">
+               <div className="text-lg font-medium">Save as Module</div>
+               <button type="button" onClick={onClose} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Close">
+                  <X size={18} />
+               </button>
+            </div>
+
+            <div className="p-5 space-y-4">
+               <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                     autoFocus
+                     value={name}
+                     onChange={(e) => setName(e.target.value)}
+                     className="w-full px-3 py-2 border rounded-md text-sm"
+                  />
+               </div>
+
+               <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Thumbnail</label>
+                  <div className="h-32 border rounded-md bg-gray-50 flex items-center justify-center overflow-hidden">
+                     {thumbnail
+                        ? <div className="w-full h-full bg-contain bg-center bg-no-repeat" style={{ backgroundImage: `url("${thumbnail}")` }} />
+                        : <Package size={32} className="text-gray-300" />}
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                     <label className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 cursor-pointer text-sm">
+                        <ImageUp size={14} />
+                        Upload image
+                        <input type="file" accept="image/*" onChange={handleUpload} className="hidden" />
+                     </label>
+                     {thumbnail !== snapshot && (
+                        <button
+                           type="button"
+                           onClick={() => setThumbnail(snapshot)}
+                           className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 rounded hover:bg-gray-100 text-sm"
+                        >
+                           <RotateCcw size={14} />
+                           Use snapshot
+                        </button>
+                     )}
+                  </div>
+               </div>
+
+               <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={linked} onChange={(e) => setLinked(e.target.checked)} className="mt-0.5 rounded border-gray-300" />
+                  <span>
+                     Keep copies linked
+                     <span className="block text-xs text-gray-500">Updating the module updates it in every document that uses it</span>
+                  </span>
+               </label>
+            </div>
+
+            <div className="flex justify-end gap-2 px-5 py-4 border-t">
+               <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded text-sm">
+                  Cancel
+               </button>
+               <button
+                  type="submit"
+                  disabled={!name.trim()}
+                  className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 text-sm"
+               >
+                  Save module
+               </button>
+            </div>
+         </form>
+      </div>
+   );
+};
+
+export default SaveModuleDialog;
@@ -0,0 +1,44 @@
+import { AlertCircle, Check, Cloud, Loader2 } from "lucide-react";
+import { SaveStatus } from "./type";
+
+export type SaveStatusIndicatorProps = {
+   status: SaveStatus;
+   lastSavedAt: number | null;
+}
+
+export const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status, lastSavedAt }) => {
+   const savedTitle = lastSavedAt ? `Last saved ${new Date(lastSavedAt).toLocaleTimeString()}` : undefined;
+
+   switch (status) {
+      case 'saving':
+         return (
+            <span className="flex items-center gap-1 text-xs text-gray-500 px-2">
+               <Loader2 size={14} className="animate-spin" />
+               Saving...
+            </span>
+         );
+      case 'unsaved':
+         return (
+            <span className="flex items-center gap-1 text-xs text-gray-500 px-2" title={savedTitle}>
+               <Cloud size={14} />
+               Unsaved changes
+            </span>
+         );
+      case 'saved':
+         return (
+            <span className="flex items-center gap-1 text-xs text-green-600 px-2" title={savedTitle}>
+               <Check size={14} />
+               Saved
+            </span>
+         );
+      case 'error':
+         return (
+            <span className="flex items-center gap-1 text-xs text-red-600 px-2" title={savedTitle}>
+               <AlertCircle size={14} />
+               Save failed
+            </span>
+         );
+      default:
+         return null;
+   }
+};
@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, ImageUp, PenLine, Plus, Trash2 } from "lucide-react";
+import { BlockDefinition, BlockListItemValues, BlockPropSchema, BlockPropValues, BlockScalarPropSchema } from "../type";
+import { getBlockPropValues, getListItemValues } from "../blockRegistry";
+import { StyleInput } from "./StyleInput";
+import { SignaturePad } from "../SignaturePad";
+import { MathPreview } from "../MathEditor";
+import { CODE_INDENT } from "../highlight";
+
+type PropValue = BlockPropValues[string];
+type ScalarValue = string | number | boolean;
+type ListPropSchema = Extract<BlockPropSchema, { type: 'list' }>;
+
+export interface BlockPropsFormProps {
+   definition: BlockDefinition;
+   values?: Record<string, unknown>;
+   onChange: (name: string, value: PropValue) => void;
+}
+
+const INPUT_CLASS = "w-full px-3 py-2 border rounded-md text-sm";
+
+interface PropFieldProps {
+   name: string;
+   schema: BlockScalarPropSchema;
+   value: ScalarValue;
+   onChange: (name: string, value: ScalarValue) => void;
+}
+
+interface ImageFieldProps {
+   name: string;
+   schema: Extract<BlockScalarPropSchema, { type: 'image' }>;
+   value: string;
+   onChange: (name: string, value: string) => void;
+}
+
+// Image preview with upload and clear - signature fields can also be drawn or typed
+const ImageField: React.FC<ImageFieldProps> = ({ name, schema, value, onChange }) => {
+   const [showPad, setShowPad] = useState(false);
+
+   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = () => onChange(name, String(reader.result));
+      reader.onerror = () => console.error('Failed to read image', reader.error);
+      reader.readAsDataURL(file);
+      e.target.value = '';
+   };
+
+   return (
+      <div className="space-y-2">
+         <div className="h-20 border rounded-md bg-gray-50 flex items-center justify-center overflow-hidden">
+            {value
+               ? <div className="w-full h-full bg-contain bg-center bg-no-repeat" style={{ backgroundImage: `url("${value}")` }} />
+               : <span className="text-xs text-gray-400">No image</span>}
+         </div>
+         <div className="flex flex-wrap gap-2">
+            {schema.signature && (
+               <button
+                  onClick={() => setShowPad(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+               >
+                  <PenLine size={14} />
+                  Sign
+               </button>
+            )}
+            <label className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 cursor-pointer text-sm">
+               <ImageUp size={14} />
+               Upload
+               <input type="file" accept="image/*" onChange={handleUpload} className="hidden" />
+            </label>
+            {value && (
+               <button onClick={() => onChange(name, '')} className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 rounded hover:bg-gray-100 text-sm">
+                  <Trash2 size={14} />
+                  Clear
+               </button>
+            )}
+         </div>
+         {showPad && (
+            <SignaturePad
+               onSave={(image) => {
+                  onChange(name, image);
+                  setShowPad(false);
+               }}
+               onClose={() => setShowPad(false)}
+            />
+         )}
+      </div>
+   );
+};
+
+interface TextAreaFieldProps {
+   name: string;
+   schema: Extract<BlockScalarPropSchema, { type: 'textarea' }>;
+   value: string;
+   onChange: (name: string, value: string) => void;
+}
+
+// LaTeX source with the formula rendered as it's typed - committed on blur like other text areas
+const LatexField: React.FC<TextAreaFieldProps> = ({ name, schema, value, onChange }) => {
+   const [draft, setDraft] = useState(value);
+   const [prevValue, setPrevValue] = useState(value);
+
+   // Reset when the value changes outside the field (undo, another block selected)
+   if (value !== prevValue) {
+      setPrevValue(value);
+      setDraft(value);
+   }
+
+   return (
+      <div className="space-y-2">
+         <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => draft !== value && onChange(name, draft)}
+            placeholder={schema.placeholder}
+            rows={4}
+            spellCheck={false}
+            className={`${INPUT_CLASS} font-mono`}
+         />
+         <MathPreview latex={draft} display />
+      </div>
+   );
+};
+
+// Monospace source - Tab indents at the caret, Shift+Tab outdents the line
+const CodeField: React.FC<TextAreaFieldProps> = ({ name, schema, value, onChange }) => {
+   const [draft, setDraft] = useState(value);
+   const [prevValue, setPrevValue] = useState(value);
+
+   if (value !== prevValue) {
+      setPrevValue(value);
+      setDraft(value);
+   }
+
+   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key !== 'Tab') return;
+
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      const lineStart = draft.lastIndexOf('\n', selectionStart - 1) + 1;
+
+      if (e.shiftKey) {
+         if (!draft.startsWith(CODE_INDENT, lineStart)) return;
+         setDraft(draft.slice(0, lineStart) + draft.slice(lineStart + CODE_INDENT.length));
+         requestAnimationFrame(() => textarea.setSelectionRange(selectionStart - CODE_INDENT.length, selectionEnd - CODE_INDENT.length));
+      } else {
+         setDraft(draft.slice(0, selectionStart) + CODE_INDENT + draft.slice(selectionEnd));
+         requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + CODE_INDENT.length, selectionStart + CODE_INDENT.length));
+      }
+   };
+
+   return (
+      <textarea
+         value={draft}
+         onChange={(e) => setDraft(e.target.value)}
+         onKeyDown={handleKeyDown}
+         onBlur={() => draft !== value && onChange(name, draft)}
+         placeholder={schema.placeholder}
+         rows={10}
+         wrap="off"
+         spellCheck={false}
+         className={`${INPUT_CLASS} font-mono text-xs`}
+      />
+   );
+};
+
+const PropField: React.FC<PropFieldProps> = ({ name, schema, value, onChange }) => {
+   switch (schema.type) {
+      case 'image':
+         return <ImageField name={name} schema={schema} value={String(value)} onChange={onChange} />;
+      case 'boolean':
+         return (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+               <input
+                  type="checkbox"
+                  checked={value === true}
+                  onChange={(e) => onChange(name, e.target.checked)}
+                  className="rounded border-gray-300"
+               />
+               {schema.label}
+            </label>
+         );
+      case 'select':
+         return (
+            <select value={String(value)} onChange={(e) => onChange(name, e.target.value)} className={INPUT_CLASS}>
+               {schema.options.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+               ))}
+            </select>
+         );
+      case 'color':
+         return (
+            <div className="flex items-center gap-2">
+               <input
+                  type="color"
+                  value={String(value) || '#000000'}
+                  onChange={(e) => onChange(name, e.target.value)}
+                  className="w-10 h-10 rounded border cursor-pointer"
+               />
+               <StyleInput
+                  value={String(value)}
+                  onBlur={(v) => onChange(name, v)}
+                  delay={500}
+                  className="flex-1 px-3 py-2 border rounded-md text-sm"
+               />
+            </div>
+         );
+      case 'textarea':
+         if (schema.latex) return <LatexField name={name} schema={schema} value={String(value)} onChange={onChange} />;
+         if (schema.code) return <CodeField name={name} schema={schema} value={String(value)} onChange={onChange} />;
+         return (
+            <textarea
+               key={String(value)} // Reset when the value changes outside the field
+               defaultValue={String(value)}
+               onBlur={(e) => e.target.value !== value && onChange(name, e.target.value)}
+               placeholder={schema.placeholder}
+               rows={4}
+               className={INPUT_CLASS}
+            />
+         );
+      case 'number':
+         return (
+            <StyleInput
+               type="number"
+               value={String(value)}
+               onChange={(v) => onChange(name, parseFloat(v))}
+               onBlur={(v) => onChange(name, parseFloat(v))}
+               delay={500}
+               className={INPUT_CLASS}
+            />
+         );
+      default:
+         return (
+            <StyleInput
+               type={schema.type === 'url' ? 'url' : schema.type === 'datetime' ? 'datetime-local' : schema.type === 'date' ? 'date' : 'text'}
+               value={String(value)}
+               onChange={(v) => onChange(name, v)}
+               onBlur={(v) => onChange(name, v)}
+               placeholder={schema.placeholder}
+               delay={500}
+               className={INPUT_CLASS}
+            />
+         );
+   }
+};
+
+interface ListFieldProps {
+   name: string;
+   schema: ListPropSchema;
+   items: BlockListItemValues[];
+   onChange: (name: string, items: BlockListItemValues[]) => void;
+}
+
+const getItemTitle = (schema: ListPropSchema, item: BlockListItemValues, index: number): string => {
+   const titleSchema = schema.itemTitle ? schema.item[schema.itemTitle] : undefined;
+   const value = schema.itemTitle ? String(item[schema.itemTitle] ?? '') : '';
+   const title = titleSchema?.type === 'select' ? titleSchema.options.find(option => option.value === value)?.label : value;
+   return title || `Item ${index + 1}`;
+};
+
+// Items with their fields - added, removed and moved up or down
+const ListField: React.FC<ListFieldProps> = ({ name, schema, items, onChange }) => {
+   const move = (index: number, offset: number) => {
+      const next = [...items];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      onChange(name, next);
+   };
+
+   const updateItem = (index: number, field: string, value: ScalarValue) => {
+      if (typeof value === 'number' && !Number.isFinite(value)) return;
+      if (items[index][field] === value) return;
+      onChange(name, items.map((item, i) => i === index ? { ...item, [field]: value } : item));
+   };
+
+   return (
+      <div className="space-y-2">
+         {items.map((item, index) => (
+            <div key={index} className="border rounded-md bg-gray-50">
+               <div className="flex items-center gap-1 px-2 py-1.5 border-b">
+                  <span className="flex-1 text-xs font-medium text-gray-600 truncate">{getItemTitle(schema, item, index)}</span>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 disabled:opacity-30" title="Move up">
+                     <ChevronUp size={14} />
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={index === items.length - 1} className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 disabled:opacity-30" title="Move down">
+                     <ChevronDown size={14} />
+                  </button>
+                  <button onClick={() => onChange(name, items.filter((_, i) => i !== index))} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title="Remove">
+                     <Trash2 size={14} />
+                  </button>
+               </div>
+               <div className="p-2 space-y-2">
+                  {Object.entries(schema.item).map(([field, fieldSchema]) => (
+                     <div key={field}>
+                        {fieldSchema.type !== 'boolean' && (
+                           <label className="block text-xs text-gray-600 mb-1">{fieldSchema.label}</label>
+                        )}
+                        <PropField name={field} schema={fieldSchema} value={item[field]} onChange={(f, v) => updateItem(index, f, v)} />
+                        {fieldSchema.help && <p className="mt-1 text-xs text-gray-500">{fieldSchema.help}</p>}
+                     </div>
+                  ))}
+               </div>
+            </div>
+         ))}
+         <button
+            onClick={() => onChange(name, [...items, getListItemValues(schema.item, {})])}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+         >
+            <Plus size={14} />
+            {schema.addLabel ?? 'Add item'}
+         </button>
+      </div>
+   );
+};
+
+/**
+ * BlockPropsForm - Settings form generated from a registered block's props schema
+ */
+export const BlockPropsForm: React.FC<BlockPropsFormProps> = ({ definition, values, onChange }) => {
+   const current = getBlockPropValues(definition, values);
+
+   // Skip changes that don't alter the value - blur fires after every debounced edit
+   const handleChange = (name: string, value: PropValue) => {
+      if (typeof value === 'number' && !Number.isFinite(value)) return;
+      if (current[name] !== value) onChange(name, value);
+   };
+
+   return (
+      <div className="space-y-4">
+         {Object.entries(definition.props ?? {}).map(([name, schema]) => (
+            <div key={name}>
+               {schema.type !== 'boolean' && (
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{schema.label}</label>
+               )}
+               {schema.type === 'list'
+                  ? <ListField name={name} schema={schema} items={current[name] as BlockListItemValues[]} onChange={handleChange} />
+                  : <PropField name={name} schema={schema} value={current[name] as ScalarValue} onChange={handleChange} />}
+               {schema.help && <p className="mt-1 text-xs text-gray-500">{schema.help}</p>}
+            </div>
+         ))}
+      </div>
+   );
+};
+
+export default BlockPropsForm;
@@ -0,0 +1,126 @@
+import { useMemo, useRef, useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { sanitizeHtml } from "../htmlSanitizer";
+
+interface HtmlCodeEditorProps {
+   value: string; // Current markup of the HTML block
+   onApply: (html: string) => void; // Receives the sanitized markup
+}
+
+const INDENT = '  ';
+
+// Code editor for raw HTML blocks - line numbers, Tab indentation and a sandboxed preview of the sanitized result
+export const HtmlCodeEditor: React.FC<HtmlCodeEditorProps> = ({ value, onApply }) => {
+   const [draft, setDraft] = useState(value);
+   const [prevValue, setPrevValue] = useState(value);
+   const gutterRef = useRef<HTMLPreElement>(null);
+
+   // The block changed from outside (undo, another selection) - drop the draft
+   if (value !== prevValue) {
+      setPrevValue(value);
+      setDraft(value);
+   }
+
+   const sanitized = useMemo(() => sanitizeHtml(draft), [draft]);
+   const lineCount = draft.split('\n').length;
+   const isDirty = draft !== value;
+
+   const apply = () => {
+      if (isDirty) onApply(sanitized.html);
+   };
+
+   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+         e.preventDefault();
+         apply();
+         return;
+      }
+      if (e.key !== 'Tab') return;
+
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      const lineStart = draft.lastIndexOf('\n', selectionStart - 1) + 1;
+
+      // Shift+Tab outdents the current line, Tab indents at the caret
+      if (e.shiftKey) {
+         if (!draft.startsWith(INDENT, lineStart)) return;
+         setDraft(draft.slice(0, lineStart) + draft.slice(lineStart + INDENT.length));
+         requestAnimationFrame(() => textarea.setSelectionRange(selectionStart - INDENT.length, selectionEnd - INDENT.length));
+      } else {
+         setDraft(draft.slice(0, selectionStart) + INDENT + draft.slice(selectionEnd));
+         requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+      }
+   };
+
+   const previewDocument = `<!DOCTYPE html><html><head><meta charset="UTF-8"><base target="_blank">`
+      + `<style>body { margin: 8px; font-family: system-ui, sans-serif; font-size: 14px; } img { max-width: 100%; }</style>`
+      + `</head><body>${sanitized.html}</body></html>`;
+
+   return (
+      <div className="space-y-3">
+         <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">HTML Content</label>
+            <div className="flex border rounded-md overflow-hidden font-mono text-xs bg-white focus-within:ring-2 focus-within:ring-green-500">
+               <pre
+                  ref={gutterRef}
+                  aria-hidden
+                  className="py-2 px-2 text-right text-gray-400 bg-gray-50 border-r select-none overflow-hidden leading-5 m-0"
+               >
+                  {Array.from({ length: lineCount }, (_, index) => index + 1).join('\n')}
+               </pre>
+               <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  onScroll={(e) => {
+                     if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+                  }}
+                  spellCheck={false}
+                  wrap="off"
+                  rows={12}
+                  className="flex-1 py-2 px-2 leading-5 resize-y outline-none whitespace-pre"
+                  placeholder="<div>Paste a snippet or write markup...</div>"
+               />
+            </div>
+            <div className="text-xs text-gray-500 mt-1">Ctrl+Enter applies the changes</div>
+         </div>
+
+         {sanitized.removed.length > 0 && (
+            <div className="flex gap-2 p-2 rounded border border-amber-200 bg-amber-50 text-xs text-amber-800">
+               <ShieldAlert size={14} className="shrink-0 mt-0.5" />
+               <span>Removed for safety: {sanitized.removed.join(', ')}</span>
+            </div>
+         )}
+
+         <div className="flex justify-end gap-2">
+            <button
+               onClick={() => setDraft(value)}
+               disabled={!isDirty}
+               className="px-3 py-1.5 text-gray-600 hover:bg-gray-100 rounded text-sm disabled:opacity-50"
+            >
+               Revert
+            </button>
+            <button
+               onClick={apply}
+               disabled={!isDirty}
+               className="px-3 py-1.5 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 text-sm"
+            >
+               Apply
+            </button>
+         </div>
+
+         <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Preview</label>
+            <iframe
+               title="HTML block preview"
+               sandbox=""
+               srcDoc={previewDocument}
+               className="w-full h-48 border rounded-md bg-white"
+            />
+         </div>
+      </div>
+   );
+};
+
+export default HtmlCodeEditor;
@@ -1,7 +1,9 @@
-import { ChevronRight, Copy, Trash2, X } from "lucide-react";
-import { ElementInfo } from "../type";
+import { ChevronRight, Copy, Link2, Package, RefreshCw, Trash2, Unlink, X } from "lucide-react";
+import { BlockDefinition, ElementInfo } from "../type";
 import { useState, useMemo } from "react";
 import { StyleInput } from "./StyleInput";
+import { BlockPropsForm } from "./BlockPropsForm";
+import { HtmlCodeEditor } from "./HtmlCodeEditor";
 
 // Helper functions for color conversion
 const rgbToHex = (rgb: string): string => {
@@ -41,13 +43,19 @@ const parseColorToHex = (color: string): string => {
 interface SettingsPanelProps {
    elementInfo: ElementInfo | null;
    elementKey: string; // Changes when different element is selected
+   blockDefinition?: BlockDefinition | null; // Registered block of the selection - its props schema becomes the Content form
    onUpdateContent: (value: string, isHtml?: boolean) => void;
    onUpdateStyle: (prop: string, value: string, livePreview?: boolean) => void;
    onUpdateAttribute: (attr: string, value: string) => void;
    onUpdateInlineLink: (index: number, href: string) => void;
    onRemoveInlineLink: (index: number) => void;
    onUpdateCustomCss: (css: string) => void;
+   onUpdateBlockProps?: (values: Record<string, unknown>) => void;
    onCommitChanges: () => void; // Save history and sync HTML after live preview
+   linkedModuleName?: string | null; // Module the selection is a linked copy of
+   onSaveAsModule?: () => void; // Omitted when the storage has no module library
+   onUpdateModule?: () => void;
+   onUnlinkModule?: () => void;
    onDelete: () => void;
    onDuplicate: () => void;
    onClose: () => void;
@@ -56,13 +64,19 @@ interface SettingsPanelProps {
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
    elementInfo,
    elementKey,
+   blockDefinition,
    onUpdateContent,
    onUpdateStyle,
    onUpdateAttribute,
    onUpdateInlineLink,
    onRemoveInlineLink,
    onUpdateCustomCss,
+   onUpdateBlockProps,
    onCommitChanges,
+   linkedModuleName,
+   onSaveAsModule,
+   onUpdateModule,
+   onUnlinkModule,
    onDelete,
    onDuplicate,
    onClose,
@@ -77,7 +91,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
    if (!elementInfo) return null;
 
-   const showContentEditor = elementInfo.isHtmlBlock || elementInfo.tag === 'img';
+   const hasBlockProps = !!blockDefinition?.props && !!elementInfo.blockProps;
+   const showContentEditor = elementInfo.isHtmlBlock || elementInfo.tag === 'img' || hasBlockProps;
 
    return (
       <div className="flex flex-col h-full">
@@ -86,7 +101,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
                   <ChevronRight size={18} />
                </button>
-               <span className="font-medium capitalize">{elementInfo.isHtmlBlock ? 'HTML Block' : elementInfo.tag.toUpperCase()}</span>
+               <span className="font-medium capitalize">{hasBlockProps ? blockDefinition?.label : elementInfo.isHtmlBlock ? 'HTML Block' : elementInfo.tag.toUpperCase()}</span>
             </div>
          </div>
 
@@ -114,18 +129,22 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
          <div className="flex-1 overflow-y-auto p-4">
             {activeTab === 'content' && (
                <div className="space-y-4">
-                  {/* HTML Block - show content editor in sidebar */}
+                  {/* Registered block - form generated from its props schema */}
+                  {hasBlockProps && blockDefinition && (
+                     <BlockPropsForm
+                        definition={blockDefinition}
+                        values={elementInfo.blockProps}
+                        onChange={(name, value) => onUpdateBlockProps?.({ [name]: value })}
+                     />
+                  )}
+
+                  {/* HTML Block - code editor, applied after sanitizing */}
                   {elementInfo.isHtmlBlock && (
-                     <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">HTML Content</label>
-                        <textarea
-                           value={elementInfo.innerHTML || ''}
-                           onChange={(e) => onUpdateContent(e.target.value, true)}
-                           className="w-full px-3 py-2 border rounded-md text-sm font-mono"
-                           rows={8}
-                           placeholder="Enter HTML content..."
-                        />
-                     </div>
+                     <HtmlCodeEditor
+                        key={elementKey}
+                        value={elementInfo.innerHTML || ''}
+                        onApply={(html) => onUpdateContent(html, true)}
+                     />
                   )}
 
                   {/* Image settings */}
@@ -166,7 +185,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   )}
 
                   {/* Inline Links */}
-                  {elementInfo.inlineLinks && elementInfo.inlineLinks.length > 0 && (
+                  {!hasBlockProps && elementInfo.inlineLinks && elementInfo.inlineLinks.length > 0 && (
                      <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">Links in this element</label>
                         <div className="space-y-3">
@@ -435,10 +454,13 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                      <label className="block text-sm font-medium text-gray-700 mb-2">CSS ID</label>
                      <input
                         type="text"
+                        key={`${elementKey}-id`}
+                        defaultValue={elementInfo.id}
                         onChange={(e) => onUpdateAttribute('id', e.target.value)}
                         placeholder="my-element-id"
                         className="w-full px-2 py-1 border rounded text-sm"
                      />
+                     <p className="text-xs text-gray-500 mt-1">Also an anchor - menu links to #my-element-id jump here</p>
                   </div>
 
                   <div>
@@ -457,6 +479,45 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
          </div>
 
          <div className="p-4 border-t space-y-2">
+            {linkedModuleName && (
+               <div className="p-3 rounded-md bg-green-50 border border-green-200 space-y-2">
+                  <div className="flex items-center gap-1.5 text-sm text-green-700">
+                     <Link2 size={14} className="shrink-0" />
+                     <span className="truncate">Linked to &quot;{linkedModuleName}&quot;</span>
+                  </div>
+                  <div className="flex gap-2">
+                     {onUpdateModule && (
+                        <button
+                           onClick={onUpdateModule}
+                           className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 bg-white border rounded text-xs text-gray-700 hover:bg-gray-50"
+                           title="Use this copy as the module - every linked copy is updated"
+                        >
+                           <RefreshCw size={12} />
+                           Update module
+                        </button>
+                     )}
+                     {onUnlinkModule && (
+                        <button
+                           onClick={onUnlinkModule}
+                           className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 bg-white border rounded text-xs text-gray-700 hover:bg-gray-50"
+                           title="Keep this copy as it is, independent of the module"
+                        >
+                           <Unlink size={12} />
+                           Unlink
+                        </button>
+                     )}
+                  </div>
+               </div>
+            )}
+            {onSaveAsModule && (
+               <button
+                  onClick={onSaveAsModule}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+               >
+                  <Package size={16} />
+                  Save as Module
+               </button>
+            )}
             <button
                onClick={onDuplicate}
                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
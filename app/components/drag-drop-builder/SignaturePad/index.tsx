@@ -0,0 +1,254 @@
+import { useRef, useState } from "react";
+import { Eraser, ImageUp, PenLine, Type, X } from "lucide-react";
+
+export interface SignaturePadProps {
+   signerName?: string; // Prefills the typed signature
+   onSave: (image: string) => void; // PNG data URL
+   onClose: () => void;
+}
+
+type SignatureMode = 'draw' | 'type' | 'upload';
+
+// Output size - wide enough for a crisp PDF, small enough to keep documents light
+const PAD_WIDTH = 600;
+const PAD_HEIGHT = 200;
+
+const SCRIPT_FONTS = [
+   { label: 'Brush', value: "'Brush Script MT', 'Segoe Script', cursive" },
+   { label: 'Handwriting', value: "'Lucida Handwriting', 'Segoe Script', cursive" },
+   { label: 'Casual', value: "'Comic Sans MS', 'Segoe Print', cursive" }
+];
+
+const MODES: { id: SignatureMode; label: string; icon: React.ReactNode }[] = [
+   { id: 'draw', label: 'Draw', icon: <PenLine size={14} /> },
+   { id: 'type', label: 'Type', icon: <Type size={14} /> },
+   { id: 'upload', label: 'Upload', icon: <ImageUp size={14} /> }
+];
+
+// Typed name drawn in a script font, as large as fits
+const renderTypedSignature = (text: string, font: string): string => {
+   const canvas = window.document.createElement('canvas');
+   canvas.width = PAD_WIDTH;
+   canvas.height = PAD_HEIGHT;
+   const context = canvas.getContext('2d');
+   if (!context) return '';
+
+   let size = 96;
+   context.font = `${size}px ${font}`;
+   while (size > 24 && context.measureText(text).width > PAD_WIDTH - 40) {
+      size -= 4;
+      context.font = `${size}px ${font}`;
+   }
+   context.fillStyle = '#111827';
+   context.textAlign = 'center';
+   context.textBaseline = 'middle';
+   context.fillText(text, PAD_WIDTH / 2, PAD_HEIGHT / 2);
+   return canvas.toDataURL('image/png');
+};
+
+// Uploads are redrawn at most pad-sized - a phone photo would bloat the document
+const normalizeUpload = (source: string): Promise<string> => new Promise((resolve, reject) => {
+   const image = new Image();
+   image.onload = () => {
+      const scale = Math.min(1, PAD_WIDTH / image.width, PAD_HEIGHT / image.height);
+      const canvas = window.document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+   };
+   image.onerror = () => reject(new Error('Not an image'));
+   image.src = source;
+});
+
+// Signature capture - draw with mouse, pen or finger, type a name, or upload an image
+export const SignaturePad: React.FC<SignaturePadProps> = ({ signerName = '', onSave, onClose }) => {
+   const [mode, setMode] = useState<SignatureMode>('draw');
+   const [hasStrokes, setHasStrokes] = useState(false);
+   const [typedName, setTypedName] = useState(signerName);
+   const [font, setFont] = useState(SCRIPT_FONTS[0].value);
+   const [upload, setUpload] = useState('');
+   const canvasRef = useRef<HTMLCanvasElement>(null);
+   const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+   // Pointer position in canvas pixels - the canvas is scaled down by CSS
+   const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      return {
+         x: (e.clientX - rect.left) * (PAD_WIDTH / rect.width),
+         y: (e.clientY - rect.top) * (PAD_HEIGHT / rect.height)
+      };
+   };
+
+   const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      lastPointRef.current = getPoint(e);
+   };
+
+   const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const last = lastPointRef.current;
+      const context = e.currentTarget.getContext('2d');
+      if (!last || !context) return;
+
+      const point = getPoint(e);
+      context.strokeStyle = '#111827';
+      context.lineWidth = 3;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.beginPath();
+      context.moveTo(last.x, last.y);
+      context.lineTo(point.x, point.y);
+      context.stroke();
+      lastPointRef.current = point;
+      if (!hasStrokes) setHasStrokes(true);
+   };
+
+   const handlePointerUp = () => {
+      lastPointRef.current = null;
+   };
+
+   const clearPad = () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      setHasStrokes(false);
+   };
+
+   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = () => {
+         normalizeUpload(String(reader.result))
+            .then(setUpload)
+            .catch(error => console.error('Failed to read signature image', error));
+      };
+      reader.onerror = () => console.error('Failed to read signature image', reader.error);
+      reader.readAsDataURL(file);
+      e.target.value = '';
+   };
+
+   const canSave = mode === 'draw' ? hasStrokes : mode === 'type' ? typedName.trim() !== '' : upload !== '';
+
+   const handleSave = () => {
+      if (!canSave) return;
+      if (mode === 'draw') {
+         const canvas = canvasRef.current;
+         if (canvas) onSave(canvas.toDataURL('image/png'));
+      } else if (mode === 'type') {
+         const image = renderTypedSignature(typedName.trim(), font);
+         if (image) onSave(image);
+      } else {
+         onSave(upload);
+      }
+   };
+
+   return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+         <div className="bg-white rounded-lg shadow-xl w-[560px] max-w-[95vw] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-5 py-4 border-b">
+               <div className="text-lg font-medium">Sign</div>
+               <button onClick={onClose} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Close">
+                  <X size={18} />
+               </button>
+            </div>
+
+            <div className="flex border-b">
+               {MODES.map(({ id, label, icon }) => (
+                  <button
+                     key={id}
+                     onClick={() => {
+                        if (id === mode) return;
+                        setMode(id);
+                        setHasStrokes(false); // The pad is remounted empty
+                     }}
+                     className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-sm ${mode === id ? 'border-b-2 border-green-500 text-green-600' : 'text-gray-500'}`}
+                  >
+                     {icon}
+                     {label}
+                  </button>
+               ))}
+            </div>
+
+            <div className="p-5 space-y-3">
+               {mode === 'draw' && (
+                  <>
+                     <canvas
+                        ref={canvasRef}
+                        width={PAD_WIDTH}
+                        height={PAD_HEIGHT}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        className="w-full aspect-[3/1] border rounded-md bg-gray-50 cursor-crosshair touch-none"
+                     />
+                     <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>Sign with your mouse, pen or finger</span>
+                        <button onClick={clearPad} disabled={!hasStrokes} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-50">
+                           <Eraser size={12} />
+                           Clear
+                        </button>
+                     </div>
+                  </>
+               )}
+
+               {mode === 'type' && (
+                  <>
+                     <input
+                        autoFocus
+                        value={typedName}
+                        onChange={(e) => setTypedName(e.target.value)}
+                        placeholder="Your full name"
+                        className="w-full px-3 py-2 border rounded-md text-sm"
+                     />
+                     <div className="grid grid-cols-3 gap-2">
+                        {SCRIPT_FONTS.map(option => (
+                           <button
+                              key={option.label}
+                              onClick={() => setFont(option.value)}
+                              className={`h-16 px-2 border rounded-md text-2xl truncate ${font === option.value ? 'border-green-500 bg-green-50' : 'hover:bg-gray-50'}`}
+                              style={{ fontFamily: option.value }}
+                              title={option.label}
+                           >
+                              {typedName.trim() || 'Signature'}
+                           </button>
+                        ))}
+                     </div>
+                  </>
+               )}
+
+               {mode === 'upload' && (
+                  <>
+                     <div className="aspect-[3/1] border rounded-md bg-gray-50 flex items-center justify-center overflow-hidden">
+                        {upload
+                           ? <div className="w-full h-full bg-contain bg-center bg-no-repeat" style={{ backgroundImage: `url("${upload}")` }} />
+                           : <span className="text-sm text-gray-400">PNG or JPEG of your signature, ideally on a transparent or white background</span>}
+                     </div>
+                     <label className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 cursor-pointer text-sm">
+                        <ImageUp size={14} />
+                        Choose image
+                        <input type="file" accept="image/png,image/jpeg,image/gif,image/webp" onChange={handleUpload} className="hidden" />
+                     </label>
+                  </>
+               )}
+            </div>
+
+            <div className="flex justify-end gap-2 px-5 py-4 border-t">
+               <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded text-sm">
+                  Cancel
+               </button>
+               <button
+                  onClick={handleSave}
+                  disabled={!canSave}
+                  className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 text-sm"
+               >
+                  Apply signature
+               </button>
+            </div>
+         </div>
+      </div>
+   );
+};
+
+export default SignaturePad;
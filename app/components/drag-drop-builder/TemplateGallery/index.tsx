@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { Award, BookmarkPlus, Briefcase, FilePlus, FileText, Newspaper, Receipt, Search, ShieldCheck, Trash2, X } from "lucide-react";
+import { DocumentTemplate } from "../type";
+import { PAGE_PRESETS } from "../data";
+import { searchTemplates, TEMPLATE_CATEGORIES } from "../templates";
+import { NewTemplate } from "../hooks";
+
+export interface TemplateGalleryProps {
+   templates: DocumentTemplate[]; // Starter and saved templates
+   currentDocumentName: string;
+   onSelect: (template: DocumentTemplate) => void;
+   onCreateBlank: () => void;
+   onSaveTemplate?: (template: NewTemplate) => void; // Omitted when the storage adapter has no templates
+   onDeleteTemplate?: (id: string) => void;
+   onClose: () => void;
+}
+
+const CATEGORY_ICONS: Record<string, React.ComponentType<{ size?: number; className?: string }>> = {
+   Finance: Receipt,
+   HR: Briefcase,
+   Legal: ShieldCheck,
+   Marketing: Newspaper,
+   Education: Award
+};
+
+const getPageSizeName = (template: DocumentTemplate) =>
+   PAGE_PRESETS.find(preset => preset.key === template.document.pageFormat)?.name ?? 'Custom size';
+
+// "New from template" gallery - searchable by name, description and merge fields, filtered by category
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+   templates,
+   currentDocumentName,
+   onSelect,
+   onCreateBlank,
+   onSaveTemplate,
+   onDeleteTemplate,
+   onClose
+}) => {
+   const [query, setQuery] = useState('');
+   const [category, setCategory] = useState<string | null>(null);
+   const [isSaving, setIsSaving] = useState(false);
+   const [draft, setDraft] = useState<NewTemplate>({ name: currentDocumentName, category: '', description: '' });
+
+   const categories = useMemo(
+      () => Array.from(new Set([...TEMPLATE_CATEGORIES, ...templates.map(template => template.category)])).filter(Boolean),
+      [templates]
+   );
+   const results = useMemo(() => searchTemplates(templates, query, category), [templates, query, category]);
+
+   const handleSave = (e: React.FormEvent) => {
+      e.preventDefault();
+      const name = draft.name.trim();
+      if (!name || !onSaveTemplate) return;
+      onSaveTemplate({ name, category: draft.category.trim() || 'Custom', description: draft.description.trim() });
+      setIsSaving(false);
+   };
+
+   return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+         <div className="bg-white rounded-lg shadow-xl w-[760px] max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-5 py-4 border-b">
+               <div className="text-lg font-medium">New from Template</div>
+               <div className="flex items-center gap-2">
+                  {onSaveTemplate && (
+                     <button
+                        onClick={() => setIsSaving(!isSaving)}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+                     >
+                        <BookmarkPlus size={16} />
+                        Save current as template
+                     </button>
+                  )}
+                  <button onClick={onClose} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Close">
+                     <X size={18} />
+                  </button>
+               </div>
+            </div>
+
+            {isSaving && onSaveTemplate && (
+               <form onSubmit={handleSave} className="px-5 py-4 border-b bg-gray-50 space-y-3">
+                  <div className="flex gap-3">
+                     <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                        <input
+                           autoFocus
+                           value={draft.name}
+                           onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                           className="w-full px-3 py-2 border rounded-md text-sm bg-white"
+                        />
+                     </div>
+                     <div className="w-48">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                        <input
+                           list="template-categories"
+                           value={draft.category}
+                           placeholder="Custom"
+                           onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                           className="w-full px-3 py-2 border rounded-md text-sm bg-white"
+                        />
+                        <datalist id="template-categories">
+                           {categories.map(name => <option key={name} value={name} />)}
+                        </datalist>
+                     </div>
+                  </div>
+                  <div>
+                     <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                     <input
+                        value={draft.description}
+                        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                        className="w-full px-3 py-2 border rounded-md text-sm bg-white"
+                     />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                     <button type="button" onClick={() => setIsSaving(false)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded text-sm">
+                        Cancel
+                     </button>
+                     <button
+                        type="submit"
+                        disabled={!draft.name.trim()}
+                        className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 text-sm"
+                     >
+                        Save template
+                     </button>
+                  </div>
+               </form>
+            )}
+
+            <div className="px-5 pt-4 space-y-3">
+               <div className="relative">
+                  <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                  <input
+                     value={query}
+                     onChange={(e) => setQuery(e.target.value)}
+                     placeholder="Search templates..."
+                     className="w-full pl-9 pr-3 py-2 border rounded-md text-sm"
+                  />
+               </div>
+               <div className="flex flex-wrap gap-2">
+                  {[null, ...categories].map(name => (
+                     <button
+                        key={name ?? 'all'}
+                        onClick={() => setCategory(name)}
+                        className={`px-3 py-1 rounded-full text-xs ${category === name ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                     >
+                        {name ?? 'All'}
+                     </button>
+                  ))}
+               </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 grid grid-cols-3 gap-3 content-start">
+               {!query && !category && (
+                  <button
+                     onClick={onCreateBlank}
+                     className="flex flex-col items-center justify-center gap-2 h-40 border-2 border-dashed rounded-lg text-gray-500 hover:border-green-500 hover:text-green-600"
+                  >
+                     <FilePlus size={28} />
+                     <span className="text-sm font-medium">Blank document</span>
+                  </button>
+               )}
+
+               {results.map((template) => {
+                  const Icon = CATEGORY_ICONS[template.category] ?? FileText;
+                  const fieldCount = template.document.mergeFields?.length ?? 0;
+                  return (
+                     <div
+                        key={template.id}
+                        onClick={() => onSelect(template)}
+                        className="group relative flex flex-col h-40 p-4 border rounded-lg cursor-pointer hover:border-green-500 hover:shadow-sm"
+                     >
+                        <div className="flex items-center gap-2 mb-2">
+                           <Icon size={20} className="text-green-600 shrink-0" />
+                           <div className="text-sm font-medium truncate">{template.name}</div>
+                        </div>
+                        <div className="text-xs text-gray-500 line-clamp-3 flex-1">{template.description}</div>
+                        <div className="flex items-center justify-between text-[11px] text-gray-400 mt-2">
+                           <span>{template.category}</span>
+                           <span>{getPageSizeName(template)}{fieldCount > 0 && ` · ${fieldCount} fields`}</span>
+                        </div>
+
+                        {!template.builtIn && onDeleteTemplate && (
+                           <button
+                              onClick={(e) => {
+                                 e.stopPropagation();
+                                 if (window.confirm(`Delete template "${template.name}"?`)) onDeleteTemplate(template.id);
+                              }}
+                              className="absolute top-2 right-2 p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 opacity-0 group-hover:opacity-100"
+                              title="Delete template"
+                           >
+                              <Trash2 size={14} />
+                           </button>
+                        )}
+                     </div>
+                  );
+               })}
+
+               {results.length === 0 && (
+                  <div className="col-span-3 text-sm text-gray-500 text-center py-8">No templates match your search</div>
+               )}
+            </div>
+         </div>
+      </div>
+   );
+};
+
+export default TemplateGallery;
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { ChevronRight, RotateCcw, Save, Trash2 } from "lucide-react";
+import { DocumentVersion, EditorDocument } from "../type";
+import { getDocumentBlocks } from "../blockTree";
+import { diffBlocks, renderDiffHtml, summarizeDiff } from "../versionDiff";
+
+const CURRENT_DOCUMENT = 'current';
+
+export interface VersionsPanelProps {
+   versions: DocumentVersion[];
+   currentDocument: EditorDocument;
+   onCreateVersion: (name: string) => void;
+   onRestoreVersion: (version: DocumentVersion) => void;
+   onDeleteVersion: (version: DocumentVersion) => void;
+   onClose: () => void;
+}
+
+// Side panel for saving, browsing, restoring and comparing named versions
+export const VersionsPanel: React.FC<VersionsPanelProps> = ({
+   versions,
+   currentDocument,
+   onCreateVersion,
+   onRestoreVersion,
+   onDeleteVersion,
+   onClose
+}) => {
+   const [activeTab, setActiveTab] = useState<'versions' | 'compare'>('versions');
+   const [versionName, setVersionName] = useState('');
+   const [fromId, setFromId] = useState<string | null>(null);
+   const [toId, setToId] = useState<string>(CURRENT_DOCUMENT);
+
+   // Compare the latest version with the current document unless chosen otherwise
+   const effectiveFromId = fromId ?? versions[0]?.id ?? CURRENT_DOCUMENT;
+
+   const diff = useMemo(() => {
+      const resolve = (id: string) => id === CURRENT_DOCUMENT
+         ? currentDocument
+         : versions.find(v => v.id === id)?.document;
+      const from = resolve(effectiveFromId);
+      const to = resolve(toId);
+      if (!from || !to) return null;
+
+      const entries = diffBlocks(getDocumentBlocks(from), getDocumentBlocks(to));
+      return { html: renderDiffHtml(entries), summary: summarizeDiff(entries) };
+   }, [versions, currentDocument, effectiveFromId, toId]);
+
+   const handleCreate = () => {
+      const name = versionName.trim() || `Version ${versions.length + 1}`;
+      onCreateVersion(name);
+      setVersionName('');
+   };
+
+   const versionOptions = (
+      <>
+         <option value={CURRENT_DOCUMENT}>Current document</option>
+         {versions.map(version => (
+            <option key={version.id} value={version.id}>
+               {version.name} ({new Date(version.createdAt).toLocaleString()})
+            </option>
+         ))}
+      </>
+   );
+
+   return (
+      <div className="flex flex-col h-full">
+         <div className="p-4 border-b bg-gray-50 flex items-center gap-2">
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+               <ChevronRight size={18} />
+            </button>
+            <span className="font-medium">Versions</span>
+         </div>
+
+         <div className="flex border-b">
+            <button
+               onClick={() => setActiveTab('versions')}
+               className={`flex-1 py-2 text-sm ${activeTab === 'versions' ? 'border-b-2 border-green-500 text-green-600' : 'text-gray-500'}`}
+            >
+               History
+            </button>
+            <button
+               onClick={() => setActiveTab('compare')}
+               className={`flex-1 py-2 text-sm ${activeTab === 'compare' ? 'border-b-2 border-green-500 text-green-600' : 'text-gray-500'}`}
+            >
+               Compare
+            </button>
+         </div>
+
+         <div className="flex-1 overflow-y-auto p-4">
+            {activeTab === 'versions' && (
+               <div className="space-y-4">
+                  <div>
+                     <label className="block text-sm font-medium text-gray-700 mb-1">Save current state</label>
+                     <div className="flex gap-2">
+                        <input
+                           type="text"
+                           value={versionName}
+                           onChange={(e) => setVersionName(e.target.value)}
+                           onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                           placeholder="e.g. Sent to client v2"
+                           className="flex-1 min-w-0 px-3 py-2 border rounded-md text-sm"
+                        />
+                        <button onClick={handleCreate} className="p-2 bg-green-500 text-white rounded hover:bg-green-600" title="Save version">
+                           <Save size={16} />
+                        </button>
+                     </div>
+                  </div>
+
+                  {versions.length === 0 && (
+                     <div className="text-sm text-gray-500 text-center py-6">No versions yet. Versions are also created on every export.</div>
+                  )}
+
+                  <div className="space-y-2">
+                     {versions.map(version => (
+                        <div key={version.id} className="group border rounded-md px-3 py-2 hover:border-green-400">
+                           <div className="flex items-center justify-between gap-2">
+                              <div className="min-w-0">
+                                 <div className="text-sm text-gray-800 truncate">{version.name}</div>
+                                 <div className="text-xs text-gray-400 flex items-center gap-2">
+                                    {new Date(version.createdAt).toLocaleString()}
+                                    {version.trigger === 'export' && (
+                                       <span className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">Export</span>
+                                    )}
+                                 </div>
+                              </div>
+                              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                                 <button
+                                    onClick={() => {
+                                       if (window.confirm(`Restore "${version.name}"? The current state can be brought back with Undo.`)) onRestoreVersion(version);
+                                    }}
+                                    className="p-1.5 rounded text-gray-500 hover:bg-gray-100"
+                                    title="Restore"
+                                 >
+                                    <RotateCcw size={14} />
+                                 </button>
+                                 <button
+                                    onClick={() => {
+                                       if (window.confirm(`Delete version "${version.name}"?`)) onDeleteVersion(version);
+                                    }}
+                                    className="p-1.5 rounded text-red-500 hover:bg-red-50"
+                                    title="Delete"
+                                 >
+                                    <Trash2 size={14} />
+                                 </button>
+                              </div>
+                           </div>
+                        </div>
+                     ))}
+                  </div>
+               </div>
+            )}
+
+            {activeTab === 'compare' && (
+               <div className="space-y-3">
+                  <div>
+                     <label className="block text-xs text-gray-500 mb-1">From</label>
+                     <select value={effectiveFromId} onChange={(e) => setFromId(e.target.value)} className="w-full px-2 py-1.5 border rounded text-sm">
+                        {versionOptions}
+                     </select>
+                  </div>
+                  <div>
+                     <label className="block text-xs text-gray-500 mb-1">To</label>
+                     <select value={toId} onChange={(e) => setToId(e.target.value)} className="w-full px-2 py-1.5 border rounded text-sm">
+                        {versionOptions}
+                     </select>
+                  </div>
+
+                  {diff && (
+                     <>
+                        <div className="flex gap-3 text-xs">
+                           <span className="text-green-600">+{diff.summary.added} added</span>
+                           <span className="text-red-600">-{diff.summary.removed} removed</span>
+                           <span className="text-amber-600">{diff.summary.changed} changed</span>
+                        </div>
+                        <div
+                           className="border rounded bg-white p-3 text-sm overflow-x-auto"
+                           dangerouslySetInnerHTML={{ __html: diff.html }}
+                        />
+                     </>
+                  )}
+               </div>
+            )}
+         </div>
+      </div>
+   );
+};
@@ -0,0 +1,196 @@
+// ============================================
+// ACROFORM - fillable PDF fields for form-field blocks
+// ============================================
+//
+// html2pdf draws the page into one image, so inputs in it are only pictures. Form-field
+// blocks mark their boxes in the PDF markup instead; once html2pdf has laid the page out
+// (page breaks included) the boxes are measured and AcroForm fields are added on top of
+// the image, where PDF viewers let the recipient fill them in.
+
+export const FORM_FIELD_ATTRIBUTE = 'data-form-field'; // Field spec (JSON) on the box
+export const FORM_OPTION_ATTRIBUTE = 'data-form-option'; // Radio button value on its circle
+
+export type FormFieldKind = 'text' | 'multiline' | 'checkbox' | 'radio' | 'dropdown' | 'date';
+
+// What a PDF field needs to know - written by the block, read back at export
+export interface FormFieldSpec {
+   kind: FormFieldKind;
+   name: string;
+   required: boolean;
+   value: string; // Checkbox: 'On' when checked; radio: option value; dropdown: option label
+   options?: string[]; // Dropdown labels
+}
+
+// Position on a PDF page in points, from the top left corner
+export interface FormFieldRect {
+   page: number; // 1-based
+   x: number;
+   y: number;
+   width: number;
+   height: number;
+}
+
+export interface PlacedFormField {
+   spec: FormFieldSpec;
+   rect: FormFieldRect;
+   choices: { value: string; rect: FormFieldRect }[]; // Radio buttons
+}
+
+// The part of jsPDF's AcroForm plugin used here
+interface AcroFormField {
+   fieldName: string;
+   x: number;
+   y: number;
+   width: number;
+   height: number;
+   fontSize: number;
+   value: string;
+   defaultValue: string;
+   required: boolean;
+   appearanceState: string;
+}
+
+interface AcroFormTextField extends AcroFormField {
+   multiline: boolean;
+}
+
+interface AcroFormComboBox extends AcroFormField {
+   setOptions(options: string[]): void;
+}
+
+interface AcroFormRadioButton extends AcroFormField {
+   createOption(name: string): AcroFormField;
+   setAppearance(appearance: unknown): void;
+}
+
+export interface AcroFormPdf {
+   setPage(page: number): unknown;
+   addField(field: AcroFormField): unknown;
+   AcroFormTextField: new () => AcroFormTextField;
+   AcroFormCheckBox: new () => AcroFormField;
+   AcroFormComboBox: new () => AcroFormComboBox;
+   AcroFormRadioButton: new () => AcroFormRadioButton;
+   AcroFormAppearance: { RadioButton: { Circle: unknown } };
+}
+
+const FONT_SIZE = 10;
+
+// PDF field names use dots for hierarchy - keep names flat
+export const toFieldName = (value: string): string =>
+   value.trim().replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'field';
+
+const parseSpec = (json: string | null): FormFieldSpec | null => {
+   try {
+      const spec = JSON.parse(json ?? '');
+      return spec && typeof spec.kind === 'string' && typeof spec.name === 'string' ? spec : null;
+   } catch {
+      return null;
+   }
+};
+
+/**
+ * Measures the marked form fields in html2pdf's laid out container.
+ * `page` is the inner page size in points; the PDF margin is assumed to be 0.
+ * Repeated names get a suffix - PDF fields sharing a name share their value.
+ */
+export const collectFormFields = (container: HTMLElement, page: { width: number; height: number }): PlacedFormField[] => {
+   const origin = container.getBoundingClientRect();
+   if (!origin.width) return [];
+
+   const scale = page.width / origin.width; // Points per pixel
+   const pageHeight = page.height / scale;
+   const place = (element: Element): FormFieldRect => {
+      const rect = element.getBoundingClientRect();
+      const top = rect.top - origin.top;
+      const index = Math.max(0, Math.floor(top / pageHeight));
+      return {
+         page: index + 1,
+         x: (rect.left - origin.left) * scale,
+         y: (top - index * pageHeight) * scale,
+         width: rect.width * scale,
+         height: rect.height * scale
+      };
+   };
+
+   const used = new Map<string, number>();
+   const fields: PlacedFormField[] = [];
+   container.querySelectorAll(`[${FORM_FIELD_ATTRIBUTE}]`).forEach(element => {
+      const spec = parseSpec(element.getAttribute(FORM_FIELD_ATTRIBUTE));
+      if (!spec) return;
+
+      const base = toFieldName(spec.name);
+      const count = (used.get(base) ?? 0) + 1;
+      used.set(base, count);
+
+      const choices = Array.from(element.querySelectorAll(`[${FORM_OPTION_ATTRIBUTE}]`)).map(option => ({
+         value: option.getAttribute(FORM_OPTION_ATTRIBUTE) ?? '',
+         rect: place(option)
+      }));
+      fields.push({ spec: { ...spec, name: count > 1 ? `${base}_${count}` : base }, rect: place(element), choices });
+   });
+   return fields;
+};
+
+const setRect = (field: AcroFormField, { x, y, width, height }: FormFieldRect) => {
+   field.x = x;
+   field.y = y;
+   field.width = width;
+   field.height = height;
+};
+
+// Adds the measured fields on top of the pages html2pdf rendered
+export const addFormFields = (pdf: AcroFormPdf, fields: PlacedFormField[]) => {
+   fields.forEach(({ spec, rect, choices }) => {
+      pdf.setPage(rect.page);
+
+      if (spec.kind === 'checkbox') {
+         const checkbox = new pdf.AcroFormCheckBox();
+         const state = spec.value === 'On' ? 'On' : 'Off';
+         checkbox.fieldName = spec.name;
+         checkbox.required = spec.required;
+         checkbox.value = state;
+         checkbox.appearanceState = state;
+         setRect(checkbox, rect);
+         pdf.addField(checkbox);
+      } else if (spec.kind === 'radio') {
+         if (!choices.length) return;
+         const group = new pdf.AcroFormRadioButton();
+         group.fieldName = spec.name;
+         group.required = spec.required;
+         const selected = spec.value ? toFieldName(spec.value) : '';
+         if (selected) group.value = selected;
+         pdf.addField(group);
+
+         choices.forEach(choice => {
+            pdf.setPage(choice.rect.page);
+            const name = toFieldName(choice.value);
+            const option = group.createOption(name);
+            setRect(option, choice.rect);
+            option.appearanceState = name === selected ? name : 'Off';
+         });
+         group.setAppearance(pdf.AcroFormAppearance.RadioButton.Circle);
+      } else if (spec.kind === 'dropdown') {
+         const dropdown = new pdf.AcroFormComboBox();
+         dropdown.fieldName = spec.name;
+         dropdown.required = spec.required;
+         dropdown.fontSize = FONT_SIZE;
+         dropdown.setOptions(spec.options ?? []);
+         if (spec.value) {
+            dropdown.value = spec.value;
+            dropdown.defaultValue = spec.value;
+         }
+         setRect(dropdown, rect);
+         pdf.addField(dropdown);
+      } else {
+         const text = new pdf.AcroFormTextField();
+         text.fieldName = spec.name;
+         text.required = spec.required;
+         text.multiline = spec.kind === 'multiline';
+         text.fontSize = FONT_SIZE;
+         text.value = spec.value;
+         text.defaultValue = spec.value;
+         setRect(text, rect);
+         pdf.addField(text);
+      }
+   });
+};
@@ -0,0 +1,476 @@
+// ============================================
+// BARCODE ENCODERS - QR, Code 128 and EAN, no dependencies
+// ============================================
+//
+// Encoders return plain module data - a boolean grid for QR codes, a row of bars for
+// linear codes - and leave drawing to the caller. They return null for input the
+// symbology can't carry, so the block can say so instead of drawing a wrong code.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// ============================================
+// QR CODE (ISO/IEC 18004) - byte mode, versions 1-40
+// ============================================
+
+// Indexed by version (1-40), index 0 unused
+const QR_ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+   L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+   M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+   Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+   H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const QR_ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+   L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+   M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+   Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+   H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+// Format information bits of each level
+const QR_ECC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const QR_MASKS: ((x: number, y: number) => boolean)[] = [
+   (x, y) => (x + y) % 2 === 0,
+   (_, y) => y % 2 === 0,
+   (x) => x % 3 === 0,
+   (x, y) => (x + y) % 3 === 0,
+   (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+   (x, y) => x * y % 2 + x * y % 3 === 0,
+   (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+   (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0
+];
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+// Data and ECC modules of a version - everything but the function patterns
+const getRawDataModules = (version: number): number => {
+   let result = (16 * version + 128) * version + 64;
+   if (version >= 2) {
+      const alignmentCount = Math.floor(version / 7) + 2;
+      result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+      if (version >= 7) result -= 36;
+   }
+   return result;
+};
+
+const getDataCodewords = (version: number, ecc: QrErrorCorrection): number =>
+   Math.floor(getRawDataModules(version) / 8) - QR_ECC_CODEWORDS_PER_BLOCK[ecc][version] * QR_ECC_BLOCKS[ecc][version];
+
+const getAlignmentPositions = (version: number): number[] => {
+   if (version === 1) return [];
+   const count = Math.floor(version / 7) + 2;
+   const size = version * 4 + 17;
+   const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+   const positions = [6];
+   for (let position = size - 7; positions.length < count; position -= step) positions.splice(1, 0, position);
+   return positions;
+};
+
+// ----- Reed-Solomon over GF(256), polynomial 0x11D -----
+
+const gfMultiply = (x: number, y: number): number => {
+   let z = 0;
+   for (let i = 7; i >= 0; i--) {
+      z = (z << 1) ^ ((z >>> 7) * 0x11D);
+      z ^= ((y >>> i) & 1) * x;
+   }
+   return z;
+};
+
+const getReedSolomonDivisor = (degree: number): number[] => {
+   const result = new Array<number>(degree).fill(0);
+   result[degree - 1] = 1;
+   let root = 1;
+   for (let i = 0; i < degree; i++) {
+      for (let j = 0; j < result.length; j++) {
+         result[j] = gfMultiply(result[j], root);
+         if (j + 1 < result.length) result[j] ^= result[j + 1];
+      }
+      root = gfMultiply(root, 0x02);
+   }
+   return result;
+};
+
+const getReedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+   const result = new Array<number>(divisor.length).fill(0);
+   data.forEach(byte => {
+      const factor = byte ^ (result.shift() as number);
+      result.push(0);
+      divisor.forEach((coefficient, i) => {
+         result[i] ^= gfMultiply(coefficient, factor);
+      });
+   });
+   return result;
+};
+
+// Splits data into blocks, adds ECC to each and interleaves them
+const addEccAndInterleave = (data: number[], version: number, ecc: QrErrorCorrection): number[] => {
+   const blockCount = QR_ECC_BLOCKS[ecc][version];
+   const eccLength = QR_ECC_CODEWORDS_PER_BLOCK[ecc][version];
+   const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+   const shortBlockCount = blockCount - rawCodewords % blockCount;
+   const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+   const divisor = getReedSolomonDivisor(eccLength);
+   const blocks: number[][] = [];
+   for (let i = 0, offset = 0; i < blockCount; i++) {
+      const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+      offset += blockData.length;
+      const blockEcc = getReedSolomonRemainder(blockData, divisor);
+      if (i < shortBlockCount) blockData.push(0); // Placeholder, skipped below
+      blocks.push([...blockData, ...blockEcc]);
+   }
+
+   const result: number[] = [];
+   for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+         if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+      });
+   }
+   return result;
+};
+
+// ----- Matrix -----
+
+type QrMatrix = {
+   size: number;
+   modules: boolean[][];
+   isFunction: boolean[][];
+}
+
+const setFunctionModule = (matrix: QrMatrix, x: number, y: number, dark: boolean) => {
+   matrix.modules[y][x] = dark;
+   matrix.isFunction[y][x] = true;
+};
+
+const drawFormatBits = (matrix: QrMatrix, ecc: QrErrorCorrection, mask: number) => {
+   const data = (QR_ECC_FORMAT_BITS[ecc] << 3) | mask;
+   let remainder = data;
+   for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+   const bits = ((data << 10) | remainder) ^ 0x5412;
+   const { size } = matrix;
+
+   // Around the top left finder
+   for (let i = 0; i <= 5; i++) setFunctionModule(matrix, 8, i, getBit(bits, i));
+   setFunctionModule(matrix, 8, 7, getBit(bits, 6));
+   setFunctionModule(matrix, 8, 8, getBit(bits, 7));
+   setFunctionModule(matrix, 7, 8, getBit(bits, 8));
+   for (let i = 9; i < 15; i++) setFunctionModule(matrix, 14 - i, 8, getBit(bits, i));
+
+   // Split between the other two finders
+   for (let i = 0; i < 8; i++) setFunctionModule(matrix, size - 1 - i, 8, getBit(bits, i));
+   for (let i = 8; i < 15; i++) setFunctionModule(matrix, 8, size - 15 + i, getBit(bits, i));
+   setFunctionModule(matrix, 8, size - 8, true); // Always dark
+};
+
+const drawVersionBits = (matrix: QrMatrix, version: number) => {
+   if (version < 7) return;
+   let remainder = version;
+   for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1F25);
+   const bits = (version << 12) | remainder;
+   for (let i = 0; i < 18; i++) {
+      const a = matrix.size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      setFunctionModule(matrix, a, b, getBit(bits, i));
+      setFunctionModule(matrix, b, a, getBit(bits, i));
+   }
+};
+
+const drawFunctionPatterns = (matrix: QrMatrix, version: number, ecc: QrErrorCorrection) => {
+   const { size } = matrix;
+
+   // Timing patterns
+   for (let i = 0; i < size; i++) {
+      setFunctionModule(matrix, 6, i, i % 2 === 0);
+      setFunctionModule(matrix, i, 6, i % 2 === 0);
+   }
+
+   // Finders with their separators
+   [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+         for (let dx = -4; dx <= 4; dx++) {
+            const x = cx + dx;
+            const y = cy + dy;
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            if (x >= 0 && x < size && y >= 0 && y < size) setFunctionModule(matrix, x, y, distance !== 2 && distance !== 4);
+         }
+      }
+   });
+
+   // Alignment patterns, except where they'd overlap a finder
+   const positions = getAlignmentPositions(version);
+   const last = positions.length - 1;
+   positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+         if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+         for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+               setFunctionModule(matrix, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+         }
+      });
+   });
+
+   drawFormatBits(matrix, ecc, 0); // Reserves the area - redrawn with the chosen mask
+   drawVersionBits(matrix, version);
+};
+
+// Zigzag placement from the bottom right, two columns at a time
+const drawCodewords = (matrix: QrMatrix, codewords: number[]) => {
+   const { size, modules, isFunction } = matrix;
+   let bitIndex = 0;
+   for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      for (let vertical = 0; vertical < size; vertical++) {
+         for (let j = 0; j < 2; j++) {
+            const x = right - j;
+            const upward = ((right + 1) & 2) === 0;
+            const y = upward ? size - 1 - vertical : vertical;
+            if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+               modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+               bitIndex++;
+            }
+         }
+      }
+   }
+};
+
+const applyMask = (matrix: QrMatrix, mask: number) => {
+   const test = QR_MASKS[mask];
+   for (let y = 0; y < matrix.size; y++) {
+      for (let x = 0; x < matrix.size; x++) {
+         if (!matrix.isFunction[y][x] && test(x, y)) matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+   }
+};
+
+// Penalty rules of the spec - the mask with the lowest score is used
+const getPenaltyScore = ({ size, modules }: QrMatrix): number => {
+   let score = 0;
+   const lines: boolean[][] = [
+      ...modules,
+      ...modules.map((_, x) => modules.map(row => row[x]))
+   ];
+
+   // Runs of five or more, and finder-like 1:1:3:1:1 patterns with four light modules on a side
+   const finderLike = [/10111010000/g, /00001011101/g];
+   lines.forEach(line => {
+      let runLength = 1;
+      for (let i = 1; i <= line.length; i++) {
+         if (i < line.length && line[i] === line[i - 1]) {
+            runLength++;
+         } else {
+            if (runLength >= 5) score += runLength - 2;
+            runLength = 1;
+         }
+      }
+      const text = line.map(dark => dark ? '1' : '0').join('');
+      finderLike.forEach(pattern => {
+         score += (text.match(pattern)?.length ?? 0) * 40;
+      });
+   });
+
+   // 2x2 blocks of one color
+   for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+         const color = modules[y][x];
+         if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+      }
+   }
+
+   // Balance of dark and light
+   const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+   const total = size * size;
+   score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+   return score;
+};
+
+/**
+ * Encodes text as a QR code in byte mode (UTF-8), picking the smallest version that
+ * fits. Returns the module grid without a quiet zone - `true` is dark - or null when
+ * the text is too long for the error correction level.
+ *
+ * @example
+ * ```ts
+ * const modules = encodeQr('https://example.com', 'M'); // 25 x 25
+ * ```
+ */
+export const encodeQr = (text: string, ecc: QrErrorCorrection = 'M'): boolean[][] | null => {
+   const bytes = Array.from(new TextEncoder().encode(text));
+
+   let version = 1;
+   const fits = (v: number) => 4 + (v <= 9 ? 8 : 16) + bytes.length * 8 <= getDataCodewords(v, ecc) * 8;
+   while (version <= 40 && !fits(version)) version++;
+   if (version > 40) return null;
+
+   // Mode, length, data, terminator, then padding to the capacity
+   const capacity = getDataCodewords(version, ecc) * 8;
+   const bits: number[] = [];
+   const appendBits = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+   };
+   appendBits(0b0100, 4);
+   appendBits(bytes.length, version <= 9 ? 8 : 16);
+   bytes.forEach(byte => appendBits(byte, 8));
+   appendBits(0, Math.min(4, capacity - bits.length));
+   appendBits(0, (8 - bits.length % 8) % 8);
+   for (let pad = 0xEC; bits.length < capacity; pad ^= 0xEC ^ 0x11) appendBits(pad, 8);
+
+   const data: number[] = [];
+   for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+
+   const size = version * 4 + 17;
+   const matrix: QrMatrix = {
+      size,
+      modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+      isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+   };
+   drawFunctionPatterns(matrix, version, ecc);
+   drawCodewords(matrix, addEccAndInterleave(data, version, ecc));
+
+   // Try every mask - applying one twice undoes it
+   let bestMask = 0;
+   let bestScore = Infinity;
+   QR_MASKS.forEach((_, mask) => {
+      applyMask(matrix, mask);
+      drawFormatBits(matrix, ecc, mask);
+      const score = getPenaltyScore(matrix);
+      if (score < bestScore) {
+         bestScore = score;
+         bestMask = mask;
+      }
+      applyMask(matrix, mask);
+   });
+   applyMask(matrix, bestMask);
+   drawFormatBits(matrix, ecc, bestMask);
+
+   return matrix.modules;
+};
+
+// ============================================
+// LINEAR CODES - bars as module widths
+// ============================================
+
+export type LinearBarcode = {
+   bars: boolean[]; // One entry per module, `true` is a bar
+   text: string; // Human readable line
+}
+
+// Bar/space widths of every Code 128 symbol - 103 values, starts A/B/C and stop
+const CODE128_PATTERNS = [
+   '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+   '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+   '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+   '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+   '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+   '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+   '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+   '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+   '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+   '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+   '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_CODE_B = 100;
+const CODE128_CODE_C = 99;
+const CODE128_STOP = 106;
+
+const widthsToBars = (widths: string): boolean[] =>
+   Array.from(widths).flatMap((width, i) => new Array<boolean>(Number(width)).fill(i % 2 === 0));
+
+/**
+ * Encodes printable ASCII as Code 128, switching to code set C for runs of digits.
+ * Returns null for characters outside space..tilde.
+ *
+ * @example
+ * ```ts
+ * encodeCode128('INV-2024-0042');
+ * ```
+ */
+export const encodeCode128 = (text: string): LinearBarcode | null => {
+   if (!text || !/^[\x20-\x7E]+$/.test(text)) return null;
+
+   const digitRunAt = (index: number) => text.slice(index).match(/^\d*/)?.[0].length ?? 0;
+   const values: number[] = [];
+   const leadingRun = digitRunAt(0);
+   const isAllDigits = leadingRun === text.length && text.length >= 2;
+   let set: 'B' | 'C' = leadingRun % 2 === 0 && (leadingRun >= 4 || isAllDigits) ? 'C' : 'B';
+   values.push(set === 'C' ? CODE128_START_C : CODE128_START_B);
+
+   let i = 0;
+   while (i < text.length) {
+      const run = digitRunAt(i);
+      if (set === 'C') {
+         if (run >= 2) {
+            values.push(Number(text.slice(i, i + 2)));
+            i += 2;
+            continue;
+         }
+         set = 'B';
+         values.push(CODE128_CODE_B);
+      }
+
+      // Worth a switch: six digits, or four at the end - an odd run leaves its first digit in B
+      const evenRun = run - run % 2;
+      if (evenRun >= 6 || (evenRun >= 4 && i + run === text.length)) {
+         if (run % 2 === 1) {
+            values.push(text.charCodeAt(i) - 32);
+            i++;
+         }
+         set = 'C';
+         values.push(CODE128_CODE_C);
+         continue;
+      }
+      values.push(text.charCodeAt(i) - 32);
+      i++;
+   }
+
+   const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+   const bars = [...values, checksum, CODE128_STOP].flatMap(value => widthsToBars(CODE128_PATTERNS[value]));
+   return { bars, text };
+};
+
+const EAN_L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGGLGL', 'LGLGLG', 'LGLGGL'];
+
+const getEanCheckDigit = (digits: string): number => {
+   const sum = Array.from(digits).reverse().reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+   return (10 - sum % 10) % 10;
+};
+
+const encodeEanDigit = (digit: string, code: 'L' | 'G' | 'R'): string => {
+   const left = EAN_L_CODES[Number(digit)];
+   const right = Array.from(left, bit => bit === '1' ? '0' : '1').join('');
+   if (code === 'L') return left;
+   return code === 'R' ? right : Array.from(right).reverse().join('');
+};
+
+/**
+ * Encodes EAN-13 (12 or 13 digits) or EAN-8 (7 or 8 digits). A missing check digit
+ * is added; a wrong one makes the value invalid, so typos don't print.
+ *
+ * @example
+ * ```ts
+ * encodeEan('400638133393'); // EAN-13 4006381333931
+ * ```
+ */
+export const encodeEan = (value: string): LinearBarcode | null => {
+   const digits = value.replace(/\s+/g, '');
+   if (!/^(\d{7,8}|\d{12,13})$/.test(digits)) return null;
+
+   const isEan8 = digits.length <= 8;
+   const payload = digits.slice(0, isEan8 ? 7 : 12);
+   const check = getEanCheckDigit(payload);
+   if (digits.length === payload.length + 1 && Number(digits[digits.length - 1]) !== check) return null;
+
+   const full = `${payload}${check}`;
+   const [left, right] = isEan8
+      ? [Array.from(full.slice(0, 4), digit => encodeEanDigit(digit, 'L')), full.slice(4)]
+      : [Array.from(full.slice(1, 7), (digit, i) => encodeEanDigit(digit, EAN13_PARITY[Number(full[0])][i] as 'L' | 'G')), full.slice(7)];
+
+   const pattern = `101${left.join('')}01010${Array.from(right, digit => encodeEanDigit(digit, 'R')).join('')}101`;
+   return { bars: Array.from(pattern, bit => bit === '1'), text: full };
+};
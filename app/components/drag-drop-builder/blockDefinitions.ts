@@ -0,0 +1,234 @@
+import { BlockDefinition, BlockListItemValues, BlockPropsSchema, BlockPropValues, BlockScalarPropSchema } from "./type";
+import { MergeFieldData, resolveMergeFields } from "./utils";
+
+// ============================================
+// BLOCK DEFINITIONS - block props and templates, no UI
+// ============================================
+//
+// Blocks with a props schema are wrapped in an element carrying their type and
+// values, so the settings form and the document engine can render their template again:
+//
+//   <div data-element-type="price-box" data-block-props='{"price":49}'>...template...</div>
+//
+// Nothing here imports React, so the document engine can use it in Node. The built-in
+// catalog (icons, sidebar items) is registered by ./blockRegistry.
+
+export const BLOCK_PROPS_ATTRIBUTE = 'data-block-props';
+export const BLOCK_TYPE_ATTRIBUTE = 'data-element-type';
+
+const registry = new Map<string, BlockDefinition>();
+const listeners = new Set<() => void>();
+
+// Snapshot for useSyncExternalStore - replaced on every change
+let registeredBlocks: BlockDefinition[] = [];
+
+const notify = () => {
+   registeredBlocks = Array.from(registry.values());
+   listeners.forEach(listener => listener());
+};
+
+/**
+ * Adds a block to the elements sidebar. Registering an existing id replaces it.
+ * Returns a function that unregisters the block.
+ *
+ * @example
+ * ```tsx
+ * registerBlock({
+ *    id: 'price-box',
+ *    label: 'Price Box',
+ *    icon: <Tag size={20} />,
+ *    category: 'blocks',
+ *    props: {
+ *       title: { type: 'text', label: 'Title', default: 'Pro plan' },
+ *       price: { type: 'number', label: 'Price', default: 49, min: 0 },
+ *       highlight: { type: 'boolean', label: 'Highlight', default: false }
+ *    },
+ *    template: ({ title, price, highlight }) => `
+ *       <div style="padding: 24px; border: 2px solid ${highlight ? '#22c55e' : '#e5e7eb'};">
+ *          <h3>${escapeText(title)}</h3>
+ *          <p style="font-size: 32px;">$${price.toFixed(2)}</p>
+ *       </div>
+ *    `
+ * });
+ * ```
+ */
+export const registerBlock = <const S extends BlockPropsSchema>(definition: BlockDefinition<S>): () => void => {
+   // Stored without its schema type - values are checked against the schema on read
+   registry.set(definition.id, definition as unknown as BlockDefinition);
+   notify();
+   return () => unregisterBlock(definition.id);
+};
+
+export const unregisterBlock = (id: string) => {
+   if (registry.delete(id)) notify();
+};
+
+export const getBlockDefinition = (id: string | null | undefined): BlockDefinition | null =>
+   id ? registry.get(id) ?? null : null;
+
+export const getRegisteredBlocks = (): BlockDefinition[] => registeredBlocks;
+
+export const subscribeToBlockRegistry = (listener: () => void): () => void => {
+   listeners.add(listener);
+   return () => {
+      listeners.delete(listener);
+   };
+};
+
+// ============================================
+// PROPS
+// ============================================
+
+const getScalarValue = (schema: BlockScalarPropSchema, value: unknown): string | number | boolean => {
+   if (schema.type === 'number') {
+      const number = typeof value === 'number' ? value : parseFloat(String(value));
+      const fallback = schema.default ?? 0;
+      return Math.min(schema.max ?? Infinity, Math.max(schema.min ?? -Infinity, Number.isFinite(number) ? number : fallback));
+   }
+   if (schema.type === 'boolean') return typeof value === 'boolean' ? value : schema.default ?? false;
+   if (schema.type === 'select') {
+      const isOption = schema.options.some(option => option.value === value);
+      return isOption ? value as string : schema.default ?? schema.options[0]?.value ?? '';
+   }
+   return typeof value === 'string' ? value : schema.default ?? '';
+};
+
+// Values of one list item - every field of the item schema, checked like top-level props
+export const getListItemValues = (item: Record<string, BlockScalarPropSchema>, stored: unknown): BlockListItemValues => {
+   const source = stored && typeof stored === 'object' ? stored as Record<string, unknown> : {};
+   return Object.fromEntries(Object.entries(item).map(([name, schema]) => [name, getScalarValue(schema, source[name])]));
+};
+
+/**
+ * Values for every prop of the schema - stored values win, missing or mistyped
+ * ones fall back to the default.
+ */
+export const getBlockPropValues = (definition: BlockDefinition, stored: Record<string, unknown> = {}): BlockPropValues => {
+   const values: BlockPropValues = {};
+   Object.entries(definition.props ?? {}).forEach(([name, schema]) => {
+      const value = stored[name];
+      if (schema.type === 'list') {
+         const items = Array.isArray(value) ? value : schema.default ?? [];
+         values[name] = items.map(item => getListItemValues(schema.item, item));
+      } else {
+         values[name] = getScalarValue(schema, value);
+      }
+   });
+   return values;
+};
+
+// Parses the values stored on a block element; invalid JSON counts as no values
+export const parseBlockProps = (json: string | null | undefined): Record<string, unknown> => {
+   if (!json) return {};
+   try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+   } catch {
+      return {};
+   }
+};
+
+// Inner markup of a block - the template output for the given values
+export const renderBlockTemplate = (definition: BlockDefinition, values: BlockPropValues): string =>
+   typeof definition.template === 'string' ? definition.template : definition.template(values);
+
+/**
+ * HTML inserted when the block is dropped. Blocks with props get the wrapper
+ * that carries their type and values.
+ */
+export const getBlockHtml = (definition: BlockDefinition, stored?: Record<string, unknown>): string => {
+   if (!definition.props) return renderBlockTemplate(definition, {});
+
+   const values = getBlockPropValues(definition, stored);
+   const json = JSON.stringify(values).replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+   return `<div ${BLOCK_TYPE_ATTRIBUTE}="${definition.id}" ${BLOCK_PROPS_ATTRIBUTE}="${json}">${renderBlockTemplate(definition, values)}</div>`;
+};
+
+/**
+ * Renders blocks with props for the PDF and email exports - `staticTemplate` where the
+ * block has one, `template` otherwise, so merged props (e.g. a barcode value) show.
+ * Changes `root` in place.
+ */
+export const renderStaticBlocks = (root: ParentNode) => {
+   root.querySelectorAll(`[${BLOCK_TYPE_ATTRIBUTE}][${BLOCK_PROPS_ATTRIBUTE}]`).forEach(element => {
+      const definition = getBlockDefinition(element.getAttribute(BLOCK_TYPE_ATTRIBUTE));
+      if (!definition?.props) return;
+
+      const values = getBlockPropValues(definition, parseBlockProps(element.getAttribute(BLOCK_PROPS_ATTRIBUTE)));
+      element.innerHTML = definition.staticTemplate ? definition.staticTemplate(values) : renderBlockTemplate(definition, values);
+   });
+};
+
+// Merge fields resolved in every string of a prop value - list items included
+const resolvePropValue = (value: unknown, data: MergeFieldData): unknown => {
+   if (typeof value === 'string') return resolveMergeFields(value, data);
+   if (Array.isArray(value)) return value.map(item => resolvePropValue(item, data));
+   if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([name, field]) => [name, resolvePropValue(field, data)]));
+   }
+   return value;
+};
+
+// Prop values (parsed or stored) with merge fields resolved in their strings
+export const resolvePropValues = <T extends Record<string, unknown>>(values: T, data: MergeFieldData): T =>
+   resolvePropValue(values, data) as T;
+
+/**
+ * Value of an attribute with merge fields resolved. Block props are parsed and resolved
+ * value by value, so a merged quote can't break their JSON.
+ */
+export const resolveAttributeMergeFields = (name: string, value: string, data: MergeFieldData): string =>
+   name === BLOCK_PROPS_ATTRIBUTE
+      ? JSON.stringify(resolvePropValues(parseBlockProps(value), data))
+      : resolveMergeFields(value, data);
+
+/**
+ * Resolves merge fields in the text and attributes of markup. Values are set on the
+ * DOM, so they come out escaped for wherever they land. Changes `root` in place.
+ */
+export const resolveMarkupMergeFields = (root: Element | DocumentFragment, data: MergeFieldData) => {
+   const resolveNode = (node: Node) => {
+      if (node.nodeType === 3) {
+         (node as Text).data = resolveMergeFields((node as Text).data, data);
+         return;
+      }
+      if (node.nodeType === 1) {
+         Array.from((node as Element).attributes).forEach(attribute => {
+            attribute.value = resolveAttributeMergeFields(attribute.name, attribute.value, data);
+         });
+      }
+      node.childNodes.forEach(resolveNode);
+   };
+   resolveNode(root);
+};
+
+/**
+ * Renders blocks with props again from their stored values - for markup whose props
+ * had merge fields resolved after the template ran (viewer, HTML export). With `data`,
+ * the values are resolved for this render only and the stored props keep their tokens.
+ * Changes `root` in place.
+ */
+export const refreshBlocks = (root: ParentNode, data?: MergeFieldData) => {
+   root.querySelectorAll(`[${BLOCK_TYPE_ATTRIBUTE}][${BLOCK_PROPS_ATTRIBUTE}]`).forEach(element => {
+      const definition = getBlockDefinition(element.getAttribute(BLOCK_TYPE_ATTRIBUTE));
+      if (!definition?.props) return;
+
+      const values = getBlockPropValues(definition, parseBlockProps(element.getAttribute(BLOCK_PROPS_ATTRIBUTE)));
+      element.innerHTML = renderBlockTemplate(definition, data ? resolvePropValues(values, data) : values);
+   });
+};
+
+/**
+ * Renders blocks with props for the HTML export - `exportTemplate` where the block
+ * has one (e.g. form fields become real inputs), `template` otherwise.
+ * Changes `root` in place.
+ */
+export const renderExportBlocks = (root: ParentNode) => {
+   root.querySelectorAll(`[${BLOCK_TYPE_ATTRIBUTE}][${BLOCK_PROPS_ATTRIBUTE}]`).forEach(element => {
+      const definition = getBlockDefinition(element.getAttribute(BLOCK_TYPE_ATTRIBUTE));
+      if (!definition?.props) return;
+
+      const values = getBlockPropValues(definition, parseBlockProps(element.getAttribute(BLOCK_PROPS_ATTRIBUTE)));
+      element.innerHTML = definition.exportTemplate ? definition.exportTemplate(values) : renderBlockTemplate(definition, values);
+   });
+};
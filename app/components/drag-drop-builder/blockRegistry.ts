@@ -0,0 +1,58 @@
+import { Block, BlockDefinition } from "./type";
+import { getBlockHtml, registerBlock } from "./blockDefinitions";
+import {
+   BARCODE_BLOCK,
+   CHECKBOX_FIELD_BLOCK,
+   CODE_BLOCK,
+   COMPONENT_BLOCKS,
+   CONTAINER_LAYOUT_BLOCKS,
+   COUNTDOWN_BLOCK,
+   DATE_FIELD_BLOCK,
+   DROPDOWN_FIELD_BLOCK,
+   MATH_BLOCK,
+   MENU_BLOCK,
+   MULTILINE_FIELD_BLOCK,
+   RADIO_FIELD_BLOCK,
+   SIGNATURE_BLOCK,
+   SOCIAL_BLOCK,
+   TEXT_FIELD_BLOCK,
+   TOC_BLOCK,
+   VIDEO_BLOCK
+} from "./blocks";
+
+// ============================================
+// BLOCK REGISTRY - the catalog of the elements sidebar
+// ============================================
+//
+// Built-in blocks are registered from COMPONENT_BLOCKS, CONTAINER_LAYOUT_BLOCKS and
+// the blocks with settings in ./blocks. Props and templates are handled by
+// ./blockDefinitions, re-exported here for the editor.
+
+export * from "./blockDefinitions";
+
+// Sidebar item of a definition
+export const toSidebarBlock = (definition: BlockDefinition): Block => ({
+   id: definition.id,
+   label: definition.label,
+   icon: definition.icon,
+   category: definition.category,
+   html: getBlockHtml(definition)
+});
+
+// Built-in catalog
+[...COMPONENT_BLOCKS, ...CONTAINER_LAYOUT_BLOCKS].forEach(({ html, ...block }) => registerBlock({ ...block, template: html }));
+registerBlock(VIDEO_BLOCK);
+registerBlock(SOCIAL_BLOCK);
+registerBlock(COUNTDOWN_BLOCK);
+registerBlock(MENU_BLOCK);
+registerBlock(BARCODE_BLOCK);
+registerBlock(SIGNATURE_BLOCK);
+registerBlock(TEXT_FIELD_BLOCK);
+registerBlock(MULTILINE_FIELD_BLOCK);
+registerBlock(CHECKBOX_FIELD_BLOCK);
+registerBlock(RADIO_FIELD_BLOCK);
+registerBlock(DROPDOWN_FIELD_BLOCK);
+registerBlock(DATE_FIELD_BLOCK);
+registerBlock(TOC_BLOCK);
+registerBlock(MATH_BLOCK);
+registerBlock(CODE_BLOCK);
@@ -0,0 +1,331 @@
+import { EDITOR_ONLY_ATTRIBUTES, EDITOR_ONLY_SELECTORS, PAGE_PRESETS, SCHEMA_VERSION } from "./data";
+import { BlockNode, BlockType, EditorDocument } from "./type";
+import { parseStyles, serializeStyles } from "./utils";
+import { sanitizeHtml } from "./htmlSanitizer";
+
+// ============================================
+// BLOCK TREE - structured model of the content flow
+// ============================================
+
+export const BLOCK_ID_ATTRIBUTE = 'data-block-id';
+export const CONTENT_FLOW_HTML = (inner: string = ''): string => /*html*/`<div class="content-flow" data-container="true">${inner}</div>`;
+
+const VOID_TAGS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+const TABLE_PART_TAGS = ['table', 'thead', 'tbody', 'tfoot', 'tr', 'colgroup'];
+
+export const generateBlockId = (): string => `blk-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * Returns the element's block id, assigning a new one if it has none or if the id
+ * was already seen during this pass (e.g. markup pasted twice).
+ */
+export const ensureBlockId = (el: Element, seen?: Set<string>): string => {
+   let id = el.getAttribute(BLOCK_ID_ATTRIBUTE);
+   if (!id || seen?.has(id)) {
+      id = generateBlockId();
+      el.setAttribute(BLOCK_ID_ATTRIBUTE, id);
+   }
+   seen?.add(id);
+   return id;
+};
+
+// Gives an element and all its descendants fresh ids - used for copies (duplicate, modules)
+export const reassignBlockIds = (el: Element) => {
+   if (el.hasAttribute(BLOCK_ID_ATTRIBUTE)) el.setAttribute(BLOCK_ID_ATTRIBUTE, generateBlockId());
+   el.querySelectorAll(`[${BLOCK_ID_ATTRIBUTE}]`).forEach(child => {
+      child.setAttribute(BLOCK_ID_ATTRIBUTE, generateBlockId());
+   });
+};
+
+// Finds the element of a block inside a root (shadow root, content flow, ...)
+export const getBlockElement = (root: ParentNode | null | undefined, id: string | null): HTMLElement | null => {
+   if (!root || !id) return null;
+   return root.querySelector(`[${BLOCK_ID_ATTRIBUTE}="${id}"]`) as HTMLElement | null;
+};
+
+/**
+ * Derives the semantic block type from the element's markup conventions.
+ */
+export const getBlockType = (el: Element): BlockType => {
+   const tag = el.tagName.toLowerCase();
+
+   if (el.hasAttribute('data-html-block')) return 'html';
+   if (el.hasAttribute('data-element-type')) return el.getAttribute('data-element-type') as BlockType;
+   if (el.hasAttribute('data-column-container')) return 'columns';
+   if (el.hasAttribute('data-table-container')) return 'table';
+   if (el.classList.contains('drop-zone')) return 'column';
+   if (el.classList.contains('editor-divider') || tag === 'hr') return 'divider';
+   if (/^h[1-6]$/.test(tag)) return 'heading';
+   if (tag === 'p') return 'text';
+   if (tag === 'a') return 'button';
+   if (tag === 'img') return 'image';
+   return 'element';
+};
+
+// Elements whose children are blocks themselves rather than rich text
+const isStructuralElement = (el: Element): boolean => {
+   const tag = el.tagName.toLowerCase();
+   const isContainer = el.hasAttribute('data-column-container')
+      || el.hasAttribute('data-table-container')
+      || el.classList.contains('drop-zone')
+      || TABLE_PART_TAGS.includes(tag);
+   if (!isContainer) return false;
+
+   // Stray text inside a container can't be represented as child blocks - keep it as rich text
+   return Array.from(el.childNodes).every(node =>
+      node.nodeType === 1 || node.nodeType === 8 || (node.nodeType === 3 && !node.textContent?.trim())
+   );
+};
+
+// Remove editor-only markup (toolbars, selection, contenteditable, ...) in place
+export const stripEditorMarkup = (root: Element | DocumentFragment) => {
+   root.querySelectorAll(EDITOR_ONLY_SELECTORS.join(', ')).forEach(el => el.remove());
+   root.querySelectorAll('*').forEach(el => {
+      EDITOR_ONLY_ATTRIBUTES.forEach(attr => el.removeAttribute(attr));
+   });
+};
+
+const elementToBlock = (el: Element): BlockNode => {
+   const props: Record<string, string> = {};
+   Array.from(el.attributes).forEach(attr => {
+      if (attr.name === 'style' || attr.name === BLOCK_ID_ATTRIBUTE) return;
+      if (EDITOR_ONLY_ATTRIBUTES.includes(attr.name)) return;
+      props[attr.name] = attr.value;
+   });
+
+   const block: BlockNode = {
+      id: el.getAttribute(BLOCK_ID_ATTRIBUTE) || generateBlockId(),
+      type: getBlockType(el),
+      tag: el.tagName.toLowerCase(),
+      props,
+      styles: parseStyles(el.getAttribute('style') || '')
+   };
+
+   if (isStructuralElement(el)) {
+      block.children = Array.from(el.children).map(elementToBlock);
+   } else if (block.type === 'html') {
+      // Raw HTML blocks may come from storage or an import, not just the settings panel
+      block.content = sanitizeHtml(el.innerHTML, el.ownerDocument).html;
+   } else if (!VOID_TAGS.includes(block.tag)) {
+      block.content = el.innerHTML;
+   }
+
+   return block;
+};
+
+/**
+ * Parses block HTML (the children of `.content-flow`) into a block tree.
+ * Accepts an explicit `Document` so it can run outside the browser (e.g. jsdom).
+ *
+ * @param html - Block HTML, or a full `.content-flow` wrapper
+ * @param ownerDocument - Document used to parse the markup
+ */
+export const htmlToBlocks = (html: string, ownerDocument: Document = window.document): BlockNode[] => {
+   const template = ownerDocument.createElement('template');
+   template.innerHTML = html;
+
+   const fragment = template.content;
+   stripEditorMarkup(fragment);
+
+   const contentFlow = fragment.querySelector('.content-flow');
+   const root: ParentNode = contentFlow ?? fragment;
+
+   const blocks: BlockNode[] = [];
+   Array.from(root.childNodes).forEach(node => {
+      if (node.nodeType === 1) {
+         blocks.push(elementToBlock(node as Element));
+      } else if (node.nodeType === 3 && node.textContent?.trim()) {
+         blocks.push({ id: generateBlockId(), type: 'textNode', tag: '#text', props: {}, styles: {}, content: node.textContent });
+      }
+   });
+   return blocks;
+};
+
+export const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+export const escapeText = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Serializes a single block (and its children) back to HTML.
+ * The block id is written as `data-block-id` so it survives the round trip.
+ */
+export const blockToHtml = (block: BlockNode): string => {
+   if (block.tag === '#text') return escapeText(block.content ?? '');
+
+   const attrs = [`${BLOCK_ID_ATTRIBUTE}="${escapeAttribute(block.id)}"`];
+   Object.entries(block.props).forEach(([name, value]) => {
+      attrs.push(value === '' ? name : `${name}="${escapeAttribute(value)}"`);
+   });
+   const style = serializeStyles(block.styles);
+   if (style) attrs.push(`style="${escapeAttribute(style)}"`);
+
+   const open = `<${block.tag} ${attrs.join(' ')}>`;
+   if (VOID_TAGS.includes(block.tag)) return open;
+
+   const inner = block.children
+      ? block.children.map(blockToHtml).join('')
+      : block.content ?? '';
+
+   return `${open}${inner}</${block.tag}>`;
+};
+
+export const blocksToHtml = (blocks: BlockNode[]): string => blocks.map(blockToHtml).join('');
+
+// ============================================
+// DOCUMENT HELPERS
+// ============================================
+
+/**
+ * Sets the document content from HTML. The block tree is rebuilt and `content`
+ * is re-serialized from it, so both stay in sync.
+ */
+export const withDocumentContent = (doc: EditorDocument, html: string, ownerDocument?: Document): EditorDocument => {
+   const blocks = htmlToBlocks(html, ownerDocument);
+   return { ...doc, blocks, content: CONTENT_FLOW_HTML(blocksToHtml(blocks)) };
+};
+
+// Sets the document content from a block tree
+export const withDocumentBlocks = (doc: EditorDocument, blocks: BlockNode[]): EditorDocument => ({
+   ...doc,
+   blocks,
+   content: CONTENT_FLOW_HTML(blocksToHtml(blocks))
+});
+
+export const generateDocId = (): string => `doc-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+/**
+ * Builds a complete document from a partial one (host-provided values, saved JSON).
+ * Content is derived from `blocks` when present. Needs no DOM, so it is safe during SSR.
+ * Documents without a `schemaVersion` count as current - load saved ones with migrateDocument.
+ */
+export const createEditorDocument = (init: Partial<EditorDocument> = {}): EditorDocument => {
+   const preset = PAGE_PRESETS.find(p => p.key === init.pageFormat) ?? PAGE_PRESETS.find(p => p.default)!;
+   const doc: EditorDocument = {
+      id: init.id ?? generateDocId(),
+      name: init.name ?? 'Untitled Document',
+      pageWidth: init.pageWidth ?? preset.width,
+      pageHeight: init.pageHeight ?? preset.height,
+      content: init.content || CONTENT_FLOW_HTML(),
+      blocks: init.blocks ?? [],
+      pageFormat: init.pageFormat ?? preset.key,
+      schemaVersion: init.schemaVersion ?? SCHEMA_VERSION,
+      ...(init.mergeFields ? { mergeFields: init.mergeFields } : {}),
+      ...(init.notePlacement ? { notePlacement: init.notePlacement } : {})
+   };
+   return doc.blocks.length ? withDocumentBlocks(doc, doc.blocks) : doc;
+};
+
+// Block tree of a document - parsed from `content` when the tree wasn't built yet
+export const getDocumentBlocks = (doc: EditorDocument, ownerDocument?: Document): BlockNode[] => {
+   if (doc.blocks.length || !doc.content) return doc.blocks;
+   return htmlToBlocks(doc.content, ownerDocument);
+};
+
+// ============================================
+// TREE OPERATIONS (by block id)
+// ============================================
+
+// Depth-first walk; return false from the visitor to stop early
+export const walkBlocks = (
+   blocks: BlockNode[],
+   visit: (block: BlockNode, parent: BlockNode | null) => boolean | void,
+   parent: BlockNode | null = null
+): boolean => {
+   for (const block of blocks) {
+      if (visit(block, parent) === false) return false;
+      if (block.children && !walkBlocks(block.children, visit, block)) return false;
+   }
+   return true;
+};
+
+export const findBlock = (blocks: BlockNode[], id: string): BlockNode | null => {
+   let found: BlockNode | null = null;
+   walkBlocks(blocks, block => {
+      if (block.id === id) {
+         found = block;
+         return false;
+      }
+   });
+   return found;
+};
+
+// Returns a new tree with the block replaced by `updater(block)`; untouched branches are shared
+export const updateBlock = (blocks: BlockNode[], id: string, updater: (block: BlockNode) => BlockNode): BlockNode[] => {
+   let changed = false;
+   const next = blocks.map(block => {
+      if (block.id === id) {
+         changed = true;
+         return updater(block);
+      }
+      if (block.children) {
+         const children = updateBlock(block.children, id, updater);
+         if (children !== block.children) {
+            changed = true;
+            return { ...block, children };
+         }
+      }
+      return block;
+   });
+   return changed ? next : blocks;
+};
+
+export const removeBlock = (blocks: BlockNode[], id: string): BlockNode[] => {
+   let changed = false;
+   const next: BlockNode[] = [];
+   for (const block of blocks) {
+      if (block.id === id) {
+         changed = true;
+         continue;
+      }
+      if (block.children) {
+         const children = removeBlock(block.children, id);
+         if (children !== block.children) {
+            changed = true;
+            next.push({ ...block, children });
+            continue;
+         }
+      }
+      next.push(block);
+   }
+   return changed ? next : blocks;
+};
+
+/**
+ * Returns the tree with the markup of every raw HTML block sanitized; untouched
+ * branches are shared. For trees that skipped htmlToBlocks (saved `blocks`, host values).
+ */
+export const sanitizeHtmlBlocks = (blocks: BlockNode[], ownerDocument?: Document): BlockNode[] => {
+   let changed = false;
+   const next = blocks.map(block => {
+      if (block.type === 'html' && block.content) {
+         const content = sanitizeHtml(block.content, ownerDocument).html;
+         if (content === block.content) return block;
+         changed = true;
+         return { ...block, content };
+      }
+      if (block.children) {
+         const children = sanitizeHtmlBlocks(block.children, ownerDocument);
+         if (children !== block.children) {
+            changed = true;
+            return { ...block, children };
+         }
+      }
+      return block;
+   });
+   return changed ? next : blocks;
+};
+
+/**
+ * Inserts blocks into `parentId`'s children (or the top level when null) at `index`.
+ */
+export const insertBlocks = (blocks: BlockNode[], parentId: string | null, index: number, inserted: BlockNode[]): BlockNode[] => {
+   if (parentId === null) {
+      const next = [...blocks];
+      next.splice(Math.max(0, Math.min(index, next.length)), 0, ...inserted);
+      return next;
+   }
+   return updateBlock(blocks, parentId, parent => {
+      const children = [...(parent.children ?? [])];
+      children.splice(Math.max(0, Math.min(index, children.length)), 0, ...inserted);
+      return { ...parent, children };
+   });
+};
@@ -0,0 +1,154 @@
+import { QrCode } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+import { encodeCode128, encodeEan, encodeQr, LinearBarcode, QrErrorCorrection } from "../barcode";
+
+// ============================================
+// BARCODE BLOCK - QR codes and linear barcodes as inline SVG
+// ============================================
+//
+// The value may hold merge fields. The editor shows a placeholder for them; the
+// viewer and the exports resolve them in the block props and render again, so every
+// merged document gets its own code.
+
+const QR_QUIET_ZONE = 4; // Modules
+const LINEAR_QUIET_ZONE = 10;
+
+const BARCODE_PROPS = {
+   format: {
+      type: 'select',
+      label: 'Format',
+      options: [
+         { label: 'QR code', value: 'qr' },
+         { label: 'Code 128', value: 'code128' },
+         { label: 'EAN-13 / EAN-8', value: 'ean' }
+      ],
+      default: 'qr'
+   },
+   value: { type: 'text', label: 'Value', default: 'https://example.com', placeholder: '{{invoice.id}}', help: 'Literal text or merge fields like {{invoice.id}}' },
+   errorCorrection: {
+      type: 'select',
+      label: 'Error correction',
+      options: [
+         { label: 'Low (7%)', value: 'L' },
+         { label: 'Medium (15%)', value: 'M' },
+         { label: 'Quartile (25%)', value: 'Q' },
+         { label: 'High (30%)', value: 'H' }
+      ],
+      default: 'M',
+      help: 'QR codes only - higher levels survive more damage but need more modules'
+   },
+   size: { type: 'number', label: 'Size (px)', default: 160, min: 48, max: 600, help: 'QR side or barcode width' },
+   barHeight: { type: 'number', label: 'Bar height (px)', default: 60, min: 20, max: 200, help: 'Barcodes only' },
+   showText: { type: 'boolean', label: 'Show value under the bars', default: true },
+   foreground: { type: 'color', label: 'Foreground', default: '#000000' },
+   background: { type: 'color', label: 'Background', default: '#ffffff' },
+   align: {
+      type: 'select',
+      label: 'Alignment',
+      options: [
+         { label: 'Left', value: 'left' },
+         { label: 'Center', value: 'center' },
+         { label: 'Right', value: 'right' }
+      ],
+      default: 'center'
+   }
+} as const;
+
+type BarcodeProps = BlockPropValues<typeof BARCODE_PROPS>;
+
+const FORMAT_LABELS: Record<string, string> = { qr: 'QR code', code128: 'Code 128', ean: 'EAN' };
+
+const renderMessage = (props: BarcodeProps, message: string): string => /* html */`
+   <div style="text-align: ${props.align}; margin: 15px 0;">
+      <div style="display: inline-block; padding: 15px; border: 1px dashed #d1d5db; border-radius: 4px; color: #6b7280; font-size: 13px;">${message}</div>
+   </div>
+`;
+
+// Dark modules as one path - horizontal runs merged, so big codes stay small
+const renderQr = (modules: boolean[][], { size, foreground, background }: BarcodeProps): string => {
+   const dimension = modules.length + QR_QUIET_ZONE * 2;
+   const path = modules.map((row, y) => {
+      const runs: string[] = [];
+      for (let x = 0; x < row.length; x++) {
+         if (!row[x]) continue;
+         const start = x;
+         while (x + 1 < row.length && row[x + 1]) x++;
+         runs.push(`M${start + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h${x - start + 1}v1h-${x - start + 1}z`);
+      }
+      return runs.join('');
+   }).join('');
+
+   return /* html */`
+      <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges" role="img" aria-label="QR code">
+         <rect width="${dimension}" height="${dimension}" fill="${escapeAttribute(background)}"/>
+         <path d="${path}" fill="${escapeAttribute(foreground)}"/>
+      </svg>
+   `;
+};
+
+const renderLinear = ({ bars, text }: LinearBarcode, { size, barHeight, showText, foreground, background }: BarcodeProps, label: string): string => {
+   const width = bars.length + LINEAR_QUIET_ZONE * 2;
+   const textHeight = showText ? 12 : 0;
+   const rects: string[] = [];
+   for (let x = 0; x < bars.length; x++) {
+      if (!bars[x]) continue;
+      const start = x;
+      while (x + 1 < bars.length && bars[x + 1]) x++;
+      rects.push(`<rect x="${start + LINEAR_QUIET_ZONE}" width="${x - start + 1}" height="${barHeight}"/>`);
+   }
+
+   // viewBox units are modules horizontally and pixels vertically - bars stretch, text doesn't
+   const caption = showText
+      ? `<text y="${barHeight + textHeight}" text-anchor="middle" font-family="monospace" font-size="11" fill="${escapeAttribute(foreground)}" transform="translate(${width / 2} 0) scale(${width / size} 1)">${escapeText(text)}</text>`
+      : '';
+   return /* html */`
+      <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${barHeight + textHeight + 4}" viewBox="0 0 ${width} ${barHeight + textHeight + 4}" preserveAspectRatio="none" shape-rendering="crispEdges" role="img" aria-label="${escapeAttribute(`${label} ${text}`)}">
+         <rect width="${width}" height="${barHeight + textHeight + 4}" fill="${escapeAttribute(background)}"/>
+         <g fill="${escapeAttribute(foreground)}">${rects.join('')}</g>
+         ${caption}
+      </svg>
+   `;
+};
+
+const renderBarcode = (props: BarcodeProps): string => {
+   const value = props.value.trim();
+   const label = FORMAT_LABELS[props.format] ?? FORMAT_LABELS.qr;
+   if (!value) return renderMessage(props, `Enter a value for the ${label} in the block settings`);
+
+   // Merge fields are resolved by the viewer and the exports
+   if (/\{\{[^}]+\}\}/.test(value)) {
+      return renderMessage(props, `${label} for <code>${escapeText(value)}</code> - generated when the document is merged`);
+   }
+
+   let svg: string | null = null;
+   if (props.format === 'code128') {
+      const barcode = encodeCode128(value);
+      svg = barcode && renderLinear(barcode, props, label);
+   } else if (props.format === 'ean') {
+      const barcode = encodeEan(value);
+      svg = barcode && renderLinear(barcode, props, label);
+   } else {
+      const modules = encodeQr(value, props.errorCorrection as QrErrorCorrection);
+      svg = modules && renderQr(modules, props);
+   }
+
+   if (!svg) {
+      const reason = props.format === 'ean'
+         ? 'needs 7, 8, 12 or 13 digits with a matching check digit'
+         : props.format === 'code128' ? 'supports printable ASCII characters only' : 'is too long for this error correction level';
+      return renderMessage(props, `<code>${escapeText(value)}</code> can't be encoded - ${label} ${reason}`);
+   }
+
+   return /* html */`<div style="text-align: ${props.align}; margin: 15px 0; line-height: 0;">${svg}</div>`;
+};
+
+export const BARCODE_BLOCK: BlockDefinition<typeof BARCODE_PROPS> = {
+   id: 'barcode',
+   label: 'QR / Barcode',
+   icon: <QrCode size={20} />,
+   category: 'blocks',
+   props: BARCODE_PROPS,
+   template: renderBarcode,
+   staticTemplate: renderBarcode
+};
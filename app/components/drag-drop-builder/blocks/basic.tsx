@@ -0,0 +1,157 @@
+import { AlignVerticalSpaceAround, Code, Image, Minus, Square, Table, Type } from "lucide-react";
+import { Block } from "../type";
+
+// ============================================
+// WIDGET DEFINITIONS
+// ============================================
+
+export const COMPONENT_BLOCKS: Block[] = [
+   {
+      id: 'heading',
+      label: 'Heading',
+      icon: <Type size={20} />,
+      category: 'blocks',
+      html: /* html */`<h2 style='color: #333; margin: 0;'><br></h2>`
+   },
+   {
+      id: 'text',
+      label: 'Text',
+      icon: <Type size={20} />,
+      category: 'blocks',
+      html: /* html */`<p style='margin: 0px;'><br></p>`
+   },
+   {
+      id: 'button',
+      label: 'Button',
+      icon: <Square size={20} />,
+      category: 'blocks',
+      html: /* html */`
+         <a
+            href="#"
+            style='display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 4px; margin: 10px 0;'
+         ><br></a>
+      `
+   },
+   {
+      id: 'image',
+      label: 'Image',
+      icon: <Image size={20} />,
+      category: 'blocks',
+      html: /* html */`
+         <img 
+            src="https://via.placeholder.com/600x300" 
+            alt="Placeholder" 
+            style="width: 100%; height: auto; display: block; margin: 15px 0;"
+         />
+      `
+   },
+   {
+      id: 'divider',
+      label: 'Divider',
+      icon: <Minus size={20} />,
+      category: 'blocks',
+      html: /* html */`<div class='editor-divider' style='border: none; height:2px; background: #e5e7eb; margin: 30px 0;'></div> `
+   },
+   {
+      id: 'spacer',
+      label: 'Spacer',
+      icon: <AlignVerticalSpaceAround size={20} />,
+      category: 'blocks',
+      html: /* html */`<div data-element-type='spacer' style='height: 40px;'></div>`
+   },
+   {
+      id: 'table',
+      label: 'Table',
+      icon: <Table size={20} />,
+      category: 'blocks',
+      html: '__TABLE_PLACEHOLDER__' // Special marker - will be replaced with actual table after size selection
+   },
+   {
+      id: 'html',
+      label: 'HTML',
+      icon: <Code size={20} />,
+      category: 'blocks',
+      html: /* html */`
+         <div data-html-block='true' style='margin: 15px 0;'>
+            <div style='padding: 15px; background: #f5f5f5; font-family: monospace; border-radius: 4px; color: #6b7280;'>Custom HTML Block - edit the markup in the Content tab</div>
+         </div>
+      `
+   },
+];
+
+export const CONTAINER_LAYOUT_BLOCKS: Block[] = [
+   {
+      id: '1col',
+      label: '1 Column',
+      icon: <Square size={20} />,
+      category: 'container',
+      html: /* html */`
+            <div style='display: flex; margin:10px 0;' data-column-container='true'>
+                <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            </div>
+        `
+   },
+   {
+      id: '2col',
+      label: '2 Columns',
+      icon: <Square size={20} />,
+      category: 'container',
+      html: /* html */`
+         <div style='display: flex; margin:10px 0;' data-column-container='true'>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+         </div>
+      `
+   },
+   {
+      id: '3col',
+      label: '3 Columns',
+      icon: <Square size={20} />,
+      category: 'container',
+      html: /* html */`
+         <div style='display: flex; gap: 10px; margin: 10px 0;' data-column-container='true'>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+         </div>
+      `
+   },
+   {
+      id: '4col',
+      label: '4 Columns',
+      icon: <Square size={20} />,
+      category: 'container',
+      html: /* html */`
+         <div style='display: flex; margin: 0;' data-column-container='true'>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+         </div>
+      `
+   },
+   {
+      id: '1-2col',
+      label: '1:2 Ratio',
+      icon: <Square size={20} />,
+      category: 'container',
+      html: /* html */`
+         <div style='display: flex; margin: 0;' data-column-container='true'>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 2; min-height: 100px;'></div>
+         </div>
+      `
+   },
+   {
+      id: '2-1col',
+      label: '2:1 Ratio',
+      icon: <Square size={20} />,
+      category: 'container',
+      html: /* html */`
+         <div style='display: flex; margin:10px 0;' data-column-container='true'>
+            <div class='drop-zone' style='flex: 2; min-height: 100px;'></div>
+            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
+         </div>
+      `
+   },
+];
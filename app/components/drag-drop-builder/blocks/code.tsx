@@ -0,0 +1,167 @@
+import { Code2 } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+import { CODE_INDENT, CODE_LANGUAGES, CODE_THEMES, highlightCode } from "../highlight";
+
+// ============================================
+// CODE BLOCK - syntax highlighted snippet with optional line numbers
+// ============================================
+//
+// The code is the block prop; the template highlights it (see ../highlight) into spans
+// with inline colors, so the PDF, HTML and email exports look like the editor without
+// a stylesheet. In edit mode the snippet is typed in place: the editor hands Enter and
+// Tab to editCode() instead of its rich-text handling, and readCode() turns the edited
+// lines back into the prop when the snippet loses focus.
+
+export const CODE_ATTRIBUTE = 'data-code'; // On the <pre> - the language
+const LINE_ATTRIBUTE = 'data-code-line';
+export const CODE_NUMBER_ATTRIBUTE = 'data-code-number'; // Line numbers - not part of the code
+
+const MONOSPACE = "ui-monospace, SFMono-Regular, Menlo, Consolas, 'Liberation Mono', monospace";
+
+const CODE_PROPS = {
+   code: {
+      type: 'textarea',
+      label: 'Code',
+      default: 'function greet(name) {\n    // Say hello\n    return `Hello, ${name}!`;\n}',
+      code: true
+   },
+   language: { type: 'select', label: 'Language', options: CODE_LANGUAGES, default: 'javascript' },
+   theme: {
+      type: 'select',
+      label: 'Theme',
+      options: Object.entries(CODE_THEMES).map(([value, { label }]) => ({ label, value })),
+      default: 'light'
+   },
+   lineNumbers: { type: 'boolean', label: 'Line numbers', default: true },
+   fontSize: { type: 'number', label: 'Font size (px)', default: 13, min: 9, max: 24 }
+} as const;
+
+type CodeProps = BlockPropValues<typeof CODE_PROPS>;
+
+const renderCode = ({ code, language, theme: themeId, lineNumbers, fontSize }: CodeProps): string => {
+   const theme = CODE_THEMES[themeId] ?? CODE_THEMES.light;
+   const lines = highlightCode(code.replace(/\r\n?/g, '\n'), language);
+
+   // Wrapped lines hang past the numbers, so the numbers stay aligned in narrow pages
+   const digits = String(lines.length).length;
+   const gutter = lineNumbers ? digits + 2 : 0; // ch
+   const rows = lines.map((tokens, index) => {
+      const number = lineNumbers
+         ? `<span ${CODE_NUMBER_ATTRIBUTE} style="display: inline-block; width: ${digits}ch; margin-right: 2ch; text-indent: 0; text-align: right; color: ${theme.lineNumber}; user-select: none;">${index + 1}</span>`
+         : '';
+      const text = tokens.map(({ kind, text }) => kind === 'plain'
+         ? escapeText(text)
+         : `<span style="color: ${theme.colors[kind]};">${escapeText(text)}</span>`).join('');
+      return `<span ${LINE_ATTRIBUTE} style="display: block; min-height: 1.5em; padding-left: ${gutter}ch; text-indent: -${gutter}ch;">${number}${text}</span>`;
+   }).join('');
+
+   // No whitespace between tags - inside <pre> it would show
+   return `<div style="margin: 15px 0; background: ${theme.background}; border: 1px solid ${theme.border}; border-radius: 6px; overflow: hidden;">`
+      + `<pre ${CODE_ATTRIBUTE}="${escapeAttribute(language)}" spellcheck="false" style="margin: 0; padding: 12px 16px; font-family: ${MONOSPACE}; font-size: ${fontSize}px; line-height: 1.5; color: ${theme.colors.plain}; white-space: pre-wrap; overflow-wrap: anywhere; tab-size: 4;">${rows}</pre>`
+      + `</div>`;
+};
+
+// ============================================
+// EDITING IN PLACE
+// ============================================
+
+/**
+ * Code of an edited snippet - one line per line element, line numbers left out.
+ * Newlines typed inside a line (pasted text) are kept as they are.
+ */
+export const readCode = (pre: Element): string => {
+   const clone = pre.cloneNode(true) as Element;
+   clone.querySelectorAll(`[${CODE_NUMBER_ATTRIBUTE}], br`).forEach(el => el.remove());
+   clone.querySelectorAll(`[${LINE_ATTRIBUTE}]`).forEach((line, index) => {
+      if (index > 0) line.before('\n');
+   });
+   return (clone.textContent ?? '').replace(/\u200b/g, '');
+};
+
+const getLineText = (line: Element): string => {
+   const clone = line.cloneNode(true) as Element;
+   clone.querySelector(`[${CODE_NUMBER_ATTRIBUTE}]`)?.remove();
+   return clone.textContent ?? '';
+};
+
+const placeCaret = (selection: Selection, range: Range) => {
+   range.collapse(true);
+   selection.removeAllRanges();
+   selection.addRange(range);
+};
+
+// Text nodes of a line, line number left out
+const getLineTextNodes = (line: Element): Text[] => {
+   const nodes: Text[] = [];
+   const walker = line.ownerDocument.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+   for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (!node.parentElement?.closest(`[${CODE_NUMBER_ATTRIBUTE}]`)) nodes.push(node as Text);
+   }
+   return nodes;
+};
+
+/**
+ * Applies a key of the in-place code editor at the selection: 'newline' splits the line
+ * and keeps its indentation, 'indent' inserts CODE_INDENT, 'outdent' removes one indent
+ * from the start of the line. Highlighting catches up when the code is committed.
+ */
+export const editCode = (pre: Element, selection: Selection, action: 'newline' | 'indent' | 'outdent') => {
+   if (!selection.rangeCount) return;
+   const range = selection.getRangeAt(0);
+   const ownerDocument = pre.ownerDocument;
+   const start = range.startContainer;
+   const line = (start.nodeType === Node.ELEMENT_NODE ? start as Element : start.parentElement)?.closest(`[${LINE_ATTRIBUTE}]`);
+   const number = line?.querySelector(`[${CODE_NUMBER_ATTRIBUTE}]`);
+
+   if (action === 'outdent') {
+      const first = line ? getLineTextNodes(line).find(node => node.data) : null;
+      const indent = first?.data.match(/^ */)?.[0].length ?? 0;
+      if (first && indent) first.deleteData(0, Math.min(indent, CODE_INDENT.length));
+      return;
+   }
+
+   // Never type into the line number
+   if (number) {
+      const afterNumber = ownerDocument.createRange();
+      afterNumber.setStartAfter(number);
+      if (range.compareBoundaryPoints(Range.START_TO_START, afterNumber) < 0) range.setStartAfter(number);
+   }
+   range.deleteContents();
+
+   if (action === 'indent' || !line) {
+      const text = ownerDocument.createTextNode(action === 'indent' ? CODE_INDENT : '\n');
+      range.insertNode(text);
+      range.setStartAfter(text);
+      placeCaret(selection, range);
+      return;
+   }
+
+   // The rest of the line moves to a new line element after this one
+   const tail = range.cloneRange();
+   tail.setEnd(line, line.childNodes.length);
+   const rest = tail.extractContents();
+   const next = line.cloneNode(false) as Element;
+   const indent = getLineText(line).match(/^[ \t]*/)?.[0] ?? '';
+   if (number) next.append(number.cloneNode(true));
+   if (indent) next.append(indent);
+   next.append(rest);
+   line.after(next);
+
+   pre.querySelectorAll(`[${CODE_NUMBER_ATTRIBUTE}]`).forEach((el, index) => {
+      el.textContent = String(index + 1);
+   });
+
+   const caret = ownerDocument.createRange();
+   caret.setStart(next, (number ? 1 : 0) + (indent ? 1 : 0));
+   placeCaret(selection, caret);
+};
+
+export const CODE_BLOCK: BlockDefinition<typeof CODE_PROPS> = {
+   id: 'code',
+   label: 'Code',
+   icon: <Code2 size={20} />,
+   category: 'blocks',
+   props: CODE_PROPS,
+   template: renderCode
+};
@@ -0,0 +1,228 @@
+import { Clock } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+
+// ============================================
+// COUNTDOWN BLOCK - time left until a target date
+// ============================================
+//
+// The markup is a snapshot of the time left when it was rendered. Live views tick it
+// with updateCountdowns(); exports re-render it through staticTemplate, so a PDF or an
+// email shows the countdown as of export time.
+
+const TIMEZONES = [
+   'UTC',
+   'America/Los_Angeles',
+   'America/Denver',
+   'America/Chicago',
+   'America/New_York',
+   'America/Sao_Paulo',
+   'Europe/London',
+   'Europe/Paris',
+   'Europe/Berlin',
+   'Europe/Moscow',
+   'Africa/Johannesburg',
+   'Asia/Dubai',
+   'Asia/Kolkata',
+   'Asia/Singapore',
+   'Asia/Shanghai',
+   'Asia/Tokyo',
+   'Australia/Sydney',
+   'Pacific/Auckland'
+];
+
+const UNITS = [
+   { name: 'days', label: 'Days', seconds: 86400 },
+   { name: 'hours', label: 'Hours', seconds: 3600 },
+   { name: 'minutes', label: 'Minutes', seconds: 60 },
+   { name: 'seconds', label: 'Seconds', seconds: 1 }
+] as const;
+
+type CountdownUnit = typeof UNITS[number];
+
+const COUNTDOWN_PROPS = {
+   targetDate: { type: 'datetime', label: 'Ends at', default: '', help: 'Date and time in the timezone below' },
+   timezone: {
+      type: 'select',
+      label: 'Timezone',
+      options: TIMEZONES.map(zone => ({ label: zone.replace(/_/g, ' '), value: zone })),
+      default: 'UTC'
+   },
+   showDays: { type: 'boolean', label: 'Show days', default: true },
+   showHours: { type: 'boolean', label: 'Show hours', default: true },
+   showMinutes: { type: 'boolean', label: 'Show minutes', default: true },
+   showSeconds: { type: 'boolean', label: 'Show seconds', default: true },
+   layout: {
+      type: 'select',
+      label: 'Layout',
+      options: [
+         { label: 'Boxes', value: 'boxes' },
+         { label: 'Inline', value: 'inline' },
+         { label: 'Clock (00:00:00)', value: 'clock' }
+      ],
+      default: 'boxes'
+   },
+   showLabels: { type: 'boolean', label: 'Show labels', default: true },
+   numberColor: { type: 'color', label: 'Number color', default: '#111827' },
+   boxColor: { type: 'color', label: 'Box color', default: '#f3f4f6', help: 'Boxes layout only' },
+   labelColor: { type: 'color', label: 'Label color', default: '#6b7280' },
+   expiredMessage: { type: 'text', label: 'Expired message', default: '', placeholder: 'This offer has ended', help: 'Replaces the countdown once the date has passed - leave empty to show zeros' }
+} as const;
+
+type CountdownProps = BlockPropValues<typeof COUNTDOWN_PROPS>;
+
+const TARGET_ATTRIBUTE = 'data-countdown-target';
+const UNIT_ATTRIBUTE = 'data-countdown-unit';
+const EXPIRED_ATTRIBUTE = 'data-countdown-expired';
+
+// Milliseconds the zone is ahead of UTC at `time`
+const getTimezoneOffset = (time: number, timeZone: string): number => {
+   const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric'
+   }).formatToParts(new Date(time));
+   const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+   const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+   return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * Converts a `datetime-local` value read in `timeZone` to epoch milliseconds.
+ * Returns null for an empty or malformed value.
+ *
+ * @example
+ * ```ts
+ * zonedTimeToEpoch('2026-12-31T23:59', 'Europe/Paris'); // 1798757940000
+ * ```
+ */
+export const zonedTimeToEpoch = (local: string, timeZone: string): number | null => {
+   const match = local.trim().match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+   if (!match) return null;
+
+   const [, year, month, day, hour, minute, second = '0'] = match;
+   const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+   try {
+      // The offset at the guess is right except next to a DST switch - one more pass settles it
+      const guess = wallClock - getTimezoneOffset(wallClock, timeZone);
+      return wallClock - getTimezoneOffset(guess, timeZone);
+   } catch {
+      return wallClock; // Unknown zone - read as UTC
+   }
+};
+
+// Splits the time left over the shown units - the largest one absorbs the hidden larger ones
+const splitRemaining = (remainingMs: number, units: readonly CountdownUnit[]): Record<string, number> => {
+   let rest = Math.max(0, Math.floor(remainingMs / 1000));
+   return Object.fromEntries(units.map(unit => {
+      const value = Math.floor(rest / unit.seconds);
+      rest -= value * unit.seconds;
+      return [unit.name, value];
+   }));
+};
+
+const formatUnit = (name: string, value: number): string => name === 'days' ? String(value) : String(value).padStart(2, '0');
+
+const getShownUnits = (props: CountdownProps): readonly CountdownUnit[] => {
+   const shown = UNITS.filter(unit => ({
+      days: props.showDays,
+      hours: props.showHours,
+      minutes: props.showMinutes,
+      seconds: props.showSeconds
+   })[unit.name]);
+   return shown.length > 0 ? shown : UNITS;
+};
+
+const renderUnits = (props: CountdownProps, units: readonly CountdownUnit[], values: Record<string, number>): string => {
+   const { layout, showLabels, numberColor, boxColor, labelColor } = props;
+   const number = (unit: CountdownUnit) => `<span ${UNIT_ATTRIBUTE}="${unit.name}">${formatUnit(unit.name, values[unit.name])}</span>`;
+
+   if (layout === 'clock') {
+      const separator = `<span style="padding: 0 4px; color: ${escapeAttribute(labelColor)};">:</span>`;
+      const labels = showLabels
+         ? `<div style="font-size: 11px; letter-spacing: 0.05em; text-transform: uppercase; color: ${escapeAttribute(labelColor)};">${units.map(unit => unit.label).join(' : ')}</div>`
+         : '';
+      return /* html */`
+         <div style="font-size: 36px; font-weight: 700; font-variant-numeric: tabular-nums; color: ${escapeAttribute(numberColor)};">${units.map(number).join(separator)}</div>
+         ${labels}
+      `;
+   }
+
+   if (layout === 'inline') {
+      return units.map(unit => /* html */`
+         <span style="display: inline-block; padding: 0 6px; font-variant-numeric: tabular-nums;">
+            <span style="font-size: 24px; font-weight: 700; color: ${escapeAttribute(numberColor)};">${number(unit)}</span>
+            ${showLabels ? `<span style="font-size: 14px; color: ${escapeAttribute(labelColor)};">${unit.label.toLowerCase()}</span>` : ''}
+         </span>
+      `).join('');
+   }
+
+   // Boxes - inline-block rather than flex, so mail clients keep them on one line
+   return units.map(unit => /* html */`
+      <div style="display: inline-block; min-width: 64px; margin: 0 4px; padding: 12px 8px; background: ${escapeAttribute(boxColor)}; border-radius: 8px; vertical-align: top;">
+         <div style="font-size: 32px; font-weight: 700; line-height: 1.1; font-variant-numeric: tabular-nums; color: ${escapeAttribute(numberColor)};">${number(unit)}</div>
+         ${showLabels ? `<div style="margin-top: 4px; font-size: 11px; letter-spacing: 0.05em; text-transform: uppercase; color: ${escapeAttribute(labelColor)};">${unit.label}</div>` : ''}
+      </div>
+   `).join('');
+};
+
+const renderCountdown = (props: CountdownProps): string => {
+   const target = zonedTimeToEpoch(props.targetDate, props.timezone);
+   if (target === null) {
+      return /* html */`<div style="text-align: center; padding: 20px; background: #f9fafb; margin: 15px 0; border-radius: 4px; color: #9ca3af;">Set the end date in the block settings</div>`;
+   }
+
+   const units = getShownUnits(props);
+   const remaining = target - Date.now();
+   const isExpired = remaining <= 0 && props.expiredMessage.trim() !== '';
+   const hidden = 'display: none;';
+
+   return /* html */`
+      <div ${TARGET_ATTRIBUTE}="${target}" style="text-align: center; padding: 20px 0; margin: 15px 0;">
+         <div data-countdown-units style="${isExpired ? hidden : ''}">${renderUnits(props, units, splitRemaining(remaining, units))}</div>
+         <div ${EXPIRED_ATTRIBUTE} style="font-size: 20px; font-weight: 600; color: ${escapeAttribute(props.numberColor)}; ${isExpired ? '' : hidden}">${escapeText(props.expiredMessage)}</div>
+      </div>
+   `;
+};
+
+/**
+ * Brings every countdown under `root` to `now`. Only touches the numbers and the
+ * expired message, so it's cheap enough to run every second.
+ *
+ * @example
+ * ```ts
+ * const timer = setInterval(() => updateCountdowns(shadowRoot), 1000);
+ * ```
+ */
+export const updateCountdowns = (root: ParentNode, now: number = Date.now()) => {
+   root.querySelectorAll<HTMLElement>(`[${TARGET_ATTRIBUTE}]`).forEach(countdown => {
+      const target = Number(countdown.getAttribute(TARGET_ATTRIBUTE));
+      if (!Number.isFinite(target)) return;
+
+      const numbers = Array.from(countdown.querySelectorAll<HTMLElement>(`[${UNIT_ATTRIBUTE}]`));
+      const units = UNITS.filter(unit => numbers.some(el => el.getAttribute(UNIT_ATTRIBUTE) === unit.name));
+      const values = splitRemaining(target - now, units);
+      numbers.forEach(el => {
+         const name = el.getAttribute(UNIT_ATTRIBUTE) ?? '';
+         const text = formatUnit(name, values[name] ?? 0);
+         if (el.textContent !== text) el.textContent = text;
+      });
+
+      const expired = countdown.querySelector<HTMLElement>(`[${EXPIRED_ATTRIBUTE}]`);
+      const unitsWrapper = countdown.querySelector<HTMLElement>('[data-countdown-units]');
+      const isExpired = target <= now && !!expired?.textContent?.trim();
+      if (expired) expired.style.display = isExpired ? '' : 'none';
+      if (unitsWrapper) unitsWrapper.style.display = isExpired ? 'none' : '';
+   });
+};
+
+export const COUNTDOWN_BLOCK: BlockDefinition<typeof COUNTDOWN_PROPS> = {
+   id: 'timer',
+   label: 'Timer',
+   icon: <Clock size={20} />,
+   category: 'blocks',
+   props: COUNTDOWN_PROPS,
+   template: renderCountdown,
+   staticTemplate: renderCountdown
+};
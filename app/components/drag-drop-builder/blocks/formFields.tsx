@@ -0,0 +1,298 @@
+import { CalendarDays, CircleDot, SquareCheck, SquareChevronDown, TextCursorInput, TextQuote } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+import { FORM_FIELD_ATTRIBUTE, FORM_OPTION_ATTRIBUTE, FormFieldSpec } from "../acroForm";
+
+// ============================================
+// FORM FIELD BLOCKS - fields the recipient fills in
+// ============================================
+//
+// Every field renders three ways: a styled placeholder in the builder (`template`), real
+// controls in the HTML export (`exportTemplate`) and an empty box in the PDF and email
+// exports (`staticTemplate`). In the PDF the box is marked with its field spec, and the
+// export adds a fillable AcroForm field on top of it (see acroForm.ts).
+
+type FieldMode = 'editor' | 'html' | 'pdf';
+
+const BOX_STYLE = 'display: block; width: 100%; min-height: 34px; padding: 7px 10px; border: 1px solid #d1d5db; border-radius: 4px; background: #ffffff; font: inherit; font-size: 14px; line-height: 18px; color: #111827;';
+const MARK_STYLE = 'flex: none; width: 16px; height: 16px; border: 1px solid #9ca3af; background: #ffffff;';
+const LABEL_STYLE = 'display: block; margin-bottom: 4px; font-size: 13px; font-weight: 500; color: #374151;';
+const OPTION_STYLE = 'display: flex; align-items: center; gap: 8px; font-size: 14px; color: #111827;';
+
+const OPTION_ITEM = {
+   label: { type: 'text', label: 'Label', default: 'Option' },
+   value: { type: 'text', label: 'Value', default: 'option' }
+} as const;
+
+// Props every field has - the name identifies the value in the submitted form and the PDF
+const fieldProps = (label: string, name: string) => ({
+   label: { type: 'text', label: 'Label', default: label },
+   name: { type: 'text', label: 'Field name', default: name, help: 'Letters, digits, - and _ - unique within the document' },
+   required: { type: 'boolean', label: 'Required', default: false }
+}) as const;
+
+const spec = (value: FormFieldSpec): string => `${FORM_FIELD_ATTRIBUTE}="${escapeAttribute(JSON.stringify(value))}"`;
+
+const requiredMark = (required: boolean): string => required ? '<span style="color: #dc2626;"> *</span>' : '';
+
+// Field name in the builder, so authors can tell fields apart
+const nameTag = (name: string, mode: FieldMode): string => mode === 'editor'
+   ? `<span style="float: right; font-family: monospace; font-size: 11px; font-weight: 400; color: #9ca3af;">${escapeText(name)}</span>`
+   : '';
+
+const placeholderText = (value: string, placeholder: string): string => value
+   ? escapeText(value)
+   : `<span style="color: #9ca3af;">${escapeText(placeholder)}</span>`;
+
+const wrap = (content: string): string => /* html */`<div style="margin: 12px 0;">${content}</div>`;
+
+// Label above a control. HTML wraps the control in the <label>, so no ids are needed
+const labelled = (props: { label: string; name: string; required: boolean }, mode: FieldMode, control: string): string => {
+   const caption = `${escapeText(props.label)}${requiredMark(props.required)}${nameTag(props.name, mode)}`;
+   return mode === 'html'
+      ? wrap(`<label style="display: block;"><span style="${LABEL_STYLE}">${caption}</span>${control}</label>`)
+      : wrap(`<div style="${LABEL_STYLE}">${caption}</div>${control}`);
+};
+
+// ============================================
+// TEXT AND MULTILINE
+// ============================================
+
+const TEXT_FIELD_PROPS = {
+   ...fieldProps('Full name', 'full_name'),
+   placeholder: { type: 'text', label: 'Placeholder', default: 'Enter your name' },
+   defaultValue: { type: 'text', label: 'Default value', default: '', help: 'Text or merge fields like {{client.name}}' }
+} as const;
+
+const renderTextField = (mode: FieldMode) => (props: BlockPropValues<typeof TEXT_FIELD_PROPS>): string => {
+   const { name, required, placeholder, defaultValue } = props;
+   if (mode === 'html') {
+      return labelled(props, mode, `<input type="text" name="${escapeAttribute(name)}" value="${escapeAttribute(defaultValue)}" placeholder="${escapeAttribute(placeholder)}"${required ? ' required' : ''} style="${BOX_STYLE}">`);
+   }
+   if (mode === 'pdf') {
+      return labelled(props, mode, `<div ${spec({ kind: 'text', name, required, value: defaultValue })} style="${BOX_STYLE}"></div>`);
+   }
+   return labelled(props, mode, `<div style="${BOX_STYLE}">${placeholderText(defaultValue, placeholder)}</div>`);
+};
+
+const MULTILINE_FIELD_PROPS = {
+   ...fieldProps('Comments', 'comments'),
+   placeholder: { type: 'text', label: 'Placeholder', default: 'Add any comments' },
+   defaultValue: { type: 'textarea', label: 'Default value', default: '' },
+   rows: { type: 'number', label: 'Rows', default: 4, min: 2, max: 20 }
+} as const;
+
+const renderMultilineField = (mode: FieldMode) => (props: BlockPropValues<typeof MULTILINE_FIELD_PROPS>): string => {
+   const { name, required, placeholder, defaultValue, rows } = props;
+   const style = `${BOX_STYLE} height: ${rows * 18 + 16}px; white-space: pre-wrap; overflow: hidden;`;
+   if (mode === 'html') {
+      return labelled(props, mode, `<textarea name="${escapeAttribute(name)}" rows="${rows}" placeholder="${escapeAttribute(placeholder)}"${required ? ' required' : ''} style="${style} resize: vertical;">${escapeText(defaultValue)}</textarea>`);
+   }
+   if (mode === 'pdf') {
+      return labelled(props, mode, `<div ${spec({ kind: 'multiline', name, required, value: defaultValue })} style="${style}"></div>`);
+   }
+   return labelled(props, mode, `<div style="${style}">${placeholderText(defaultValue, placeholder)}</div>`);
+};
+
+// ============================================
+// CHECKBOX
+// ============================================
+
+const CHECKBOX_FIELD_PROPS = {
+   ...fieldProps('I agree to the terms and conditions', 'agree'),
+   defaultChecked: { type: 'boolean', label: 'Checked by default', default: false }
+} as const;
+
+const renderCheckboxField = (mode: FieldMode) => (props: BlockPropValues<typeof CHECKBOX_FIELD_PROPS>): string => {
+   const { label, name, required, defaultChecked } = props;
+   const caption = `${escapeText(label)}${requiredMark(required)}`;
+
+   if (mode === 'html') {
+      return wrap(`<label style="${OPTION_STYLE}"><input type="checkbox" name="${escapeAttribute(name)}" value="on"${defaultChecked ? ' checked' : ''}${required ? ' required' : ''} style="margin: 0; width: 16px; height: 16px;">${caption}</label>`);
+   }
+   const box = mode === 'pdf'
+      ? `<span ${spec({ kind: 'checkbox', name, required, value: defaultChecked ? 'On' : 'Off' })} style="${MARK_STYLE} border-radius: 3px;"></span>`
+      : `<span style="${MARK_STYLE} border-radius: 3px; text-align: center; font-size: 12px; line-height: 14px;">${defaultChecked ? '✓' : ''}</span>`;
+   return wrap(`<div style="${OPTION_STYLE}">${box}<span>${caption}${nameTag(name, mode)}</span></div>`);
+};
+
+// ============================================
+// RADIO GROUP AND DROPDOWN
+// ============================================
+
+const RADIO_FIELD_PROPS = {
+   ...fieldProps('Preferred contact method', 'contact_method'),
+   options: {
+      type: 'list',
+      label: 'Options',
+      itemTitle: 'label',
+      addLabel: 'Add option',
+      item: OPTION_ITEM,
+      default: [
+         { label: 'Email', value: 'email' },
+         { label: 'Phone', value: 'phone' },
+         { label: 'Post', value: 'post' }
+      ]
+   },
+   defaultValue: { type: 'text', label: 'Selected by default', default: '', placeholder: 'Option value', help: 'Value of the option selected at first' },
+   layout: {
+      type: 'select',
+      label: 'Layout',
+      options: [
+         { label: 'Vertical', value: 'vertical' },
+         { label: 'Horizontal', value: 'horizontal' }
+      ],
+      default: 'vertical'
+   }
+} as const;
+
+const renderRadioField = (mode: FieldMode) => (props: BlockPropValues<typeof RADIO_FIELD_PROPS>): string => {
+   const { name, required, options, defaultValue, layout } = props;
+   const listStyle = `display: flex; flex-direction: ${layout === 'horizontal' ? 'row' : 'column'}; flex-wrap: wrap; gap: 8px 20px;`;
+
+   const items = options.map(({ label, value }) => {
+      const checked = value === defaultValue;
+      if (mode === 'html') {
+         return `<label style="${OPTION_STYLE}"><input type="radio" name="${escapeAttribute(name)}" value="${escapeAttribute(value)}"${checked ? ' checked' : ''}${required ? ' required' : ''} style="margin: 0; width: 16px; height: 16px;">${escapeText(label)}</label>`;
+      }
+      const circle = mode === 'pdf'
+         ? `<span ${FORM_OPTION_ATTRIBUTE}="${escapeAttribute(value)}" style="${MARK_STYLE} border-radius: 50%;"></span>`
+         : `<span style="${MARK_STYLE} border-radius: 50%; box-sizing: border-box; ${checked ? 'border: 5px solid #374151;' : ''}"></span>`;
+      return `<div style="${OPTION_STYLE}">${circle}<span>${escapeText(label)}</span></div>`;
+   }).join('');
+
+   if (mode === 'html') {
+      return wrap(`<fieldset style="margin: 0; padding: 0; border: none;"><legend style="${LABEL_STYLE} padding: 0;">${escapeText(props.label)}${requiredMark(required)}</legend><div style="${listStyle}">${items}</div></fieldset>`);
+   }
+   const group = mode === 'pdf'
+      ? `<div ${spec({ kind: 'radio', name, required, value: defaultValue })} style="${listStyle}">${items}</div>`
+      : `<div style="${listStyle}">${items}</div>`;
+   return labelled(props, mode, group);
+};
+
+const DROPDOWN_FIELD_PROPS = {
+   ...fieldProps('Country', 'country'),
+   options: {
+      type: 'list',
+      label: 'Options',
+      itemTitle: 'label',
+      addLabel: 'Add option',
+      item: OPTION_ITEM,
+      default: [
+         { label: 'United States', value: 'us' },
+         { label: 'United Kingdom', value: 'uk' },
+         { label: 'Germany', value: 'de' }
+      ]
+   },
+   placeholder: { type: 'text', label: 'Placeholder', default: 'Select...' },
+   defaultValue: { type: 'text', label: 'Selected by default', default: '', placeholder: 'Option value', help: 'Value of the option selected at first' }
+} as const;
+
+const renderDropdownField = (mode: FieldMode) => (props: BlockPropValues<typeof DROPDOWN_FIELD_PROPS>): string => {
+   const { name, required, options, placeholder, defaultValue } = props;
+   const selected = options.find(option => option.value === defaultValue);
+
+   if (mode === 'html') {
+      const choices = options.map(({ label, value }) =>
+         `<option value="${escapeAttribute(value)}"${value === defaultValue ? ' selected' : ''}>${escapeText(label)}</option>`
+      ).join('');
+      return labelled(props, mode, `<select name="${escapeAttribute(name)}"${required ? ' required' : ''} style="${BOX_STYLE}"><option value=""${selected ? '' : ' selected'} disabled>${escapeText(placeholder)}</option>${choices}</select>`);
+   }
+   if (mode === 'pdf') {
+      // PDF choice fields hold display strings - the labels
+      const field = spec({ kind: 'dropdown', name, required, value: selected?.label ?? '', options: options.map(option => option.label) });
+      return labelled(props, mode, `<div ${field} style="${BOX_STYLE}"></div>`);
+   }
+   return labelled(props, mode, `<div style="${BOX_STYLE} display: flex; justify-content: space-between; gap: 8px;"><span>${placeholderText(selected?.label ?? '', placeholder)}</span><span style="color: #6b7280;">▾</span></div>`);
+};
+
+// ============================================
+// DATE
+// ============================================
+
+const DATE_FIELD_PROPS = {
+   ...fieldProps('Date', 'date'),
+   defaultValue: { type: 'date', label: 'Default date', default: '' }
+} as const;
+
+const renderDateField = (mode: FieldMode) => (props: BlockPropValues<typeof DATE_FIELD_PROPS>): string => {
+   const { name, required, defaultValue } = props;
+   const style = `${BOX_STYLE} max-width: 200px;`;
+   if (mode === 'html') {
+      return labelled(props, mode, `<input type="date" name="${escapeAttribute(name)}" value="${escapeAttribute(defaultValue)}"${required ? ' required' : ''} style="${style}">`);
+   }
+   if (mode === 'pdf') {
+      return labelled(props, mode, `<div ${spec({ kind: 'date', name, required, value: defaultValue })} style="${style}"></div>`);
+   }
+   return labelled(props, mode, `<div style="${style}">${placeholderText(defaultValue, 'YYYY-MM-DD')}</div>`);
+};
+
+// ============================================
+// DEFINITIONS
+// ============================================
+
+export const TEXT_FIELD_BLOCK: BlockDefinition<typeof TEXT_FIELD_PROPS> = {
+   id: 'text-field',
+   label: 'Text Field',
+   icon: <TextCursorInput size={20} />,
+   category: 'blocks',
+   props: TEXT_FIELD_PROPS,
+   template: renderTextField('editor'),
+   exportTemplate: renderTextField('html'),
+   staticTemplate: renderTextField('pdf')
+};
+
+export const MULTILINE_FIELD_BLOCK: BlockDefinition<typeof MULTILINE_FIELD_PROPS> = {
+   id: 'multiline-field',
+   label: 'Multiline Field',
+   icon: <TextQuote size={20} />,
+   category: 'blocks',
+   props: MULTILINE_FIELD_PROPS,
+   template: renderMultilineField('editor'),
+   exportTemplate: renderMultilineField('html'),
+   staticTemplate: renderMultilineField('pdf')
+};
+
+export const CHECKBOX_FIELD_BLOCK: BlockDefinition<typeof CHECKBOX_FIELD_PROPS> = {
+   id: 'checkbox-field',
+   label: 'Checkbox',
+   icon: <SquareCheck size={20} />,
+   category: 'blocks',
+   props: CHECKBOX_FIELD_PROPS,
+   template: renderCheckboxField('editor'),
+   exportTemplate: renderCheckboxField('html'),
+   staticTemplate: renderCheckboxField('pdf')
+};
+
+export const RADIO_FIELD_BLOCK: BlockDefinition<typeof RADIO_FIELD_PROPS> = {
+   id: 'radio-field',
+   label: 'Radio Group',
+   icon: <CircleDot size={20} />,
+   category: 'blocks',
+   props: RADIO_FIELD_PROPS,
+   template: renderRadioField('editor'),
+   exportTemplate: renderRadioField('html'),
+   staticTemplate: renderRadioField('pdf')
+};
+
+export const DROPDOWN_FIELD_BLOCK: BlockDefinition<typeof DROPDOWN_FIELD_PROPS> = {
+   id: 'dropdown-field',
+   label: 'Dropdown',
+   icon: <SquareChevronDown size={20} />,
+   category: 'blocks',
+   props: DROPDOWN_FIELD_PROPS,
+   template: renderDropdownField('editor'),
+   exportTemplate: renderDropdownField('html'),
+   staticTemplate: renderDropdownField('pdf')
+};
+
+export const DATE_FIELD_BLOCK: BlockDefinition<typeof DATE_FIELD_PROPS> = {
+   id: 'date-field',
+   label: 'Date Field',
+   icon: <CalendarDays size={20} />,
+   category: 'blocks',
+   props: DATE_FIELD_PROPS,
+   template: renderDateField('editor'),
+   exportTemplate: renderDateField('html'),
+   staticTemplate: renderDateField('pdf')
+};
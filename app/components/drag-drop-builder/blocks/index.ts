@@ -0,0 +1,20 @@
+// Built-in blocks - registered by blockRegistry
+export { COMPONENT_BLOCKS, CONTAINER_LAYOUT_BLOCKS } from "./basic";
+export { VIDEO_BLOCK, parseVideoUrl } from "./video";
+export type { VideoSource } from "./video";
+export { SOCIAL_BLOCK, SOCIAL_NETWORKS } from "./social";
+export { MENU_BLOCK } from "./menu";
+export { BARCODE_BLOCK } from "./barcode";
+export { SIGNATURE_BLOCK, SIGNATURE_PAD_ATTRIBUTE } from "./signature";
+export {
+   CHECKBOX_FIELD_BLOCK,
+   DATE_FIELD_BLOCK,
+   DROPDOWN_FIELD_BLOCK,
+   MULTILINE_FIELD_BLOCK,
+   RADIO_FIELD_BLOCK,
+   TEXT_FIELD_BLOCK
+} from "./formFields";
+export { COUNTDOWN_BLOCK, updateCountdowns, zonedTimeToEpoch } from "./countdown";
+export { TOC_BLOCK, updateTableOfContents } from "./toc";
+export { MATH_BLOCK } from "./math";
+export { CODE_ATTRIBUTE, CODE_BLOCK, CODE_NUMBER_ATTRIBUTE, editCode, readCode } from "./code";
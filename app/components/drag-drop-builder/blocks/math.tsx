@@ -0,0 +1,68 @@
+import { Sigma } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+import { renderMath } from "../math";
+
+// ============================================
+// MATH BLOCK - display equation from LaTeX
+// ============================================
+//
+// The LaTeX is the block prop, so it stays editable after a reload; the template draws it
+// as SVG (see ../math), which the editor, the viewer and every export show the same way.
+
+const MATH_PROPS = {
+   latex: {
+      type: 'textarea',
+      label: 'LaTeX',
+      default: 'x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}',
+      placeholder: 'E = mc^2',
+      help: 'Fractions, roots, scripts, matrices, \\begin{aligned} and more',
+      latex: true
+   },
+   fontSize: { type: 'number', label: 'Font size (px)', default: 20, min: 10, max: 72 },
+   color: { type: 'color', label: 'Color', default: '#111827' },
+   align: {
+      type: 'select',
+      label: 'Alignment',
+      options: [
+         { label: 'Left', value: 'left' },
+         { label: 'Center', value: 'center' },
+         { label: 'Right', value: 'right' }
+      ],
+      default: 'center'
+   },
+   tag: { type: 'text', label: 'Equation number', default: '', placeholder: '1.1', help: 'Shown in parentheses at the right' }
+} as const;
+
+type MathProps = BlockPropValues<typeof MATH_PROPS>;
+
+const renderMessage = (props: MathProps, message: string): string => /* html */`
+   <div style="text-align: ${props.align}; margin: 15px 0;">
+      <div style="display: inline-block; padding: 15px; border: 1px dashed #d1d5db; border-radius: 4px; color: #6b7280; font-size: 13px;">${message}</div>
+   </div>
+`;
+
+const renderEquation = (props: MathProps): string => {
+   const latex = props.latex.trim();
+   if (!latex) return renderMessage(props, 'Enter a LaTeX formula in the block settings');
+
+   const result = renderMath(latex, { size: props.fontSize, color: props.color, display: true });
+   if ('error' in result) {
+      return renderMessage(props, `<code>${escapeText(latex)}</code> can't be rendered - ${escapeText(result.error)}`);
+   }
+
+   // The number sits outside the flow, so it doesn't shift a centered equation
+   const tag = props.tag.trim()
+      ? `<span style="position: absolute; right: 0; top: 50%; transform: translateY(-50%); font-size: ${props.fontSize * 0.8}px; color: ${escapeAttribute(props.color)}; line-height: 1;">(${escapeText(props.tag.trim())})</span>`
+      : '';
+   return /* html */`<div style="position: relative; text-align: ${props.align}; margin: 15px 0; padding: 0 ${tag ? 56 : 0}px; line-height: 0;">${result.svg}${tag}</div>`;
+};
+
+export const MATH_BLOCK: BlockDefinition<typeof MATH_PROPS> = {
+   id: 'math',
+   label: 'Equation',
+   icon: <Sigma size={20} />,
+   category: 'blocks',
+   props: MATH_PROPS,
+   template: renderEquation
+};
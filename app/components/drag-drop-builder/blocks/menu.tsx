@@ -0,0 +1,152 @@
+import { Menu } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+
+// ============================================
+// MENU BLOCK - navigation links for newsletters and long documents
+// ============================================
+//
+// Layout is inline styles, so it survives every export. Hover colors and the narrow
+// screen layout need selectors, so each menu carries a small stylesheet scoped to a
+// class derived from its props - clients that drop it still get a working menu.
+
+const SEPARATORS: Record<string, string> = {
+   none: '',
+   pipe: '|',
+   dot: '•',
+   slash: '/'
+};
+
+const MENU_PROPS = {
+   items: {
+      type: 'list',
+      label: 'Items',
+      itemTitle: 'label',
+      addLabel: 'Add item',
+      item: {
+         label: { type: 'text', label: 'Label', default: 'Link' },
+         url: { type: 'url', label: 'Link', placeholder: 'https:// or #section', help: '#name jumps to the block whose CSS ID is "name" (Advanced tab)' }
+      },
+      default: [
+         { label: 'Home', url: '#' },
+         { label: 'About', url: '#' },
+         { label: 'Services', url: '#' },
+         { label: 'Contact', url: '#' }
+      ]
+   },
+   orientation: {
+      type: 'select',
+      label: 'Orientation',
+      options: [
+         { label: 'Horizontal', value: 'horizontal' },
+         { label: 'Vertical', value: 'vertical' }
+      ],
+      default: 'horizontal'
+   },
+   align: {
+      type: 'select',
+      label: 'Alignment',
+      options: [
+         { label: 'Left', value: 'left' },
+         { label: 'Center', value: 'center' },
+         { label: 'Right', value: 'right' }
+      ],
+      default: 'center'
+   },
+   separator: {
+      type: 'select',
+      label: 'Separator',
+      options: [
+         { label: 'None', value: 'none' },
+         { label: 'Pipe ( | )', value: 'pipe' },
+         { label: 'Dot ( • )', value: 'dot' },
+         { label: 'Slash ( / )', value: 'slash' }
+      ],
+      default: 'none',
+      help: 'Horizontal menus only'
+   },
+   textColor: { type: 'color', label: 'Text color', default: '#374151' },
+   hoverColor: { type: 'color', label: 'Hover color', default: '#16a34a' },
+   separatorColor: { type: 'color', label: 'Separator color', default: '#d1d5db' },
+   fontSize: { type: 'number', label: 'Font size (px)', default: 15, min: 10, max: 32 },
+   spacing: { type: 'number', label: 'Spacing (px)', default: 16, min: 0, max: 64 },
+   bold: { type: 'boolean', label: 'Bold', default: false },
+   uppercase: { type: 'boolean', label: 'Uppercase', default: false },
+   stackOnMobile: { type: 'boolean', label: 'Stack on small screens', default: true, help: 'Horizontal menus turn vertical below 600px in HTML export' }
+} as const;
+
+type MenuProps = BlockPropValues<typeof MENU_PROPS>;
+
+// Anything else could close the scoped stylesheet or smuggle rules into it
+const isSafeColor = (value: string): boolean => /^(#[0-9a-f]{3,8}|[a-z]+|(rgb|hsl)a?\([\d\s.,%]+\))$/i.test(value.trim());
+
+const getSafeHref = (url: string): string => {
+   const href = url.trim();
+   return /^(https?:|mailto:|tel:|#)/i.test(href) ? href : '#';
+};
+
+// Short stable hash of the props - equal menus share a class, and so share identical rules
+const getScopeClass = (props: MenuProps): string => {
+   const json = JSON.stringify(props);
+   let hash = 5381;
+   for (let i = 0; i < json.length; i++) hash = ((hash << 5) + hash + json.charCodeAt(i)) >>> 0;
+   return `doc-menu-${hash.toString(36)}`;
+};
+
+const renderScopedStyles = (scope: string, props: MenuProps): string => {
+   const rules: string[] = [];
+   if (isSafeColor(props.hoverColor)) {
+      rules.push(`.${scope} a:hover { color: ${props.hoverColor.trim()} !important; }`);
+   }
+   if (props.orientation === 'horizontal' && props.stackOnMobile) {
+      rules.push(`@media (max-width: 600px) { .${scope} .doc-menu-item { display: block !important; padding: 6px 0 !important; } .${scope} .doc-menu-separator { display: none !important; } }`);
+   }
+   return rules.length > 0 ? `<style>${rules.join(' ')}</style>` : '';
+};
+
+const renderMenu = (props: MenuProps): string => {
+   if (props.items.length === 0) {
+      return /* html */`<div style="text-align: center; padding: 15px; margin: 15px 0; color: #9ca3af;">Add menu items in the block settings</div>`;
+   }
+
+   const { orientation, align, textColor, separatorColor, fontSize, spacing, bold, uppercase } = props;
+   const scope = getScopeClass(props);
+   const half = spacing / 2;
+   const linkStyle = [
+      `color: ${escapeAttribute(textColor)}`,
+      'text-decoration: none',
+      `font-weight: ${bold ? 700 : 400}`,
+      uppercase ? 'text-transform: uppercase; letter-spacing: 0.05em' : ''
+   ].filter(Boolean).join('; ');
+
+   const links = props.items.map(item => {
+      const href = getSafeHref(item.url);
+      // In-document anchors stay in the same tab
+      const target = href.startsWith('#') ? '' : ' target="_blank" rel="noopener"';
+      return `<a href="${escapeAttribute(href)}"${target} style="${linkStyle};">${escapeText(item.label.trim() || 'Link')}</a>`;
+   });
+
+   const body = orientation === 'vertical'
+      ? links.map(link => `<div class="doc-menu-item" style="padding: ${half}px 0;">${link}</div>`).join('')
+      : links.map(link => `<span class="doc-menu-item" style="display: inline-block; padding: 4px ${half}px;">${link}</span>`).join(
+         SEPARATORS[props.separator]
+            ? `<span class="doc-menu-separator" aria-hidden="true" style="display: inline-block; color: ${escapeAttribute(separatorColor)};">${SEPARATORS[props.separator]}</span>`
+            : ''
+      );
+
+   return /* html */`
+      <nav class="${scope}" style="text-align: ${align}; margin: 15px 0; font-size: ${fontSize}px; line-height: 1.5;">
+         ${renderScopedStyles(scope, props)}
+         ${body}
+      </nav>
+   `;
+};
+
+export const MENU_BLOCK: BlockDefinition<typeof MENU_PROPS> = {
+   id: 'menu',
+   label: 'Menu',
+   icon: <Menu size={20} />,
+   category: 'blocks',
+   props: MENU_PROPS,
+   template: renderMenu
+};
@@ -0,0 +1,66 @@
+import { Signature } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+
+// ============================================
+// SIGNATURE BLOCK - signature line with signer name and date
+// ============================================
+//
+// The captured signature is a PNG data URL in the block props, so it travels with the
+// document and needs nothing at export time. In preview the signer clicks the line to
+// draw, type or upload a signature (see SignaturePad); the editor stylesheet hints at
+// that on empty lines, so the hint never reaches an export.
+
+export const SIGNATURE_PAD_ATTRIBUTE = 'data-signature-pad';
+
+const SIGNATURE_PROPS = {
+   label: { type: 'text', label: 'Label', default: 'Signature' },
+   signerName: { type: 'text', label: 'Signer name', default: '{{user.name}}', help: 'Text or merge fields like {{client.name}}' },
+   signature: { type: 'image', label: 'Signature', default: '', signature: true },
+   showDate: { type: 'boolean', label: 'Show date', default: true },
+   signedDate: { type: 'text', label: 'Date', default: '', placeholder: 'Filled in when signed' },
+   width: { type: 'number', label: 'Width (px)', default: 280, min: 120, max: 600 },
+   lineColor: { type: 'color', label: 'Line color', default: '#111827' },
+   align: {
+      type: 'select',
+      label: 'Alignment',
+      options: [
+         { label: 'Left', value: 'left' },
+         { label: 'Center', value: 'center' },
+         { label: 'Right', value: 'right' }
+      ],
+      default: 'left'
+   }
+} as const;
+
+type SignatureProps = BlockPropValues<typeof SIGNATURE_PROPS>;
+
+// Only images - a signature is shown as <img>, nothing else may end up in src
+const isImageSource = (value: string): boolean => /^(data:image\/(png|jpeg|gif|webp);base64,|https?:\/\/)/i.test(value);
+
+const renderSignature = (props: SignatureProps): string => {
+   const { label, signerName, signature, showDate, signedDate, width, lineColor, align } = props;
+   const image = isImageSource(signature)
+      ? `<img src="${escapeAttribute(signature)}" alt="${escapeAttribute(`Signature of ${signerName}`)}" style="display: block; max-width: 100%; max-height: 72px;">`
+      : '';
+   const caption = [label.trim(), signerName.trim()].filter(Boolean).map(escapeText).join(' - ');
+
+   return /* html */`
+      <div style="text-align: ${align}; margin: 20px 0;">
+         <div style="display: inline-block; width: ${width}px; max-width: 100%; text-align: left; vertical-align: top;">
+            <div ${SIGNATURE_PAD_ATTRIBUTE} style="height: 80px; display: flex; align-items: flex-end; border-bottom: 1px solid ${escapeAttribute(lineColor)}; cursor: pointer;">${image}</div>
+            <div style="margin-top: 6px; font-size: 12px; color: #4b5563;">${caption}</div>
+            ${showDate ? `<div style="margin-top: 2px; font-size: 12px; color: #4b5563;">Date: ${escapeText(signedDate.trim()) || '<span style="display: inline-block; width: 120px; border-bottom: 1px solid #9ca3af;">&nbsp;</span>'}</div>` : ''}
+         </div>
+      </div>
+   `;
+};
+
+export const SIGNATURE_BLOCK: BlockDefinition<typeof SIGNATURE_PROPS> = {
+   id: 'signature',
+   label: 'Signature',
+   icon: <Signature size={20} />,
+   category: 'blocks',
+   props: SIGNATURE_PROPS,
+   template: renderSignature
+};
@@ -0,0 +1,156 @@
+import { Share2 } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute } from "../blockTree";
+
+// ============================================
+// SOCIAL ICONS BLOCK - links to the user's networks
+// ============================================
+//
+// Icons are inline SVG with explicit colors, so html2canvas and mail clients render
+// them without fonts, stylesheets or external images.
+
+type SocialNetwork = {
+   label: string;
+   color: string; // Brand color for the "color" style
+   glyph: string; // SVG children on a 24x24 grid, drawn with a 2px stroke
+}
+
+export const SOCIAL_NETWORKS: Record<string, SocialNetwork> = {
+   linkedin: {
+      label: 'LinkedIn',
+      color: '#0A66C2',
+      glyph: '<path d="M16 8a6 6 0 0 1 6 6v7h-4v-7a2 2 0 0 0-2-2 2 2 0 0 0-2 2v7h-4v-7a6 6 0 0 1 6-6z"/><rect width="4" height="12" x="2" y="9"/><circle cx="4" cy="4" r="2"/>'
+   },
+   x: {
+      label: 'X',
+      color: '#000000',
+      glyph: '<path d="M4 4l11.733 16h4.267l-11.733 -16z"/><path d="M4 20l6.768 -6.768m2.46 -2.46l6.772 -6.772"/>'
+   },
+   facebook: {
+      label: 'Facebook',
+      color: '#1877F2',
+      glyph: '<path d="M18 2h-3a5 5 0 0 0-5 5v3H7v4h3v8h4v-8h3l1-4h-4V7a1 1 0 0 1 1-1h3z"/>'
+   },
+   instagram: {
+      label: 'Instagram',
+      color: '#E4405F',
+      glyph: '<rect width="20" height="20" x="2" y="2" rx="5" ry="5"/><path d="M16 11.37A4 4 0 1 1 12.63 8 4 4 0 0 1 16 11.37z"/><line x1="17.5" x2="17.51" y1="6.5" y2="6.5"/>'
+   },
+   youtube: {
+      label: 'YouTube',
+      color: '#FF0000',
+      glyph: '<path d="M2.5 17a24.12 24.12 0 0 1 0-10 2 2 0 0 1 1.4-1.4 49.56 49.56 0 0 1 16.2 0A2 2 0 0 1 21.5 7a24.12 24.12 0 0 1 0 10 2 2 0 0 1-1.4 1.4 49.55 49.55 0 0 1-16.2 0A2 2 0 0 1 2.5 17"/><path d="m10 15 5-3-5-3z"/>'
+   },
+   github: {
+      label: 'GitHub',
+      color: '#181717',
+      glyph: '<path d="M15 22v-4a4.8 4.8 0 0 0-1-3.5c3 0 6-2 6-5.5.08-1.25-.27-2.48-1-3.5.28-1.15.28-2.35 0-3.5 0 0-1 0-3 1.5-2.64-.5-5.36-.5-8 0C6 2 5 2 5 2c-.3 1.15-.3 2.35 0 3.5A5.403 5.403 0 0 0 4 9c0 3.5 3 5.5 6 5.5-.39.49-.68 1.05-.85 1.65-.17.6-.22 1.23-.15 1.85v4"/><path d="M9 18c-4.51 2-5-2-7-2"/>'
+   },
+   custom: {
+      label: 'Custom',
+      color: '#6B7280',
+      glyph: '<circle cx="12" cy="12" r="10"/><path d="M12 2a14.5 14.5 0 0 0 0 20 14.5 14.5 0 0 0 0-20"/><path d="M2 12h20"/>'
+   }
+};
+
+const SOCIAL_PROPS = {
+   networks: {
+      type: 'list',
+      label: 'Networks',
+      itemTitle: 'network',
+      addLabel: 'Add network',
+      item: {
+         network: {
+            type: 'select',
+            label: 'Network',
+            options: Object.entries(SOCIAL_NETWORKS).map(([value, { label }]) => ({ label, value })),
+            default: 'custom'
+         },
+         url: { type: 'url', label: 'URL', placeholder: 'https://' },
+         label: { type: 'text', label: 'Name', help: 'Link title - custom networks show it as their name' },
+         iconPath: { type: 'text', label: 'Custom icon', placeholder: 'M12 2a10 10 0 1 0 0 20...', help: 'Custom networks only - SVG path data on a 24x24 grid' }
+      },
+      default: [
+         { network: 'linkedin', url: '' },
+         { network: 'x', url: '' },
+         { network: 'facebook', url: '' },
+         { network: 'instagram', url: '' }
+      ]
+   },
+   iconStyle: {
+      type: 'select',
+      label: 'Icon style',
+      options: [
+         { label: 'Brand colors', value: 'color' },
+         { label: 'Mono', value: 'mono' },
+         { label: 'Outline', value: 'outline' }
+      ],
+      default: 'color'
+   },
+   iconColor: { type: 'color', label: 'Icon color', default: '#374151', help: 'Used by the mono and outline styles' },
+   size: { type: 'number', label: 'Size (px)', default: 32, min: 16, max: 96 },
+   spacing: { type: 'number', label: 'Spacing (px)', default: 8, min: 0, max: 48 },
+   align: {
+      type: 'select',
+      label: 'Alignment',
+      options: [
+         { label: 'Left', value: 'left' },
+         { label: 'Center', value: 'center' },
+         { label: 'Right', value: 'right' }
+      ],
+      default: 'center'
+   }
+} as const;
+
+type SocialProps = BlockPropValues<typeof SOCIAL_PROPS>;
+
+// Path data only - letters, numbers, separators
+const isPathData = (value: string): boolean => /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,+\s-]+$/.test(value);
+
+const renderIcon = (item: SocialProps['networks'][number], { iconStyle, iconColor, size }: SocialProps): string => {
+   const network = SOCIAL_NETWORKS[item.network] ?? SOCIAL_NETWORKS.custom;
+   const customPath = item.network === 'custom' && isPathData(item.iconPath.trim()) ? item.iconPath.trim() : '';
+   const glyph = customPath ? `<path d="${customPath}"/>` : network.glyph;
+
+   // Badge and glyph colors per style
+   const badge = iconStyle === 'color'
+      ? `<circle cx="12" cy="12" r="12" fill="${escapeAttribute(network.color)}"/>`
+      : iconStyle === 'mono'
+         ? `<circle cx="12" cy="12" r="12" fill="${escapeAttribute(iconColor)}"/>`
+         : `<circle cx="12" cy="12" r="11.25" fill="none" stroke="${escapeAttribute(iconColor)}" stroke-width="1.5"/>`;
+   const glyphColor = iconStyle === 'outline' ? iconColor : '#ffffff';
+
+   const title = item.label.trim() || network.label;
+   const href = /^(https?:|mailto:|tel:)/i.test(item.url.trim()) ? item.url.trim() : '#';
+   return /* html */`
+      <a href="${escapeAttribute(href)}" target="_blank" rel="noopener" title="${escapeAttribute(title)}" style="display: inline-block; line-height: 0; text-decoration: none;">
+         <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 24 24" role="img" aria-label="${escapeAttribute(title)}">
+            ${badge}
+            <g transform="translate(6 6) scale(0.5)" fill="none" stroke="${escapeAttribute(glyphColor)}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${glyph}</g>
+         </svg>
+      </a>
+   `;
+};
+
+const renderSocialIcons = (props: SocialProps): string => {
+   if (props.networks.length === 0) {
+      return /* html */`<div style="text-align: center; padding: 15px; margin: 15px 0; color: #9ca3af;">Add networks in the block settings</div>`;
+   }
+
+   // Spacing as horizontal padding - inline-block gaps depend on fonts, padding doesn't
+   const half = props.spacing / 2;
+   return /* html */`
+      <div style="text-align: ${props.align}; margin: 15px 0; font-size: 0; line-height: 0;">
+         ${props.networks.map(item => `<span style="display: inline-block; padding: 0 ${half}px;">${renderIcon(item, props)}</span>`).join('')}
+      </div>
+   `;
+};
+
+export const SOCIAL_BLOCK: BlockDefinition<typeof SOCIAL_PROPS> = {
+   id: 'social',
+   label: 'Social',
+   icon: <Share2 size={20} />,
+   category: 'blocks',
+   props: SOCIAL_PROPS,
+   template: renderSocialIcons
+};
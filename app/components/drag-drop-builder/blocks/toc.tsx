@@ -0,0 +1,206 @@
+import { ListTree } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute, escapeText } from "../blockTree";
+import { getElementPages } from "../utils";
+
+// ============================================
+// TABLE OF CONTENTS BLOCK - linked outline of the document's headings
+// ============================================
+//
+// The template only renders the frame and the settings; the entries depend on the rest
+// of the document, so updateTableOfContents() fills them in. usePagination runs it twice
+// on every pass - before measuring, since the entries change the block's height, and after
+// the page breaks are placed, for the page numbers - so entries and numbers follow edits.
+// Exports that re-render blocks run it again on their own markup.
+
+const TOC_ATTRIBUTE = 'data-toc';
+const ENTRIES_ATTRIBUTE = 'data-toc-entries';
+const DEPTH_ATTRIBUTE = 'data-toc-depth';
+const NUMBERING_ATTRIBUTE = 'data-toc-numbering';
+const LEADERS_ATTRIBUTE = 'data-toc-leaders';
+const PAGES_ATTRIBUTE = 'data-toc-pages';
+
+const TOC_PROPS = {
+   title: { type: 'text', label: 'Title', default: 'Table of Contents' },
+   depth: {
+      type: 'select',
+      label: 'Depth',
+      options: [
+         { label: 'H1 only', value: '1' },
+         { label: 'H1 - H2', value: '2' },
+         { label: 'H1 - H3', value: '3' },
+         { label: 'H1 - H4', value: '4' },
+         { label: 'H1 - H5', value: '5' },
+         { label: 'H1 - H6', value: '6' }
+      ],
+      default: '3'
+   },
+   numbering: {
+      type: 'select',
+      label: 'Numbering',
+      options: [
+         { label: 'None', value: 'none' },
+         { label: 'Decimal (1.2.1)', value: 'decimal' },
+         { label: 'Outline (I. A. 1. a.)', value: 'outline' }
+      ],
+      default: 'none'
+   },
+   dotLeaders: { type: 'boolean', label: 'Dot leaders', default: true },
+   showPageNumbers: { type: 'boolean', label: 'Show page numbers', default: true },
+   textColor: { type: 'color', label: 'Text color', default: '#111827' }
+} as const;
+
+type TocProps = BlockPropValues<typeof TOC_PROPS>;
+
+interface TocEntry {
+   level: number;
+   text: string;
+   id: string;
+   page: number;
+   children: TocEntry[];
+}
+
+const renderToc = ({ title, depth, numbering, dotLeaders, showPageNumbers, textColor }: TocProps): string => /* html */`
+   <nav ${TOC_ATTRIBUTE} ${DEPTH_ATTRIBUTE}="${escapeAttribute(depth)}" ${NUMBERING_ATTRIBUTE}="${escapeAttribute(numbering)}" ${LEADERS_ATTRIBUTE}="${dotLeaders}" ${PAGES_ATTRIBUTE}="${showPageNumbers}" style="margin: 20px 0; color: ${escapeAttribute(textColor)};">
+      ${title.trim() ? `<div style="margin-bottom: 12px; font-size: 20px; font-weight: 600;">${escapeText(title)}</div>` : ''}
+      <div ${ENTRIES_ATTRIBUTE}></div>
+   </nav>
+`;
+
+// ============================================
+// ENTRIES
+// ============================================
+
+const toRoman = (value: number): string => {
+   const numerals: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+   let rest = value;
+   return numerals.reduce((result, [amount, numeral]) => {
+      const count = Math.floor(rest / amount);
+      rest -= count * amount;
+      return result + numeral.repeat(count);
+   }, '');
+};
+
+// 1 -> A, 26 -> Z, 27 -> AA
+const toLetters = (value: number): string => {
+   let result = '';
+   for (let rest = value; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+      result = String.fromCharCode(65 + (rest - 1) % 26) + result;
+   }
+   return result;
+};
+
+// Label of an entry from its position at every nesting level, e.g. [2, 1] -> "2.1"
+const formatNumber = (path: number[], numbering: string): string => {
+   if (numbering === 'decimal') return path.join('.');
+   if (numbering !== 'outline') return '';
+
+   const index = path[path.length - 1];
+   const styles = [toRoman, toLetters, String, (n: number) => toLetters(n).toLowerCase()];
+   return `${styles[(path.length - 1) % styles.length](index)}.`;
+};
+
+const slugify = (text: string): string =>
+   text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'section';
+
+/**
+ * Headings under `root` in document order with the page each starts on. Headings
+ * without an id get one, so the entries can link to them.
+ */
+const collectHeadings = (root: ParentNode, depth: number): Omit<TocEntry, 'children'>[] => {
+   const ids = new Set(Array.from(root.querySelectorAll('[id]')).map(el => el.id));
+   const headings: Omit<TocEntry, 'children'>[] = [];
+
+   getElementPages(root, 'h1, h2, h3, h4, h5, h6').forEach(({ element: el, page }) => {
+      const level = Number(el.tagName.slice(1));
+      const text = el.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+      if (level > depth || !text || el.closest(`[${TOC_ATTRIBUTE}]`)) return;
+
+      if (!el.id) {
+         const base = `toc-${slugify(text)}`;
+         let id = base;
+         for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+         ids.add(id);
+         el.id = id;
+      }
+      headings.push({ level, text, id: el.id, page });
+   });
+   return headings;
+};
+
+// Nests each heading under the closest earlier one of a higher rank - skipped levels are fine
+const nestHeadings = (headings: Omit<TocEntry, 'children'>[]): TocEntry[] => {
+   const roots: TocEntry[] = [];
+   const stack: TocEntry[] = [];
+   headings.forEach(heading => {
+      const entry: TocEntry = { ...heading, children: [] };
+      while (stack.length && stack[stack.length - 1].level >= entry.level) stack.pop();
+      (stack.length ? stack[stack.length - 1].children : roots).push(entry);
+      stack.push(entry);
+   });
+   return roots;
+};
+
+const renderEntries = (entries: TocEntry[], options: { numbering: string; leaders: boolean; pages: boolean }, path: number[] = []): string => {
+   const items = entries.map((entry, index) => {
+      const position = [...path, index + 1];
+      const number = formatNumber(position, options.numbering);
+      const leader = options.leaders ? 'border-bottom: 1px dotted currentColor; opacity: 0.5;' : '';
+      return /* html */`
+         <li style="margin: 0;">
+            <a href="#${escapeAttribute(entry.id)}" style="display: flex; align-items: baseline; gap: 6px; padding: 3px 0; color: inherit; text-decoration: none; ${path.length ? '' : 'font-weight: 500;'}">
+               ${number ? `<span>${number}</span>` : ''}
+               <span>${escapeText(entry.text)}</span>
+               <span style="flex: 1; min-width: 12px; align-self: flex-end; margin-bottom: 6px; ${leader}"></span>
+               ${options.pages ? `<span>${entry.page}</span>` : ''}
+            </a>
+            ${entry.children.length ? renderEntries(entry.children, options, position) : ''}
+         </li>
+      `;
+   }).join('');
+   return `<ol style="list-style: none; margin: 0; padding-left: ${path.length ? 20 : 0}px;">${items}</ol>`;
+};
+
+/**
+ * Rebuilds every table of contents under `root` from the headings around it. Page
+ * numbers come from the page breaks usePagination marked, so run it after pagination;
+ * `pageNumbers: false` drops them where pages don't apply (HTML export). Entries are
+ * only replaced when they changed.
+ *
+ * @example
+ * ```ts
+ * updateTableOfContents(contentFlow);
+ * ```
+ */
+export const updateTableOfContents = (root: ParentNode, options: { pageNumbers?: boolean } = {}) => {
+   const tocs = Array.from(root.querySelectorAll(`[${TOC_ATTRIBUTE}]`));
+   if (!tocs.length) return;
+
+   const maxDepth = Math.max(...tocs.map(toc => Number(toc.getAttribute(DEPTH_ATTRIBUTE)) || 3));
+   const headings = collectHeadings(root, maxDepth);
+   tocs.forEach(toc => {
+      const container = toc.querySelector(`[${ENTRIES_ATTRIBUTE}]`);
+      if (!container) return;
+
+      const depth = Number(toc.getAttribute(DEPTH_ATTRIBUTE)) || 3;
+      const entries = nestHeadings(headings.filter(heading => heading.level <= depth));
+      const html = entries.length
+         ? renderEntries(entries, {
+            numbering: toc.getAttribute(NUMBERING_ATTRIBUTE) ?? 'none',
+            leaders: toc.getAttribute(LEADERS_ATTRIBUTE) === 'true',
+            pages: options.pageNumbers !== false && toc.getAttribute(PAGES_ATTRIBUTE) === 'true'
+         })
+         : '<div style="font-size: 13px; opacity: 0.6;">Add headings to the document to build the table of contents</div>';
+      const normalized = html.replace(/>\s+</g, '><').trim();
+      if (container.innerHTML !== normalized) container.innerHTML = normalized;
+   });
+};
+
+export const TOC_BLOCK: BlockDefinition<typeof TOC_PROPS> = {
+   id: 'toc',
+   label: 'Table of Contents',
+   icon: <ListTree size={20} />,
+   category: 'blocks',
+   props: TOC_PROPS,
+   template: renderToc
+};
@@ -0,0 +1,143 @@
+import { Video } from "lucide-react";
+import { BlockDefinition, BlockPropValues } from "../type";
+import { escapeAttribute } from "../blockTree";
+
+// ============================================
+// VIDEO BLOCK - YouTube, Vimeo or a video file
+// ============================================
+//
+// The editor shows the player (clicks pass through to the block while editing).
+// PDF and email exports can't render iframes, so they get the poster with a play
+// button linked to the video instead.
+
+const VIDEO_PROPS = {
+   url: { type: 'url', label: 'Video URL', placeholder: 'https://www.youtube.com/watch?v=...', help: 'YouTube, Vimeo or MP4 link' },
+   poster: { type: 'url', label: 'Poster image', help: 'Shown before playback and in PDF and email exports. YouTube videos use their thumbnail when empty.' },
+   aspectRatio: {
+      type: 'select',
+      label: 'Aspect ratio',
+      options: [
+         { label: '16:9', value: '16:9' },
+         { label: '4:3', value: '4:3' },
+         { label: '1:1', value: '1:1' },
+         { label: '9:16', value: '9:16' }
+      ],
+      default: '16:9'
+   },
+   autoplay: { type: 'boolean', label: 'Autoplay', default: false, help: 'Starts muted - browsers block autoplay with sound' },
+   controls: { type: 'boolean', label: 'Show controls', default: true }
+} as const;
+
+type VideoProps = BlockPropValues<typeof VIDEO_PROPS>;
+
+export type VideoSource =
+   | { provider: 'youtube' | 'vimeo'; id: string; url: string }
+   | { provider: 'file'; url: string };
+
+/**
+ * Provider of a video link. Only http(s) links are accepted; anything that isn't
+ * a YouTube or Vimeo page is played as a file.
+ */
+export const parseVideoUrl = (value: string): VideoSource | null => {
+   let url: URL;
+   try {
+      url = new URL(value.trim());
+   } catch {
+      return null;
+   }
+   if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+   const host = url.hostname.replace(/^(www|m)\./, '');
+   if (host === 'youtu.be' || host === 'youtube.com' || host === 'youtube-nocookie.com') {
+      const id = host === 'youtu.be'
+         ? url.pathname.slice(1)
+         : url.searchParams.get('v') ?? url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1];
+      if (id && /^[\w-]+$/.test(id)) return { provider: 'youtube', id, url: url.href };
+   }
+   if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+      const id = url.pathname.match(/(?:^|\/)(\d+)(?:\/|$)/)?.[1];
+      if (id) return { provider: 'vimeo', id, url: url.href };
+   }
+   return { provider: 'file', url: url.href };
+};
+
+const getPaddingTop = (aspectRatio: string): string => {
+   const [width, height] = aspectRatio.split(':').map(Number);
+   return `${(height / width * 100).toFixed(2)}%`;
+};
+
+// Poster of the settings, or the thumbnail YouTube serves for every video
+const getPosterUrl = (source: VideoSource | null, poster: string): string => {
+   if (poster.trim()) return poster.trim();
+   return source?.provider === 'youtube' ? `https://img.youtube.com/vi/${source.id}/hqdefault.jpg` : '';
+};
+
+const getEmbedUrl = (source: Extract<VideoSource, { provider: 'youtube' | 'vimeo' }>, { autoplay, controls }: VideoProps): string => {
+   const params = source.provider === 'youtube'
+      ? new URLSearchParams({ autoplay: autoplay ? '1' : '0', mute: autoplay ? '1' : '0', controls: controls ? '1' : '0', rel: '0' })
+      : new URLSearchParams({ autoplay: autoplay ? '1' : '0', muted: autoplay ? '1' : '0', controls: controls ? '1' : '0' });
+   return source.provider === 'youtube'
+      ? `https://www.youtube-nocookie.com/embed/${source.id}?${params}`
+      : `https://player.vimeo.com/video/${source.id}?${params}`;
+};
+
+const PLACEHOLDER_HTML = /* html */`
+   <div style="background: #f0f0f0; padding: 40px; text-align: center; margin: 15px 0; border-radius: 4px; color: #6b7280;">
+      Add a YouTube, Vimeo or MP4 link in the video settings
+   </div>
+`;
+
+const renderVideo = (props: VideoProps): string => {
+   const source = parseVideoUrl(props.url);
+   if (!source) return PLACEHOLDER_HTML;
+
+   const poster = getPosterUrl(source, props.poster);
+   const frameStyle = 'position: absolute; top: 0; left: 0; width: 100%; height: 100%; border: 0;';
+   const player = source.provider === 'file'
+      ? `<video src="${escapeAttribute(source.url)}"${poster ? ` poster="${escapeAttribute(poster)}"` : ''}`
+         + `${props.controls ? ' controls' : ''}${props.autoplay ? ' autoplay muted' : ''} playsinline preload="metadata"`
+         + ` style="${frameStyle} object-fit: contain; background: #000;"></video>`
+      : `<iframe src="${escapeAttribute(getEmbedUrl(source, props))}" style="${frameStyle}"`
+         + ` allow="autoplay; encrypted-media; fullscreen; picture-in-picture" allowfullscreen loading="lazy"></iframe>`;
+
+   return /* html */`
+      <div style="position: relative; padding-top: ${getPaddingTop(props.aspectRatio)}; margin: 15px 0; background: #000; border-radius: 4px; overflow: hidden;">
+         ${player}
+      </div>
+   `;
+};
+
+/**
+ * Poster with a play button, linked to the video. Laid out without positioning so
+ * email clients keep it: the button's negative margins take it out of the height.
+ */
+const renderVideoPoster = (props: VideoProps): string => {
+   const source = parseVideoUrl(props.url);
+   if (!source) return '';
+
+   const poster = getPosterUrl(source, props.poster);
+   const background = poster
+      ? `background-color: #111; background-image: url('${escapeAttribute(poster.replace(/'/g, '%27'))}'); background-position: center; background-size: cover; background-repeat: no-repeat;`
+      : 'background-color: #111;';
+   const halfHeight = `${(parseFloat(getPaddingTop(props.aspectRatio)) / 2).toFixed(2)}%`;
+
+   return /* html */`
+      <a href="${escapeAttribute(source.url)}" target="_blank" rel="noopener" style="display: block; margin: 15px 0; text-decoration: none;">
+         <div style="${background} padding: ${halfHeight} 0; text-align: center; border-radius: 4px; line-height: 0;">
+            <span style="display: inline-block; width: 68px; height: 68px; margin: -34px 0; border-radius: 50%; background-color: rgba(0, 0, 0, 0.65); text-align: left; line-height: 0;">
+               <span style="display: inline-block; width: 0; height: 0; margin: 22px 0 0 26px; border-style: solid; border-width: 12px 0 12px 20px; border-color: transparent transparent transparent #ffffff;"></span>
+            </span>
+         </div>
+      </a>
+   `;
+};
+
+export const VIDEO_BLOCK: BlockDefinition<typeof VIDEO_PROPS> = {
+   id: 'video',
+   label: 'Video',
+   icon: <Video size={20} />,
+   category: 'blocks',
+   props: VIDEO_PROPS,
+   template: renderVideo,
+   staticTemplate: renderVideoPoster
+};
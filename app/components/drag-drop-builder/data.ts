@@ -1,9 +1,28 @@
-import { AlignVerticalSpaceAround, Clock, Code, Image, Menu, Minus, Share2, Square, Table, Type, Video } from "lucide-react";
-import { Block, EditorPage, PagePreset } from "./type";
+import { EditorPage, PagePreset } from "./type";
 
 export const NON_EDITABLE_TAGS = ['IMG', 'HR', 'BR', 'STYLE', 'SCRIPT', 'BODY', 'CANVAS', 'IFRAME', 'SPAN', 'B', 'I', 'STRONG', 'EM'];
 export const CONTAINER_TAGS = ['DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'NAV', 'ASIDE', 'MAIN'];
 
+// Markup the editor adds at render time - never part of the stored document
+export const EDITOR_ONLY_ATTRIBUTES = ['data-selected', 'contenteditable', 'draggable', 'data-editable', 'data-empty'];
+export const EDITOR_ONLY_SELECTORS = ['.element-toolbar', '.drop-indicator', '.page-break-spacer'];
+
+// Current document schema - bump it together with a new entry in DOCUMENT_MIGRATIONS (migrations.ts)
+export const SCHEMA_VERSION = 1;
+
+// Toolbar HTML template for elements
+export const ELEMENT_TOOLBAR_HTML = /*html*/`
+   <button class="element-toolbar-btn" data-action="drag" title="Drag" draggable="true">
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="9" cy="5" r="1"/><circle cx="9" cy="12" r="1"/><circle cx="9" cy="19" r="1"/><circle cx="15" cy="5" r="1"/><circle cx="15" cy="12" r="1"/><circle cx="15" cy="19" r="1"/></svg>
+   </button>
+   <button class="element-toolbar-btn" data-action="duplicate" title="Duplicate">
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="9" y="9" width="13" height="13" rx="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>
+   </button>
+   <button class="element-toolbar-btn" data-action="delete" title="Delete">
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+   </button>
+`;
+
 export const RICH_TOOLBAR_FONT_FAMILIES = ['Arial', 'Helvetica', 'Times New Roman', 'Georgia', 'Verdana', 'Courier New', 'Trebuchet MS', 'Impact'];
 export const RICH_TOOLBAR_FONT_SIZES = ['8px', '10px', '12px', '14px', '16px', '18px', '20px', '24px', '28px', '32px', '36px'];
 
@@ -71,185 +90,6 @@ export const wrapPageInDocument = (page: EditorPage, styles: string = ''): strin
       </html>
    `;
 
-// ============================================
-// WIDGET DEFINITIONS
-// ============================================
-
-export const COMPONENT_BLOCKS: Block[] = [
-   {
-      id: 'heading',
-      label: 'Heading',
-      icon: <Type size={20} />,
-      category: 'blocks',
-      html: /* html */`<h2 style='color: #333; margin: 0;'><br></h2>`
-   },
-   {
-      id: 'text',
-      label: 'Text',
-      icon: <Type size={20} />,
-      category: 'blocks',
-      html: /* html */`<p style='margin: 0px;'><br></p>`
-   },
-   {
-      id: 'button',
-      label: 'Button',
-      icon: <Square size={20} />,
-      category: 'blocks',
-      html: /* html */`
-         <a
-            href="#"
-            style='display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 4px; margin: 10px 0;'
-         ><br></a>
-      `
-   },
-   {
-      id: 'image',
-      label: 'Image',
-      icon: <Image size={20} />,
-      category: 'blocks',
-      html: /* html */`
-         <img 
-            src="https://via.placeholder.com/600x300" 
-            alt="Placeholder" 
-            style="width: 100%; height: auto; display: block; margin: 15px 0;"
-         />
-      `
-   },
-   {
-      id: 'divider',
-      label: 'Divider',
-      icon: <Minus size={20} />,
-      category: 'blocks',
-      html: /* html */`<div class='editor-divider' style='border: none; height:2px; background: #e5e7eb; margin: 30px 0;'></div> `
-   },
-   {
-      id: 'spacer',
-      label: 'Spacer',
-      icon: <AlignVerticalSpaceAround size={20} />,
-      category: 'blocks',
-      html: /* html */`<div data-element-type='spacer' style='height: 40px;'></div>`
-   },
-   {
-      id: 'table',
-      label: 'Table',
-      icon: <Table size={20} />,
-      category: 'blocks',
-      html: '__TABLE_PLACEHOLDER__' // Special marker - will be replaced with actual table after size selection
-   },
-   // {
-   //    id: 'video',
-   //    label: 'Video',
-   //    icon: <Video size={20} />,
-   //    category: 'blocks',
-   //    html: /* html */`<div style='background: #f0f0f0; padding: 40px; text-align: center; margin: 15px 0; border-radius: 4px;'>Video Placeholder - Add embed code</div > `
-   // },
-   // {
-   //    id: 'social',
-   //    label: 'Social',
-   //    icon: <Share2 size={20} />,
-   //    category: 'blocks',
-   //    html: /* html */`<div style='text-align: center; padding: 15px; margin: 15px 0;'>Social Icons Placeholder</div > `
-   // },
-   // {
-   //    id: 'timer',
-   //    label: 'Timer',
-   //    icon: <Clock size={20} />,
-   //    category: 'blocks',
-   //    html: /* html */`<div style='text-align: center; padding: 20px; background: #f9fafb; margin: 15px 0; border-radius: 4px;'>Timer Widget Placeholder</div > `
-   // },
-   // {
-   //    id: 'menu',
-   //    label: 'Menu',
-   //    icon: <Menu size={20} />,
-   //    category: 'blocks',
-   //    html: /* html */`<div style='text-align: center; padding: 15px; margin: 15px 0;'>Menu Widget Placeholder</div > `
-   // },
-   // {
-   //    id: 'html',
-   //    label: 'HTML',
-   //    icon: <Code size={20} />,
-   //    category: 'blocks',
-   //    html: /* html */`<div data-html-block='true' style='padding: 15px; background: #f5f5f5; margin: 15px 0; font-family: monospace; border-radius: 4px;'>Custom HTML Block</div > `
-   // },
-];
-
-export const CONTAINER_LAYOUT_BLOCKS: Block[] = [
-   {
-      id: '1col',
-      label: '1 Column',
-      icon: <Square size={20} />,
-      category: 'container',
-      html: /* html */`
-            <div style='display: flex; margin:10px 0;' data-column-container='true'>
-                <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            </div>
-        `
-   },
-   {
-      id: '2col',
-      label: '2 Columns',
-      icon: <Square size={20} />,
-      category: 'container',
-      html: /* html */`
-         <div style='display: flex; margin:10px 0;' data-column-container='true'>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-         </div>
-      `
-   },
-   {
-      id: '3col',
-      label: '3 Columns',
-      icon: <Square size={20} />,
-      category: 'container',
-      html: /* html */`
-         <div style='display: flex; gap: 10px; margin: 10px 0;' data-column-container='true'>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-         </div>
-      `
-   },
-   {
-      id: '4col',
-      label: '4 Columns',
-      icon: <Square size={20} />,
-      category: 'container',
-      html: /* html */`
-         <div style='display: flex; margin: 0;' data-column-container='true'>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-         </div>
-      `
-   },
-   {
-      id: '1-2col',
-      label: '1:2 Ratio',
-      icon: <Square size={20} />,
-      category: 'container',
-      html: /* html */`
-         <div style='display: flex; margin: 0;' data-column-container='true'>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 2; min-height: 100px;'></div>
-         </div>
-      `
-   },
-   {
-      id: '2-1col',
-      label: '2:1 Ratio',
-      icon: <Square size={20} />,
-      category: 'container',
-      html: /* html */`
-         <div style='display: flex; margin:10px 0;' data-column-container='true'>
-            <div class='drop-zone' style='flex: 2; min-height: 100px;'></div>
-            <div class='drop-zone' style='flex: 1; min-height: 100px;'></div>
-         </div>
-      `
-   },
-];
-
 // ============================================
 // EDITOR STYLES (injected into shadow DOM)
 // ============================================
@@ -283,17 +123,17 @@ export const EDITOR_STYLES = (data: Record<string, any> | null = null) => {
             overflow-wrap: break-word;
         }
 
-        [data-xpath]:not([data-container="true"]):not(.drop-zone):not([data-column-container="true"]):not([data-table-container="true"]) {
+        [data-block-id]:not([data-container="true"]):not(.drop-zone):not([data-column-container="true"]):not([data-table-container="true"]) {
             position: relative;
             max-width: 100%;
         }
-        [data-xpath]:not([data-container="true"]):not(.drop-zone):not([data-column-container="true"]):not([data-table-container="true"]):hover {
+        [data-block-id]:not([data-container="true"]):not(.drop-zone):not([data-column-container="true"]):not([data-table-container="true"]):hover {
             outline: 2px solid #22c55e !important;
             outline-offset: 2px;
         }
         /* Prevent hover outline on elements inside column/table container */
-        [data-column-container="true"] [data-xpath]:hover,
-        [data-table-container="true"] [data-xpath]:hover,
+        [data-column-container="true"] [data-block-id]:hover,
+        [data-table-container="true"] [data-block-id]:hover,
         [data-table-container="true"] table,
         [data-table-container="true"] tr,
         [data-table-container="true"] td,
@@ -531,14 +371,14 @@ export const EDITOR_STYLES = (data: Record<string, any> | null = null) => {
         }
 
         /* Text and heading elements - maintain minimum size when empty */
-        p[data-xpath],
-        h1[data-xpath],
-        h2[data-xpath],
-        h3[data-xpath],
-        h4[data-xpath],
-        h5[data-xpath],
-        h6[data-xpath],
-        a[data-xpath] {
+        p[data-block-id],
+        h1[data-block-id],
+        h2[data-block-id],
+        h3[data-block-id],
+        h4[data-block-id],
+        h5[data-block-id],
+        h6[data-block-id],
+        a[data-block-id] {
             min-height: 1.5em;
             min-width: 50px;
             display: block;
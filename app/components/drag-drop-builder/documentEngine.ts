@@ -0,0 +1,561 @@
+import { BlockNode, BlockPosition, DocumentEngine, DocumentEngineOptions, EditorDocument, ElementStyles, StoredDocument } from "./type";
+import {
+   BLOCK_ID_ATTRIBUTE,
+   blocksToHtml,
+   findBlock,
+   generateBlockId,
+   getBlockElement,
+   getDocumentBlocks,
+   htmlToBlocks,
+   insertBlocks,
+   removeBlock,
+   updateBlock,
+   walkBlocks,
+   withDocumentBlocks
+} from "./blockTree";
+import { MergeFieldData, parseStyles, resolveMergeFields } from "./utils";
+import { migrateDocument } from "./migrations";
+import {
+   BLOCK_PROPS_ATTRIBUTE,
+   BLOCK_TYPE_ATTRIBUTE,
+   getBlockDefinition,
+   getBlockPropValues,
+   parseBlockProps,
+   renderBlockTemplate,
+   resolveAttributeMergeFields,
+   resolveMarkupMergeFields
+} from "./blockDefinitions";
+
+// ============================================
+// DOCUMENT ENGINE - framework-free document operations
+// ============================================
+//
+// Every operation takes an EditorDocument and returns a new one; the input is never
+// mutated. Operations work on the block tree, so they run anywhere - a DOM is only
+// needed to parse HTML (pass jsdom's document as `ownerDocument` in Node).
+// The engine imports no React: block templates come from ./blockDefinitions, where the
+// editor registers its catalog (./blockRegistry) and a backend job registers the blocks it renders.
+
+const TABLE_SECTION_TAGS = ['thead', 'tbody', 'tfoot'];
+const TABLE_CELL_TAGS = ['td', 'th'];
+const NEW_CELL_STYLES = 'border: 1px solid #ccc; padding: 8px; min-width: 50px;';
+const TABLE_CELL_STYLES = 'border: 1px solid #ccc; padding: 8px; word-wrap: break-word; overflow-wrap: break-word;';
+
+const withBlocks = (doc: EditorDocument, blocks: BlockNode[]): EditorDocument =>
+   blocks === doc.blocks ? doc : withDocumentBlocks(doc, blocks);
+
+// 'backgroundColor' -> 'background-color'; custom properties are kept as they are
+const toCssProperty = (prop: string): string => prop.startsWith('--') ? prop : prop.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+
+// Copy of a block tree with fresh ids - used for duplicates and inserted markup
+const cloneWithNewIds = (block: BlockNode): BlockNode => ({
+   ...block,
+   id: generateBlockId(),
+   children: block.children?.map(cloneWithNewIds)
+});
+
+/**
+ * Elements inside rich text (e.g. a link in a paragraph) carry block ids but are
+ * part of their block's `content`. They are edited in the owning block's markup.
+ */
+const updateInlineElement = (
+   doc: EditorDocument,
+   id: string,
+   mutate: (el: HTMLElement) => void,
+   ownerDocument: Document = window.document
+): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   const marker = `${BLOCK_ID_ATTRIBUTE}="${id}"`;
+
+   let owner: BlockNode | null = null;
+   walkBlocks(blocks, block => {
+      if (block.content?.includes(marker)) {
+         owner = block;
+         return false;
+      }
+   });
+   if (!owner) return doc;
+
+   return withBlocks(doc, updateBlock(blocks, (owner as BlockNode).id, block => {
+      const template = ownerDocument.createElement('template');
+      template.innerHTML = block.content ?? '';
+      const el = getBlockElement(template.content, id);
+      if (!el) return block;
+      mutate(el);
+      return { ...block, content: template.innerHTML };
+   }));
+};
+
+// Applies `update` to a block, or `mutate` to the element when the id belongs to inline markup
+const editElement = (
+   doc: EditorDocument,
+   id: string,
+   update: (block: BlockNode) => BlockNode,
+   mutate: (el: HTMLElement) => void,
+   ownerDocument?: Document
+): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   if (findBlock(blocks, id)) return withBlocks(doc, updateBlock(blocks, id, update));
+   return updateInlineElement(doc, id, mutate, ownerDocument);
+};
+
+// ============================================
+// BLOCKS
+// ============================================
+
+/**
+ * Parses block HTML into blocks with fresh ids, ready to be inserted.
+ */
+export const createBlocks = (html: string, ownerDocument?: Document): BlockNode[] =>
+   htmlToBlocks(html, ownerDocument).map(cloneWithNewIds);
+
+export const getBlockPosition = (doc: EditorDocument, id: string, ownerDocument?: Document): BlockPosition | null => {
+   let position: BlockPosition | null = null;
+   const visit = (blocks: BlockNode[], parentId: string | null): boolean => blocks.every((block, index) => {
+      if (block.id === id) {
+         position = { parentId, index };
+         return false;
+      }
+      return !block.children || visit(block.children, block.id);
+   });
+   visit(getDocumentBlocks(doc, ownerDocument), null);
+   return position;
+};
+
+/**
+ * Inserts blocks at a position - the end of the top level by default.
+ */
+export const insertBlock = (
+   doc: EditorDocument,
+   block: BlockNode | BlockNode[],
+   position: Partial<BlockPosition> = {},
+   ownerDocument?: Document
+): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   const parentId = position.parentId ?? null;
+   const siblings = parentId === null ? blocks : findBlock(blocks, parentId)?.children ?? [];
+   const index = position.index ?? siblings.length;
+   return withBlocks(doc, insertBlocks(blocks, parentId, index, Array.isArray(block) ? block : [block]));
+};
+
+// Replaces a block with other blocks at the same position
+export const replaceBlock = (doc: EditorDocument, id: string, replacement: BlockNode[], ownerDocument?: Document): EditorDocument => {
+   const position = getBlockPosition(doc, id, ownerDocument);
+   if (!position) return doc;
+   return insertBlock(deleteBlock(doc, id, ownerDocument), replacement, position, ownerDocument);
+};
+
+/**
+ * Moves a block. `position.index` refers to the parent's children after the
+ * block has been taken out.
+ */
+export const moveBlock = (doc: EditorDocument, id: string, position: BlockPosition, ownerDocument?: Document): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   const block = findBlock(blocks, id);
+   if (!block || (position.parentId && (position.parentId === id || findBlock(block.children ?? [], position.parentId)))) return doc;
+   return withBlocks(doc, insertBlocks(removeBlock(blocks, id), position.parentId, position.index, [block]));
+};
+
+export const deleteBlock = (doc: EditorDocument, id: string, ownerDocument?: Document): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   if (findBlock(blocks, id)) return withBlocks(doc, removeBlock(blocks, id));
+   return updateInlineElement(doc, id, el => el.remove(), ownerDocument);
+};
+
+// Inserts a copy (with fresh ids) right after the block
+export const duplicateBlock = (doc: EditorDocument, id: string, ownerDocument?: Document): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   const block = findBlock(blocks, id);
+   const position = getBlockPosition(doc, id, ownerDocument);
+   if (!block || !position) {
+      return updateInlineElement(doc, id, el => {
+         const clone = el.cloneNode(true) as HTMLElement;
+         clone.setAttribute(BLOCK_ID_ATTRIBUTE, generateBlockId());
+         clone.querySelectorAll(`[${BLOCK_ID_ATTRIBUTE}]`).forEach(child => child.setAttribute(BLOCK_ID_ATTRIBUTE, generateBlockId()));
+         el.after(clone);
+      }, ownerDocument);
+   }
+   return withBlocks(doc, insertBlocks(blocks, position.parentId, position.index + 1, [cloneWithNewIds(block)]));
+};
+
+/**
+ * Merges styles into a block. Property names may be camelCase or CSS names;
+ * an empty or null value removes the property.
+ */
+export const updateBlockStyle = (
+   doc: EditorDocument,
+   id: string,
+   styles: Record<string, string | null>,
+   ownerDocument?: Document
+): EditorDocument => editElement(doc, id, block => {
+   const next: ElementStyles = { ...block.styles };
+   Object.entries(styles).forEach(([prop, value]) => {
+      const name = toCssProperty(prop);
+      if (value) next[name] = value;
+      else delete next[name];
+   });
+   return { ...block, styles: next };
+}, el => {
+   Object.entries(styles).forEach(([prop, value]) => {
+      if (value) el.style.setProperty(toCssProperty(prop), value);
+      else el.style.removeProperty(toCssProperty(prop));
+   });
+}, ownerDocument);
+
+// Replaces all styles of a block (custom CSS)
+export const setBlockStyles = (doc: EditorDocument, id: string, css: string, ownerDocument?: Document): EditorDocument =>
+   editElement(doc, id, block => ({ ...block, styles: parseStyles(css) }), el => el.setAttribute('style', css), ownerDocument);
+
+// Sets attributes of a block; null removes the attribute
+export const updateBlockProps = (
+   doc: EditorDocument,
+   id: string,
+   props: Record<string, string | null>,
+   ownerDocument?: Document
+): EditorDocument => editElement(doc, id, block => {
+   const next = { ...block.props };
+   Object.entries(props).forEach(([name, value]) => {
+      if (value === null) delete next[name];
+      else next[name] = value;
+   });
+   return { ...block, props: next };
+}, el => {
+   Object.entries(props).forEach(([name, value]) => {
+      if (value === null) el.removeAttribute(name);
+      else el.setAttribute(name, value);
+   });
+}, ownerDocument);
+
+// Sets the inner HTML of a leaf block
+export const updateBlockContent = (doc: EditorDocument, id: string, html: string, ownerDocument?: Document): EditorDocument =>
+   editElement(doc, id, block => ({ ...block, children: undefined, content: html }), el => { el.innerHTML = html; }, ownerDocument);
+
+/**
+ * Merges values into a registered block's props and re-renders its template.
+ * Blocks without a registered definition are left unchanged.
+ */
+export const updateBlockPropValues = (
+   doc: EditorDocument,
+   id: string,
+   values: Record<string, unknown>,
+   ownerDocument?: Document
+): EditorDocument => {
+   const block = findBlock(getDocumentBlocks(doc, ownerDocument), id);
+   const definition = getBlockDefinition(block?.props[BLOCK_TYPE_ATTRIBUTE]);
+   if (!block || !definition) return doc;
+
+   const next = getBlockPropValues(definition, { ...parseBlockProps(block.props[BLOCK_PROPS_ATTRIBUTE]), ...values });
+   const html = renderBlockTemplate(definition, next);
+   const withProps = updateBlockProps(doc, id, { [BLOCK_PROPS_ATTRIBUTE]: JSON.stringify(next) }, ownerDocument);
+   return updateBlockContent(withProps, id, html, ownerDocument);
+};
+
+// ============================================
+// TABLES
+// ============================================
+
+type TableRow = {
+   row: BlockNode;
+   section: string | null; // Id of the thead/tbody/tfoot holding the row
+}
+
+const createCell = (styles: string = NEW_CELL_STYLES): BlockNode => ({
+   id: generateBlockId(),
+   type: 'element',
+   tag: 'td',
+   props: {},
+   styles: parseStyles(styles),
+   content: '&nbsp;'
+});
+
+const createRow = (cols: number, styles?: string): BlockNode => ({
+   id: generateBlockId(),
+   type: 'element',
+   tag: 'tr',
+   props: {},
+   styles: {},
+   children: Array.from({ length: cols }, () => createCell(styles))
+});
+
+/**
+ * Builds the blocks of a table - the same markup the table picker inserts.
+ */
+export const createTableBlocks = (rows: number, cols: number): BlockNode[] => [{
+   id: generateBlockId(),
+   type: 'table',
+   tag: 'div',
+   props: { 'data-table-container': 'true' },
+   styles: parseStyles('margin: 10px 0;'),
+   children: [{
+      id: generateBlockId(),
+      type: 'element',
+      tag: 'table',
+      props: {},
+      styles: parseStyles('border-collapse: collapse; width: 100%; table-layout: fixed;'),
+      children: [{
+         id: generateBlockId(),
+         type: 'element',
+         tag: 'tbody',
+         props: {},
+         styles: {},
+         children: Array.from({ length: rows }, () => createRow(cols, TABLE_CELL_STYLES))
+      }]
+   }]
+}];
+
+export const generateTableHtml = (rows: number, cols: number): string => blocksToHtml(createTableBlocks(rows, cols));
+
+// The <table> block - `tableId` may also be the id of the table container
+const findTable = (blocks: BlockNode[], tableId: string): BlockNode | null => {
+   const block = findBlock(blocks, tableId);
+   if (!block || block.tag === 'table') return block;
+
+   let table: BlockNode | null = null;
+   walkBlocks(block.children ?? [], child => {
+      if (child.tag === 'table') {
+         table = child;
+         return false;
+      }
+   });
+   return table;
+};
+
+const getTableRows = (table: BlockNode): TableRow[] => (table.children ?? []).flatMap((child): TableRow[] => {
+   if (child.tag === 'tr') return [{ row: child, section: null }];
+   if (TABLE_SECTION_TAGS.includes(child.tag)) {
+      return (child.children ?? []).filter(row => row.tag === 'tr').map(row => ({ row, section: child.id }));
+   }
+   return [];
+});
+
+const getCells = (row: BlockNode): BlockNode[] => (row.children ?? []).filter(cell => TABLE_CELL_TAGS.includes(cell.tag));
+
+// Writes rows back into their sections, keeping everything else (caption, colgroup) in place
+const withTableRows = (table: BlockNode, rows: TableRow[]): BlockNode => {
+   const children: BlockNode[] = [];
+   let directRowsPlaced = false;
+   const directRows = () => rows.filter(r => r.section === null).map(r => r.row);
+
+   (table.children ?? []).forEach(child => {
+      if (child.tag === 'tr') {
+         if (!directRowsPlaced) children.push(...directRows());
+         directRowsPlaced = true;
+      } else if (TABLE_SECTION_TAGS.includes(child.tag)) {
+         children.push({ ...child, children: rows.filter(r => r.section === child.id).map(r => r.row) });
+      } else {
+         children.push(child);
+      }
+   });
+   if (!directRowsPlaced) children.push(...directRows());
+
+   return { ...table, children };
+};
+
+const updateTable = (
+   doc: EditorDocument,
+   tableId: string,
+   update: (rows: TableRow[]) => TableRow[],
+   ownerDocument?: Document
+): EditorDocument => {
+   const blocks = getDocumentBlocks(doc, ownerDocument);
+   const table = findTable(blocks, tableId);
+   if (!table) return doc;
+   return withBlocks(doc, updateBlock(blocks, table.id, current => withTableRows(current, update(getTableRows(current)))));
+};
+
+const withCells = (row: BlockNode, update: (cells: BlockNode[]) => BlockNode[]): BlockNode => {
+   const cells = getCells(row);
+   const others = (row.children ?? []).filter(cell => !TABLE_CELL_TAGS.includes(cell.tag));
+   return { ...row, children: [...update(cells), ...others] };
+};
+
+export const getTableDimensions = (doc: EditorDocument, tableId: string, ownerDocument?: Document): { rows: number; cols: number } | null => {
+   const table = findTable(getDocumentBlocks(doc, ownerDocument), tableId);
+   if (!table) return null;
+   const rows = getTableRows(table);
+   return { rows: rows.length, cols: rows[0] ? getCells(rows[0].row).length : 0 };
+};
+
+/**
+ * Inserts a table at a position (end of the top level by default).
+ */
+export const insertTable = (doc: EditorDocument, rows: number, cols: number, position?: Partial<BlockPosition>, ownerDocument?: Document): EditorDocument =>
+   insertBlock(doc, createTableBlocks(rows, cols), position, ownerDocument);
+
+// Adds a row above/below `rowIndex` - the first/last row when omitted
+export const addTableRow = (
+   doc: EditorDocument,
+   tableId: string,
+   position: 'above' | 'below',
+   rowIndex?: number,
+   ownerDocument?: Document
+): EditorDocument => updateTable(doc, tableId, rows => {
+   const index = rowIndex ?? (position === 'above' ? 0 : rows.length - 1);
+   const reference = rows[Math.max(0, Math.min(index, rows.length - 1))];
+   const cols = rows[0] ? getCells(rows[0].row).length : 1;
+   const next = [...rows];
+   next.splice(position === 'above' ? index : index + 1, 0, { row: createRow(cols || 1), section: reference?.section ?? null });
+   return next;
+}, ownerDocument);
+
+// Adds a column left/right of `colIndex` - the first/last column when omitted
+export const addTableColumn = (
+   doc: EditorDocument,
+   tableId: string,
+   position: 'left' | 'right',
+   colIndex?: number,
+   ownerDocument?: Document
+): EditorDocument => updateTable(doc, tableId, rows => {
+   const cols = rows[0] ? getCells(rows[0].row).length : 1;
+   const index = colIndex ?? (position === 'left' ? 0 : cols - 1);
+   return rows.map(({ row, section }) => ({
+      section,
+      row: withCells(row, cells => {
+         const next = [...cells];
+         next.splice(position === 'left' ? index : index + 1, 0, createCell());
+         return next;
+      })
+   }));
+}, ownerDocument);
+
+// The last remaining row is never deleted
+export const deleteTableRow = (doc: EditorDocument, tableId: string, rowIndex: number, ownerDocument?: Document): EditorDocument =>
+   updateTable(doc, tableId, rows => rows.length <= 1 ? rows : rows.filter((_, index) => index !== rowIndex), ownerDocument);
+
+// The last remaining column is never deleted
+export const deleteTableColumn = (doc: EditorDocument, tableId: string, colIndex: number, ownerDocument?: Document): EditorDocument =>
+   updateTable(doc, tableId, rows => {
+      if (!rows[0] || getCells(rows[0].row).length <= 1) return rows;
+      return rows.map(({ row, section }) => ({ section, row: withCells(row, cells => cells.filter((_, index) => index !== colIndex)) }));
+   }, ownerDocument);
+
+// Adds or removes rows and columns at the end
+export const resizeTable = (doc: EditorDocument, tableId: string, rowCount: number, colCount: number, ownerDocument?: Document): EditorDocument =>
+   updateTable(doc, tableId, rows => {
+      const section = rows[rows.length - 1]?.section ?? null;
+      const resized = rows.slice(0, rowCount);
+      while (resized.length < rowCount) resized.push({ row: createRow(colCount), section });
+
+      return resized.map(({ row, section }) => ({
+         section,
+         row: withCells(row, cells => {
+            const next = cells.slice(0, colCount);
+            while (next.length < colCount) next.push(createCell());
+            return next;
+         })
+      }));
+   }, ownerDocument);
+
+// ============================================
+// MERGE FIELDS
+// ============================================
+
+/**
+ * Replaces merge field tokens in block content and attributes (e.g. link targets).
+ * Values are escaped for where they land, and block props are resolved value by value.
+ * Unknown fields are left as they are.
+ */
+export const resolveDocumentMergeFields = (doc: EditorDocument, data: MergeFieldData, ownerDocument: Document = window.document): EditorDocument => {
+   const resolveContent = (html: string): string => {
+      const template = ownerDocument.createElement('template');
+      template.innerHTML = html;
+      resolveMarkupMergeFields(template.content, data);
+      return template.innerHTML;
+   };
+   const resolveBlock = (block: BlockNode): BlockNode => ({
+      ...block,
+      props: Object.fromEntries(Object.entries(block.props).map(([name, value]) => [name, resolveAttributeMergeFields(name, value, data)])),
+      // Text blocks hold plain text, escaped when serialized
+      content: block.content === undefined ? undefined : block.tag === '#text' ? resolveMergeFields(block.content, data) : resolveContent(block.content),
+      children: block.children?.map(resolveBlock)
+   });
+   return withDocumentBlocks(doc, getDocumentBlocks(doc, ownerDocument).map(resolveBlock));
+};
+
+// ============================================
+// STATEFUL ENGINE
+// ============================================
+
+/**
+ * Creates a document engine - a mutable handle over the operations above for
+ * scripts and backend jobs.
+ *
+ * @example
+ * ```ts
+ * import { JSDOM } from 'jsdom';
+ *
+ * const { window } = new JSDOM();
+ * const engine = createDocumentEngine({ name: 'Invoice' }, { ownerDocument: window.document });
+ * const [heading] = engine.insertBlock('<h1>Invoice for {{client.name}}</h1>');
+ * engine.updateStyle(heading, { color: '#111827' });
+ * const table = engine.insertTable(3, 2);
+ * engine.addTableRow(table, 'below');
+ * engine.resolveMergeFields({ client: { name: 'Acme' } });
+ * const document = engine.getDocument();
+ * ```
+ */
+export const createDocumentEngine = (init: StoredDocument = {}, options: DocumentEngineOptions = {}): DocumentEngine => {
+   const { ownerDocument } = options;
+   let document = migrateDocument(init, ownerDocument);
+   if (!document.blocks.length) document = withDocumentBlocks(document, getDocumentBlocks(document, ownerDocument));
+
+   const toBlocks = (block: string | BlockNode | BlockNode[]): BlockNode[] => {
+      if (typeof block === 'string') return createBlocks(block, ownerDocument);
+      return Array.isArray(block) ? block : [block];
+   };
+
+   return {
+      getDocument: () => document,
+      getHtml: () => blocksToHtml(document.blocks),
+      insertBlock: (block, position) => {
+         const blocks = toBlocks(block);
+         document = insertBlock(document, blocks, position, ownerDocument);
+         return blocks.map(b => b.id);
+      },
+      moveBlock: (id, position) => {
+         document = moveBlock(document, id, position, ownerDocument);
+      },
+      deleteBlock: (id) => {
+         document = deleteBlock(document, id, ownerDocument);
+      },
+      duplicateBlock: (id) => {
+         const position = getBlockPosition(document, id, ownerDocument);
+         document = duplicateBlock(document, id, ownerDocument);
+         if (!position) return null;
+         const siblings = position.parentId === null ? document.blocks : findBlock(document.blocks, position.parentId)?.children;
+         return siblings?.[position.index + 1]?.id ?? null;
+      },
+      updateStyle: (id, styles) => {
+         document = updateBlockStyle(document, id, styles, ownerDocument);
+      },
+      updateProps: (id, props) => {
+         document = updateBlockProps(document, id, props, ownerDocument);
+      },
+      updateContent: (id, html) => {
+         document = updateBlockContent(document, id, html, ownerDocument);
+      },
+      insertTable: (rows, cols, position) => {
+         const blocks = createTableBlocks(rows, cols);
+         document = insertBlock(document, blocks, position, ownerDocument);
+         return blocks[0].id;
+      },
+      addTableRow: (tableId, position, rowIndex) => {
+         document = addTableRow(document, tableId, position, rowIndex, ownerDocument);
+      },
+      addTableColumn: (tableId, position, colIndex) => {
+         document = addTableColumn(document, tableId, position, colIndex, ownerDocument);
+      },
+      deleteTableRow: (tableId, rowIndex) => {
+         document = deleteTableRow(document, tableId, rowIndex, ownerDocument);
+      },
+      deleteTableColumn: (tableId, colIndex) => {
+         document = deleteTableColumn(document, tableId, colIndex, ownerDocument);
+      },
+      resizeTable: (tableId, rows, cols) => {
+         document = resizeTable(document, tableId, rows, cols, ownerDocument);
+      },
+      resolveMergeFields: (data) => {
+         document = resolveDocumentMergeFields(document, data, ownerDocument);
+      }
+   };
+};
@@ -0,0 +1,146 @@
+import { escapeAttribute, escapeText } from "./blockTree";
+import { getElementPages } from "./utils";
+import { NotePlacement } from "./type";
+
+// ============================================
+// FOOTNOTES - numbered references with their notes at the page bottom or document end
+// ============================================
+//
+// A reference is a <sup> holding its note text in an attribute, so it moves, copies and
+// deletes with the text around it. Numbers are never stored as data - numberFootnotes()
+// renumbers the references in document order on every pagination pass. The notes
+// themselves are not part of the content: usePagination draws them in the page overlay,
+// exports insert them with insertNotes().
+
+export const FOOTNOTE_ATTRIBUTE = 'data-footnote'; // Note text on the reference
+export const NOTES_ATTRIBUTE = 'data-notes'; // Rendered notes: page number or 'end'
+
+export const FOOTNOTE_SELECTOR = `sup[${FOOTNOTE_ATTRIBUTE}]`;
+
+const PAGE_BREAK_ATTRIBUTE = 'data-page-break-before'; // Set by usePagination - the page before the break
+const NOTE_ROW_ATTRIBUTE = 'data-note';
+
+export interface Footnote {
+   number: number;
+   text: string;
+   page: number; // From the page breaks usePagination marked - 1 when there are none
+   element: HTMLElement;
+}
+
+// Reference markup for the caret - numberFootnotes() fills in the number
+export const createFootnoteReference = (text: string): string =>
+   `<sup ${FOOTNOTE_ATTRIBUTE}="${escapeAttribute(text)}" contenteditable="false">*</sup>`;
+
+/**
+ * Numbers the references under `root` in document order and returns their notes.
+ * References are only rewritten when their number or text changed.
+ */
+export const numberFootnotes = (root: ParentNode): Footnote[] =>
+   getElementPages(root, FOOTNOTE_SELECTOR).map(({ element, page }, index) => {
+      const number = index + 1;
+      const text = element.getAttribute(FOOTNOTE_ATTRIBUTE) ?? '';
+      const html = `<a href="#footnote-${number}" id="footnote-ref-${number}" title="${escapeAttribute(text)}" style="color: inherit; text-decoration: none;">${number}</a>`;
+      if (element.innerHTML !== html) element.innerHTML = html;
+      return { number, text, page, element: element as HTMLElement };
+   });
+
+// Notes of one page (footnotes) or of the whole document (endnotes), inline styled for exports
+export const renderNotes = (notes: Footnote[], placement: NotePlacement, page?: number): string => {
+   const endnotes = placement === 'endnotes';
+   const heading = endnotes
+      ? '<div style="margin-bottom: 8px; font-size: 16px; font-weight: 600;">Notes</div>'
+      : '<div style="width: 160px; margin-bottom: 6px; border-top: 1px solid #9ca3af;"></div>';
+   const rows = notes.map(note => /* html */`
+      <div ${NOTE_ROW_ATTRIBUTE} id="footnote-${note.number}" style="display: flex; gap: 6px; padding: 1px 0;">
+         <a href="#footnote-ref-${note.number}" style="flex: 0 0 auto; color: inherit; text-decoration: none;">${note.number}.</a>
+         <span>${escapeText(note.text)}</span>
+      </div>
+   `).join('');
+
+   // Padding rather than margins - the notes are measured and stacked by their box height
+   return /* html */`
+      <div ${NOTES_ATTRIBUTE}="${endnotes ? 'end' : page ?? ''}" ${endnotes ? 'data-keep-together="true"' : ''} style="padding-top: ${endnotes ? 24 : 12}px; font-size: 12px; line-height: 1.5; color: #374151;">
+         ${heading}
+         ${rows}
+      </div>
+   `.replace(/>\s+</g, '><').trim();
+};
+
+/**
+ * Height of the notes frame (rule or title) and of every note row at `width`, measured
+ * in `host`. The notes of a page take `frame` plus the rows of its references.
+ */
+export const measureNotes = (host: HTMLElement, notes: Footnote[], placement: NotePlacement, width: number): { frame: number; rows: number[] } => {
+   const probe = host.ownerDocument.createElement('div');
+   probe.style.cssText = `position: absolute; left: 0; top: 0; width: ${width}px; visibility: hidden;`;
+   probe.innerHTML = renderNotes([], placement) + renderNotes(notes, placement);
+   host.appendChild(probe);
+
+   const [empty, filled] = Array.from(probe.children) as HTMLElement[];
+   const frame = empty.offsetHeight;
+   const rows = Array.from(filled.querySelectorAll<HTMLElement>(`[${NOTE_ROW_ATTRIBUTE}]`)).map(row => row.offsetHeight);
+   probe.remove();
+   return { frame, rows };
+};
+
+const toElement = (owner: Document, html: string): Element | null => {
+   const template = owner.createElement('template');
+   template.innerHTML = html;
+   return template.content.firstElementChild;
+};
+
+/**
+ * Adds the notes to exported markup. Footnotes go before the block that starts the next
+ * page (the last page's at the end), endnotes after everything. Run it after the blocks
+ * were rendered for export; notes inserted before are replaced.
+ */
+export const insertNotes = (root: HTMLElement | DocumentFragment, placement: NotePlacement = 'footnotes') => {
+   root.querySelectorAll(`[${NOTES_ATTRIBUTE}]`).forEach(el => el.remove());
+
+   const owner = root.ownerDocument;
+   const notes = numberFootnotes(root);
+   if (!notes.length) return;
+
+   if (placement === 'endnotes') {
+      const endnotes = toElement(owner, renderNotes(notes, placement));
+      if (endnotes) root.appendChild(endnotes);
+      return;
+   }
+
+   const pages = new Map<number, Footnote[]>();
+   notes.forEach(note => pages.set(note.page, [...(pages.get(note.page) ?? []), note]));
+   pages.forEach((pageNotes, page) => {
+      const footnotes = toElement(owner, renderNotes(pageNotes, placement, page));
+      if (!footnotes) return;
+
+      const nextPage = root.querySelector(`[${PAGE_BREAK_ATTRIBUTE}="${page}"]`);
+      if (nextPage) nextPage.before(footnotes);
+      else root.appendChild(footnotes);
+   });
+};
+
+/**
+ * Moves footnotes to the bottom of their PDF page, in html2pdf's laid out container.
+ * html2pdf fills the rest of a page with a spacer before each page break, so footnotes
+ * inserted before the break swap places with it and keep `padding` of it below them;
+ * the last page's footnotes are pushed down by the height left on that page.
+ * `page` is the inner page size in points.
+ */
+export const placePdfNotes = (container: HTMLElement, page: { width: number; height: number }, padding: number) => {
+   const origin = container.getBoundingClientRect();
+   if (!origin.width) return;
+
+   const pageHeight = page.height * (origin.width / page.width); // Pixels
+   container.querySelectorAll<HTMLElement>(`[${NOTES_ATTRIBUTE}]:not([${NOTES_ATTRIBUTE}="end"])`).forEach(notes => {
+      const spacer = notes.nextElementSibling as HTMLElement | null;
+      if (spacer && !spacer.hasAttribute(PAGE_BREAK_ATTRIBUTE) && spacer.nextElementSibling?.hasAttribute(PAGE_BREAK_ATTRIBUTE)) {
+         const gap = Math.min(padding, parseFloat(spacer.style.height) || 0);
+         spacer.style.height = `${(parseFloat(spacer.style.height) || 0) - gap}px`;
+         notes.style.paddingBottom = `${gap}px`;
+         spacer.after(notes);
+      } else if (!spacer) {
+         const rest = Math.ceil(origin.height / pageHeight) * pageHeight - origin.height;
+         notes.style.marginTop = `${Math.max(0, Math.floor(rest) - 1)}px`; // Short of the edge - a sliver would add a page
+      }
+   });
+};
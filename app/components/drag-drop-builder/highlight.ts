@@ -0,0 +1,327 @@
+// ============================================
+// SYNTAX HIGHLIGHTING - code split into colored tokens, no dependencies
+// ============================================
+//
+// Each language is a short list of sticky patterns tried in order at every position;
+// identifiers are then sorted into keywords, literals, types and function names. It is
+// deliberately shallow - enough to color documentation samples, not to parse programs.
+// Tokens come back line by line, so a caller can number the lines and give every token
+// its theme color as an inline style.
+
+export type TokenKind =
+   | 'plain'
+   | 'comment'
+   | 'string'
+   | 'number'
+   | 'keyword'
+   | 'literal' // true, null, None
+   | 'type'
+   | 'function'
+   | 'property' // Object keys, CSS properties, attributes
+   | 'tag'
+   | 'variable'
+   | 'meta'; // Decorators, preprocessor lines, CSS at-rules
+
+export interface CodeToken {
+   kind: TokenKind;
+   text: string;
+}
+
+export interface CodeTheme {
+   label: string;
+   background: string;
+   border: string;
+   lineNumber: string;
+   colors: Record<TokenKind, string>;
+}
+
+interface LanguageRule {
+   kind: TokenKind | 'identifier';
+   pattern: RegExp; // Sticky
+}
+
+interface Language {
+   label: string;
+   rules: LanguageRule[];
+   keywords?: Set<string>;
+   literals?: Set<string>;
+   types?: Set<string>;
+   ignoreCase?: boolean; // SQL keywords
+   capitalizedTypes?: boolean; // Identifiers starting with a capital are types
+}
+
+const words = (list: string): Set<string> => new Set(list.split(/\s+/).filter(Boolean));
+
+const rule = (kind: LanguageRule['kind'], pattern: RegExp): LanguageRule => ({ kind, pattern: new RegExp(pattern.source, `${pattern.flags}y`) });
+
+// Patterns shared by several languages
+const LINE_COMMENT = rule('comment', /\/\/.*/);
+const BLOCK_COMMENT = rule('comment', /\/\*[\s\S]*?(?:\*\/|$)/);
+const HASH_COMMENT = rule('comment', /#.*/);
+const DOUBLE_QUOTED = rule('string', /"(?:[^"\\\n]|\\.)*"?/);
+const SINGLE_QUOTED = rule('string', /'(?:[^'\\\n]|\\.)*'?/);
+const BACKTICK = rule('string', /`(?:[^`\\]|\\[\s\S])*`?/);
+const NUMBER = rule('number', /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)[a-zA-Z]*/);
+const IDENTIFIER = rule('identifier', /[A-Za-z_$][\w$]*/);
+
+const C_LIKE = [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED];
+
+const JS_KEYWORDS = 'async await break case catch class const continue debugger default delete do else export extends finally for from function get if import in instanceof let new of return set static super switch this throw try typeof var void while with yield';
+const TS_KEYWORDS = `${JS_KEYWORDS} abstract as declare enum implements interface keyof namespace private protected public readonly satisfies type`;
+const JS_LITERALS = 'true false null undefined NaN Infinity';
+
+const LANGUAGES: Record<string, Language> = {
+   plaintext: { label: 'Plain text', rules: [] },
+   javascript: {
+      label: 'JavaScript',
+      rules: [...C_LIKE, BACKTICK, rule('string', /\/(?![/* ])(?:[^/\\\n[]|\\.|\[(?:[^\]\\\n]|\\.)*\])+\/[dgimsuy]*(?=\s*[.,;)\]}]|\s*$)/), NUMBER, IDENTIFIER],
+      keywords: words(JS_KEYWORDS),
+      literals: words(JS_LITERALS),
+      capitalizedTypes: true
+   },
+   typescript: {
+      label: 'TypeScript',
+      rules: [...C_LIKE, BACKTICK, rule('meta', /@[A-Za-z_]\w*/), NUMBER, IDENTIFIER],
+      keywords: words(TS_KEYWORDS),
+      literals: words(JS_LITERALS),
+      types: words('any boolean never number object string symbol unknown bigint void'),
+      capitalizedTypes: true
+   },
+   python: {
+      label: 'Python',
+      rules: [
+         HASH_COMMENT,
+         rule('string', /[rRbBuUfF]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/),
+         rule('string', /[rRbBuUfF]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/),
+         rule('meta', /@[A-Za-z_][\w.]*/),
+         NUMBER,
+         IDENTIFIER
+      ],
+      keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield'),
+      literals: words('True False None'),
+      types: words('int float str bool list dict set tuple bytes object type'),
+      capitalizedTypes: true
+   },
+   java: {
+      label: 'Java',
+      rules: [...C_LIKE, rule('meta', /@[A-Za-z_]\w*/), NUMBER, IDENTIFIER],
+      keywords: words('abstract assert break case catch class continue default do else enum extends final finally for if implements import instanceof interface native new package private protected public record return static super switch synchronized this throw throws transient try var void volatile while yield'),
+      literals: words('true false null'),
+      types: words('boolean byte char double float int long short'),
+      capitalizedTypes: true
+   },
+   c: {
+      label: 'C',
+      rules: [rule('meta', /#\s*[a-z]+(?:[^\n/]|\/(?![/*]))*/), ...C_LIKE, NUMBER, IDENTIFIER],
+      keywords: words('auto break case const continue default do else enum extern for goto if inline register restrict return sizeof static struct switch typedef union volatile while'),
+      literals: words('NULL true false'),
+      types: words('char double float int long short signed unsigned void bool size_t uint8_t uint16_t uint32_t uint64_t int8_t int16_t int32_t int64_t')
+   },
+   cpp: {
+      label: 'C++',
+      rules: [rule('meta', /#\s*[a-z]+(?:[^\n/]|\/(?![/*]))*/), ...C_LIKE, NUMBER, IDENTIFIER],
+      keywords: words('alignas auto break case catch class const constexpr const_cast continue decltype default delete do dynamic_cast else enum explicit export extern for friend goto if inline mutable namespace new noexcept operator private protected public register reinterpret_cast return sizeof static static_assert static_cast struct switch template this throw try typedef typeid typename union using virtual volatile while'),
+      literals: words('true false nullptr NULL'),
+      types: words('bool char char16_t char32_t double float int long short signed unsigned void wchar_t size_t string vector map'),
+      capitalizedTypes: true
+   },
+   csharp: {
+      label: 'C#',
+      rules: [rule('string', /@"(?:[^"]|"")*"?/), rule('string', /\$"(?:[^"\\\n]|\\.)*"?/), ...C_LIKE, rule('meta', /#\s*[a-z]+.*/), NUMBER, IDENTIFIER],
+      keywords: words('abstract as async await base break case catch class const continue default delegate do else enum event explicit extern finally fixed for foreach get goto if implicit in init interface internal is lock namespace new operator out override params private protected public readonly record ref return sealed set sizeof stackalloc static struct switch this throw try typeof unchecked unsafe using var virtual void volatile when where while yield'),
+      literals: words('true false null'),
+      types: words('bool byte char decimal double dynamic float int long object sbyte short string uint ulong ushort'),
+      capitalizedTypes: true
+   },
+   go: {
+      label: 'Go',
+      rules: [...C_LIKE, BACKTICK, NUMBER, IDENTIFIER],
+      keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var'),
+      literals: words('true false nil iota'),
+      types: words('bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 uint16 uint32 uint64 uintptr any'),
+      capitalizedTypes: true
+   },
+   rust: {
+      label: 'Rust',
+      rules: [LINE_COMMENT, BLOCK_COMMENT, rule('string', /b?r#*"[\s\S]*?(?:"#*|$)/), DOUBLE_QUOTED, rule('string', /'(?:[^'\\\n]|\\.)'/), rule('meta', /#!?\[[^\]\n]*\]?/), rule('meta', /'[a-z_]\w*/), NUMBER, rule('function', /[a-z_]\w*!/), IDENTIFIER],
+      keywords: words('as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while'),
+      literals: words('true false None Some Ok Err'),
+      types: words('bool char f32 f64 i8 i16 i32 i64 i128 isize str u8 u16 u32 u64 u128 usize String Vec Option Result Box'),
+      capitalizedTypes: true
+   },
+   php: {
+      label: 'PHP',
+      rules: [rule('meta', /<\?php|\?>/), LINE_COMMENT, BLOCK_COMMENT, HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, rule('variable', /\$[A-Za-z_]\w*/), NUMBER, IDENTIFIER],
+      keywords: words('abstract and array as break case catch class clone const continue declare default do echo else elseif empty enum extends final finally fn for foreach function global if implements include instanceof interface isset list match namespace new or print private protected public readonly require require_once return static switch throw trait try unset use var while yield'),
+      literals: words('true false null TRUE FALSE NULL'),
+      capitalizedTypes: true
+   },
+   sql: {
+      label: 'SQL',
+      rules: [rule('comment', /--.*/), BLOCK_COMMENT, SINGLE_QUOTED, rule('property', /"(?:[^"]|"")*"?|`[^`\n]*`?/), NUMBER, rule('variable', /[@:$][A-Za-z_]\w*/), IDENTIFIER],
+      keywords: words('add all alter and as asc begin between by case check column commit constraint create cross database default delete desc distinct drop else end exists foreign from full group having if in index inner insert into is join key left like limit not offset on or order outer primary references returning right rollback select set table then transaction truncate union unique update using values view when where with'),
+      literals: words('true false null'),
+      types: words('bigint bit blob boolean char date datetime decimal double float int integer json numeric real serial smallint text time timestamp uuid varchar'),
+      ignoreCase: true
+   },
+   json: {
+      label: 'JSON',
+      rules: [LINE_COMMENT, BLOCK_COMMENT, rule('property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/), DOUBLE_QUOTED, rule('number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/), IDENTIFIER],
+      literals: words('true false null')
+   },
+   yaml: {
+      label: 'YAML',
+      rules: [
+         HASH_COMMENT,
+         rule('meta', /---|\.\.\.|[&*][\w-]+|![\w!]*/),
+         rule('property', /[\w.-]+(?=\s*:(?:\s|$))/),
+         DOUBLE_QUOTED,
+         SINGLE_QUOTED,
+         rule('number', /-?\d+(?:\.\d+)?(?![\w.-])/),
+         IDENTIFIER,
+         rule('plain', /[\w.-]+/)
+      ],
+      literals: words('true false null yes no on off True False Null Yes No')
+   },
+   html: {
+      label: 'HTML / XML',
+      rules: [
+         rule('comment', /<!--[\s\S]*?(?:-->|$)/),
+         rule('meta', /<![A-Za-z][^>]*>?|<\?[\s\S]*?(?:\?>|$)/),
+         rule('tag', /<\/?[A-Za-z][\w:.-]*|\/?>/),
+         rule('property', /[A-Za-z_:@][\w:.-]*(?=\s*=)/),
+         DOUBLE_QUOTED,
+         SINGLE_QUOTED,
+         rule('variable', /&(?:[a-zA-Z]+|#\d+|#x[\da-fA-F]+);/),
+         rule('plain', /[\w:.-]+/)
+      ]
+   },
+   css: {
+      label: 'CSS',
+      rules: [
+         BLOCK_COMMENT,
+         DOUBLE_QUOTED,
+         SINGLE_QUOTED,
+         rule('meta', /@[\w-]+/),
+         rule('property', /--[\w-]+|[a-z-]+(?=\s*:(?![a-z-]+\s*[({,]))/),
+         rule('number', /#[\da-fA-F]{3,8}\b|-?(?:\d+\.?\d*|\.\d+)(?:%|[a-zA-Z]+)?/),
+         rule('keyword', /!important/),
+         rule('function', /[\w-]+(?=\()/),
+         rule('tag', /[.#][\w-]+|::?[\w-]+/),
+         rule('plain', /[\w-]+/) // Whole words - the lookaheads above would rescan a word at each of its characters
+      ]
+   },
+   bash: {
+      label: 'Shell',
+      rules: [
+         HASH_COMMENT,
+         DOUBLE_QUOTED,
+         SINGLE_QUOTED,
+         rule('variable', /\$(?:\{[^}\n]*\}?|\(|[\w@#?*!$-]+)/),
+         rule('property', /--?[A-Za-z][\w-]*/),
+         NUMBER,
+         rule('identifier', /[A-Za-z_][\w-]*/)
+      ],
+      keywords: words('if then else elif fi for while until do done case esac in function select return exit export local readonly declare set unset source alias'),
+      literals: words('true false'),
+      types: words('echo cd ls cat grep sed awk find mkdir rm cp mv chmod chown curl wget git npm npx yarn pnpm node docker kubectl sudo apt brew pip python')
+   }
+};
+
+export const CODE_INDENT = '    '; // Inserted by Tab in code editors
+
+export const CODE_LANGUAGES = Object.entries(LANGUAGES).map(([value, { label }]) => ({ label, value }));
+
+export const CODE_THEMES: Record<string, CodeTheme> = {
+   light: {
+      label: 'Light',
+      background: '#f6f8fa',
+      border: '#d0d7de',
+      lineNumber: '#8c959f',
+      colors: {
+         plain: '#1f2328', comment: '#6e7781', string: '#0a3069', number: '#0550ae', keyword: '#cf222e', literal: '#0550ae',
+         type: '#953800', function: '#8250df', property: '#0550ae', tag: '#116329', variable: '#953800', meta: '#8250df'
+      }
+   },
+   dark: {
+      label: 'Dark',
+      background: '#282c34',
+      border: '#21252b',
+      lineNumber: '#636d83',
+      colors: {
+         plain: '#abb2bf', comment: '#7f848e', string: '#98c379', number: '#d19a66', keyword: '#c678dd', literal: '#d19a66',
+         type: '#e5c07b', function: '#61afef', property: '#e06c75', tag: '#e06c75', variable: '#e06c75', meta: '#56b6c2'
+      }
+   },
+   solarized: {
+      label: 'Solarized',
+      background: '#fdf6e3',
+      border: '#eee8d5',
+      lineNumber: '#93a1a1',
+      colors: {
+         plain: '#586e75', comment: '#93a1a1', string: '#2aa198', number: '#d33682', keyword: '#859900', literal: '#cb4b16',
+         type: '#b58900', function: '#268bd2', property: '#268bd2', tag: '#268bd2', variable: '#cb4b16', meta: '#6c71c4'
+      }
+   }
+};
+
+const classifyIdentifier = (language: Language, code: string, text: string, end: number): TokenKind => {
+   const word = language.ignoreCase ? text.toLowerCase() : text;
+   if (language.keywords?.has(word)) return 'keyword';
+   if (language.literals?.has(word)) return 'literal';
+   if (language.types?.has(word)) return 'type';
+   if (/^\s*\(/.test(code.slice(end, end + 40))) return 'function';
+   if (language.capitalizedTypes && /^[A-Z][a-z]/.test(text)) return 'type';
+   return 'plain';
+};
+
+// Adjacent tokens of the same kind become one - fewer spans in the markup
+const pushToken = (tokens: CodeToken[], kind: TokenKind, text: string) => {
+   const last = tokens[tokens.length - 1];
+   if (last?.kind === kind) last.text += text;
+   else tokens.push({ kind, text });
+};
+
+/**
+ * Splits `code` into highlighted tokens, one array per line. Unknown languages are
+ * treated as plain text; every character of the input is kept.
+ *
+ * @example
+ * ```ts
+ * const lines = highlightCode('const answer = 42;', 'javascript');
+ * // [[{ kind: 'keyword', text: 'const' }, { kind: 'plain', text: ' answer = ' }, { kind: 'number', text: '42' }, ...]]
+ * ```
+ */
+export const highlightCode = (code: string, languageId: string): CodeToken[][] => {
+   const language = LANGUAGES[languageId] ?? LANGUAGES.plaintext;
+   const tokens: CodeToken[] = [];
+
+   for (let index = 0; index < code.length;) {
+      let matched = false;
+      for (const { kind, pattern } of language.rules) {
+         pattern.lastIndex = index;
+         const match = pattern.exec(code);
+         if (!match || !match[0]) continue;
+
+         const end = index + match[0].length;
+         pushToken(tokens, kind === 'identifier' ? classifyIdentifier(language, code, match[0], end) : kind, match[0]);
+         index = end;
+         matched = true;
+         break;
+      }
+      if (!matched) {
+         pushToken(tokens, 'plain', code[index]);
+         index++;
+      }
+   }
+
+   // Tokens spanning lines (block comments, template strings) are split at the line ends
+   const lines: CodeToken[][] = [[]];
+   tokens.forEach(({ kind, text }) => {
+      text.split('\n').forEach((part, i) => {
+         if (i > 0) lines.push([]);
+         if (part) lines[lines.length - 1].push({ kind, text: part });
+      });
+   });
+   return lines;
+};
@@ -15,7 +15,7 @@ export type { UsePasteHandlerOptions } from './usePasteHandler';
 
 // History hook - undo/redo functionality
 export { useHistory } from './useHistory';
-export type { HistoryState, UseHistoryOptions, UseHistoryReturn } from './useHistory';
+export type { HistoryEntry, HistoryState, SaveHistoryOptions, UseHistoryOptions, UseHistoryReturn } from './useHistory';
 
 // Merge fields hook - autocomplete for merge field tokens
 export { useMergeFields } from './useMergeFields';
@@ -56,3 +56,31 @@ export type { UseElementInfoOptions } from './useElementInfo';
 // Editor renderer hook - renders content into shadow DOM
 export { useEditorRenderer } from './useEditorRenderer';
 export type { UseEditorRendererOptions } from './useEditorRenderer';
+
+// Document storage hook - autosave and document library
+export { useDocumentStorage } from './useDocumentStorage';
+export type { UseDocumentStorageOptions } from './useDocumentStorage';
+
+// Versions hook - durable named document versions
+export { useVersions } from './useVersions';
+export type { UseVersionsOptions } from './useVersions';
+
+// Block registry hook - blocks added with registerBlock()
+export { useBlockRegistry } from './useBlockRegistry';
+export type { UseBlockRegistryOptions } from './useBlockRegistry';
+
+// Modules hook - reusable modules saved from the editor
+export { useModules } from './useModules';
+export type { NewModule, UseModulesOptions } from './useModules';
+
+// Templates hook - documents saved as templates
+export { useTemplates } from './useTemplates';
+export type { NewTemplate, UseTemplatesOptions } from './useTemplates';
+
+// Countdown ticker hook - keeps countdown blocks live outside the editor
+export { useCountdownTicker } from './useCountdownTicker';
+export type { UseCountdownTickerOptions } from './useCountdownTicker';
+
+// Anchor links hook - in-document links inside the shadow DOM
+export { useAnchorLinks } from './useAnchorLinks';
+export type { UseAnchorLinksOptions } from './useAnchorLinks';
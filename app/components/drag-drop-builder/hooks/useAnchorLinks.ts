@@ -0,0 +1,40 @@
+import { RefObject, useEffect } from 'react';
+
+export interface UseAnchorLinksOptions {
+   shadowRootRef: RefObject<ShadowRoot | null>;
+   enabled: boolean; // Off while editing - clicks there select blocks instead
+}
+
+/**
+ * useAnchorLinks - A hook for following in-document links inside the shadow DOM
+ *
+ * Features:
+ * - `#name` links scroll to the element with that id in the shadow root
+ * - Leaves the page URL alone - the browser would look for the id outside the shadow root
+ * - Other links behave as usual
+ *
+ * @example
+ * ```tsx
+ * useAnchorLinks({ shadowRootRef, enabled: isPreviewMode });
+ * ```
+ */
+export function useAnchorLinks({ shadowRootRef, enabled }: UseAnchorLinksOptions) {
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!enabled || !shadow) return;
+
+      const handleClick = (e: Event) => {
+         const link = (e.target as Element).closest?.('a[href^="#"]');
+         const id = decodeURIComponent(link?.getAttribute('href')?.slice(1) ?? '');
+         if (!link) return;
+
+         e.preventDefault();
+         if (id) shadow.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      };
+
+      shadow.addEventListener('click', handleClick);
+      return () => shadow.removeEventListener('click', handleClick);
+   }, [shadowRootRef, enabled]);
+}
+
+export default useAnchorLinks;
@@ -0,0 +1,33 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getRegisteredBlocks, subscribeToBlockRegistry } from '../blockRegistry';
+import { Block, BlockDefinition } from '../type';
+
+export interface UseBlockRegistryOptions {
+   category?: Block['category'];
+}
+
+/**
+ * useBlockRegistry - A hook for reading the registered blocks
+ *
+ * Features:
+ * - Built-in blocks plus everything added with `registerBlock()`
+ * - Re-renders when blocks are registered or unregistered
+ * - Optional category filter
+ *
+ * @example
+ * ```tsx
+ * const containerBlocks = useBlockRegistry({ category: 'container' });
+ *
+ * {containerBlocks.map(definition => <BlockItem key={definition.id} block={toSidebarBlock(definition)} />)}
+ * ```
+ */
+export function useBlockRegistry({ category }: UseBlockRegistryOptions = {}): BlockDefinition[] {
+   const blocks = useSyncExternalStore(subscribeToBlockRegistry, getRegisteredBlocks, getRegisteredBlocks);
+
+   return useMemo(
+      () => category ? blocks.filter(block => block.category === category) : blocks,
+      [blocks, category]
+   );
+}
+
+export default useBlockRegistry;
@@ -0,0 +1,37 @@
+import { RefObject, useEffect } from 'react';
+import { updateCountdowns } from '../blocks';
+
+export interface UseCountdownTickerOptions {
+   shadowRootRef: RefObject<ShadowRoot | null>;
+   enabled: boolean; // Tick only where the content isn't being edited - preview, viewer
+}
+
+const TICK_INTERVAL = 1000;
+
+/**
+ * useCountdownTicker - A hook for keeping countdown blocks live
+ *
+ * Features:
+ * - Updates every countdown in the shadow root once a second
+ * - Writes the numbers straight into the DOM - no re-renders, no history entries
+ * - Stops when disabled, so editing never races the timer
+ *
+ * @example
+ * ```tsx
+ * useCountdownTicker({ shadowRootRef, enabled: isPreviewMode });
+ * ```
+ */
+export function useCountdownTicker({ shadowRootRef, enabled }: UseCountdownTickerOptions) {
+   useEffect(() => {
+      if (!enabled) return;
+
+      const tick = () => {
+         if (shadowRootRef.current) updateCountdowns(shadowRootRef.current);
+      };
+      tick();
+      const timer = setInterval(tick, TICK_INTERVAL);
+      return () => clearInterval(timer);
+   }, [shadowRootRef, enabled]);
+}
+
+export default useCountdownTicker;
@@ -0,0 +1,131 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DocumentStorageAdapter, EditorDocument, SaveStatus, StoredDocumentSummary } from '../type';
+
+export interface UseDocumentStorageOptions {
+   adapter: DocumentStorageAdapter | null;
+   /** Returns the document to persist - read when the save actually runs */
+   getDocument: () => EditorDocument;
+   autosaveDelay?: number;
+}
+
+/**
+ * useDocumentStorage - A hook for persisting documents through a storage adapter
+ *
+ * Features:
+ * - Debounced autosave (scheduleSave) and immediate save (saveNow)
+ * - Save status for the toolbar indicator
+ * - Document library operations (list, load, delete, rename)
+ * - No-op when no adapter is configured
+ *
+ * @example
+ * ```tsx
+ * const { status, scheduleSave, saveNow, documents, refreshDocuments } = useDocumentStorage({
+ *   adapter: createIndexedDbAdapter(),
+ *   getDocument: () => editorDocument,
+ *   autosaveDelay: 1000
+ * });
+ *
+ * // After every change:
+ * scheduleSave();
+ * ```
+ */
+export function useDocumentStorage({
+   adapter,
+   getDocument,
+   autosaveDelay = 1000
+}: UseDocumentStorageOptions) {
+   const [status, setStatus] = useState<SaveStatus>('idle');
+   const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+   const [documents, setDocuments] = useState<StoredDocumentSummary[]>([]);
+
+   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+   const getDocumentRef = useRef(getDocument);
+
+   useEffect(() => {
+      getDocumentRef.current = getDocument;
+   }, [getDocument]);
+
+   const cancelScheduledSave = useCallback(() => {
+      if (timerRef.current) {
+         clearTimeout(timerRef.current);
+         timerRef.current = null;
+      }
+   }, []);
+
+   // Save immediately
+   const saveNow = useCallback(async () => {
+      cancelScheduledSave();
+      if (!adapter) return;
+
+      setStatus('saving');
+      try {
+         await adapter.save(getDocumentRef.current());
+         setLastSavedAt(Date.now());
+         // Edits made while saving have scheduled another save
+         setStatus(timerRef.current ? 'unsaved' : 'saved');
+      } catch (error) {
+         console.error('Failed to save document', error);
+         setStatus('error');
+      }
+   }, [adapter, cancelScheduledSave]);
+
+   // Save after `autosaveDelay` ms without further changes
+   const scheduleSave = useCallback(() => {
+      if (!adapter) return;
+
+      cancelScheduledSave();
+      setStatus('unsaved');
+      timerRef.current = setTimeout(() => {
+         timerRef.current = null;
+         saveNow();
+      }, autosaveDelay);
+   }, [adapter, autosaveDelay, cancelScheduledSave, saveNow]);
+
+   // Drop pending autosaves when the adapter changes or on unmount
+   useEffect(() => cancelScheduledSave, [adapter, cancelScheduledSave]);
+
+   const refreshDocuments = useCallback(async () => {
+      if (!adapter) return [];
+      const list = await adapter.list();
+      setDocuments(list);
+      return list;
+   }, [adapter]);
+
+   const loadDocument = useCallback(async (id: string) => {
+      if (!adapter) return null;
+      return adapter.load(id);
+   }, [adapter]);
+
+   const deleteDocument = useCallback(async (id: string) => {
+      if (!adapter) return;
+      await adapter.delete(id);
+      await refreshDocuments();
+   }, [adapter, refreshDocuments]);
+
+   const renameDocument = useCallback(async (id: string, name: string) => {
+      if (!adapter) return;
+      await adapter.rename(id, name);
+      await refreshDocuments();
+   }, [adapter, refreshDocuments]);
+
+   // A freshly opened/created document starts out clean
+   const resetStatus = useCallback(() => {
+      cancelScheduledSave();
+      setStatus('idle');
+   }, [cancelScheduledSave]);
+
+   return {
+      status,
+      lastSavedAt,
+      documents,
+      scheduleSave,
+      saveNow,
+      resetStatus,
+      refreshDocuments,
+      loadDocument,
+      deleteDocument,
+      renameDocument
+   };
+}
+
+export default useDocumentStorage;
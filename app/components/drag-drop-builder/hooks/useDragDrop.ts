@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef, RefObject } from 'react';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface DragDropBlock {
    id: string;
@@ -8,7 +9,7 @@ export interface DragDropBlock {
 export interface UseDragDropOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
    onDrop?: (html: string, targetElement: HTMLElement) => void;
-   onSaveHistory?: () => void;
+   onSaveHistory?: (label?: string, options?: SaveHistoryOptions) => void;
    onUpdateContent?: () => void;
    onCalculatePageBreaks?: () => void;
 }
@@ -51,7 +52,7 @@ export function useDragDrop({
       mouseY: number
    ): { insertBefore: HTMLElement | null; lastChild: boolean } => {
       const children = Array.from(
-         container.querySelectorAll(':scope > [data-xpath]:not(.drop-zone):not(.drop-indicator)')
+         container.querySelectorAll(':scope > [data-block-id]:not(.drop-zone):not(.drop-indicator)')
       ) as HTMLElement[];
 
       if (children.length === 0) {
@@ -143,7 +144,7 @@ export function useDragDrop({
          const dragged = draggedElementRef.current;
 
          if (dropIndicator) {
-            onSaveHistory?.();
+            onSaveHistory?.(draggedComponent ? 'Inserted block' : 'Moved block');
 
             if (draggedComponent) {
                // Insert new block
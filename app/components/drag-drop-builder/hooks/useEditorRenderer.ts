@@ -1,37 +1,372 @@
-import { useEffect, RefObject } from 'react';
+import { useEffect, useRef, RefObject } from 'react';
 import { Block, EditorDocument } from '../type';
-import { EDITOR_STYLES, NON_EDITABLE_TAGS } from '../data';
-import { generateXPath, isEditableElement } from '../utils';
+import { EDITOR_STYLES, ELEMENT_TOOLBAR_HTML, NON_EDITABLE_TAGS } from '../data';
+import { isEditableElement, MergeFieldData } from '../utils';
+import { refreshBlocks } from '../blockRegistry';
+import { FOOTNOTE_SELECTOR } from '../footnotes';
+import { MATH_ATTRIBUTE } from '../math';
+import { CODE_ATTRIBUTE, CODE_NUMBER_ATTRIBUTE, editCode } from '../blocks';
+import { BLOCK_ID_ATTRIBUTE, CONTENT_FLOW_HTML, ensureBlockId, getBlockElement, reassignBlockIds } from '../blockTree';
+import { captureCaret, captureSourceHtml, reconcileChildren, restoreCaret, stripPaginationState } from '../reconcile';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface UseEditorRendererOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
    shadowReady: boolean;
    editorDocument: EditorDocument;
    isPreviewMode: boolean;
+   mergeFieldData?: MergeFieldData; // Resolves merge fields in block settings (e.g. barcode values) in preview
    draggedComponent: Block | null;
    draggedElementRef: RefObject<HTMLElement | null>;
    checkMergeFieldTriggerRef: RefObject<() => void>;
    handleMergeFieldKeyDownRef: RefObject<(e: KeyboardEvent) => void>;
    tablePlaceholderId: string;
-   onSaveHistory: () => void;
+   onSaveHistory: (label?: string, options?: SaveHistoryOptions) => void;
    onUpdateContent: () => void;
    onCalculatePageBreaks: () => void;
-   onSetSelectedXPath: (xpath: string | null) => void;
+   onSetSelectedBlockId: (blockId: string | null) => void;
    onSetDraggedComponent: (component: Block | null) => void;
    onSetTableModalMode: (mode: 'create' | 'resize') => void;
    onShowTableModal: (show: boolean) => void;
    setupPasteHandlers: (element: HTMLElement) => () => void;
 }
 
+const PAGE_PADDING = 40;
+
+// Styles of the editor canvas - they depend on the page size only
+const buildEditorStyles = ({ pageWidth, pageHeight }: Pick<EditorDocument, 'pageWidth' | 'pageHeight'>): string => {
+   const containerFlowMinHeight = `calc(${pageHeight?.value}${pageHeight?.unit} - ${PAGE_PADDING * 2}px) !important`;
+
+   // vh unit will be min-height and px unit will be height
+   const pagesContainerHeight = pageHeight?.unit === 'vh' ?
+      `min-height: ${pageHeight?.value}${pageHeight?.unit} !important`
+      : `height: ${pageHeight?.value}${pageHeight?.unit} !important`;
+
+   const editorStyles = EDITOR_STYLES({
+      currentPageHeight: {
+         value: pageHeight?.value,
+         unit: pageHeight?.unit
+      }
+   });
+
+   return /*css*/`
+      ${editorStyles}
+
+      .pages-wrapper {
+         padding: 40px 20px 60px;
+         min-height: 100%;
+      }
+
+      .document-header {
+         width: ${pageWidth?.value}${pageWidth?.unit};
+         margin: 0 auto 20px;
+         font-size: 12px;
+         color: #666;
+         display: flex;
+         gap: 16px;
+      }
+
+      .pages-container {
+         position: relative;
+         width: ${pageWidth?.value}${pageWidth?.unit};
+         margin: 0 auto;
+         ${pagesContainerHeight};
+         background: white;
+         box-shadow: 0 4px 20px rgba(0,0,0,0.15);
+         border-radius: 2px;
+      }
+
+      .content-flow {
+         position: relative;
+         min-height: ${containerFlowMinHeight};
+         padding: ${PAGE_PADDING}px;
+         box-sizing: border-box;
+      }
+
+      /* Ensure all content elements respect boundaries */
+      .content-flow > *:not(.page-break-spacer) {
+         max-width: 100%;
+         box-sizing: border-box;
+      }
+
+      .content-flow img {
+         max-width: 100%;
+         height: auto;
+      }
+
+      /* Embedded players - clicks select the block while editing and reach the player in preview */
+      .pages-wrapper:not([data-preview-mode="true"]) :is([data-element-type], [data-html-block]) :is(iframe, video) {
+         pointer-events: none;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] :is([data-element-type], [data-html-block]) :is(iframe, video) {
+         pointer-events: auto !important;
+      }
+
+      /* Signature blocks - signed in preview */
+      .pages-wrapper[data-preview-mode="true"] [data-signature-pad]:empty::before {
+         content: "Click to sign";
+         padding-bottom: 4px;
+         color: #9ca3af;
+         font-size: 12px;
+      }
+
+      .pages-wrapper:not([data-preview-mode="true"]) [data-signature-pad]:empty::before {
+         content: "Signed in preview";
+         padding-bottom: 4px;
+         color: #d1d5db;
+         font-size: 12px;
+      }
+
+      /* Footnote references - the note is edited on double-click */
+      .pages-wrapper:not([data-preview-mode="true"]) sup[data-footnote] {
+         cursor: pointer;
+         border-radius: 2px;
+      }
+
+      .pages-wrapper:not([data-preview-mode="true"]) sup[data-footnote]:hover {
+         background: #dbeafe;
+      }
+
+      /* Inline equations - the LaTeX is edited on double-click */
+      .pages-wrapper:not([data-preview-mode="true"]) span[data-math] {
+         cursor: pointer;
+         border-radius: 2px;
+      }
+
+      .pages-wrapper:not([data-preview-mode="true"]) span[data-math]:hover {
+         background: #dbeafe;
+      }
+
+      /* Empty state */
+      .content-flow:empty::before,
+      .content-flow:not(:has([data-block-id]))::before {
+         content: "Drag elements here...";
+         color: #9ca3af;
+         font-style: italic;
+         display: block;
+      }
+
+      /* Page overlay system - visual page indicators without DOM mutation */
+      .page-overlay {
+         position: absolute;
+         top: 0;
+         left: 0;
+         right: 0;
+         bottom: 0;
+         pointer-events: none;
+         z-index: 0;
+      }
+
+      .page-overlay .page {
+         position: absolute;
+         left: 0;
+         right: 0;
+         background: transparent;
+         border-bottom: 1px dashed #e5e7eb;
+      }
+
+      .page-overlay .page-label {
+         position: absolute;
+         bottom: -12px;
+         left: 50%;
+         transform: translateX(-50%);
+         font-size: 10px;
+         color: #9ca3af;
+         background: #f3f4f6;
+         padding: 2px 12px;
+         border-radius: 999px;
+         white-space: nowrap;
+      }
+
+      .page-overlay .page-gap {
+         position: absolute;
+         left: 0px;
+         box-shadow: rgba(0, 0, 0, 0.1) 0px 20px 20px -20px inset, rgba(0, 0, 0, 0.1) 0px -20px 20px -20px inset;
+         display: flex;
+         align-items: center;
+         justify-content: center;
+      }
+
+      .page-overlay .page-gap-label {
+         font-size: 11px;
+         color: #6b7280;
+      }
+
+      /* Preview Mode Styles */
+      .pages-wrapper[data-preview-mode="true"] {
+         padding: 20px;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] .document-header {
+         display: none;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] .pages-container {
+         height: auto !important;
+         min-height: auto !important;
+         box-shadow: none;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] .element-toolbar {
+         display: none !important;
+         visibility: hidden !important;
+         opacity: 0 !important;
+         pointer-events: none !important;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] [data-block-id]:hover,
+      .pages-wrapper[data-preview-mode="true"] [data-block-id]:focus,
+      .pages-wrapper[data-preview-mode="true"] [data-selected="true"] {
+         outline: none !important;
+         box-shadow: none !important;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] [data-block-id] {
+         cursor: default !important;
+         pointer-events: none !important;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] .content-flow {
+         pointer-events: none !important;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] [contenteditable],
+      .pages-wrapper[data-preview-mode="true"] [contenteditable="true"] {
+         cursor: default !important;
+         -webkit-user-modify: read-only !important;
+         -moz-user-modify: read-only !important;
+         user-modify: read-only !important;
+         pointer-events: none !important;
+         caret-color: transparent !important;
+      }
+
+      /* Links work in preview - useAnchorLinks scrolls to in-document targets */
+      .pages-wrapper[data-preview-mode="true"] .content-flow a[href] {
+         cursor: pointer !important;
+         pointer-events: auto !important;
+      }
+
+      /* Signature lines open the pad in preview */
+      .pages-wrapper[data-preview-mode="true"] .content-flow [data-signature-pad] {
+         cursor: pointer !important;
+         pointer-events: auto !important;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] .content-flow:empty::before,
+      .pages-wrapper[data-preview-mode="true"] .content-flow:not(:has([data-block-id]))::before {
+         display: none;
+      }
+
+      .pages-wrapper[data-preview-mode="true"] [data-empty="true"]::before {
+         display: none !important;
+      }
+   `;
+};
+
+// Elements that never become blocks (page chrome, toolbars, pagination leftovers)
+const isBlockCandidate = (el: Element, contentFlow: Element): boolean => el !== contentFlow
+   && !NON_EDITABLE_TAGS.includes(el.tagName?.toUpperCase())
+   && !el.classList.contains('pages-wrapper')
+   && !el.classList.contains('pages-container')
+   && !el.classList.contains('document-header')
+   && !el.classList.contains('element-toolbar')
+   && !el.classList.contains('page-break-spacer')
+   && !el.closest('.page-break-spacer')
+   && !el.parentElement?.closest('[data-block-props], [data-html-block]'); // Registered block markup is re-rendered from props, raw HTML is kept as written
+
+// Block ids only - preview mode needs them for pagination
+const prepareForPreview = (contentFlow: Element) => {
+   const seenIds = new Set<string>();
+   const addIdsForPreview = (el: Element): void => {
+      if (isBlockCandidate(el, contentFlow)) ensureBlockId(el, seenIds);
+      Array.from(el.children).forEach(addIdsForPreview);
+   };
+   Array.from(contentFlow.children).forEach(addIdsForPreview);
+};
+
+// Block ids, toolbars and contenteditable - runs on detached markup before it is reconciled
+const prepareForEditing = (contentFlow: Element) => {
+   const ownerDocument = contentFlow.ownerDocument;
+
+   contentFlow.querySelectorAll('*').forEach(el => {
+      el.removeAttribute('data-selected');
+      el.removeAttribute('contenteditable');
+      el.removeAttribute('draggable');
+
+      if (!NON_EDITABLE_TAGS.includes(el.tagName)) {
+         el.setAttribute('data-editable', 'true');
+      }
+   });
+
+   const seenIds = new Set<string>();
+   const addBlockData = (el: Element): void => {
+      if (isBlockCandidate(el, contentFlow)) {
+         ensureBlockId(el, seenIds);
+
+         const isColumnContainer = el.hasAttribute('data-column-container');
+         const isTableContainer = el.hasAttribute('data-table-container');
+         const isInsideTableContainer = el.closest('[data-table-container="true"]') && !isTableContainer;
+         const shouldHaveToolbar = !el.hasAttribute('data-container') && !el.classList.contains('drop-zone') && !isInsideTableContainer;
+
+         if (shouldHaveToolbar) {
+            const toolbar = ownerDocument.createElement('div');
+            toolbar.className = isColumnContainer ? 'element-toolbar column-toolbar' : isTableContainer ? 'element-toolbar table-toolbar' : 'element-toolbar';
+            toolbar.setAttribute('contenteditable', 'false');
+            toolbar.innerHTML = ELEMENT_TOOLBAR_HTML;
+            el.insertBefore(toolbar, el.firstChild);
+
+            if (!isColumnContainer && isEditableElement(el as HTMLElement)) {
+               el.setAttribute('contenteditable', 'true');
+
+               // Check if element is empty for placeholder styling
+               const clone = el.cloneNode(true) as HTMLElement;
+               clone.querySelectorAll('.element-toolbar').forEach(t => t.remove());
+               const textContent = clone.textContent?.trim() || '';
+               const isEmpty = textContent === '' || clone.innerHTML.trim() === '' || clone.innerHTML.trim() === '<br>';
+
+               if (isEmpty) {
+                  el.setAttribute('data-empty', 'true');
+                  // Add a <br> for cursor positioning if element is completely empty
+                  const hasContent = Array.from(el.childNodes).some(node =>
+                     (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) ||
+                     (node.nodeType === Node.ELEMENT_NODE && !(node as Element).classList.contains('element-toolbar'))
+                  );
+                  if (!hasContent) {
+                     el.appendChild(ownerDocument.createElement('br'));
+                  }
+               }
+            }
+         }
+      }
+      Array.from(el.children).forEach(child => {
+         if (!child.classList.contains('element-toolbar')) {
+            addBlockData(child);
+         }
+      });
+   };
+
+   addBlockData(contentFlow);
+
+   // Footnote references and inline equations are edited as a whole - double-click opens them
+   contentFlow.querySelectorAll(`${FOOTNOTE_SELECTOR}, [${MATH_ATTRIBUTE}]`).forEach(el => el.setAttribute('contenteditable', 'false'));
+
+   // Code blocks are typed in place, their line numbers are not
+   contentFlow.querySelectorAll(`[${CODE_ATTRIBUTE}]`).forEach(pre => {
+      pre.setAttribute('contenteditable', 'true');
+      pre.querySelectorAll(`[${CODE_NUMBER_ATTRIBUTE}]`).forEach(number => number.setAttribute('contenteditable', 'false'));
+   });
+};
+
 /**
  * useEditorRenderer - A hook for rendering editor content into shadow DOM
  *
  * Features:
- * - Renders document content into shadow DOM
- * - Sets up event listeners for click, blur, input, keydown
- * - Handles drag and drop for elements
- * - Manages XPath assignment and toolbars
- * - Supports preview mode
+ * - Builds the page shell once per shadow root
+ * - Reconciles content changes block by block, keeping focus and caret
+ * - Delegated event listeners for click, blur, input, keydown and drag & drop
+ * - Assigns persistent block ids and toolbars
+ * - Supports preview mode, with block settings merged from `mergeFieldData`
  *
  * @example
  * ```tsx
@@ -50,6 +385,7 @@ export function useEditorRenderer({
    shadowReady,
    editorDocument,
    isPreviewMode,
+   mergeFieldData,
    draggedComponent,
    draggedElementRef,
    checkMergeFieldTriggerRef,
@@ -58,334 +394,140 @@ export function useEditorRenderer({
    onSaveHistory,
    onUpdateContent,
    onCalculatePageBreaks,
-   onSetSelectedXPath,
+   onSetSelectedBlockId,
    onSetDraggedComponent,
    onSetTableModalMode,
    onShowTableModal,
    setupPasteHandlers
 }: UseEditorRendererOptions) {
 
+   // Listeners are attached once - they read the latest values from here
+   const latestRef = useRef({
+      draggedComponent,
+      tablePlaceholderId,
+      onSaveHistory,
+      onUpdateContent,
+      onCalculatePageBreaks,
+      onSetSelectedBlockId,
+      onSetDraggedComponent,
+      onSetTableModalMode,
+      onShowTableModal
+   });
+
+   useEffect(() => {
+      latestRef.current = {
+         draggedComponent,
+         tablePlaceholderId,
+         onSaveHistory,
+         onUpdateContent,
+         onCalculatePageBreaks,
+         onSetSelectedBlockId,
+         onSetDraggedComponent,
+         onSetTableModalMode,
+         onShowTableModal
+      };
+   });
+
+   // Page shell - built once per shadow root (and when switching preview mode)
    useEffect(() => {
       if (!shadowReady) return;
 
       const shadow = shadowRootRef.current;
       if (!shadow) return;
 
-      const pagePadding = 40;
-
-      const EditorStylesStr = EDITOR_STYLES({
-         currentPageHeight: {
-            value: editorDocument?.pageHeight?.value,
-            unit: editorDocument?.pageHeight?.unit
-         }
-      });
-
-      const containerFlowMinHeight = `calc(${editorDocument.pageHeight?.value}${editorDocument.pageHeight?.unit} - ${pagePadding * 2}px) !important`;
-
-      // vh unit will be min-height and px unit will be height
-      const pagesContainerHeight = editorDocument.pageHeight?.unit === 'vh' ?
-         `min-height: ${editorDocument.pageHeight?.value}${editorDocument.pageHeight?.unit} !important`
-         : `height: ${editorDocument.pageHeight?.value}${editorDocument.pageHeight?.unit} !important`;
-
       shadow.innerHTML = /*html*/`
-         <style>
-            ${EditorStylesStr}
-
-            .pages-wrapper {
-               padding: 40px 20px 60px;
-               min-height: 100%;
-            }
-
-            .document-header {
-               width: ${editorDocument.pageWidth?.value}${editorDocument.pageWidth?.unit};
-               margin: 0 auto 20px;
-               font-size: 12px;
-               color: #666;
-               display: flex;
-               gap: 16px;
-            }
-
-            .pages-container {
-               position: relative;
-               width: ${editorDocument.pageWidth?.value}${editorDocument.pageWidth?.unit};
-               margin: 0 auto;
-               ${pagesContainerHeight};
-               background: white;
-               box-shadow: 0 4px 20px rgba(0,0,0,0.15);
-               border-radius: 2px;
-            }
-
-            .content-flow {
-               position: relative;
-               min-height: ${containerFlowMinHeight};
-               padding: ${pagePadding}px;
-               box-sizing: border-box;
-            }
-
-            /* Ensure all content elements respect boundaries */
-            .content-flow > *:not(.page-break-spacer) {
-               max-width: 100%;
-               box-sizing: border-box;
-            }
-
-            .content-flow img {
-               max-width: 100%;
-               height: auto;
-            }
-
-            /* Empty state */
-            .content-flow:empty::before,
-            .content-flow:not(:has([data-xpath]))::before {
-               content: "Drag elements here...";
-               color: #9ca3af;
-               font-style: italic;
-               display: block;
-            }
-
-            /* Page overlay system - visual page indicators without DOM mutation */
-            .page-overlay {
-               position: absolute;
-               top: 0;
-               left: 0;
-               right: 0;
-               bottom: 0;
-               pointer-events: none;
-               z-index: 0;
-            }
-
-            .page-overlay .page {
-               position: absolute;
-               left: 0;
-               right: 0;
-               background: transparent;
-               border-bottom: 1px dashed #e5e7eb;
-            }
-
-            .page-overlay .page-label {
-               position: absolute;
-               bottom: -12px;
-               left: 50%;
-               transform: translateX(-50%);
-               font-size: 10px;
-               color: #9ca3af;
-               background: #f3f4f6;
-               padding: 2px 12px;
-               border-radius: 999px;
-               white-space: nowrap;
-            }
-
-            .page-overlay .page-gap {
-               position: absolute;
-               left: 0px;
-               box-shadow: rgba(0, 0, 0, 0.1) 0px 20px 20px -20px inset, rgba(0, 0, 0, 0.1) 0px -20px 20px -20px inset;
-               display: flex;
-               align-items: center;
-               justify-content: center;
-            }
-
-            .page-overlay .page-gap-label {
-               font-size: 11px;
-               color: #6b7280;
-            }
-
-            /* Preview Mode Styles */
-            .pages-wrapper[data-preview-mode="true"] {
-               padding: 20px;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] .document-header {
-               display: none;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] .pages-container {
-               height: auto !important;
-               min-height: auto !important;
-               box-shadow: none;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] .element-toolbar {
-               display: none !important;
-               visibility: hidden !important;
-               opacity: 0 !important;
-               pointer-events: none !important;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] [data-xpath]:hover,
-            .pages-wrapper[data-preview-mode="true"] [data-xpath]:focus,
-            .pages-wrapper[data-preview-mode="true"] [data-selected="true"] {
-               outline: none !important;
-               box-shadow: none !important;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] [data-xpath] {
-               cursor: default !important;
-               pointer-events: none !important;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] .content-flow {
-               pointer-events: none !important;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] [contenteditable],
-            .pages-wrapper[data-preview-mode="true"] [contenteditable="true"] {
-               cursor: default !important;
-               -webkit-user-modify: read-only !important;
-               -moz-user-modify: read-only !important;
-               user-modify: read-only !important;
-               pointer-events: none !important;
-               caret-color: transparent !important;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] .content-flow:empty::before,
-            .pages-wrapper[data-preview-mode="true"] .content-flow:not(:has([data-xpath]))::before {
-               display: none;
-            }
-
-            .pages-wrapper[data-preview-mode="true"] [data-empty="true"]::before {
-               display: none !important;
-            }
-         </style>
+         <style></style>
          <div class="pages-wrapper">
             <div class="document-header">
-               <span>${editorDocument.name}</span>
-               <span style="color: #999;">${editorDocument.pageWidth?.value}${editorDocument.pageWidth?.unit} × ${editorDocument.pageHeight?.value}${editorDocument.pageHeight?.unit}</span>
+               <span class="document-name"></span>
+               <span class="document-size" style="color: #999;"></span>
                <span class="page-count" style="color: #22c55e; font-weight: 500;">1 page</span>
             </div>
             <div class="pages-container">
                <div class="page-overlay"></div>
-               ${editorDocument.content}
+               ${CONTENT_FLOW_HTML()}
             </div>
          </div>
       `;
 
       const pagesWrapper = shadow.querySelector('.pages-wrapper') as HTMLElement;
-      const contentFlow = shadow.querySelector('.content-flow');
-      if (!pagesWrapper || !contentFlow) return;
-
-      // Set preview mode attribute
       if (isPreviewMode) {
          pagesWrapper.setAttribute('data-preview-mode', 'true');
-         // Remove all toolbars and disable editing in preview mode
-         shadow.querySelectorAll('.element-toolbar').forEach(el => el.remove());
-         shadow.querySelectorAll('[contenteditable]').forEach(el => {
-            el.removeAttribute('contenteditable');
-         });
-         shadow.querySelectorAll('[data-selected]').forEach(el => {
-            el.removeAttribute('data-selected');
-         });
-
-         // Add data-xpath for pagination calculation in preview mode
-         const addXPathForPreview = (el: Element): void => {
-            if (el.nodeType !== 1) return;
-            if (
-               !NON_EDITABLE_TAGS.includes(el.tagName?.toUpperCase())
-               && !el.classList.contains('pages-wrapper')
-               && !el.classList.contains('pages-container')
-               && !el.classList.contains('document-header')
-               && !el.classList.contains('element-toolbar')
-               && !el.classList.contains('page-break-spacer')
-               && !el.closest('.page-break-spacer')
-            ) {
-               const xpath = generateXPath(el as HTMLElement, contentFlow as HTMLElement);
-               el.setAttribute('data-xpath', xpath);
-            }
-            Array.from(el.children).forEach(addXPathForPreview);
-         };
-         Array.from(contentFlow.children).forEach(addXPathForPreview);
+      }
+   }, [shadowReady, shadowRootRef, isPreviewMode]);
+
+   // Page size and name - only the styles and the header change
+   const { name, pageWidth, pageHeight } = editorDocument;
+   useEffect(() => {
+      if (!shadowReady) return;
+
+      const shadow = shadowRootRef.current;
+      if (!shadow) return;
+
+      const style = shadow.querySelector('style');
+      if (style) style.textContent = buildEditorStyles({ pageWidth, pageHeight });
+
+      const documentName = shadow.querySelector('.document-name');
+      if (documentName) documentName.textContent = name;
+
+      const documentSize = shadow.querySelector('.document-size');
+      if (documentSize) documentSize.textContent = `${pageWidth?.value}${pageWidth?.unit} × ${pageHeight?.value}${pageHeight?.unit}`;
+   }, [shadowReady, shadowRootRef, isPreviewMode, name, pageWidth, pageHeight]);
+
+   // Content - patch only the blocks that changed
+   const { content } = editorDocument;
+   useEffect(() => {
+      if (!shadowReady) return;
 
-         // Calculate page breaks for preview mode
+      const shadow = shadowRootRef.current;
+      const contentFlow = shadow?.querySelector('.content-flow');
+      if (!shadow || !contentFlow) return;
+
+      const template = window.document.createElement('template');
+      template.innerHTML = content;
+      const nextFlow = template.content.querySelector('.content-flow') ?? template.content.appendChild(window.document.createElement('div'));
+      stripPaginationState(nextFlow);
+
+      if (isPreviewMode) {
+         prepareForPreview(nextFlow);
+         refreshBlocks(nextFlow, mergeFieldData);
+         contentFlow.replaceChildren(...Array.from(nextFlow.childNodes));
          onCalculatePageBreaks();
          return;
-      } else {
-         pagesWrapper.removeAttribute('data-preview-mode');
       }
 
-      // Setup elements for editing
-      contentFlow.querySelectorAll('*').forEach(el => {
-         el.removeAttribute('data-xpath');
-         el.removeAttribute('data-selected');
-         el.removeAttribute('contenteditable');
-         el.removeAttribute('draggable');
+      captureSourceHtml(nextFlow);
+      prepareForEditing(nextFlow);
 
-         if (!NON_EDITABLE_TAGS.includes(el.tagName)) {
-            el.setAttribute('data-editable', 'true');
-         }
-      });
+      const caret = captureCaret(shadow);
+      reconcileChildren(contentFlow, nextFlow);
+      restoreCaret(shadow, caret);
 
-      // Add XPath and toolbars
-      const addXPathData = (el: Element): void => {
-         if (el.nodeType !== 1) return;
-         if (
-            !NON_EDITABLE_TAGS.includes(el.tagName?.toUpperCase())
-            && !el.classList.contains('pages-wrapper')
-            && !el.classList.contains('pages-container')
-            && !el.classList.contains('document-header')
-            && !el.classList.contains('element-toolbar')
-            && !el.classList.contains('page-break-spacer')
-            && !el.closest('.page-break-spacer')
-         ) {
-            const xpath = generateXPath(el as HTMLElement, contentFlow as HTMLElement);
-            el.setAttribute('data-xpath', xpath);
-
-            const isColumnContainer = el.hasAttribute('data-column-container');
-            const isTableContainer = el.hasAttribute('data-table-container');
-            const isInsideTableContainer = el.closest('[data-table-container="true"]') && !isTableContainer;
-            const shouldHaveToolbar = !el.hasAttribute('data-container') && !el.classList.contains('drop-zone') && !isInsideTableContainer;
-
-            if (shouldHaveToolbar) {
-               const toolbar = window.document.createElement('div');
-               toolbar.className = isColumnContainer ? 'element-toolbar column-toolbar' : isTableContainer ? 'element-toolbar table-toolbar' : 'element-toolbar';
-               toolbar.setAttribute('contenteditable', 'false');
-               toolbar.innerHTML = /*html*/`
-                  <button class="element-toolbar-btn" data-action="drag" title="Drag">
-                     <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="9" cy="5" r="1"/><circle cx="9" cy="12" r="1"/><circle cx="9" cy="19" r="1"/><circle cx="15" cy="5" r="1"/><circle cx="15" cy="12" r="1"/><circle cx="15" cy="19" r="1"/></svg>
-                  </button>
-                  <button class="element-toolbar-btn" data-action="duplicate" title="Duplicate">
-                     <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="9" y="9" width="13" height="13" rx="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>
-                  </button>
-                  <button class="element-toolbar-btn" data-action="delete" title="Delete">
-                     <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
-                  </button>
-               `;
-               el.insertBefore(toolbar, el.firstChild);
-
-               if (!isColumnContainer && isEditableElement(el as HTMLElement)) {
-                  el.setAttribute('contenteditable', 'true');
-
-                  // Check if element is empty for placeholder styling
-                  const clone = el.cloneNode(true) as HTMLElement;
-                  clone.querySelectorAll('.element-toolbar').forEach(t => t.remove());
-                  const textContent = clone.textContent?.trim() || '';
-                  const isEmpty = textContent === '' || clone.innerHTML.trim() === '' || clone.innerHTML.trim() === '<br>';
-
-                  if (isEmpty) {
-                     el.setAttribute('data-empty', 'true');
-                     // Add a <br> for cursor positioning if element is completely empty
-                     const hasContent = Array.from(el.childNodes).some(node =>
-                        (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) ||
-                        (node.nodeType === Node.ELEMENT_NODE && !(node as Element).classList.contains('element-toolbar'))
-                     );
-                     if (!hasContent) {
-                        el.appendChild(document.createElement('br'));
-                     }
-                  }
-               }
-            }
-         }
-         Array.from(el.children).forEach(child => {
-            if (!child.classList.contains('element-toolbar')) {
-               addXPathData(child);
-            }
-         });
-      };
+      onCalculatePageBreaks();
+   }, [shadowReady, shadowRootRef, isPreviewMode, mergeFieldData, content, onCalculatePageBreaks]);
 
-      addXPathData(contentFlow);
+   // Paste handlers - re-attached when the paste callback changes
+   useEffect(() => {
+      if (!shadowReady || isPreviewMode) return;
 
-      // Calculate page breaks after render
-      onCalculatePageBreaks();
+      const pagesWrapper = shadowRootRef.current?.querySelector('.pages-wrapper') as HTMLElement | null;
+      if (!pagesWrapper) return;
+
+      return setupPasteHandlers(pagesWrapper);
+   }, [shadowReady, shadowRootRef, isPreviewMode, setupPasteHandlers]);
+
+   // Delegated listeners - attached once, so re-rendered blocks need no wiring
+   useEffect(() => {
+      if (!shadowReady || isPreviewMode) return;
+
+      const shadow = shadowRootRef.current;
+      const pagesWrapper = shadow?.querySelector('.pages-wrapper') as HTMLElement | null;
+      if (!shadow || !pagesWrapper) return;
 
       // Click handler
       const handleClick = (e: Event) => {
+         const { onSaveHistory, onUpdateContent, onCalculatePageBreaks, onSetSelectedBlockId } = latestRef.current;
+
          const mouseEvent = e as MouseEvent;
          const target = mouseEvent.target as HTMLElement;
 
@@ -395,25 +537,25 @@ export function useEditorRenderer({
             mouseEvent.preventDefault();
             mouseEvent.stopPropagation();
             const action = toolbarBtn.getAttribute('data-action');
-            const parentElement = toolbarBtn.closest('[data-xpath]');
-            const xpath = parentElement?.getAttribute('data-xpath');
+            const parentElement = toolbarBtn.closest('[data-block-id]');
+            const blockId = parentElement?.getAttribute('data-block-id');
 
-            if (xpath && action) {
+            if (blockId && action) {
                if (action === 'delete') {
-                  const el = shadow.querySelector(`[data-xpath="${xpath}"]`) as HTMLElement;
+                  const el = getBlockElement(shadow, blockId);
                   if (el && !el.hasAttribute('data-container')) {
-                     onSaveHistory();
+                     onSaveHistory('Deleted block');
                      el.remove();
                      onUpdateContent();
-                     onSetSelectedXPath(null);
+                     onSetSelectedBlockId(null);
                      onCalculatePageBreaks();
                   }
                } else if (action === 'duplicate') {
-                  const el = shadow.querySelector(`[data-xpath="${xpath}"]`) as HTMLElement;
+                  const el = getBlockElement(shadow, blockId);
                   if (el && !el.hasAttribute('data-container')) {
-                     onSaveHistory();
+                     onSaveHistory('Duplicated block');
                      const clone = el.cloneNode(true) as HTMLElement;
-                     clone.removeAttribute('data-xpath');
+                     reassignBlockIds(clone);
                      clone.removeAttribute('data-selected');
                      el.parentNode?.insertBefore(clone, el.nextSibling);
                      onUpdateContent();
@@ -429,11 +571,11 @@ export function useEditorRenderer({
          // Handle drop-zone inside column container
          const parentColumnContainer = target.closest('[data-column-container="true"]') as HTMLElement;
          if (target.classList.contains('drop-zone') && parentColumnContainer) {
-            const xpath = parentColumnContainer.getAttribute('data-xpath');
-            if (xpath) {
+            const blockId = parentColumnContainer.getAttribute('data-block-id');
+            if (blockId) {
                mouseEvent.preventDefault();
                mouseEvent.stopPropagation();
-               onSetSelectedXPath(xpath);
+               onSetSelectedBlockId(blockId);
             }
             return;
          }
@@ -446,27 +588,27 @@ export function useEditorRenderer({
             target.classList.contains('pages-container') ||
             target.classList.contains('page-break-spacer') ||
             target.closest('.page-break-spacer')) {
-            onSetSelectedXPath(null);
+            onSetSelectedBlockId(null);
             return;
          }
 
          if (target.hasAttribute('data-column-container')) {
-            const xpath = target.getAttribute('data-xpath');
-            if (xpath) {
+            const blockId = target.getAttribute('data-block-id');
+            if (blockId) {
                mouseEvent.preventDefault();
                mouseEvent.stopPropagation();
-               onSetSelectedXPath(xpath);
+               onSetSelectedBlockId(blockId);
             }
             return;
          }
 
          // Handle table container clicks - select the table container
          if (target.hasAttribute('data-table-container')) {
-            const xpath = target.getAttribute('data-xpath');
-            if (xpath) {
+            const blockId = target.getAttribute('data-block-id');
+            if (blockId) {
                mouseEvent.preventDefault();
                mouseEvent.stopPropagation();
-               onSetSelectedXPath(xpath);
+               onSetSelectedBlockId(blockId);
             }
             return;
          }
@@ -474,31 +616,34 @@ export function useEditorRenderer({
          // Handle clicks inside table (cells) - select parent table container
          const parentTableContainer = target.closest('[data-table-container="true"]') as HTMLElement;
          if (parentTableContainer && (target.tagName === 'TD' || target.tagName === 'TH' || target.tagName === 'TR' || target.tagName === 'TABLE')) {
-            const xpath = parentTableContainer.getAttribute('data-xpath');
-            if (xpath) {
-               onSetSelectedXPath(xpath);
+            const blockId = parentTableContainer.getAttribute('data-block-id');
+            if (blockId) {
+               onSetSelectedBlockId(blockId);
             }
             // Don't return - allow contenteditable to work
          }
 
-         const elementWithXPath = target.closest('[data-xpath]') as HTMLElement;
-         if (elementWithXPath && !elementWithXPath.classList.contains('element-toolbar')) {
-            const xpath = elementWithXPath.getAttribute('data-xpath');
-            if (xpath) {
-               if (!elementWithXPath.hasAttribute('contenteditable')) {
+         const elementWithId = target.closest('[data-block-id]') as HTMLElement;
+         if (elementWithId && !elementWithId.classList.contains('element-toolbar')) {
+            const blockId = elementWithId.getAttribute('data-block-id');
+            if (blockId) {
+               if (!elementWithId.hasAttribute('contenteditable')) {
                   mouseEvent.preventDefault();
                }
                mouseEvent.stopPropagation();
-               onSetSelectedXPath(xpath);
+               onSetSelectedBlockId(blockId);
             }
          }
       };
 
       // Blur handler - save and recalculate
       const handleBlur = (e: Event) => {
+         const { onSaveHistory, onUpdateContent, onCalculatePageBreaks } = latestRef.current;
+
          const target = e.target as HTMLElement;
-         if (target.hasAttribute('contenteditable') && target.hasAttribute('data-xpath')) {
-            onSaveHistory();
+         if (target.hasAttribute('contenteditable') && target.hasAttribute('data-block-id')) {
+            // Typing into the same block is grouped into one undo step
+            onSaveHistory('Typed text', { coalesceKey: target.getAttribute('data-block-id') ?? undefined });
             onUpdateContent();
             onCalculatePageBreaks();
          }
@@ -506,6 +651,8 @@ export function useEditorRenderer({
 
       // Input handler - live page recalculation and merge field detection
       const handleInput = (e: Event) => {
+         const { onCalculatePageBreaks } = latestRef.current;
+
          onCalculatePageBreaks();
          // Check for merge field trigger ({{ pattern)
          checkMergeFieldTriggerRef.current();
@@ -513,7 +660,7 @@ export function useEditorRenderer({
          // Toggle data-empty attribute for placeholder styling
          const target = e.target as HTMLElement;
 
-         if (target.hasAttribute('contenteditable') && target.hasAttribute('data-xpath')) {
+         if (target.hasAttribute('contenteditable') && target.hasAttribute('data-block-id')) {
             const clone = target.cloneNode(true) as HTMLElement;
             clone.querySelectorAll('.element-toolbar').forEach(t => t.remove());
 
@@ -545,11 +692,23 @@ export function useEditorRenderer({
          const keyEvent = e as KeyboardEvent;
          const target = keyEvent.target as HTMLElement;
 
+         // Code blocks keep their whitespace - Enter starts a line, Tab indents
+         const code = target.closest?.(`[${CODE_ATTRIBUTE}][contenteditable="true"]`);
+         if (code && (keyEvent.key === 'Enter' || keyEvent.key === 'Tab')) {
+            keyEvent.preventDefault();
+            const selection = (shadow as unknown as { getSelection?: () => Selection | null }).getSelection?.() || window.getSelection();
+            if (selection) {
+               editCode(code, selection, keyEvent.key === 'Enter' ? 'newline' : keyEvent.shiftKey ? 'outdent' : 'indent');
+               target.dispatchEvent(new Event('input', { bubbles: true }));
+            }
+            return;
+         }
+
          // Handle Enter key in contenteditable elements - insert <br> instead of creating new blocks
          if (keyEvent.key === 'Enter' && !keyEvent.shiftKey) {
             const isContentEditable = target.hasAttribute('contenteditable') && target.getAttribute('contenteditable') === 'true';
 
-            if (isContentEditable && target.hasAttribute('data-xpath')) {
+            if (isContentEditable && target.hasAttribute('data-block-id')) {
                keyEvent.preventDefault();
 
                const selection = (shadow as unknown as { getSelection?: () => Selection | null }).getSelection?.() || window.getSelection();
@@ -577,46 +736,10 @@ export function useEditorRenderer({
          handleMergeFieldKeyDownRef.current(keyEvent);
       };
 
-      pagesWrapper.addEventListener('click', handleClick);
-      pagesWrapper.addEventListener('focusout', handleBlur as EventListener);
-      pagesWrapper.addEventListener('input', handleInput);
-      pagesWrapper.addEventListener('keydown', handleKeyDown);
-
-      // Setup paste handlers using the hook
-      const cleanupPasteHandlers = setupPasteHandlers(pagesWrapper);
-
-      // Setup drag handlers
-      const allDragBtns = shadow.querySelectorAll('.element-toolbar-btn[data-action="drag"]');
-
-      allDragBtns.forEach(dragBtn => {
-         const el = dragBtn.closest('[data-xpath]') as HTMLElement;
-         if (!el) return;
-
-         (dragBtn as HTMLElement).draggable = true;
-
-         dragBtn.addEventListener('dragstart', (e: Event) => {
-            const dragEvent = e as DragEvent;
-            dragEvent.stopPropagation();
-            draggedElementRef.current = el;
-            el.classList.add('dragging');
-            if (dragEvent.dataTransfer) {
-               dragEvent.dataTransfer.effectAllowed = 'move';
-               dragEvent.dataTransfer.setData('text/plain', 'element');
-            }
-         });
-
-         dragBtn.addEventListener('dragend', () => {
-            if (draggedElementRef.current) {
-               draggedElementRef.current.classList.remove('dragging');
-               shadow.querySelectorAll('.drop-indicator').forEach(ind => ind.remove());
-               shadow.querySelectorAll('.drag-over').forEach(zone => zone.classList.remove('drag-over'));
-               draggedElementRef.current = null;
-            }
-         });
-      });
-
       // Drag over handler
       const handleDragOver = (e: Event) => {
+         const { draggedComponent } = latestRef.current;
+
          const dragEvent = e as DragEvent;
          dragEvent.preventDefault();
 
@@ -627,7 +750,7 @@ export function useEditorRenderer({
 
          const calculateInsertionPoint = (container: HTMLElement, mouseY: number) => {
             const children = Array.from(
-               container.querySelectorAll(':scope > [data-xpath]:not(.drop-zone):not(.drop-indicator)')
+               container.querySelectorAll(':scope > [data-block-id]:not(.drop-zone):not(.drop-indicator)')
             ) as HTMLElement[];
 
             const validChildren = dragged
@@ -701,6 +824,18 @@ export function useEditorRenderer({
 
       // Drop handler
       const handleDrop = (e: Event) => {
+         const {
+            draggedComponent,
+            tablePlaceholderId,
+            onSaveHistory,
+            onUpdateContent,
+            onCalculatePageBreaks,
+            onSetSelectedBlockId,
+            onSetDraggedComponent,
+            onSetTableModalMode,
+            onShowTableModal
+         } = latestRef.current;
+
          const dragEvent = e as DragEvent;
          dragEvent.preventDefault();
          dragEvent.stopPropagation();
@@ -722,6 +857,7 @@ export function useEditorRenderer({
                   dropIndicator.remove();
 
                   // Save placeholder to content before state changes trigger re-render
+                  onSaveHistory('Inserted Table', { coalesceKey: 'insert-table' });
                   onUpdateContent();
                   onSetDraggedComponent(null);
                   onSetTableModalMode('create');
@@ -731,7 +867,7 @@ export function useEditorRenderer({
                   return;
                }
 
-               onSaveHistory();
+               onSaveHistory(`Inserted ${draggedComponent.label}`);
 
                dropIndicator.insertAdjacentHTML('beforebegin', draggedComponent.html);
                dropIndicator.remove();
@@ -742,18 +878,14 @@ export function useEditorRenderer({
                return;
             } else if (dragged) {
                // reordering elements
+               onSaveHistory('Moved block');
                dropIndicator.parentNode?.insertBefore(dragged, dropIndicator);
                dropIndicator.remove();
                dragged.classList.remove('dragging');
                draggedElementRef.current = null;
 
-               // Recalculate XPath for the moved element and siblings to update selection
-               const container = shadow.querySelector('.content-flow') as HTMLElement;
-
-               if (container) {
-                  const newXPath = generateXPath(dragged, container);
-                  onSetSelectedXPath(newXPath);
-               }
+               // Block ids are stable - keep the moved element selected
+               onSetSelectedBlockId(dragged.getAttribute(BLOCK_ID_ATTRIBUTE));
 
                onUpdateContent();
                onCalculatePageBreaks();
@@ -775,6 +907,7 @@ export function useEditorRenderer({
                   dropZone.insertAdjacentHTML('beforeend', placeholder);
 
                   // Save placeholder to content before state changes trigger re-render
+                  onSaveHistory('Inserted Table', { coalesceKey: 'insert-table' });
                   onUpdateContent();
                   onSetDraggedComponent(null);
                   onSetTableModalMode('create');
@@ -784,7 +917,7 @@ export function useEditorRenderer({
                   return;
                }
 
-               onSaveHistory();
+               onSaveHistory(`Inserted ${draggedComponent.label}`);
 
                dropZone.insertAdjacentHTML('beforeend', draggedComponent.html);
 
@@ -794,17 +927,12 @@ export function useEditorRenderer({
 
                return;
             } else if (dragged && !dropZone.contains(dragged)) {
-               onSaveHistory();
+               onSaveHistory('Moved block');
                dropZone.appendChild(dragged);
                dragged.classList.remove('dragging');
                draggedElementRef.current = null;
 
-               const container = shadow.querySelector('.content-flow') as HTMLElement;
-
-               if (container) {
-                  const newXPath = generateXPath(dragged, container);
-                  onSetSelectedXPath(newXPath);
-               }
+               onSetSelectedBlockId(dragged.getAttribute(BLOCK_ID_ATTRIBUTE));
 
                onUpdateContent();
                onCalculatePageBreaks();
@@ -819,47 +947,69 @@ export function useEditorRenderer({
          }
       };
 
-      pagesWrapper.addEventListener('dragover', handleDragOver);
-      pagesWrapper.addEventListener('dragleave', handleDragLeave);
-      pagesWrapper.addEventListener('drop', handleDrop);
+      // Drag handles of block toolbars
+      const handleDragStart = (e: Event) => {
+         const dragEvent = e as DragEvent;
+         const dragBtn = (dragEvent.target as Element).closest?.('.element-toolbar-btn[data-action="drag"]');
+         const el = dragBtn?.closest('[data-block-id]') as HTMLElement | null;
+         if (!el) return;
+
+         dragEvent.stopPropagation();
+         draggedElementRef.current = el;
+         el.classList.add('dragging');
+         if (dragEvent.dataTransfer) {
+            dragEvent.dataTransfer.effectAllowed = 'move';
+            dragEvent.dataTransfer.setData('text/plain', 'element');
+         }
+      };
+
+      const handleDragEnd = () => {
+         if (draggedElementRef.current) {
+            draggedElementRef.current.classList.remove('dragging');
+            shadow.querySelectorAll('.drop-indicator').forEach(ind => ind.remove());
+            shadow.querySelectorAll('.drag-over').forEach(zone => zone.classList.remove('drag-over'));
+            draggedElementRef.current = null;
+         }
+      };
 
       // Prevent mousedown on action buttons from affecting contenteditable
-      const actionBtns = shadow.querySelectorAll('.element-toolbar-btn[data-action="duplicate"], .element-toolbar-btn[data-action="delete"]');
-      actionBtns.forEach(btn => {
-         btn.addEventListener('mousedown', (e: Event) => {
+      const handleMouseDown = (e: Event) => {
+         if ((e.target as Element).closest?.('.element-toolbar-btn[data-action="duplicate"], .element-toolbar-btn[data-action="delete"]')) {
             e.preventDefault();
             e.stopPropagation();
-         });
-      });
+         }
+      };
+
+      pagesWrapper.addEventListener('click', handleClick);
+      pagesWrapper.addEventListener('focusout', handleBlur as EventListener);
+      pagesWrapper.addEventListener('input', handleInput);
+      pagesWrapper.addEventListener('keydown', handleKeyDown);
+      pagesWrapper.addEventListener('mousedown', handleMouseDown);
+      pagesWrapper.addEventListener('dragstart', handleDragStart);
+      pagesWrapper.addEventListener('dragend', handleDragEnd);
+      pagesWrapper.addEventListener('dragover', handleDragOver);
+      pagesWrapper.addEventListener('dragleave', handleDragLeave);
+      pagesWrapper.addEventListener('drop', handleDrop);
 
       return () => {
          pagesWrapper.removeEventListener('click', handleClick);
          pagesWrapper.removeEventListener('focusout', handleBlur as EventListener);
          pagesWrapper.removeEventListener('input', handleInput);
          pagesWrapper.removeEventListener('keydown', handleKeyDown);
+         pagesWrapper.removeEventListener('mousedown', handleMouseDown);
+         pagesWrapper.removeEventListener('dragstart', handleDragStart);
+         pagesWrapper.removeEventListener('dragend', handleDragEnd);
          pagesWrapper.removeEventListener('dragover', handleDragOver);
          pagesWrapper.removeEventListener('dragleave', handleDragLeave);
          pagesWrapper.removeEventListener('drop', handleDrop);
-         cleanupPasteHandlers();
       };
    }, [
-      editorDocument,
-      draggedComponent,
-      isPreviewMode,
       shadowReady,
       shadowRootRef,
+      isPreviewMode,
       draggedElementRef,
       checkMergeFieldTriggerRef,
-      handleMergeFieldKeyDownRef,
-      tablePlaceholderId,
-      onSaveHistory,
-      onUpdateContent,
-      onCalculatePageBreaks,
-      onSetSelectedXPath,
-      onSetDraggedComponent,
-      onSetTableModalMode,
-      onShowTableModal,
-      setupPasteHandlers
+      handleMergeFieldKeyDownRef
    ]);
 }
 
@@ -1,25 +1,30 @@
 import { RefObject, useCallback } from 'react';
 import { ElementInfo } from '../type';
 import { parseStyles } from '../utils';
+import { getBlockElement } from '../blockTree';
+import { BLOCK_PROPS_ATTRIBUTE, BLOCK_TYPE_ATTRIBUTE, parseBlockProps } from '../blockRegistry';
+import { MODULE_ID_ATTRIBUTE } from '../moduleLibrary';
 
 export interface UseElementInfoOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
-   selectedXPath: string | null;
+   selectedBlockId: string | null;
 }
 
 /**
  * useElementInfo - A hook for getting information about the selected element
  *
  * Features:
- * - Gets element info from shadow DOM based on selected XPath
+ * - Gets element info from shadow DOM based on the selected block id
  * - Parses styles, attributes, and content
  * - Detects table context
+ * - Reads the type and props of registered blocks
+ * - Detects linked module copies
  *
  * @example
  * ```tsx
  * const { getElementInfo } = useElementInfo({
  *   shadowRootRef,
- *   selectedXPath
+ *   selectedBlockId
  * });
  *
  * const elementInfo = getElementInfo();
@@ -27,14 +32,14 @@ export interface UseElementInfoOptions {
  */
 export function useElementInfo({
    shadowRootRef,
-   selectedXPath
+   selectedBlockId
 }: UseElementInfoOptions) {
 
    const getElementInfo = useCallback((): ElementInfo | null => {
       const shadow = shadowRootRef.current;
-      if (!selectedXPath || !shadow) return null;
+      if (!selectedBlockId || !shadow) return null;
 
-      const el = shadow.querySelector(`[data-xpath="${selectedXPath}"]`) as HTMLElement;
+      const el = getBlockElement(shadow, selectedBlockId);
       if (!el) return null;
 
       const customCss = el.getAttribute('style') || '';
@@ -49,6 +54,7 @@ export function useElementInfo({
       const src = el.getAttribute('src') || '';
       const href = el.getAttribute('href') || '';
       const alt = el.getAttribute('alt') || '';
+      const id = el.getAttribute('id') || '';
       const isHtmlBlock = el.hasAttribute('data-html-block');
 
       const inlineLinks: { href: string; text: string; index: number }[] = [];
@@ -71,11 +77,15 @@ export function useElementInfo({
          cellColIndex = (el as HTMLTableCellElement).cellIndex;
       }
 
+      const elementType = el.getAttribute(BLOCK_TYPE_ATTRIBUTE) ?? undefined;
+      const blockProps = el.hasAttribute(BLOCK_PROPS_ATTRIBUTE) ? parseBlockProps(el.getAttribute(BLOCK_PROPS_ATTRIBUTE)) : undefined;
+      const moduleId = el.getAttribute(MODULE_ID_ATTRIBUTE) ?? undefined;
+
       return {
-         tag, styles, content, innerHTML, src, href, alt, isHtmlBlock, customCss, inlineLinks,
-         isTable, isTableCell, tableElement, cellRowIndex, cellColIndex
+         tag, styles, content, innerHTML, src, href, alt, id, isHtmlBlock, customCss, inlineLinks,
+         isTable, isTableCell, tableElement, cellRowIndex, cellColIndex, elementType, blockProps, moduleId
       };
-   }, [shadowRootRef, selectedXPath]);
+   }, [shadowRootRef, selectedBlockId]);
 
    return {
       getElementInfo
@@ -1,27 +1,19 @@
 import { useCallback, RefObject } from 'react';
+import { escapeText, getBlockElement } from '../blockTree';
+import { humanizeName } from '../utils';
+import { deleteBlock, duplicateBlock, setBlockStyles, updateBlockContent, updateBlockProps, updateBlockPropValues, updateBlockStyle } from '../documentEngine';
+import { DocumentChange } from '../type';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface UseElementManipulationOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
-   selectedXPath: string | null;
-   onSaveHistory: () => void;
+   selectedBlockId: string | null;
+   onSaveHistory: (label?: string, options?: SaveHistoryOptions) => void;
    onUpdateContent: () => void;
-   onCalculatePageBreaks: () => void;
+   onChangeDocument: (change: DocumentChange) => void;
    onClearSelection: () => void;
 }
 
-// Toolbar HTML template for elements
-const ELEMENT_TOOLBAR_HTML = /*html*/`
-   <button class="element-toolbar-btn" data-action="drag" title="Drag">
-      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="9" cy="5" r="1"/><circle cx="9" cy="12" r="1"/><circle cx="9" cy="19" r="1"/><circle cx="15" cy="5" r="1"/><circle cx="15" cy="12" r="1"/><circle cx="15" cy="19" r="1"/></svg>
-   </button>
-   <button class="element-toolbar-btn" data-action="duplicate" title="Duplicate">
-      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="9" y="9" width="13" height="13" rx="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>
-   </button>
-   <button class="element-toolbar-btn" data-action="delete" title="Delete">
-      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
-   </button>
-`;
-
 /**
  * useElementManipulation - A hook for manipulating editor elements
  *
@@ -29,8 +21,10 @@ const ELEMENT_TOOLBAR_HTML = /*html*/`
  * - Update element content (text or HTML)
  * - Update element styles
  * - Update element attributes
+ * - Update the props of registered blocks (re-renders their template)
  * - Manage inline links
  * - Delete and duplicate elements
+ * - Block edits go through the DocumentEngine; inline links and live previews edit the DOM
  *
  * @example
  * ```tsx
@@ -41,76 +35,73 @@ const ELEMENT_TOOLBAR_HTML = /*html*/`
  *   duplicateElement
  * } = useElementManipulation({
  *   shadowRootRef,
- *   selectedXPath,
+ *   selectedBlockId,
  *   onSaveHistory: saveHistory,
  *   onUpdateContent: updateContentFromShadow,
- *   onCalculatePageBreaks: calculatePageBreaksRAF,
- *   onClearSelection: () => setSelectedXPath(null)
+ *   onChangeDocument: changeDocument,
+ *   onClearSelection: () => setSelectedBlockId(null)
  * });
  * ```
  */
 export function useElementManipulation({
    shadowRootRef,
-   selectedXPath,
+   selectedBlockId,
    onSaveHistory,
    onUpdateContent,
-   onCalculatePageBreaks,
+   onChangeDocument,
    onClearSelection
 }: UseElementManipulationOptions) {
 
    // Get the currently selected element
    const getSelectedElement = useCallback((): HTMLElement | null => {
       const shadow = shadowRootRef.current;
-      if (!shadow || !selectedXPath) return null;
-      return shadow.querySelector(`[data-xpath="${selectedXPath}"]`) as HTMLElement | null;
-   }, [shadowRootRef, selectedXPath]);
+      if (!shadow || !selectedBlockId) return null;
+      return getBlockElement(shadow, selectedBlockId);
+   }, [shadowRootRef, selectedBlockId]);
 
    // Update element content
    const updateContent = useCallback((value: string, isHtml: boolean = false): void => {
       const el = getSelectedElement();
-      if (!el) return;
+      if (!el || !selectedBlockId) return;
 
-      onSaveHistory();
-
-      if (isHtml) {
-         el.innerHTML = value;
-         // Re-add toolbar
-         const toolbar = window.document.createElement('div');
-         toolbar.className = 'element-toolbar';
-         toolbar.setAttribute('contenteditable', 'false');
-         toolbar.innerHTML = ELEMENT_TOOLBAR_HTML;
-         el.insertBefore(toolbar, el.firstChild);
-      } else if (el.tagName === 'IMG') {
-         (el as HTMLImageElement).src = value;
+      onSaveHistory('Edited content');
+
+      if (el.tagName === 'IMG' && !isHtml) {
+         onChangeDocument(doc => updateBlockProps(doc, selectedBlockId, { src: value }));
       } else {
-         el.textContent = value;
+         onChangeDocument(doc => updateBlockContent(doc, selectedBlockId, isHtml ? value : escapeText(value)));
       }
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument]);
 
    // Update element style
    const updateStyle = useCallback((prop: string, value: string, livePreview?: boolean): void => {
       const el = getSelectedElement();
-      if (!el) return;
+      if (!el || !selectedBlockId) return;
 
-      if (!livePreview) onSaveHistory();
-      (el.style as any)[prop] = value;
-      if (!livePreview) {
-         onUpdateContent();
-         onCalculatePageBreaks();
+      // A live preview is committed later - label the change now so the commit keeps it
+      onSaveHistory(`Changed ${humanizeName(prop)}`);
+      if (livePreview) {
+         (el.style as any)[prop] = value;
+         return;
       }
-   }, [getSelectedElement, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onChangeDocument(doc => updateBlockStyle(doc, selectedBlockId, { [prop]: value }));
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument]);
 
    // Update element attribute
    const updateAttribute = useCallback((attr: string, value: string): void => {
-      const el = getSelectedElement();
-      if (!el) return;
+      if (!getSelectedElement() || !selectedBlockId) return;
 
-      onSaveHistory();
-      el.setAttribute(attr, value);
-      onUpdateContent();
-   }, [getSelectedElement, onSaveHistory, onUpdateContent]);
+      onSaveHistory(`Changed ${humanizeName(attr)}`);
+      onChangeDocument(doc => updateBlockProps(doc, selectedBlockId, { [attr]: value }));
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument]);
+
+   // Update props of a registered block
+   const updateBlockSettings = useCallback((values: Record<string, unknown>): void => {
+      if (!getSelectedElement() || !selectedBlockId) return;
+
+      onSaveHistory(`Changed ${Object.keys(values).map(humanizeName).join(', ')}`);
+      onChangeDocument(doc => updateBlockPropValues(doc, selectedBlockId, values));
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument]);
 
    // Update inline link
    const updateInlineLink = useCallback((index: number, href: string): void => {
@@ -119,7 +110,7 @@ export function useElementManipulation({
 
       const links = el.querySelectorAll('a');
       if (links[index]) {
-         onSaveHistory();
+         onSaveHistory('Changed link');
          links[index].setAttribute('href', href);
          links[index].setAttribute('target', '_blank');
          links[index].setAttribute('rel', 'noopener noreferrer');
@@ -134,7 +125,7 @@ export function useElementManipulation({
 
       const links = el.querySelectorAll('a');
       if (links[index]) {
-         onSaveHistory();
+         onSaveHistory('Removed link');
          const link = links[index];
          const fragment = window.document.createDocumentFragment();
          while (link.firstChild) {
@@ -147,49 +138,37 @@ export function useElementManipulation({
 
    // Update custom CSS
    const updateCustomCss = useCallback((css: string): void => {
-      const el = getSelectedElement();
-      if (!el) return;
+      if (!getSelectedElement() || !selectedBlockId) return;
 
-      onSaveHistory();
-      el.setAttribute('style', css);
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onSaveHistory('Changed custom CSS');
+      onChangeDocument(doc => setBlockStyles(doc, selectedBlockId, css));
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument]);
 
    // Delete element
    const deleteElement = useCallback((): void => {
       const el = getSelectedElement();
-      if (!el || el.hasAttribute('data-container')) return;
+      if (!el || !selectedBlockId || el.hasAttribute('data-container')) return;
 
-      onSaveHistory();
-      el.remove();
-      onUpdateContent();
+      onSaveHistory('Deleted block');
+      onChangeDocument(doc => deleteBlock(doc, selectedBlockId));
       onClearSelection();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, onSaveHistory, onUpdateContent, onClearSelection, onCalculatePageBreaks]);
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument, onClearSelection]);
 
    // Duplicate element
    const duplicateElement = useCallback((): void => {
       const el = getSelectedElement();
-      if (!el || el.hasAttribute('data-container')) return;
-
-      onSaveHistory();
-      const clone = el.cloneNode(true) as HTMLElement;
-      clone.removeAttribute('data-xpath');
-      clone.removeAttribute('data-selected');
-      clone.removeAttribute('contenteditable');
-      clone.querySelectorAll('.element-toolbar').forEach(t => t.remove());
+      if (!el || !selectedBlockId || el.hasAttribute('data-container')) return;
 
-      el.parentNode?.insertBefore(clone, el.nextSibling);
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onSaveHistory('Duplicated block');
+      onChangeDocument(doc => duplicateBlock(doc, selectedBlockId));
+   }, [getSelectedElement, selectedBlockId, onSaveHistory, onChangeDocument]);
 
    return {
       getSelectedElement,
       updateContent,
       updateStyle,
       updateAttribute,
+      updateBlockSettings,
       updateInlineLink,
       removeInlineLink,
       updateCustomCss,
@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect, RefObject } from 'react';
+import { getBlockElement } from '../blockTree';
 
 export interface UseElementSelectionOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
@@ -8,7 +9,7 @@ export interface UseElementSelectionOptions {
  * useElementSelection - A reusable hook for managing element selection in an editor
  *
  * Features:
- * - Tracks selected element by XPath
+ * - Tracks selected element by its persistent block id
  * - Provides helper to get selected DOM element
  * - Maintains selection after re-renders
  * - Clears selection when element is removed
@@ -16,42 +17,42 @@ export interface UseElementSelectionOptions {
  * @example
  * ```tsx
  * const {
- *   selectedXPath,
- *   setSelectedXPath,
+ *   selectedBlockId,
+ *   setSelectedBlockId,
  *   getSelectedElement,
  *   clearSelection
  * } = useElementSelection({ shadowRootRef });
  * ```
  */
 export function useElementSelection({ shadowRootRef }: UseElementSelectionOptions) {
-   const [selectedXPath, setSelectedXPath] = useState<string | null>(null);
+   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
 
    // Get the currently selected DOM element
    const getSelectedElement = useCallback((): HTMLElement | null => {
       const shadow = shadowRootRef.current;
-      if (!shadow || !selectedXPath) return null;
+      if (!shadow || !selectedBlockId) return null;
 
-      return shadow.querySelector(`[data-xpath="${selectedXPath}"]`) as HTMLElement | null;
-   }, [shadowRootRef, selectedXPath]);
+      return getBlockElement(shadow, selectedBlockId);
+   }, [shadowRootRef, selectedBlockId]);
 
    // Clear selection
    const clearSelection = useCallback(() => {
-      setSelectedXPath(null);
+      setSelectedBlockId(null);
    }, []);
 
-   // Select element by XPath
-   const selectElement = useCallback((xpath: string | null) => {
-      setSelectedXPath(xpath);
+   // Select element by block id
+   const selectElement = useCallback((blockId: string | null) => {
+      setSelectedBlockId(blockId);
    }, []);
 
    // Select element by DOM element
    const selectDOMElement = useCallback((element: HTMLElement | null) => {
       if (!element) {
-         setSelectedXPath(null);
+         setSelectedBlockId(null);
          return;
       }
-      const xpath = element.getAttribute('data-xpath');
-      setSelectedXPath(xpath);
+      const blockId = element.getAttribute('data-block-id');
+      setSelectedBlockId(blockId);
    }, []);
 
    // Update data-selected attribute on elements
@@ -65,13 +66,13 @@ export function useElementSelection({ shadowRootRef }: UseElementSelectionOption
       });
 
       // Add selection to current element
-      if (selectedXPath) {
-         const el = shadow.querySelector(`[data-xpath="${selectedXPath}"]`);
+      if (selectedBlockId) {
+         const el = getBlockElement(shadow, selectedBlockId);
          if (el) {
             el.setAttribute('data-selected', 'true');
          }
       }
-   }, [shadowRootRef, selectedXPath]);
+   }, [shadowRootRef, selectedBlockId]);
 
    // Sync selection attribute when selection changes
    useEffect(() => {
@@ -81,18 +82,18 @@ export function useElementSelection({ shadowRootRef }: UseElementSelectionOption
    // Verify selection still exists after content changes
    const verifySelection = useCallback(() => {
       const shadow = shadowRootRef.current;
-      if (!shadow || !selectedXPath) return;
+      if (!shadow || !selectedBlockId) return;
 
-      const el = shadow.querySelector(`[data-xpath="${selectedXPath}"]`);
+      const el = getBlockElement(shadow, selectedBlockId);
       if (!el) {
          // Element no longer exists, clear selection
-         setSelectedXPath(null);
+         setSelectedBlockId(null);
       }
-   }, [shadowRootRef, selectedXPath]);
+   }, [shadowRootRef, selectedBlockId]);
 
    return {
-      selectedXPath,
-      setSelectedXPath,
+      selectedBlockId,
+      setSelectedBlockId,
       getSelectedElement,
       clearSelection,
       selectElement,
@@ -1,10 +1,18 @@
 import React, { useCallback, RefObject } from 'react';
-import { resolveMergeFields, MergeFieldData } from '../utils';
+import { MergeFieldData } from '../utils';
+import { BLOCK_ID_ATTRIBUTE, escapeText } from '../blockTree';
+import { sanitizeHtmlBlockElements } from '../htmlSanitizer';
+import { renderExportBlocks, renderStaticBlocks, resolveMarkupMergeFields } from '../blockRegistry';
+import { updateTableOfContents } from '../blocks';
+import { addFormFields, collectFormFields, PlacedFormField } from '../acroForm';
+import { insertNotes, placePdfNotes } from '../footnotes';
+import { NotePlacement } from '../type';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface UseExportOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
    mergeFieldData: MergeFieldData;
-   onSaveHistory?: () => void;
+   onSaveHistory?: (label?: string, options?: SaveHistoryOptions) => void;
    onSetContent?: (content: string) => void;
    onClearSelection?: () => void;
 }
@@ -14,6 +22,7 @@ export interface ExportDocument {
    content: string;
    pageWidth?: { value: number; unit: string };
    pageHeight?: { value: number; unit: string };
+   notePlacement?: NotePlacement;
 }
 
 /**
@@ -126,7 +135,9 @@ function fixListsForCanvas(root: HTMLElement) {
  * - Clean content for export (remove editor attributes)
  * - Export as HTML file
  * - Export as PDF using html2pdf.js
+ * - Export email-ready HTML (inline styles, static markup for players)
  * - Resolve merge fields during export
+ * - Footnotes close the page they belong to (at its bottom in PDFs), endnotes follow the content
  *
  * @example
  * ```tsx
@@ -157,8 +168,8 @@ export function useExport({
       const container = doc.body.firstElementChild;
       if (!container) return content;
 
-      container.querySelectorAll('[data-xpath]').forEach(el => {
-         el.removeAttribute('data-xpath');
+      container.querySelectorAll('[data-block-id]').forEach(el => {
+         el.removeAttribute('data-block-id');
          el.removeAttribute('data-selected');
          el.removeAttribute('draggable');
          el.removeAttribute('contenteditable');
@@ -169,19 +180,24 @@ export function useExport({
       container.querySelectorAll('[data-editable]').forEach(el => el.removeAttribute('data-editable'));
       container.querySelectorAll('[data-empty]').forEach(el => el.removeAttribute('data-empty'));
       container.querySelectorAll('.drop-zone').forEach(el => el.classList.remove('drop-zone'));
+      container.querySelectorAll(`[${BLOCK_ID_ATTRIBUTE}]`).forEach(el => el.removeAttribute(BLOCK_ID_ATTRIBUTE));
 
-      let result = container.innerHTML;
+      // Resolved on the parsed markup - values are escaped, block props stay valid JSON
+      if (resolveMerge) resolveMarkupMergeFields(container, mergeFieldData);
+      sanitizeHtmlBlockElements(container);
 
-      if (resolveMerge) {
-         result = resolveMergeFields(result, mergeFieldData);
-      }
-
-      return result;
+      return container.innerHTML;
    }, [mergeFieldData]);
 
    // Export as HTML file
    const exportHTML = useCallback((document: ExportDocument) => {
-      const cleanedContent = cleanContent(document.content);
+      // Blocks render again from their merged settings - a barcode encodes the merged value,
+      // form fields become real inputs
+      const template = window.document.createElement('template');
+      template.innerHTML = cleanContent(document.content);
+      renderExportBlocks(template.content);
+      updateTableOfContents(template.content, { pageNumbers: false }); // One continuous page
+      insertNotes(template.content, document.notePlacement);
 
       const fullHtml = /*html*/`
          <!DOCTYPE html>
@@ -189,24 +205,28 @@ export function useExport({
             <head>
                <meta charset="UTF-8">
                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-               <title>${document.name}</title>
+               <title>${escapeText(document.name)}</title>
                <style>
                   * { box-sizing: border-box; }
                   body { margin: 0; padding: 20px; font-family: system-ui, sans-serif; background: #f5f5f5; }
                   .document {
                      width: ${document.pageWidth?.value}${document.pageWidth?.unit};
+                     max-width: 100%;
                      margin: 0 auto;
                      background: white;
                      box-shadow: 0 2px 8px rgba(0,0,0,0.1);
                      min-height: ${document.pageHeight?.value}${document.pageHeight?.unit};
                   }
+                  @media (max-width: 600px) {
+                     body { padding: 0; }
+                  }
                   @media print {
                      .document { box-shadow: none; margin: 0; }
                   }
                </style>
             </head>
             <body>
-               <div class="document">${cleanedContent}</div>
+               <div class="document">${template.innerHTML}</div>
             </body>
          </html>
       `;
@@ -220,17 +240,51 @@ export function useExport({
       URL.revokeObjectURL(url);
    }, [cleanContent]);
 
+   // Export HTML for email clients - no stylesheet or embeds, blocks use their static markup
+   const exportEmail = useCallback((document: ExportDocument) => {
+      const template = window.document.createElement('template');
+      template.innerHTML = cleanContent(document.content);
+      renderStaticBlocks(template.content);
+      updateTableOfContents(template.content, { pageNumbers: false });
+      insertNotes(template.content, document.notePlacement);
+
+      const width = document.pageWidth?.unit === 'px' ? `${document.pageWidth.value}px` : '600px';
+      const fullHtml = /*html*/`
+         <!DOCTYPE html>
+         <html>
+            <head>
+               <meta charset="UTF-8">
+               <meta name="viewport" content="width=device-width, initial-scale=1.0">
+               <title>${escapeText(document.name)}</title>
+            </head>
+            <body style="margin: 0; padding: 20px 0; background: #f5f5f5; font-family: system-ui, sans-serif;">
+               <div style="max-width: ${width}; margin: 0 auto; background: #ffffff;">${template.innerHTML}</div>
+            </body>
+         </html>
+      `;
+
+      const blob = new Blob([fullHtml], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const a = window.document.createElement('a');
+      a.href = url;
+      a.download = `${document.name.replace(/\s+/g, '-').toLowerCase()}-email.html`;
+      a.click();
+      URL.revokeObjectURL(url);
+   }, [cleanContent]);
+
    // Export as PDF using html2pdf.js
    const exportPDF = useCallback(async (document: ExportDocument) => {
       const shadow = shadowRootRef.current;
       if (!shadow) throw new Error('Shadow root not ready');
 
-      // Resolve merge fields in content before parsing
-      const resolvedContent = resolveMergeFields(document.content, mergeFieldData);
-
-      // Parse snapshot
+      // Parse snapshot inertly, resolve merge fields in its text, attributes and block props,
+      // and sanitize raw HTML blocks before anything in them can load
+      const template = window.document.createElement('template');
+      template.innerHTML = document.content;
+      resolveMarkupMergeFields(template.content, mergeFieldData);
+      sanitizeHtmlBlockElements(template.content);
       const tempDiv = window.document.createElement('div');
-      tempDiv.innerHTML = resolvedContent;
+      tempDiv.append(template.content);
 
       // Prefer exporting ONLY the actual content
       const contentFlow = tempDiv.querySelector('.content-flow') as HTMLElement | null;
@@ -244,9 +298,15 @@ export function useExport({
       // Remove placeholder attributes and classes
       exportRoot.querySelectorAll('[data-empty]').forEach((el) => el.removeAttribute('data-empty'));
       exportRoot.querySelectorAll('.drop-zone').forEach((el) => el.classList.remove('drop-zone'));
+      exportRoot.querySelectorAll(`[${BLOCK_ID_ATTRIBUTE}]`).forEach((el) => el.removeAttribute(BLOCK_ID_ATTRIBUTE));
+
+      // Blocks render again from their merged props - static markup where html2canvas can't render (iframes, players)
+      renderStaticBlocks(exportRoot);
+      updateTableOfContents(exportRoot); // Merged headings - pages from the editor's breaks
+      insertNotes(exportRoot, document.notePlacement); // Moved to the page bottom once laid out
 
       // Restore original margin-top if stored
-      exportRoot.querySelectorAll<HTMLElement>('[data-page-break-before], [data-xpath]').forEach((el) => {
+      exportRoot.querySelectorAll<HTMLElement>('[data-page-break-before], [data-block-id]').forEach((el) => {
          if ((el as any).dataset.pbOrigMt !== undefined) {
             el.style.marginTop = (el as any).dataset.pbOrigMt;
             delete (el as any).dataset.pbOrigMt;
@@ -358,6 +418,11 @@ export function useExport({
          // Dynamic import to keep bundle smaller
          const html2pdf = (await import('html2pdf.js')).default;
 
+         // Once html2pdf has laid the page out footnotes move to the page bottom, then form
+         // fields are measured and added as AcroForm fields on top of the rendered image
+         let pageSize: { inner: { width: number; height: number } } | null = null;
+         let formFields: PlacedFormField[] = [];
+
          await (html2pdf() as any)
             .set({
                filename,
@@ -376,6 +441,15 @@ export function useExport({
                },
             } as any)
             .from(host.querySelector('.pdf-page') as HTMLElement)
+            .toContainer()
+            .get('pageSize', (size: typeof pageSize) => { pageSize = size; })
+            .get('container', (container: HTMLElement) => {
+               if (!pageSize) return;
+               placePdfNotes(container, pageSize.inner, 40);
+               formFields = collectFormFields(container, pageSize.inner);
+            })
+            .toPdf()
+            .get('pdf', (pdf: Parameters<typeof addFormFields>[0]) => addFormFields(pdf, formFields))
             .save();
       } finally {
          host.remove();
@@ -391,7 +465,7 @@ export function useExport({
       reader.onload = (event) => {
          const content = event.target?.result as string;
          if (content) {
-            onSaveHistory?.();
+            onSaveHistory?.('Imported HTML');
             const bodyMatch = content.match(/<body[^>]*>([\s\S]*)<\/body>/i);
             const bodyContent = bodyMatch ? bodyMatch[1].trim() : content;
 
@@ -406,6 +480,7 @@ export function useExport({
    return {
       cleanContent,
       exportHTML,
+      exportEmail,
       exportPDF,
       importHTML
    };
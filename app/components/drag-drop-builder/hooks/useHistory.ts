@@ -1,119 +1,195 @@
 import { useState, useCallback } from 'react';
+import { applyStatePatch, createStatePatch, isEmptyPatch, StatePatch } from '../utils';
+
+export interface HistoryEntry {
+   id: number;
+   label: string;
+   timestamp?: number;
+   patch: StatePatch;
+   coalesceKey?: string;
+}
 
 export interface HistoryState<T> {
-   past: T[];
-   future: T[];
+   /** Applied entries are entries[0..index), the rest can be redone */
+   entries: HistoryEntry[];
+   index: number;
+   /** State after the applied entries - changes are diffed against it */
+   baseline: T;
+   pending: { label?: string; coalesceKey?: string; timestamp: number } | null;
+   nextId: number;
 }
 
 export interface UseHistoryOptions {
    maxHistory?: number;
+   /** Consecutive entries with the same coalesceKey within this window (ms) become one step */
+   coalesceWindow?: number;
+}
+
+export interface SaveHistoryOptions {
+   /** e.g. the block being typed in - consecutive edits with the same key are grouped */
+   coalesceKey?: string;
 }
 
 export interface UseHistoryReturn<T> {
-   /** Save current state to history */
-   saveHistory: () => void;
+   /** Label the next change; the change itself is recorded when the state updates */
+   saveHistory: (label?: string, options?: SaveHistoryOptions) => void;
    /** Undo to previous state */
    undo: () => void;
    /** Redo to next state */
    redo: () => void;
+   /** Jump to the state after `index` entries (0 = before the first entry) */
+   jumpTo: (index: number) => void;
    /** Check if undo is available */
    canUndo: boolean;
    /** Check if redo is available */
    canRedo: boolean;
-   /** Clear all history */
-   clearHistory: () => void;
+   /** Clear all history, optionally starting from a new baseline state */
+   clearHistory: (baseline?: T) => void;
    /** Get current history state */
    history: HistoryState<T>;
 }
 
+const DEFAULT_LABEL = 'Edited document';
+
+const recordChange = <T extends object>(
+   history: HistoryState<T>,
+   state: T,
+   maxHistory: number,
+   coalesceWindow: number
+): HistoryState<T> => {
+   const { pending } = history;
+   const applied = history.entries.slice(0, history.index);
+   const last = applied[applied.length - 1];
+
+   const canCoalesce = !!pending?.coalesceKey
+      && last?.coalesceKey === pending.coalesceKey
+      && last.timestamp !== undefined
+      && pending.timestamp - last.timestamp <= coalesceWindow;
+
+   if (canCoalesce) {
+      // Re-diff from the state before the last entry so both edits form one step
+      const before = applyStatePatch(history.baseline, last.patch, 'backward');
+      const patch = createStatePatch(before, state);
+      const entries = isEmptyPatch(patch)
+         ? applied.slice(0, -1)
+         : [...applied.slice(0, -1), { ...last, patch, timestamp: pending!.timestamp }];
+      return { ...history, entries, index: entries.length, baseline: state, pending: null };
+   }
+
+   const patch = createStatePatch(history.baseline, state);
+   if (isEmptyPatch(patch)) {
+      return { ...history, baseline: state, pending: null };
+   }
+
+   const entry: HistoryEntry = {
+      id: history.nextId,
+      label: pending?.label ?? DEFAULT_LABEL,
+      timestamp: pending?.timestamp,
+      patch,
+      coalesceKey: pending?.coalesceKey
+   };
+   // A new change discards the redo entries
+   const entries = [...applied, entry].slice(-maxHistory);
+
+   return { entries, index: entries.length, baseline: state, pending: null, nextId: history.nextId + 1 };
+};
+
 /**
- * useHistory - A generic undo/redo history hook
+ * useHistory - A patch-based undo/redo history hook
  *
  * Features:
- * - Maintains undo/redo stacks
+ * - Stores a compact patch per step instead of full snapshots
+ * - Labels every step ("Inserted Table", "Changed color")
+ * - Groups consecutive edits with the same coalesce key (typing)
+ * - Jump to any point of the history
  * - Configurable max history size
- * - Clear future on new save
- * - Type-safe with generics
+ *
+ * Every state change is recorded - call saveHistory() before a change to label it.
  *
  * @example
  * ```tsx
  * const [document, setDocument] = useState<EditorDocument>(initialDoc);
- * const { saveHistory, undo, redo, canUndo, canRedo } = useHistory({
- *   currentState: document,
- *   onStateChange: setDocument,
- *   maxHistory: 50
+ * const { saveHistory, undo, redo, canUndo, canRedo } = useHistory(document, setDocument, {
+ *   maxHistory: 200
  * });
  *
  * // Before making changes:
- * saveHistory();
+ * saveHistory('Inserted Table');
  * setDocument(newDoc);
  *
  * // To undo:
  * if (canUndo) undo();
  * ```
  */
-export function useHistory<T>(
+export function useHistory<T extends object>(
    currentState: T,
    onStateChange: (state: T) => void,
    options: UseHistoryOptions = {}
 ): UseHistoryReturn<T> {
-   const { maxHistory = 50 } = options;
-
-   const [history, setHistory] = useState<HistoryState<T>>({
-      past: [],
-      future: []
-   });
-
-   const saveHistory = useCallback(() => {
+   const { maxHistory = 200, coalesceWindow = 5000 } = options;
+
+   const [history, setHistory] = useState<HistoryState<T>>(() => ({
+      entries: [],
+      index: 0,
+      baseline: currentState,
+      pending: null,
+      nextId: 1
+   }));
+
+   // Record state changes while rendering, so handlers always see an up-to-date baseline
+   if (currentState !== history.baseline) {
+      setHistory(recordChange(history, currentState, maxHistory, coalesceWindow));
+   }
+
+   const saveHistory = useCallback((label?: string, saveOptions: SaveHistoryOptions = {}) => {
+      const timestamp = Date.now();
       setHistory(prev => ({
-         past: [...prev.past.slice(-maxHistory), currentState],
-         future: [] // Clear redo stack when new action is taken
+         ...prev,
+         // An unlabeled call (e.g. committing a live preview) keeps the label set by the action
+         pending: {
+            label: label ?? prev.pending?.label,
+            coalesceKey: label ? saveOptions.coalesceKey : prev.pending?.coalesceKey,
+            timestamp
+         }
       }));
-   }, [currentState, maxHistory]);
-
-   const undo = useCallback(() => {
-      setHistory(prev => {
-         if (prev.past.length === 0) return prev;
-
-         const newPast = [...prev.past];
-         const previous = newPast.pop()!;
-         const current = currentState;
-
-         onStateChange(previous);
-
-         return {
-            past: newPast,
-            future: [current, ...prev.future]
-         };
-      });
-   }, [currentState, onStateChange]);
+   }, []);
 
-   const redo = useCallback(() => {
-      setHistory(prev => {
-         if (prev.future.length === 0) return prev;
+   const jumpTo = useCallback((target: number) => {
+      const index = Math.max(0, Math.min(target, history.entries.length));
+      if (index === history.index) return;
 
-         const [next, ...newFuture] = prev.future;
-         const current = currentState;
+      let state = history.baseline;
+      for (let i = history.index - 1; i >= index; i--) {
+         state = applyStatePatch(state, history.entries[i].patch, 'backward');
+      }
+      for (let i = history.index; i < index; i++) {
+         state = applyStatePatch(state, history.entries[i].patch, 'forward');
+      }
 
-         onStateChange(next);
+      setHistory({ ...history, index, baseline: state, pending: null });
+      onStateChange(state);
+   }, [history, onStateChange]);
 
-         return {
-            past: [...prev.past, current],
-            future: newFuture
-         };
-      });
-   }, [currentState, onStateChange]);
+   const undo = useCallback(() => jumpTo(history.index - 1), [jumpTo, history.index]);
+   const redo = useCallback(() => jumpTo(history.index + 1), [jumpTo, history.index]);
 
-   const clearHistory = useCallback(() => {
-      setHistory({ past: [], future: [] });
+   const clearHistory = useCallback((baseline?: T) => {
+      setHistory(prev => ({
+         entries: [],
+         index: 0,
+         baseline: baseline ?? prev.baseline,
+         pending: null,
+         nextId: prev.nextId
+      }));
    }, []);
 
    return {
       saveHistory,
       undo,
       redo,
-      canUndo: history.past.length > 0,
-      canRedo: history.future.length > 0,
+      jumpTo,
+      canUndo: history.index > 0,
+      canRedo: history.index < history.entries.length,
       clearHistory,
       history
    };
@@ -1,10 +1,9 @@
 import { useState, useCallback, useMemo, useRef, RefObject } from 'react';
+import type { SaveHistoryOptions } from './useHistory';
+import type { MergeFieldDefinition } from '../type';
 
-export interface MergeFieldDefinition {
-   path: string;
-   label: string;
-   category?: string;
-}
+// Declared with the document types - documents carry their own merge fields
+export type { MergeFieldDefinition };
 
 export interface MergeFieldSuggestionState {
    show: boolean;
@@ -16,7 +15,7 @@ export interface MergeFieldSuggestionState {
 export interface UseMergeFieldsOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
    availableFields: MergeFieldDefinition[];
-   onSaveHistory?: () => void;
+   onSaveHistory?: (label?: string, options?: SaveHistoryOptions) => void;
    onUpdateContent?: () => void;
 }
 
@@ -183,7 +182,7 @@ export function useMergeFields({
 
       if (lastOpenBrace === -1) return;
 
-      onSaveHistory?.();
+      onSaveHistory?.('Inserted merge field');
 
       // Replace from {{ to cursor with the full merge field
       const newText = text.slice(0, lastOpenBrace) + `{{${field.path}}}` + text.slice(cursorPos);
@@ -0,0 +1,113 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DocumentModule, DocumentStorageAdapter } from '../type';
+import { generateModuleId, syncModuleInstances } from '../moduleLibrary';
+import { migrateDocument } from '../migrations';
+
+export interface UseModulesOptions {
+   adapter: DocumentStorageAdapter | null;
+   /** Id of the open document - the editor keeps it in sync itself */
+   currentDocumentId: string;
+}
+
+export type NewModule = Pick<DocumentModule, 'name' | 'thumbnail' | 'html' | 'linked'>;
+
+/**
+ * useModules - A hook for the module library
+ *
+ * Features:
+ * - Lists the saved modules (most recently updated first)
+ * - Saves new modules and deletes them
+ * - Updating a linked master re-renders its copies in every stored document
+ *
+ * @example
+ * ```tsx
+ * const { modules, createModule, updateModule, deleteModule } = useModules({
+ *   adapter: storageAdapter,
+ *   currentDocumentId: editorDocument.id
+ * });
+ *
+ * createModule({ name: 'Footer', thumbnail, html, linked: true });
+ * ```
+ */
+export function useModules({
+   adapter,
+   currentDocumentId
+}: UseModulesOptions) {
+   const [modules, setModules] = useState<DocumentModule[]>([]);
+   const moduleAdapter = adapter?.modules ?? null;
+
+   const refreshModules = useCallback(async () => {
+      const list = moduleAdapter ? await moduleAdapter.list() : [];
+      setModules(list);
+      return list;
+   }, [moduleAdapter]);
+
+   useEffect(() => {
+      if (!moduleAdapter) return;
+
+      let cancelled = false;
+      moduleAdapter.list()
+         .then((list) => {
+            if (!cancelled) setModules(list);
+         })
+         .catch((error) => console.error('Failed to load modules', error));
+
+      return () => {
+         cancelled = true;
+      };
+   }, [moduleAdapter]);
+
+   const createModule = useCallback(async (data: NewModule) => {
+      if (!moduleAdapter) return null;
+
+      const now = Date.now();
+      const created: DocumentModule = { ...data, id: generateModuleId(), createdAt: now, updatedAt: now };
+      await moduleAdapter.save(created);
+      await refreshModules();
+      return created;
+   }, [moduleAdapter, refreshModules]);
+
+   // Re-renders the copies of a master in the stored documents (the open one is synced by the editor)
+   const syncStoredDocuments = useCallback(async (master: DocumentModule) => {
+      if (!adapter) return;
+
+      const summaries = await adapter.list();
+      await Promise.all(summaries
+         .filter(summary => summary.id !== currentDocumentId)
+         .map(async (summary) => {
+            const stored = await adapter.load(summary.id);
+            if (!stored) return;
+            const document = migrateDocument(stored);
+            const synced = syncModuleInstances(document, [master]);
+            if (synced !== document) await adapter.save(synced);
+         }));
+   }, [adapter, currentDocumentId]);
+
+   const updateModule = useCallback(async (id: string, changes: Partial<NewModule>) => {
+      const current = modules.find(item => item.id === id);
+      if (!moduleAdapter || !current) return null;
+
+      const updated: DocumentModule = { ...current, ...changes, updatedAt: Date.now() };
+      await moduleAdapter.save(updated);
+      await refreshModules();
+      if (updated.linked) await syncStoredDocuments(updated);
+      return updated;
+   }, [modules, moduleAdapter, refreshModules, syncStoredDocuments]);
+
+   const deleteModule = useCallback(async (id: string) => {
+      if (!moduleAdapter) return;
+      await moduleAdapter.delete(id);
+      await refreshModules();
+   }, [moduleAdapter, refreshModules]);
+
+   return {
+      modules,
+      isAvailable: !!moduleAdapter,
+      refreshModules,
+      createModule,
+      updateModule,
+      deleteModule
+   };
+}
+
+export default useModules;
@@ -1,11 +1,15 @@
 import { useCallback, useMemo, RefObject } from 'react';
 import { applyPaginationMargin, rafThrottle, resetPaginationStyling } from '../utils';
+import { updateTableOfContents } from '../blocks';
+import { Footnote, measureNotes, numberFootnotes, renderNotes } from '../footnotes';
+import { NotePlacement } from '../type';
 
 export interface PaginationConfig {
    pageHeight: number;
    pageHeightUnit: string;
    padding?: number;
    gap?: number;
+   notePlacement?: NotePlacement;
 }
 
 export interface UsePaginationOptions {
@@ -21,6 +25,9 @@ export interface UsePaginationOptions {
  * - Calculates page breaks based on content height
  * - Applies margin-based pagination to elements
  * - Renders page gap overlays
+ * - Refreshes table of contents blocks - entries before measuring, page numbers after
+ * - Numbers footnote references and draws their notes at the page bottom (space reserved
+ *   while breaking pages) or as endnotes after the last block
  * - RAF-throttled for performance
  *
  * @example
@@ -37,19 +44,25 @@ export function usePagination({
    config,
    onPageCountChange
 }: UsePaginationOptions) {
-   const { pageHeight, pageHeightUnit, padding = 40, gap = 20 } = config;
+   const { pageHeight, pageHeightUnit, padding = 40, gap = 20, notePlacement = 'footnotes' } = config;
 
    const calculatePageBreaks = useCallback(() => {
       const shadow = shadowRootRef.current;
       if (!shadow) return;
 
-      // Skip pagination for viewport-based heights
-      if (pageHeightUnit === 'vh') return;
-
       const pagesContainer = shadow.querySelector('.pages-container') as HTMLElement | null;
       const contentFlow = shadow.querySelector('.content-flow') as HTMLElement | null;
       const pageOverlay = shadow.querySelector('.page-overlay') as HTMLElement | null;
 
+      // Skip pagination for viewport-based heights - one page, contents without page numbers
+      if (pageHeightUnit === 'vh') {
+         if (contentFlow) {
+            numberFootnotes(contentFlow);
+            updateTableOfContents(contentFlow, { pageNumbers: false });
+         }
+         return;
+      }
+
       if (!pagesContainer || !contentFlow || !pageOverlay) return;
 
       const PAGE_H = pageHeight;
@@ -59,7 +72,7 @@ export function usePagination({
       const GAP = gap;
       const USABLE_H = PAGE_H - (PADDING * 2);
 
-      // Get blocks to paginate - in preview mode use direct children, otherwise use data-xpath elements
+      // Get blocks to paginate - in preview mode use direct children, otherwise use data-block-id elements
       const pagesWrapper = shadow.querySelector('.pages-wrapper');
       const isPreview = pagesWrapper?.getAttribute('data-preview-mode') === 'true';
 
@@ -70,13 +83,24 @@ export function usePagination({
             return !htmlEl.classList.contains('element-toolbar')
                && !htmlEl.classList.contains('page-break-spacer');
          }
-         return htmlEl.hasAttribute('data-xpath');
+         return htmlEl.hasAttribute('data-block-id');
       }) as HTMLElement[];
 
       // Cleanup previous pagination
       pageOverlay.innerHTML = '';
       for (const el of blocks) resetPaginationStyling(el);
 
+      // Entries change the height of their block - build them before measuring
+      updateTableOfContents(contentFlow);
+
+      // Footnotes - measured at the content width, a page's notes take the frame plus their rows
+      const notes = numberFootnotes(contentFlow);
+      const noteSizes = notes.length ? measureNotes(pageOverlay, notes, notePlacement, contentFlow.clientWidth - PADDING * 2) : { frame: 0, rows: [] };
+      const notesHeight = (list: Footnote[]) =>
+         list.length ? list.reduce((sum, note) => sum + noteSizes.rows[note.number - 1], noteSizes.frame) : 0;
+      const reserveNotes = notePlacement === 'footnotes';
+      const notesByPage = new Map<number, Footnote[]>();
+
       if (blocks.length === 0) {
          onPageCountChange(1);
          pagesContainer.style.minHeight = `${PAGE_H}px`;
@@ -101,8 +125,10 @@ export function usePagination({
       for (const m of metrics) {
          const simTop = m.top + shift;
          const usedInPage = simTop - pageContentTop(pageIndex);
+         const blockNotes = reserveNotes ? notes.filter(note => m.el.contains(note.element)) : [];
+         const reserved = notesHeight([...(notesByPage.get(pageIndex) ?? []), ...blockNotes]);
 
-         if (usedInPage + m.height > USABLE_H && usedInPage > 0) {
+         if (usedInPage + m.height > USABLE_H - reserved && usedInPage > 0) {
             const nextPage = pageIndex + 1;
             const targetTop = pageContentTop(nextPage);
             const add = targetTop - simTop;
@@ -116,11 +142,38 @@ export function usePagination({
                pageIndex = nextPage;
             }
          }
+         if (blockNotes.length) notesByPage.set(pageIndex, [...(notesByPage.get(pageIndex) ?? []), ...blockNotes]);
+      }
+
+      // Notes are drawn in the overlay - footnotes at the bottom of their page, endnotes
+      // below the last block or at the top of a page of their own
+      const placeNotes = (list: Footnote[], top: number) => {
+         const notesEl = document.createElement('div');
+         notesEl.style.cssText = `position:absolute; left:${PADDING}px; right:${PADDING}px; top:${top}px; pointer-events:auto;`;
+         notesEl.innerHTML = renderNotes(list, notePlacement);
+         pageOverlay.appendChild(notesEl);
+      };
+
+      if (reserveNotes) {
+         notesByPage.forEach((list, page) => placeNotes(list, pageBoxTop(page) + PAGE_H - PADDING - notesHeight(list)));
+      } else if (notes.length) {
+         const last = metrics[metrics.length - 1];
+         const usedInPage = last.top + shift + last.height - pageContentTop(pageIndex);
+         if (usedInPage + notesHeight(notes) > USABLE_H && usedInPage > 0) {
+            gapTops.push(pageBoxTop(pageIndex) + PAGE_H);
+            pageIndex += 1;
+            placeNotes(notes, pageContentTop(pageIndex));
+         } else {
+            placeNotes(notes, pageContentTop(pageIndex) + usedInPage);
+         }
       }
 
       const totalPages = pageIndex;
       onPageCountChange(totalPages);
 
+      // Page numbers of the entries, now that the breaks are placed
+      updateTableOfContents(contentFlow);
+
       // Render page gap overlays
       if (gapTops.length) {
          const frag = document.createDocumentFragment();
@@ -145,7 +198,7 @@ export function usePagination({
       // Set container height
       pagesContainer.style.minHeight = `${(totalPages * PAGE_H) + ((totalPages - 1) * GAP)}px`;
 
-   }, [shadowRootRef, pageHeight, pageHeightUnit, padding, gap, onPageCountChange]);
+   }, [shadowRootRef, pageHeight, pageHeightUnit, padding, gap, notePlacement, onPageCountChange]);
 
    // RAF-throttled version for performance
    const calculatePageBreaksRAF = useMemo(
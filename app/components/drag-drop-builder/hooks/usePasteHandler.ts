@@ -1,4 +1,5 @@
 import { useCallback, useRef } from 'react';
+import { CODE_ATTRIBUTE } from '../blocks';
 
 export interface UsePasteHandlerOptions {
    shadowRootRef: React.RefObject<ShadowRoot | null>;
@@ -38,10 +39,17 @@ export function htmlToPlainText(html: string): string {
 }
 
 /**
- * Finds the nearest contenteditable parent with data-xpath attribute
+ * Finds the nearest contenteditable parent with data-block-id attribute
  */
 export function findContentEditable(el: HTMLElement | null): HTMLElement | null {
-   return el?.closest('[contenteditable="true"][data-xpath]') as HTMLElement | null;
+   return el?.closest('[contenteditable="true"][data-block-id]') as HTMLElement | null;
+}
+
+/**
+ * Finds the code block being edited in place - pasted code keeps its whitespace
+ */
+export function findCodeEditor(el: HTMLElement | null): HTMLElement | null {
+   return el?.closest(`[${CODE_ATTRIBUTE}][contenteditable="true"]`) as HTMLElement | null;
 }
 
 /**
@@ -51,6 +59,7 @@ export function findContentEditable(el: HTMLElement | null): HTMLElement | null
  * - Intercepts paste events and sanitizes content
  * - Removes formatting from pasted text (plain text only)
  * - Handles both paste and beforeinput events for cross-browser support
+ * - Code blocks get the text as copied, only line endings normalized
  * - Works within Shadow DOM
  *
  * @example
@@ -80,7 +89,7 @@ export function usePasteHandler({
 
       // Paste handler - captures clipboard data
       const handlePaste = (e: ClipboardEvent) => {
-         const target = findContentEditable(e.target as HTMLElement);
+         const target = findContentEditable(e.target as HTMLElement) ?? findCodeEditor(e.target as HTMLElement);
          if (!target) return;
 
          // Store the clipboard data for use in beforeinput handler
@@ -92,7 +101,8 @@ export function usePasteHandler({
 
       // BeforeInput handler - intercepts the actual paste insertion
       const handleBeforeInput = (e: InputEvent) => {
-         const target = findContentEditable(e.target as HTMLElement);
+         const code = findCodeEditor(e.target as HTMLElement);
+         const target = findContentEditable(e.target as HTMLElement) ?? code;
          if (!target) return;
 
          // Only handle paste operations
@@ -126,7 +136,7 @@ export function usePasteHandler({
                }
             }
 
-            plainText = sanitizePasteText(plainText);
+            plainText = code ? plainText.replace(/\r\n?/g, '\n') : sanitizePasteText(plainText);
 
             // Don't paste if nothing left after sanitization
             if (!plainText) return;
@@ -168,7 +178,8 @@ export function usePasteHandler({
       setupPasteHandlers,
       sanitizePasteText,
       htmlToPlainText,
-      findContentEditable
+      findContentEditable,
+      findCodeEditor
    };
 }
 
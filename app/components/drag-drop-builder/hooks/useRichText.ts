@@ -1,9 +1,14 @@
 import { useCallback, RefObject } from 'react';
+import { getBlockElement } from '../blockTree';
+import { humanizeName } from '../utils';
+import { createFootnoteReference } from '../footnotes';
+import { createInlineMath } from '../math';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface UseRichTextOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
-   selectedXPath: string | null;
-   onSaveHistory: () => void;
+   selectedBlockId: string | null;
+   onSaveHistory: (label?: string, options?: SaveHistoryOptions) => void;
    onUpdateContent: () => void;
    onCalculatePageBreaks: () => void;
 }
@@ -18,12 +23,14 @@ export interface UseRichTextOptions {
  * - Links (create and remove)
  * - Indent/outdent
  * - Insert HTML content
+ * - Footnote references at the caret - numbered by pagination
+ * - Inline LaTeX equations at the caret, rendered as SVG
  *
  * @example
  * ```tsx
  * const { handleFormat } = useRichText({
  *   shadowRootRef,
- *   selectedXPath,
+ *   selectedBlockId,
  *   onSaveHistory: saveHistory,
  *   onUpdateContent: updateContentFromShadow,
  *   onCalculatePageBreaks: calculatePageBreaksRAF
@@ -37,7 +44,7 @@ export interface UseRichTextOptions {
  */
 export function useRichText({
    shadowRootRef,
-   selectedXPath,
+   selectedBlockId,
    onSaveHistory,
    onUpdateContent,
    onCalculatePageBreaks
@@ -72,15 +79,15 @@ export function useRichText({
          }
       }
 
-      if (!anchor && selectedXPath) {
-         const selectedEl = shadow.querySelector(`[data-xpath="${selectedXPath}"]`);
+      if (!anchor && selectedBlockId) {
+         const selectedEl = getBlockElement(shadow, selectedBlockId);
          if (selectedEl) {
             anchor = selectedEl.tagName === 'A' ? selectedEl as HTMLAnchorElement : selectedEl.querySelector('a');
          }
       }
 
       if (anchor) {
-         onSaveHistory();
+         onSaveHistory('Removed link');
          const fragment = window.document.createDocumentFragment();
          while (anchor.firstChild) {
             fragment.appendChild(anchor.firstChild);
@@ -88,7 +95,7 @@ export function useRichText({
          anchor.parentNode?.replaceChild(fragment, anchor);
          onUpdateContent();
       }
-   }, [shadowRootRef, selectedXPath, getSelection, onSaveHistory, onUpdateContent]);
+   }, [shadowRootRef, selectedBlockId, getSelection, onSaveHistory, onUpdateContent]);
 
    // Handle font size
    const handleFontSize = useCallback((value: string) => {
@@ -99,9 +106,9 @@ export function useRichText({
       if (!range.collapsed) {
          const span = window.document.createElement('span');
          span.style.fontSize = value;
+         onSaveHistory('Changed font size');
          try {
             range.surroundContents(span);
-            onSaveHistory();
             onUpdateContent();
          } catch {
             window.document.execCommand('fontSize', false, value);
@@ -119,9 +126,9 @@ export function useRichText({
       if (!range.collapsed) {
          const span = window.document.createElement('span');
          span.style.fontFamily = value;
+         onSaveHistory('Changed font');
          try {
             range.surroundContents(span);
-            onSaveHistory();
             onUpdateContent();
          } catch {
             window.document.execCommand('fontName', false, value);
@@ -143,9 +150,9 @@ export function useRichText({
          anchor.rel = 'noopener noreferrer';
          anchor.style.color = '#2563eb';
          anchor.style.textDecoration = 'underline';
+         onSaveHistory('Inserted link');
          try {
             range.surroundContents(anchor);
-            onSaveHistory();
             onUpdateContent();
          } catch {
             window.document.execCommand('createLink', false, url);
@@ -180,7 +187,7 @@ export function useRichText({
       }
 
       if (blockElement) {
-         onSaveHistory();
+         onSaveHistory(direction === 'indent' ? 'Indented' : 'Outdented');
          const currentMargin = parseInt(blockElement.style.marginLeft) || 0;
          const step = 20;
          blockElement.style.marginLeft = direction === 'indent'
@@ -222,7 +229,7 @@ export function useRichText({
       }
 
       if (insertTarget) {
-         onSaveHistory();
+         onSaveHistory('Inserted content');
 
          // Create a temporary container to parse the HTML
          const temp = window.document.createElement('div');
@@ -249,6 +256,50 @@ export function useRichText({
       }
    }, [shadowRootRef, getSelection, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
 
+   // Inserts markup at the caret, after any selected text, and moves the caret past it
+   const insertAtCaret = useCallback((createHtml: (at: Element) => string, label: string) => {
+      const shadow = shadowRootRef.current;
+      if (!shadow) return;
+
+      const selection = getSelection();
+      if (!selection || selection.rangeCount === 0) return;
+
+      const range = selection.getRangeAt(0);
+      const end = range.endContainer;
+      const at = end.nodeType === Node.ELEMENT_NODE ? end as Element : end.parentElement;
+      const editable = at?.closest('[contenteditable="true"]');
+      if (!at || !editable || !shadow.contains(editable)) return;
+
+      onSaveHistory(label);
+      const template = window.document.createElement('template');
+      template.innerHTML = createHtml(at);
+      const node = template.content.firstChild;
+      if (!node) return;
+
+      range.collapse(false);
+      range.insertNode(node);
+      range.setStartAfter(node);
+      range.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(range);
+
+      onUpdateContent();
+      onCalculatePageBreaks();
+   }, [shadowRootRef, getSelection, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+
+   // Handle insert footnote - the reference goes at the caret
+   const handleInsertFootnote = useCallback((text: string) => {
+      insertAtCaret(() => createFootnoteReference(text), 'Inserted footnote');
+   }, [insertAtCaret]);
+
+   // Handle insert math - an inline equation drawn in the size and color of the text around it
+   const handleInsertMath = useCallback((latex: string) => {
+      insertAtCaret(at => {
+         const style = window.getComputedStyle(at);
+         return createInlineMath(latex, { size: parseFloat(style.fontSize) || 16, color: style.color });
+      }, 'Inserted equation');
+   }, [insertAtCaret]);
+
    // Main format handler
    const handleFormat = useCallback((command: string, value?: string) => {
       const shadow = shadowRootRef.current;
@@ -292,7 +343,18 @@ export function useRichText({
          return;
       }
 
+      if (command === 'insertFootnote' && value) {
+         handleInsertFootnote(value);
+         return;
+      }
+
+      if (command === 'insertMath' && value) {
+         handleInsertMath(value);
+         return;
+      }
+
       // Default: use execCommand
+      onSaveHistory(`Applied ${humanizeName(command)}`);
       window.document.execCommand(command, false, value);
       setTimeout(() => onUpdateContent(), 0);
    }, [
@@ -304,6 +366,9 @@ export function useRichText({
       handleCreateLink,
       handleIndent,
       handleInsertHTML,
+      handleInsertFootnote,
+      handleInsertMath,
+      onSaveHistory,
       onUpdateContent
    ]);
 
@@ -315,6 +380,8 @@ export function useRichText({
       handleCreateLink,
       handleIndent,
       handleInsertHTML,
+      handleInsertFootnote,
+      handleInsertMath,
       getSelection
    };
 }
@@ -1,11 +1,21 @@
 import { useCallback, RefObject } from 'react';
+import { BLOCK_ID_ATTRIBUTE, getBlockElement } from '../blockTree';
+import {
+   addTableColumn as addColumn,
+   addTableRow as addRow,
+   deleteBlock,
+   deleteTableColumn as deleteColumn,
+   deleteTableRow as deleteRow,
+   resizeTable as resize
+} from '../documentEngine';
+import { DocumentChange } from '../type';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface UseTableManipulationOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
-   selectedXPath: string | null;
-   onSaveHistory: () => void;
-   onUpdateContent: () => void;
-   onCalculatePageBreaks: () => void;
+   selectedBlockId: string | null;
+   onSaveHistory: (label?: string, options?: SaveHistoryOptions) => void;
+   onChangeDocument: (change: DocumentChange) => void;
    onClearSelection: () => void;
    onCloseTableModal?: () => void;
 }
@@ -17,6 +27,7 @@ export interface UseTableManipulationOptions {
  * - Add/remove rows and columns
  * - Delete entire tables
  * - Resize tables to new dimensions
+ * - Row/column indexes come from the selection; the change itself is a DocumentEngine operation
  *
  * @example
  * ```tsx
@@ -29,20 +40,18 @@ export interface UseTableManipulationOptions {
  *   resizeTable
  * } = useTableManipulation({
  *   shadowRootRef,
- *   selectedXPath,
+ *   selectedBlockId,
  *   onSaveHistory: saveHistory,
- *   onUpdateContent: updateContentFromShadow,
- *   onCalculatePageBreaks: calculatePageBreaksRAF,
- *   onClearSelection: () => setSelectedXPath(null)
+ *   onChangeDocument: changeDocument,
+ *   onClearSelection: () => setSelectedBlockId(null)
  * });
  * ```
  */
 export function useTableManipulation({
    shadowRootRef,
-   selectedXPath,
+   selectedBlockId,
    onSaveHistory,
-   onUpdateContent,
-   onCalculatePageBreaks,
+   onChangeDocument,
    onClearSelection,
    onCloseTableModal
 }: UseTableManipulationOptions) {
@@ -50,9 +59,9 @@ export function useTableManipulation({
    // Get selected element helper
    const getSelectedElement = useCallback((): HTMLElement | null => {
       const shadow = shadowRootRef.current;
-      if (!shadow || !selectedXPath) return null;
-      return shadow.querySelector(`[data-xpath="${selectedXPath}"]`) as HTMLElement | null;
-   }, [shadowRootRef, selectedXPath]);
+      if (!shadow || !selectedBlockId) return null;
+      return getBlockElement(shadow, selectedBlockId);
+   }, [shadowRootRef, selectedBlockId]);
 
    // Get table from selected element
    const getTable = useCallback((): HTMLTableElement | null => {
@@ -61,156 +70,85 @@ export function useTableManipulation({
       return el.tagName === 'TABLE' ? el as HTMLTableElement : el.closest('table') as HTMLTableElement;
    }, [getSelectedElement]);
 
+   // Block id of the selected table - the target of every engine operation
+   const getTableId = useCallback((): string | null => getTable()?.getAttribute(BLOCK_ID_ATTRIBUTE) ?? null, [getTable]);
+
    // Add a row to the table
    const addTableRow = useCallback((position: 'above' | 'below') => {
       const el = getSelectedElement();
-      const table = getTable();
-      if (!el || !table) return;
-
-      const row = el.closest('tr') as HTMLTableRowElement;
-      const rowIndex = row ? row.rowIndex : (position === 'above' ? 0 : table.rows.length - 1);
-      const colCount = table.rows[0]?.cells.length || 1;
+      const tableId = getTableId();
+      if (!el || !tableId) return;
 
-      onSaveHistory();
+      const row = el.closest('tr') as HTMLTableRowElement | null;
 
-      const newRow = table.insertRow(position === 'above' ? rowIndex : rowIndex + 1);
-      for (let i = 0; i < colCount; i++) {
-         const cell = newRow.insertCell();
-         cell.style.cssText = 'border: 1px solid #ccc; padding: 8px; min-width: 50px;';
-         cell.setAttribute('contenteditable', 'true');
-         cell.innerHTML = '&nbsp;';
-      }
-
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, getTable, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onSaveHistory('Added row');
+      onChangeDocument(doc => addRow(doc, tableId, position, row?.rowIndex));
+   }, [getSelectedElement, getTableId, onSaveHistory, onChangeDocument]);
 
    // Add a column to the table
    const addTableColumn = useCallback((position: 'left' | 'right') => {
       const el = getSelectedElement();
-      const table = getTable();
-      if (!el || !table) return;
-
-      const cell = el.closest('td, th') as HTMLTableCellElement;
-      const colIndex = cell ? cell.cellIndex : (position === 'left' ? 0 : (table.rows[0]?.cells.length || 1) - 1);
-
-      onSaveHistory();
+      const tableId = getTableId();
+      if (!el || !tableId) return;
 
-      for (let i = 0; i < table.rows.length; i++) {
-         const newCell = table.rows[i].insertCell(position === 'left' ? colIndex : colIndex + 1);
-         newCell.style.cssText = 'border: 1px solid #ccc; padding: 8px; min-width: 50px;';
-         newCell.setAttribute('contenteditable', 'true');
-         newCell.innerHTML = '&nbsp;';
-      }
+      const cell = el.closest('td, th') as HTMLTableCellElement | null;
 
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, getTable, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onSaveHistory('Added column');
+      onChangeDocument(doc => addColumn(doc, tableId, position, cell?.cellIndex));
+   }, [getSelectedElement, getTableId, onSaveHistory, onChangeDocument]);
 
    // Delete a row from the table
    const deleteTableRow = useCallback(() => {
       const el = getSelectedElement();
       const table = getTable();
-      if (!el || !table || table.rows.length <= 1) return;
+      const tableId = getTableId();
+      if (!el || !table || !tableId || table.rows.length <= 1) return;
 
       const row = el.closest('tr') as HTMLTableRowElement;
       if (!row) return;
 
-      onSaveHistory();
-      table.deleteRow(row.rowIndex);
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, getTable, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onSaveHistory('Deleted row');
+      onChangeDocument(doc => deleteRow(doc, tableId, row.rowIndex));
+   }, [getSelectedElement, getTable, getTableId, onSaveHistory, onChangeDocument]);
 
    // Delete a column from the table
    const deleteTableColumn = useCallback(() => {
       const el = getSelectedElement();
       const table = getTable();
-      if (!el || !table || !table.rows[0] || table.rows[0].cells.length <= 1) return;
+      const tableId = getTableId();
+      if (!el || !table || !tableId || !table.rows[0] || table.rows[0].cells.length <= 1) return;
 
       const cell = el.closest('td, th') as HTMLTableCellElement;
       if (!cell) return;
 
-      const colIndex = cell.cellIndex;
-
-      onSaveHistory();
-      for (let i = 0; i < table.rows.length; i++) {
-         if (table.rows[i].cells[colIndex]) {
-            table.rows[i].deleteCell(colIndex);
-         }
-      }
-
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getSelectedElement, getTable, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+      onSaveHistory('Deleted column');
+      onChangeDocument(doc => deleteColumn(doc, tableId, cell.cellIndex));
+   }, [getSelectedElement, getTable, getTableId, onSaveHistory, onChangeDocument]);
 
    // Delete the entire table
    const deleteTable = useCallback(() => {
       const table = getTable();
       if (!table) return;
 
-      onSaveHistory();
-      table.remove();
+      // Remove the container too, so no empty wrapper is left behind
+      const container = table.closest('[data-table-container]') ?? table;
+      const blockId = container.getAttribute(BLOCK_ID_ATTRIBUTE);
+      if (!blockId) return;
+
+      onSaveHistory('Deleted table');
+      onChangeDocument(doc => deleteBlock(doc, blockId));
       onClearSelection();
-      onUpdateContent();
-      onCalculatePageBreaks();
-   }, [getTable, onSaveHistory, onClearSelection, onUpdateContent, onCalculatePageBreaks]);
+   }, [getTable, onSaveHistory, onChangeDocument, onClearSelection]);
 
    // Resize table to new dimensions
    const resizeTable = useCallback((newRows: number, newCols: number) => {
-      const table = getTable();
-      if (!table) return;
+      const tableId = getTableId();
+      if (!tableId) return;
 
-      onSaveHistory();
-
-      const currentRows = table.rows.length;
-      const currentCols = table.rows[0]?.cells.length || 0;
-
-      // Adjust rows
-      if (newRows > currentRows) {
-         // Add rows
-         for (let i = currentRows; i < newRows; i++) {
-            const newRow = table.insertRow();
-            for (let j = 0; j < Math.max(currentCols, newCols); j++) {
-               const cell = newRow.insertCell();
-               cell.style.cssText = 'border: 1px solid #ccc; padding: 8px; min-width: 50px;';
-               cell.setAttribute('contenteditable', 'true');
-               cell.innerHTML = '&nbsp;';
-            }
-         }
-      } else if (newRows < currentRows) {
-         // Remove rows from the end
-         for (let i = currentRows - 1; i >= newRows; i--) {
-            table.deleteRow(i);
-         }
-      }
-
-      // Adjust columns
-      const updatedRows = table.rows.length;
-      for (let i = 0; i < updatedRows; i++) {
-         const row = table.rows[i];
-         const currentColsInRow = row.cells.length;
-
-         if (newCols > currentColsInRow) {
-            // Add columns
-            for (let j = currentColsInRow; j < newCols; j++) {
-               const cell = row.insertCell();
-               cell.style.cssText = 'border: 1px solid #ccc; padding: 8px; min-width: 50px;';
-               cell.setAttribute('contenteditable', 'true');
-               cell.innerHTML = '&nbsp;';
-            }
-         } else if (newCols < currentColsInRow) {
-            // Remove columns from the end
-            for (let j = currentColsInRow - 1; j >= newCols; j--) {
-               row.deleteCell(j);
-            }
-         }
-      }
-
-      onUpdateContent();
-      onCalculatePageBreaks();
+      onSaveHistory('Resized table');
+      onChangeDocument(doc => resize(doc, tableId, newRows, newCols));
       onCloseTableModal?.();
-   }, [getTable, onSaveHistory, onUpdateContent, onCalculatePageBreaks, onCloseTableModal]);
+   }, [getTableId, onSaveHistory, onChangeDocument, onCloseTableModal]);
 
    // Get current table dimensions
    const getTableDimensions = useCallback((): { rows: number; cols: number } | null => {
@@ -1,10 +1,13 @@
 import { useState, useCallback, RefObject } from 'react';
+import { getDocumentBlocks, walkBlocks } from '../blockTree';
+import { createTableBlocks, deleteBlock, replaceBlock } from '../documentEngine';
+import { DocumentChange, EditorDocument } from '../type';
+import type { SaveHistoryOptions } from './useHistory';
 
 export interface UseTableModalOptions {
    shadowRootRef: RefObject<ShadowRoot | null>;
-   onSaveHistory: () => void;
-   onUpdateContent: () => void;
-   onCalculatePageBreaks: () => void;
+   onSaveHistory: (label?: string, options?: SaveHistoryOptions) => void;
+   onChangeDocument: (change: DocumentChange) => void;
 }
 
 export interface TableModalState {
@@ -17,31 +20,27 @@ export const TABLE_GRID_ROWS = 8;
 export const TABLE_GRID_COLS = 10;
 export const TABLE_PLACEHOLDER_ID = 'table-placeholder-marker';
 
-/**
- * Generates HTML for a table with the specified dimensions
- */
-export function generateTableHtml(rows: number, cols: number): string {
-   let tableHtml = '<div data-table-container="true" style="margin: 10px 0;">';
-   tableHtml += '<table style="border-collapse: collapse; width: 100%; table-layout: fixed;">';
-   for (let r = 0; r < rows; r++) {
-      tableHtml += '<tr>';
-      for (let c = 0; c < cols; c++) {
-         tableHtml += '<td style="border: 1px solid #ccc; padding: 8px; word-wrap: break-word; overflow-wrap: break-word;" contenteditable="true">&nbsp;</td>';
+// Table markup now lives in the document engine - re-exported for existing imports
+export { generateTableHtml } from '../documentEngine';
+
+// Block id of the placeholder dropped where the table will go
+const findPlaceholderId = (doc: EditorDocument): string | null => {
+   let id: string | null = null;
+   walkBlocks(getDocumentBlocks(doc), block => {
+      if (block.props.id === TABLE_PLACEHOLDER_ID) {
+         id = block.id;
+         return false;
       }
-      tableHtml += '</tr>';
-   }
-   tableHtml += '</table>';
-   tableHtml += '</div>';
-   return tableHtml;
-}
+   });
+   return id;
+};
 
 /**
  * useTableModal - A hook for managing table creation modal
  *
  * Features:
  * - Manages table creation modal state
- * - Generates table HTML
- * - Inserts tables at placeholder position
+ * - Inserts tables at placeholder position through the DocumentEngine
  * - Handles modal close with cleanup
  *
  * @example
@@ -56,16 +55,14 @@ export function generateTableHtml(rows: number, cols: number): string {
  * } = useTableModal({
  *   shadowRootRef,
  *   onSaveHistory: saveHistory,
- *   onUpdateContent: updateContentFromShadow,
- *   onCalculatePageBreaks: calculatePageBreaksRAF
+ *   onChangeDocument: changeDocument
  * });
  * ```
  */
 export function useTableModal({
    shadowRootRef,
    onSaveHistory,
-   onUpdateContent,
-   onCalculatePageBreaks
+   onChangeDocument
 }: UseTableModalOptions) {
    const [tableModal, setTableModal] = useState<TableModalState>({
       show: false,
@@ -91,35 +88,28 @@ export function useTableModal({
    // Insert table at the placeholder position
    const insertTable = useCallback((rows: number, cols: number) => {
       const shadow = shadowRootRef.current;
-      if (!shadow) return;
-
-      const placeholder = shadow.querySelector(`#${TABLE_PLACEHOLDER_ID}`);
-      if (!placeholder) return;
-
-      const tableHtml = generateTableHtml(rows, cols);
-      onSaveHistory();
-
-      placeholder.insertAdjacentHTML('beforebegin', tableHtml);
-      placeholder.remove();
+      if (!shadow?.querySelector(`#${TABLE_PLACEHOLDER_ID}`)) return;
 
-      onUpdateContent();
-      onCalculatePageBreaks();
+      onSaveHistory('Inserted Table', { coalesceKey: 'insert-table' });
+      onChangeDocument(doc => {
+         const placeholderId = findPlaceholderId(doc);
+         return placeholderId ? replaceBlock(doc, placeholderId, createTableBlocks(rows, cols)) : doc;
+      });
       setTableModal({ show: false, mode: 'create', hover: { rows: 0, cols: 0 } });
-   }, [shadowRootRef, onSaveHistory, onUpdateContent, onCalculatePageBreaks]);
+   }, [shadowRootRef, onSaveHistory, onChangeDocument]);
 
    // Close table modal with cleanup
    const closeModal = useCallback(() => {
       const shadow = shadowRootRef.current;
       // Clean up placeholder if modal is cancelled (only in create mode)
-      if (shadow && tableModal.mode === 'create') {
-         const placeholder = shadow.querySelector(`#${TABLE_PLACEHOLDER_ID}`);
-         if (placeholder) {
-            placeholder.remove();
-            onUpdateContent();
-         }
+      if (shadow && tableModal.mode === 'create' && shadow.querySelector(`#${TABLE_PLACEHOLDER_ID}`)) {
+         onChangeDocument(doc => {
+            const placeholderId = findPlaceholderId(doc);
+            return placeholderId ? deleteBlock(doc, placeholderId) : doc;
+         });
       }
       setTableModal({ show: false, mode: 'create', hover: { rows: 0, cols: 0 } });
-   }, [shadowRootRef, tableModal.mode, onUpdateContent]);
+   }, [shadowRootRef, tableModal.mode, onChangeDocument]);
 
    // Open modal for creating a new table
    const openCreateModal = useCallback(() => {
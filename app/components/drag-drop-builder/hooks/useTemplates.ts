@@ -0,0 +1,75 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DocumentStorageAdapter, DocumentTemplate, EditorDocument } from '../type';
+import { createTemplateFromDocument } from '../templates';
+
+export interface UseTemplatesOptions {
+   adapter: DocumentStorageAdapter | null;
+}
+
+export type NewTemplate = Pick<DocumentTemplate, 'name' | 'description' | 'category'>;
+
+/**
+ * useTemplates - A hook for user-saved document templates
+ *
+ * Features:
+ * - Lists the saved templates (newest first)
+ * - Saves any document as a template, declaring the merge fields it uses
+ * - Deletes saved templates (starter templates are not stored)
+ *
+ * @example
+ * ```tsx
+ * const { templates, saveTemplate, deleteTemplate } = useTemplates({ adapter: storageAdapter });
+ *
+ * saveTemplate(editorDocument, { name: 'Quote', category: 'Finance', description: '' });
+ * ```
+ */
+export function useTemplates({ adapter }: UseTemplatesOptions) {
+   const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+   const templateAdapter = adapter?.templates ?? null;
+
+   const refreshTemplates = useCallback(async () => {
+      const list = templateAdapter ? await templateAdapter.list() : [];
+      setTemplates(list);
+      return list;
+   }, [templateAdapter]);
+
+   useEffect(() => {
+      if (!templateAdapter) return;
+
+      let cancelled = false;
+      templateAdapter.list()
+         .then((list) => {
+            if (!cancelled) setTemplates(list);
+         })
+         .catch((error) => console.error('Failed to load templates', error));
+
+      return () => {
+         cancelled = true;
+      };
+   }, [templateAdapter]);
+
+   const saveTemplate = useCallback(async (document: EditorDocument, data: NewTemplate) => {
+      if (!templateAdapter) return null;
+
+      const created = createTemplateFromDocument(document, data);
+      await templateAdapter.save(created);
+      await refreshTemplates();
+      return created;
+   }, [templateAdapter, refreshTemplates]);
+
+   const deleteTemplate = useCallback(async (id: string) => {
+      if (!templateAdapter) return;
+      await templateAdapter.delete(id);
+      await refreshTemplates();
+   }, [templateAdapter, refreshTemplates]);
+
+   return {
+      templates,
+      isAvailable: !!templateAdapter,
+      refreshTemplates,
+      saveTemplate,
+      deleteTemplate
+   };
+}
+
+export default useTemplates;
@@ -0,0 +1,89 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DocumentVersion, EditorDocument, VersionStorageAdapter } from '../type';
+
+export interface UseVersionsOptions {
+   adapter: VersionStorageAdapter | null;
+   documentId: string;
+   /** Returns the document to snapshot when no explicit document is passed */
+   getDocument: () => EditorDocument;
+}
+
+const generateVersionId = (): string => `ver-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+/**
+ * useVersions - A hook for durable named versions of a document
+ *
+ * Features:
+ * - Lists the versions of the open document (newest first)
+ * - Creates manual or export-triggered versions
+ * - Deletes versions
+ * - Reloads when the open document changes
+ *
+ * @example
+ * ```tsx
+ * const { versions, createVersion, deleteVersion } = useVersions({
+ *   adapter: storage.versions ?? null,
+ *   documentId: editorDocument.id,
+ *   getDocument: () => editorDocument
+ * });
+ *
+ * createVersion('Sent to client v2');
+ * ```
+ */
+export function useVersions({
+   adapter,
+   documentId,
+   getDocument
+}: UseVersionsOptions) {
+   const [versions, setVersions] = useState<DocumentVersion[]>([]);
+   const getDocumentRef = useRef(getDocument);
+
+   useEffect(() => {
+      getDocumentRef.current = getDocument;
+   }, [getDocument]);
+
+   const refreshVersions = useCallback(async () => {
+      const list = adapter ? await adapter.list(documentId) : [];
+      setVersions(list);
+      return list;
+   }, [adapter, documentId]);
+
+   useEffect(() => {
+      refreshVersions().catch((error) => console.error('Failed to load versions', error));
+   }, [refreshVersions]);
+
+   const createVersion = useCallback(async (
+      name: string,
+      trigger: DocumentVersion['trigger'] = 'manual',
+      document: EditorDocument = getDocumentRef.current()
+   ) => {
+      if (!adapter) return null;
+
+      const version: DocumentVersion = {
+         id: generateVersionId(),
+         documentId: document.id,
+         name,
+         createdAt: Date.now(),
+         trigger,
+         document
+      };
+      await adapter.save(version);
+      await refreshVersions();
+      return version;
+   }, [adapter, refreshVersions]);
+
+   const deleteVersion = useCallback(async (versionId: string) => {
+      if (!adapter) return;
+      await adapter.delete(documentId, versionId);
+      await refreshVersions();
+   }, [adapter, documentId, refreshVersions]);
+
+   return {
+      versions,
+      refreshVersions,
+      createVersion,
+      deleteVersion
+   };
+}
+
+export default useVersions;
@@ -0,0 +1,157 @@
+// ============================================
+// HTML SANITIZER - allow-list for raw HTML blocks
+// ============================================
+//
+// Elements and attributes that aren't listed are dropped: scripts, event handlers,
+// `javascript:` links, editor markup. Unknown elements are unwrapped so their text
+// survives; elements that only make sense with scripts are removed with their content.
+
+const ALLOWED_TAGS = new Set([
+   'a', 'abbr', 'address', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption',
+   'center', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em',
+   'figcaption', 'figure', 'font', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i',
+   'iframe', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol', 'p', 'picture', 'pre', 'q', 's',
+   'samp', 'section', 'small', 'source', 'span', 'strike', 'strong', 'sub', 'summary', 'sup', 'table',
+   'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'track', 'u', 'ul', 'var', 'video', 'wbr'
+]);
+
+// Removed together with their content
+const DROPPED_TAGS = new Set([
+   'script', 'noscript', 'style', 'template', 'object', 'embed', 'applet', 'frame', 'frameset',
+   'base', 'link', 'meta', 'title', 'head', 'form', 'input', 'button', 'select', 'textarea', 'svg', 'math'
+]);
+
+const GLOBAL_ATTRIBUTES = new Set([
+   'class', 'id', 'style', 'title', 'dir', 'lang', 'role', 'align', 'valign', 'width', 'height',
+   'bgcolor', 'color', 'border', 'cellpadding', 'cellspacing', 'colspan', 'rowspan', 'nowrap'
+]);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+   a: ['href', 'target', 'rel', 'name'],
+   img: ['src', 'alt', 'srcset', 'sizes', 'loading'],
+   iframe: ['src', 'allow', 'allowfullscreen', 'frameborder', 'loading', 'referrerpolicy', 'scrolling'],
+   video: ['src', 'poster', 'controls', 'autoplay', 'muted', 'loop', 'playsinline', 'preload'],
+   audio: ['src', 'controls', 'autoplay', 'muted', 'loop', 'preload'],
+   source: ['src', 'srcset', 'sizes', 'type', 'media'],
+   track: ['src', 'kind', 'srclang', 'label', 'default'],
+   td: ['headers', 'scope', 'abbr'],
+   th: ['headers', 'scope', 'abbr'],
+   col: ['span'],
+   colgroup: ['span'],
+   ol: ['start', 'type', 'reversed'],
+   ul: ['type'],
+   li: ['value'],
+   time: ['datetime'],
+   font: ['face', 'size'],
+   blockquote: ['cite'],
+   q: ['cite'],
+   del: ['cite', 'datetime'],
+   ins: ['cite', 'datetime'],
+   details: ['open']
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'poster', 'cite']);
+const SRCSET_ATTRIBUTES = new Set(['srcset']);
+
+// Attributes the editor owns - a snippet carrying them would confuse the block tree
+const RESERVED_DATA_ATTRIBUTES = ['data-block-', 'data-element-type', 'data-html-block', 'data-module-', 'data-editable', 'data-empty', 'data-selected', 'data-page-break', 'data-pb-'];
+
+// Framed content can run its own scripts, but never navigate the editor. No allow-same-origin:
+// with allow-scripts it would let a frame from the editor's origin remove its own sandbox
+const IFRAME_SANDBOX = 'allow-scripts allow-popups allow-forms';
+
+// NodeFilter.SHOW_COMMENT - the global only exists in browsers, the sanitizer also runs under jsdom
+const SHOW_COMMENT = 0x80;
+
+const UNSAFE_STYLE = /expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding|@import/i;
+
+export type SanitizeResult = {
+   html: string;
+   removed: string[]; // What was stripped, once each - e.g. '<script>', 'onclick', 'href'
+}
+
+const isSafeUrl = (value: string, tag: string, attribute: string): boolean => {
+   // Browsers ignore whitespace and control characters inside the scheme
+   const url = Array.from(value).filter(char => char.charCodeAt(0) > 32).join('').toLowerCase();
+   const scheme = url.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+   if (!scheme) return tag !== 'iframe'; // Relative links and anchors - frames must be absolute, so they never share the editor's origin
+   if (['http', 'https', 'mailto', 'tel'].includes(scheme)) return attribute !== 'src' || scheme.startsWith('http');
+   return scheme === 'data' && tag === 'img' && /^data:image\/(png|gif|jpe?g|webp|avif|bmp);/.test(url);
+};
+
+const isAllowedAttribute = (tag: string, name: string): boolean => {
+   if (name.startsWith('aria-')) return true;
+   if (name.startsWith('data-')) return !RESERVED_DATA_ATTRIBUTES.some(prefix => name.startsWith(prefix));
+   return GLOBAL_ATTRIBUTES.has(name) || (TAG_ATTRIBUTES[tag]?.includes(name) ?? false);
+};
+
+/**
+ * Sanitizes markup for a raw HTML block. Parses into an inert template, so nothing
+ * loads or runs while sanitizing.
+ *
+ * @example
+ * ```ts
+ * sanitizeHtml('<p onclick="steal()">Hi</p><script>steal()</script>');
+ * // { html: '<p>Hi</p>', removed: ['onclick', '<script>'] }
+ * ```
+ */
+export const sanitizeHtml = (html: string, ownerDocument: Document = window.document): SanitizeResult => {
+   const template = ownerDocument.createElement('template');
+   template.innerHTML = html;
+   const removed = new Set<string>();
+
+   const sanitizeElement = (element: Element) => {
+      const tag = element.tagName.toLowerCase();
+
+      if (DROPPED_TAGS.has(tag)) {
+         removed.add(`<${tag}>`);
+         element.remove();
+         return;
+      }
+
+      // Children first - unwrapping moves them up, past this element's turn
+      Array.from(element.children).forEach(sanitizeElement);
+
+      if (!ALLOWED_TAGS.has(tag)) {
+         removed.add(`<${tag}>`);
+         element.replaceWith(...Array.from(element.childNodes));
+         return;
+      }
+
+      Array.from(element.attributes).forEach(({ name, value }) => {
+         const isAllowed = isAllowedAttribute(tag, name)
+            && (!URL_ATTRIBUTES.has(name) || isSafeUrl(value, tag, name))
+            && (!SRCSET_ATTRIBUTES.has(name) || value.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0] ?? '', tag, 'src')))
+            && (name !== 'style' || !UNSAFE_STYLE.test(value));
+         if (!isAllowed) {
+            removed.add(name);
+            element.removeAttribute(name);
+         }
+      });
+
+      if (tag === 'iframe') element.setAttribute('sandbox', IFRAME_SANDBOX);
+      if (tag === 'a' && element.getAttribute('target') === '_blank') element.setAttribute('rel', 'noopener noreferrer');
+   };
+
+   Array.from(template.content.children).forEach(sanitizeElement);
+
+   // Comments can hide conditional markup for old mail clients - not worth keeping
+   const walker = ownerDocument.createTreeWalker(template.content, SHOW_COMMENT);
+   const comments: Node[] = [];
+   while (walker.nextNode()) comments.push(walker.currentNode);
+   comments.forEach(comment => comment.parentNode?.removeChild(comment));
+
+   return { html: template.innerHTML.trim(), removed: Array.from(removed) };
+};
+
+/**
+ * Sanitizes every raw HTML block under `root` in place. Block markup can arrive
+ * without passing the settings panel (storage, `value`, imports, modules), so
+ * render and export paths run this before the markup is shown or written out.
+ */
+export const sanitizeHtmlBlockElements = (root: ParentNode) => {
+   root.querySelectorAll('[data-html-block]').forEach(el => {
+      const { html } = sanitizeHtml(el.innerHTML, el.ownerDocument);
+      if (html !== el.innerHTML) el.innerHTML = html;
+   });
+};
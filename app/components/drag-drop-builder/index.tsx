@@ -3,25 +3,60 @@
 import {
    Download,
    Eye,
+   FolderOpen,
    GripVertical,
+   History,
+   LayoutTemplate,
+   Mail,
    Monitor,
    Redo2,
+   Save,
+   ScrollText,
    Smartphone,
    Tablet,
    Undo2,
    Upload
 } from "lucide-react";
 import { SettingsPanel } from "./SettingsSidebar";
-import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo, forwardRef, useImperativeHandle } from "react";
 import {
    Block,
+   DocumentChange,
+   DocumentModule,
+   DocumentTemplate,
+   DocumentVersion,
+   DragAndDropBuilderHandle,
+   DragAndDropBuilderProps,
    EditorDocument,
    Height,
+   NotePlacement,
    Width
 } from "./type";
-import { PAGE_PRESETS } from "./data";
-import { MergeFieldData } from "./utils";
+import { BLOCK_PROPS_ATTRIBUTE, BLOCK_TYPE_ATTRIBUTE, getBlockDefinition, getBlockHtml, parseBlockProps } from "./blockRegistry";
+import { CODE_ATTRIBUTE, readCode, SIGNATURE_PAD_ATTRIBUTE } from "./blocks";
+import { FOOTNOTE_ATTRIBUTE, FOOTNOTE_SELECTOR } from "./footnotes";
+import { createInlineMath, MATH_ATTRIBUTE } from "./math";
+import { MergeFieldData, resolveMergeFields } from "./utils";
+import {
+   BLOCK_ID_ATTRIBUTE,
+   createEditorDocument,
+   getBlockElement,
+   withDocumentContent
+} from "./blockTree";
+import { createBlocks, insertBlock as insertDocumentBlock, updateBlockProps, updateBlockPropValues } from "./documentEngine";
+import {
+   createModuleThumbnail,
+   getModuleMarkup,
+   isModuleSnapshot,
+   MODULE_ID_ATTRIBUTE,
+   MODULE_VERSION_ATTRIBUTE,
+   syncModuleInstances
+} from "./moduleLibrary";
+import { migrateDocument } from "./migrations";
+import { createDocumentFromTemplate, STARTER_TEMPLATES } from "./templates";
 import RichTextToolbar from "./RichEditorToolbar";
+import SignaturePad from "./SignaturePad";
+import MathEditor from "./MathEditor";
 import {
    usePagination,
    usePasteHandler,
@@ -34,6 +69,15 @@ import {
    useMergeFields,
    useElementInfo,
    useEditorRenderer,
+   useDocumentStorage,
+   SaveHistoryOptions,
+   useVersions,
+   useModules,
+   useTemplates,
+   useCountdownTicker,
+   useAnchorLinks,
+   NewTemplate,
+   generateTableHtml,
    MergeFieldDefinition,
    TABLE_GRID_ROWS,
    TABLE_GRID_COLS,
@@ -41,66 +85,190 @@ import {
 } from "./hooks";
 import { ElementsSidebar } from "./ElementsSidebar";
 import { PageSizeSettings } from "./PageSizeSettings";
+import { SaveStatusIndicator } from "./SaveStatusIndicator";
+import { DocumentLibrary } from "./DocumentLibrary";
+import { VersionsPanel } from "./VersionsPanel";
+import { HistoryPanel } from "./HistoryPanel";
+import { SaveModuleDialog } from "./SaveModuleDialog";
+import { TemplateGallery } from "./TemplateGallery";
+import { createIndexedDbAdapter } from "./storage";
 
-const generateDocId = () => `doc-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-const defaultPagePreset = PAGE_PRESETS.find(p => p.default)!;
+const DEFAULT_USER = {
+   name: 'John Doe',
+   email: 'john.doe@example.com',
+   id: '1',
+   company_name: 'Example Company'
+};
 
-export default function DragAndDropBuilder({
-   user = {
-      name: 'John Doe',
-      email: 'john.doe@example.com',
-      id: '1',
-      company_name: 'Example Company'
-   }
-}: {
-   user?: {
-      name: string
-      email: string
-      id: string,
-      company_name: string
-   };
-}) {
+const DragAndDropBuilder = forwardRef<DragAndDropBuilderHandle, DragAndDropBuilderProps>(function DragAndDropBuilder({
+   user = DEFAULT_USER,
+   value,
+   defaultValue,
+   onChange,
+   onSave,
+   onExport,
+   storage,
+   autosaveDelay = 1000
+}, ref) {
    // Single document with continuous content (MS Word-like)
-   const [editorDocument, setEditorDocument] = useState<EditorDocument>(() => ({
-      id: generateDocId(),
-      name: 'Untitled Document',
-      pageWidth: defaultPagePreset.width,
-      pageHeight: defaultPagePreset.height,
-      content: /*html*/`<div class="content-flow" data-container="true"></div>`,
-      pageFormat: defaultPagePreset?.key,
-   }));
+   const [editorDocument, setEditorDocument] = useState<EditorDocument>(() => migrateDocument(value ?? defaultValue ?? {}));
+
+   // Controlled mode - documents adopted from `value` are not reported back through onChange
+   const [prevValue, setPrevValue] = useState<EditorDocument | undefined>(value);
+   const [adoptedDocument, setAdoptedDocument] = useState<EditorDocument | null>(null);
+   const emittedDocumentRef = useRef<EditorDocument>(editorDocument);
+   const documentRef = useRef<EditorDocument>(editorDocument);
+   const onChangeRef = useRef(onChange);
 
    // Calculated page count based on content height
    const [pageCount, setPageCount] = useState(1);
 
    // Selection state
-   const [selectedXPath, setSelectedXPath] = useState<string | null>(null);
+   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
    // const [breakpoint, setBreakpoint] = useState<Breakpoint>('desktop');
    const [draggedComponent, setDraggedComponent] = useState<Block | null>(null);
    const [isPreviewMode, setIsPreviewMode] = useState<boolean>(false);
    const [editorKey, setEditorKey] = useState<number>(0);
 
-   // History for undo/redo - using useHistory hook
-   const {
-      saveHistory,
-      undo,
-      redo,
-      history
-   } = useHistory<EditorDocument>(editorDocument, setEditorDocument, { maxHistory: 10 });
-
    // Refs
    const containerRef = useRef<HTMLDivElement | null>(null);
    const shadowRootRef = useRef<ShadowRoot | null>(null);
    const draggedElementRef = useRef<HTMLElement | null>(null);
    const [shadowReady, setShadowReady] = useState(false);
 
+   // Current document including edits not committed to state yet (e.g. the element being typed in)
+   const readDocument = useCallback((): EditorDocument => {
+      const contentFlow = shadowRootRef.current?.querySelector('.content-flow');
+      if (!contentFlow || isPreviewMode) return documentRef.current;
+      return withDocumentContent(documentRef.current, contentFlow.outerHTML);
+   }, [isPreviewMode]);
+
+   // Persistence - IndexedDB unless the host passes its own adapter (or null)
+   const storageAdapter = useMemo(() => storage === undefined ? createIndexedDbAdapter() : storage, [storage]);
+   const [showDocumentLibrary, setShowDocumentLibrary] = useState(false);
+
+   const {
+      status: saveStatus,
+      lastSavedAt,
+      documents: storedDocuments,
+      scheduleSave,
+      saveNow,
+      resetStatus: resetSaveStatus,
+      refreshDocuments,
+      loadDocument,
+      deleteDocument,
+      renameDocument
+   } = useDocumentStorage({
+      adapter: storageAdapter,
+      getDocument: readDocument,
+      autosaveDelay
+   });
+
+   // Right-hand panels share the space next to the canvas
+   const [sidePanel, setSidePanel] = useState<'versions' | 'history' | null>(null);
+
+   // Named versions - stored next to the documents when the adapter supports it
+   const versionAdapter = storageAdapter?.versions ?? null;
+   const {
+      versions,
+      createVersion,
+      deleteVersion
+   } = useVersions({
+      adapter: versionAdapter,
+      documentId: editorDocument.id,
+      getDocument: readDocument
+   });
+
+   // Module library - stored next to the documents when the adapter supports it
+   const {
+      modules,
+      isAvailable: modulesAvailable,
+      createModule,
+      updateModule,
+      deleteModule
+   } = useModules({
+      adapter: storageAdapter,
+      currentDocumentId: editorDocument.id
+   });
+   const [moduleDraft, setModuleDraft] = useState<{ blockId: string; html: string; snapshot: string } | null>(null);
+   const modulesRef = useRef(modules);
+
+   // Template gallery - starter templates plus the ones saved through the adapter
+   const {
+      templates: savedTemplates,
+      isAvailable: templatesAvailable,
+      saveTemplate,
+      deleteTemplate
+   } = useTemplates({ adapter: storageAdapter });
+   const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+   const galleryTemplates = useMemo(() => [...STARTER_TEMPLATES, ...savedTemplates], [savedTemplates]);
+
+   // History for undo/redo - using useHistory hook
+   const {
+      saveHistory: recordHistory,
+      undo: undoHistory,
+      redo: redoHistory,
+      jumpTo: jumpToHistory,
+      canUndo,
+      canRedo,
+      clearHistory,
+      history
+   } = useHistory<EditorDocument>(editorDocument, setEditorDocument, { maxHistory: 200 });
+
+   // Adopt documents pushed in through `value` (echoes of our own onChange are already current).
+   // The history starts over from them - undo must not bring back what the host replaced
+   if (value !== prevValue) {
+      setPrevValue(value);
+      if (value && value !== editorDocument) {
+         const next = migrateDocument(value);
+         clearHistory(next);
+         setAdoptedDocument(next);
+         setEditorDocument(next);
+         setSelectedBlockId(null);
+      }
+   }
+
+   // Linked module copies follow their master - re-rendered when the library changes.
+   // The sync isn't an undo step: the history starts over from the synced document
+   const [syncedModules, setSyncedModules] = useState(modules);
+   if (modules !== syncedModules) {
+      setSyncedModules(modules);
+      const synced = syncModuleInstances(editorDocument, modules);
+      if (synced !== editorDocument) {
+         clearHistory(synced);
+         setEditorDocument(synced);
+      }
+   }
+
+   // Every history entry is a change worth persisting
+   const saveHistory = useCallback((label?: string, options?: SaveHistoryOptions) => {
+      recordHistory(label, options);
+      scheduleSave();
+   }, [recordHistory, scheduleSave]);
+
+   const undo = useCallback(() => {
+      undoHistory();
+      scheduleSave();
+   }, [undoHistory, scheduleSave]);
+
+   const redo = useCallback(() => {
+      redoHistory();
+      scheduleSave();
+   }, [redoHistory, scheduleSave]);
+
+   const jumpTo = useCallback((index: number) => {
+      jumpToHistory(index);
+      scheduleSave();
+   }, [jumpToHistory, scheduleSave]);
+
    // Merge field data - all available data that can be merged
    const mergeFieldData: MergeFieldData = useMemo(() => ({
       user,
       client: user
    }), [user]);
 
-   // Available merge field definitions for autocomplete
+   // Available merge field definitions for autocomplete - defaults plus the ones the document declares
+   const documentMergeFields = editorDocument.mergeFields;
    const availableMergeFields: MergeFieldDefinition[] = useMemo(() => [
       { path: 'user.name', label: 'User Name', category: 'User' },
       { path: 'user.email', label: 'User Email', category: 'User' },
@@ -110,7 +278,10 @@ export default function DragAndDropBuilder({
       { path: 'client.email', label: 'Client Email', category: 'Client' },
       { path: 'client.company_name', label: 'Client Company Name', category: 'Client' },
       { path: 'client.id', label: 'Client ID', category: 'Client' },
-   ], []);
+      ...(documentMergeFields ?? [])
+   ].filter((field, index, fields) =>
+      fields.findIndex(other => other.path === field.path) === index
+   ), [documentMergeFields]);
 
    // Callback ref for shadow DOM attachment
    const setContainerRef = useCallback((node: HTMLDivElement | null) => {
@@ -131,10 +302,17 @@ export default function DragAndDropBuilder({
 
    // Change page size
    const changePageSize = useCallback(({ width, height }: { width: Width; height: Height }) => {
-      saveHistory();
+      saveHistory('Changed page size');
       setEditorDocument(prev => ({ ...prev, pageWidth: width, pageHeight: height }));
    }, [saveHistory]);
 
+   // Footnotes at the bottom of their page or endnotes at the document end
+   const changeNotePlacement = useCallback((notePlacement: NotePlacement) => {
+      if (notePlacement === (documentRef.current.notePlacement ?? 'footnotes')) return;
+      saveHistory('Changed footnote placement');
+      setEditorDocument(prev => ({ ...prev, notePlacement }));
+   }, [saveHistory]);
+
    // Extract content from shadow DOM and save to state
    const updateContentFromShadow = useCallback(() => {
       const shadow = shadowRootRef.current;
@@ -143,24 +321,17 @@ export default function DragAndDropBuilder({
       const contentFlow = shadow.querySelector('.content-flow');
       if (!contentFlow) return;
 
-      const clone = contentFlow.cloneNode(true) as HTMLElement;
-
-      // Clean editor attributes
-      clone.querySelectorAll('[data-xpath]').forEach(el => {
-         el.removeAttribute('data-xpath');
-         el.removeAttribute('data-selected');
-         el.removeAttribute('draggable');
-      });
-      clone.querySelectorAll('[contenteditable]').forEach(el => {
-         el.removeAttribute('contenteditable');
-      });
-      clone.querySelectorAll('.element-toolbar').forEach(el => el.remove());
-      clone.querySelectorAll('.drop-indicator').forEach(el => el.remove());
-      clone.querySelectorAll('.page-break-spacer').forEach(el => el.remove());
-
-      setEditorDocument(prev => ({ ...prev, content: clone.outerHTML }));
+      // Editor-only markup is stripped while building the block tree
+      const html = contentFlow.outerHTML;
+      setEditorDocument(prev => withDocumentContent(prev, html));
    }, []);
 
+   // Apply a DocumentEngine operation. The first change of a batch starts from the live
+   // document, so edits not committed to state yet (typing, live style previews) are kept.
+   const changeDocument = useCallback((change: DocumentChange) => {
+      setEditorDocument(prev => change(prev === documentRef.current ? readDocument() : prev));
+   }, [readDocument]);
+
    // Pagination hook - calculates page breaks and renders overlays
    const { calculatePageBreaksRAF } = usePagination({
       shadowRootRef,
@@ -168,7 +339,8 @@ export default function DragAndDropBuilder({
          pageHeight: editorDocument?.pageHeight?.value ?? 0,
          pageHeightUnit: editorDocument?.pageHeight?.unit ?? 'px',
          padding: 40,
-         gap: 20
+         gap: 20,
+         notePlacement: editorDocument.notePlacement
       },
       onPageCountChange: setPageCount
    });
@@ -177,7 +349,7 @@ export default function DragAndDropBuilder({
    const { setupPasteHandlers } = usePasteHandler({
       shadowRootRef,
       onAfterPaste: useCallback(() => {
-         saveHistory();
+         saveHistory('Pasted content');
          updateContentFromShadow();
          calculatePageBreaksRAF();
       }, [saveHistory, updateContentFromShadow, calculatePageBreaksRAF])
@@ -195,8 +367,7 @@ export default function DragAndDropBuilder({
    } = useTableModal({
       shadowRootRef,
       onSaveHistory: saveHistory,
-      onUpdateContent: updateContentFromShadow,
-      onCalculatePageBreaks: calculatePageBreaksRAF
+      onChangeDocument: changeDocument
    });
 
    // Destructure table modal state for easier access
@@ -209,6 +380,7 @@ export default function DragAndDropBuilder({
       updateContent,
       updateStyle,
       updateAttribute,
+      updateBlockSettings,
       updateInlineLink,
       removeInlineLink,
       updateCustomCss,
@@ -216,11 +388,11 @@ export default function DragAndDropBuilder({
       duplicateElement
    } = useElementManipulation({
       shadowRootRef,
-      selectedXPath,
+      selectedBlockId,
       onSaveHistory: saveHistory,
       onUpdateContent: updateContentFromShadow,
-      onCalculatePageBreaks: calculatePageBreaksRAF,
-      onClearSelection: () => setSelectedXPath(null)
+      onChangeDocument: changeDocument,
+      onClearSelection: () => setSelectedBlockId(null)
    });
 
    // Table manipulation hook
@@ -233,30 +405,29 @@ export default function DragAndDropBuilder({
       resizeTable
    } = useTableManipulation({
       shadowRootRef,
-      selectedXPath,
+      selectedBlockId,
       onSaveHistory: saveHistory,
-      onUpdateContent: updateContentFromShadow,
-      onCalculatePageBreaks: calculatePageBreaksRAF,
-      onClearSelection: () => setSelectedXPath(null),
+      onChangeDocument: changeDocument,
+      onClearSelection: () => setSelectedBlockId(null),
       onCloseTableModal: closeTableModal
    });
 
    // Rich text formatting hook
-   const { handleFormat } = useRichText({
+   const { handleFormat, getSelection } = useRichText({
       shadowRootRef,
-      selectedXPath,
+      selectedBlockId,
       onSaveHistory: saveHistory,
       onUpdateContent: updateContentFromShadow,
       onCalculatePageBreaks: calculatePageBreaksRAF
    });
 
    // Export hook
-   const { exportPDF, importHTML } = useExport({
+   const { exportPDF, exportHTML, exportEmail, importHTML } = useExport({
       shadowRootRef,
       mergeFieldData,
       onSaveHistory: saveHistory,
-      onSetContent: (content) => setEditorDocument(prev => ({ ...prev, content })),
-      onClearSelection: () => setSelectedXPath(null)
+      onSetContent: (content) => setEditorDocument(prev => withDocumentContent(prev, content)),
+      onClearSelection: () => setSelectedBlockId(null)
    });
 
    // Merge fields autocomplete hook
@@ -277,7 +448,7 @@ export default function DragAndDropBuilder({
    // Element info hook
    const { getElementInfo } = useElementInfo({
       shadowRootRef,
-      selectedXPath
+      selectedBlockId
    });
 
    // Editor renderer hook - main render effect (SHADOW DOM RENDERING)
@@ -286,6 +457,7 @@ export default function DragAndDropBuilder({
       shadowReady,
       editorDocument,
       isPreviewMode,
+      mergeFieldData,
       draggedComponent,
       draggedElementRef,
       checkMergeFieldTriggerRef,
@@ -294,13 +466,141 @@ export default function DragAndDropBuilder({
       onSaveHistory: saveHistory,
       onUpdateContent: updateContentFromShadow,
       onCalculatePageBreaks: calculatePageBreaksRAF,
-      onSetSelectedXPath: setSelectedXPath,
+      onSetSelectedBlockId: setSelectedBlockId,
       onSetDraggedComponent: setDraggedComponent,
       onSetTableModalMode: setTableModalMode,
       onShowTableModal: setShowTableModal,
       setupPasteHandlers
    });
 
+   // Countdown blocks tick in preview only - in edit mode the content is the saved snapshot
+   useCountdownTicker({ shadowRootRef, enabled: shadowReady && isPreviewMode });
+   useAnchorLinks({ shadowRootRef, enabled: shadowReady && isPreviewMode });
+
+   // Signing - in preview a click on a signature line opens the pad for that block
+   const [signingBlock, setSigningBlock] = useState<{ id: string; signerName: string } | null>(null);
+
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!shadowReady || !isPreviewMode || !shadow) return;
+
+      const handleClick = (e: Event) => {
+         const pad = (e.target as Element).closest?.(`[${SIGNATURE_PAD_ATTRIBUTE}]`);
+         const block = pad?.closest(`[${BLOCK_TYPE_ATTRIBUTE}="signature"]`);
+         const id = block?.getAttribute(BLOCK_ID_ATTRIBUTE);
+         if (!block || !id) return;
+
+         const { signerName } = parseBlockProps(block.getAttribute(BLOCK_PROPS_ATTRIBUTE));
+         setSigningBlock({ id, signerName: resolveMergeFields(String(signerName ?? ''), mergeFieldData) });
+      };
+
+      shadow.addEventListener('click', handleClick);
+      return () => shadow.removeEventListener('click', handleClick);
+   }, [shadowReady, isPreviewMode, mergeFieldData]);
+
+   const handleSign = useCallback((image: string) => {
+      if (!signingBlock) return;
+      saveHistory('Signed document');
+      changeDocument(doc => updateBlockPropValues(doc, signingBlock.id, {
+         signature: image,
+         signedDate: new Date().toLocaleDateString()
+      }));
+      setSigningBlock(null);
+   }, [signingBlock, saveHistory, changeDocument]);
+
+   // Inline equations - the toolbar inserts one at the caret, a double-click edits it
+   const [editingMath, setEditingMath] = useState<string | null>(null); // LaTeX in the modal
+   const mathTargetRef = useRef<{ element: Element | null; range: Range | null }>({ element: null, range: null });
+
+   const openMathEditor = useCallback(() => {
+      // The modal takes the focus - keep the caret to insert at
+      const selection = getSelection();
+      const range = selection && selection.rangeCount ? selection.getRangeAt(0).cloneRange() : null;
+      mathTargetRef.current = { element: null, range };
+      setEditingMath('');
+   }, [getSelection]);
+
+   const handleSaveMath = useCallback((latex: string) => {
+      const { element, range } = mathTargetRef.current;
+      mathTargetRef.current = { element: null, range: null };
+      setEditingMath(null);
+
+      if (!element) {
+         const selection = getSelection();
+         if (!latex || !range || !selection) return;
+         selection.removeAllRanges();
+         selection.addRange(range);
+         handleFormat('insertMath', latex);
+         return;
+      }
+
+      if (latex === element.getAttribute(MATH_ATTRIBUTE)) return;
+      saveHistory(latex ? 'Edited equation' : 'Removed equation');
+      if (latex) {
+         const style = window.getComputedStyle(element.parentElement ?? element);
+         element.outerHTML = createInlineMath(latex, { size: parseFloat(style.fontSize) || 16, color: style.color });
+      } else {
+         element.remove();
+      }
+      updateContentFromShadow();
+      calculatePageBreaksRAF();
+   }, [getSelection, handleFormat, saveHistory, updateContentFromShadow, calculatePageBreaksRAF]);
+
+   // Footnotes and inline equations - in edit mode a double-click on a reference edits its note,
+   // clearing the text removes it; a double-click on an equation opens its LaTeX
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!shadowReady || isPreviewMode || !shadow) return;
+
+      const handleDoubleClick = (e: Event) => {
+         const equation = (e.target as Element).closest?.(`[${MATH_ATTRIBUTE}]`);
+         if (equation) {
+            e.preventDefault();
+            mathTargetRef.current = { element: equation, range: null };
+            setEditingMath(equation.getAttribute(MATH_ATTRIBUTE) ?? '');
+            return;
+         }
+
+         const reference = (e.target as Element).closest?.(FOOTNOTE_SELECTOR);
+         if (!reference) return;
+
+         e.preventDefault();
+         const text = prompt('Footnote text (clear it to remove the footnote):', reference.getAttribute(FOOTNOTE_ATTRIBUTE) ?? '');
+         if (text === null || text.trim() === reference.getAttribute(FOOTNOTE_ATTRIBUTE)) return;
+
+         if (text.trim()) reference.setAttribute(FOOTNOTE_ATTRIBUTE, text.trim());
+         else reference.remove();
+         saveHistory(text.trim() ? 'Edited footnote' : 'Removed footnote');
+         updateContentFromShadow();
+         calculatePageBreaksRAF();
+      };
+
+      shadow.addEventListener('dblclick', handleDoubleClick);
+      return () => shadow.removeEventListener('dblclick', handleDoubleClick);
+   }, [shadowReady, isPreviewMode, saveHistory, updateContentFromShadow, calculatePageBreaksRAF]);
+
+   // Code blocks - the code typed in place becomes the block's code when it loses focus,
+   // which renders it highlighted again
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!shadowReady || isPreviewMode || !shadow) return;
+
+      const handleFocusOut = (e: Event) => {
+         const pre = (e.target as Element).closest?.(`[${CODE_ATTRIBUTE}]`);
+         const block = pre?.closest(`[${BLOCK_TYPE_ATTRIBUTE}="code"]`);
+         const id = block?.getAttribute(BLOCK_ID_ATTRIBUTE);
+         if (!pre || !block || !id) return;
+
+         const code = readCode(pre);
+         if (code === String(parseBlockProps(block.getAttribute(BLOCK_PROPS_ATTRIBUTE)).code ?? '')) return;
+         saveHistory('Edited code');
+         changeDocument(doc => updateBlockPropValues(doc, id, { code }));
+      };
+
+      shadow.addEventListener('focusout', handleFocusOut);
+      return () => shadow.removeEventListener('focusout', handleFocusOut);
+   }, [shadowReady, isPreviewMode, saveHistory, changeDocument]);
+
    // Update selection highlight
    useEffect(() => {
       const shadow = shadowRootRef.current;
@@ -308,13 +608,13 @@ export default function DragAndDropBuilder({
 
       shadow.querySelectorAll('[data-selected]').forEach(el => el.removeAttribute('data-selected'));
 
-      if (selectedXPath) {
-         const el = shadow.querySelector(`[data-xpath="${selectedXPath}"]`);
+      if (selectedBlockId) {
+         const el = getBlockElement(shadow, selectedBlockId);
          if (el) {
             el.setAttribute('data-selected', 'true');
          }
       }
-   }, [selectedXPath, editorDocument]);
+   }, [selectedBlockId, editorDocument]);
 
    const handleSidebarDragStart = (component: Block): void => {
       setDraggedComponent(component);
@@ -329,6 +629,316 @@ export default function DragAndDropBuilder({
       }
    };
 
+   useEffect(() => {
+      onChangeRef.current = onChange;
+   }, [onChange]);
+
+   useEffect(() => {
+      modulesRef.current = modules;
+   }, [modules]);
+
+   // Report edits to the host
+   useEffect(() => {
+      documentRef.current = editorDocument;
+      if (editorDocument === emittedDocumentRef.current) return;
+      emittedDocumentRef.current = editorDocument;
+      if (editorDocument !== adoptedDocument) onChangeRef.current?.(editorDocument);
+   }, [editorDocument, adoptedDocument]);
+
+   const handleSave = useCallback(() => {
+      saveNow();
+      onSave?.(readDocument());
+   }, [saveNow, onSave, readDocument]);
+
+   // Replaces the open document - history and save status belong to the previous one
+   const openDocument = useCallback((document: EditorDocument) => {
+      const next = syncModuleInstances(migrateDocument(document), modulesRef.current);
+      clearHistory(next);
+      resetSaveStatus();
+      setSelectedBlockId(null);
+      setEditorDocument(next);
+   }, [clearHistory, resetSaveStatus]);
+
+   // Reopen the most recently edited document when the host didn't pass one
+   const hasInitialDocumentRef = useRef(Boolean(value ?? defaultValue));
+   useEffect(() => {
+      if (!storageAdapter || hasInitialDocumentRef.current) return;
+
+      let cancelled = false;
+      storageAdapter.list()
+         .then(async (list) => {
+            const latest = list[0] ? await storageAdapter.load(list[0].id) : null;
+            if (latest && !cancelled) openDocument(latest);
+         })
+         .catch((error) => console.error('Failed to restore the last document', error));
+
+      return () => {
+         cancelled = true;
+      };
+   }, [storageAdapter, openDocument]);
+
+   const handleOpenDocumentLibrary = useCallback(() => {
+      refreshDocuments().catch((error) => console.error('Failed to list documents', error));
+      setShowDocumentLibrary(true);
+   }, [refreshDocuments]);
+
+   const handleOpenStoredDocument = useCallback(async (id: string) => {
+      setShowDocumentLibrary(false);
+      if (id === documentRef.current.id) return;
+
+      try {
+         if (saveStatus === 'unsaved') await saveNow();
+         const doc = await loadDocument(id);
+         if (doc) openDocument(doc);
+      } catch (error) {
+         console.error('Failed to open document', error);
+      }
+   }, [saveStatus, saveNow, loadDocument, openDocument]);
+
+   const handleCreateDocument = useCallback(async () => {
+      setShowDocumentLibrary(false);
+      setShowTemplateGallery(false);
+      try {
+         if (saveStatus === 'unsaved') await saveNow();
+         const doc = createEditorDocument();
+         openDocument(doc);
+         await storageAdapter?.save(doc);
+      } catch (error) {
+         console.error('Failed to create document', error);
+      }
+   }, [saveStatus, saveNow, openDocument, storageAdapter]);
+
+   const handleOpenTemplateGallery = useCallback(() => {
+      setShowDocumentLibrary(false);
+      setShowTemplateGallery(true);
+   }, []);
+
+   const handleCreateFromTemplate = useCallback(async (template: DocumentTemplate) => {
+      setShowTemplateGallery(false);
+      try {
+         if (saveStatus === 'unsaved') await saveNow();
+         const doc = createDocumentFromTemplate(template);
+         openDocument(doc);
+         await storageAdapter?.save(doc);
+      } catch (error) {
+         console.error('Failed to create document from template', error);
+      }
+   }, [saveStatus, saveNow, openDocument, storageAdapter]);
+
+   const handleSaveTemplate = useCallback(async (data: NewTemplate) => {
+      try {
+         await saveTemplate(readDocument(), data);
+      } catch (error) {
+         console.error('Failed to save template', error);
+      }
+   }, [saveTemplate, readDocument]);
+
+   const handleDeleteTemplate = useCallback(async (id: string) => {
+      try {
+         await deleteTemplate(id);
+      } catch (error) {
+         console.error('Failed to delete template', error);
+      }
+   }, [deleteTemplate]);
+
+   const handleDeleteStoredDocument = useCallback(async (id: string) => {
+      try {
+         await deleteDocument(id);
+         if (id === documentRef.current.id) openDocument(createEditorDocument());
+      } catch (error) {
+         console.error('Failed to delete document', error);
+      }
+   }, [deleteDocument, openDocument]);
+
+   const handleRenameStoredDocument = useCallback(async (id: string, name: string) => {
+      if (id === documentRef.current.id) {
+         setEditorDocument(prev => ({ ...prev, name }));
+      }
+      try {
+         await renameDocument(id, name);
+      } catch (error) {
+         console.error('Failed to rename document', error);
+      }
+   }, [renameDocument]);
+
+   // Every export is kept as a version, so what was sent can always be looked up
+   const createExportVersion = useCallback((doc: EditorDocument, format: 'PDF' | 'HTML' | 'Email') => {
+      createVersion(`Exported as ${format}`, 'export', doc)
+         .catch((error) => console.error('Failed to create export version', error));
+   }, [createVersion]);
+
+   const handleExportPDF = useCallback(async () => {
+      const doc = readDocument();
+      await exportPDF(doc);
+      createExportVersion(doc, 'PDF');
+      onExport?.(doc, 'pdf');
+   }, [readDocument, exportPDF, createExportVersion, onExport]);
+
+   const handleExportHTML = useCallback(() => {
+      const doc = readDocument();
+      exportHTML(doc);
+      createExportVersion(doc, 'HTML');
+      onExport?.(doc, 'html');
+   }, [readDocument, exportHTML, createExportVersion, onExport]);
+
+   const handleExportEmail = useCallback(() => {
+      const doc = readDocument();
+      exportEmail(doc);
+      createExportVersion(doc, 'Email');
+      onExport?.(doc, 'email');
+   }, [readDocument, exportEmail, createExportVersion, onExport]);
+
+   const handleCreateVersion = useCallback((name: string) => {
+      createVersion(name).catch((error) => console.error('Failed to create version', error));
+   }, [createVersion]);
+
+   // Restoring is a regular (undoable) edit of the open document
+   const handleRestoreVersion = useCallback((version: DocumentVersion) => {
+      saveHistory(`Restored "${version.name}"`);
+      setSelectedBlockId(null);
+      setEditorDocument(prev => migrateDocument({ ...version.document, id: prev.id, name: prev.name }));
+   }, [saveHistory]);
+
+   const handleDeleteVersion = useCallback((version: DocumentVersion) => {
+      deleteVersion(version.id).catch((error) => console.error('Failed to delete version', error));
+   }, [deleteVersion]);
+
+   const handleOpenSaveModule = useCallback(() => {
+      const shadow = shadowRootRef.current;
+      const el = shadow && selectedBlockId ? getBlockElement(shadow, selectedBlockId) : null;
+      if (!el || !selectedBlockId) return;
+
+      setModuleDraft({ blockId: selectedBlockId, html: getModuleMarkup(el), snapshot: createModuleThumbnail(el) });
+   }, [selectedBlockId]);
+
+   // The saved element becomes the first linked copy of the module
+   const handleSaveModule = useCallback(async ({ name, thumbnail, linked }: Pick<DocumentModule, 'name' | 'thumbnail' | 'linked'>) => {
+      if (!moduleDraft) return;
+      setModuleDraft(null);
+
+      try {
+         const created = await createModule({ name, thumbnail, linked, html: moduleDraft.html });
+         if (!created?.linked) return;
+
+         saveHistory(`Linked to module "${created.name}"`);
+         changeDocument(doc => updateBlockProps(doc, moduleDraft.blockId, {
+            [MODULE_ID_ATTRIBUTE]: created.id,
+            [MODULE_VERSION_ATTRIBUTE]: String(created.updatedAt)
+         }));
+      } catch (error) {
+         console.error('Failed to save module', error);
+      }
+   }, [moduleDraft, createModule, saveHistory, changeDocument]);
+
+   // Makes the selected copy the new master - other copies here and in stored documents follow
+   const handleUpdateModule = useCallback(async (moduleId: string) => {
+      const shadow = shadowRootRef.current;
+      const el = shadow && selectedBlockId ? getBlockElement(shadow, selectedBlockId) : null;
+      const current = modules.find(item => item.id === moduleId);
+      if (!el || !current) return;
+
+      // The library refresh re-renders every linked copy, including this one - label that change
+      saveHistory(`Updated module "${current.name}"`);
+      try {
+         await updateModule(moduleId, {
+            html: getModuleMarkup(el),
+            thumbnail: isModuleSnapshot(current.thumbnail) ? createModuleThumbnail(el) : current.thumbnail
+         });
+      } catch (error) {
+         console.error('Failed to update module', error);
+      }
+   }, [selectedBlockId, modules, updateModule, saveHistory]);
+
+   const handleUnlinkModule = useCallback(() => {
+      if (!selectedBlockId) return;
+
+      saveHistory('Unlinked module');
+      changeDocument(doc => updateBlockProps(doc, selectedBlockId, { [MODULE_ID_ATTRIBUTE]: null, [MODULE_VERSION_ATTRIBUTE]: null }));
+   }, [selectedBlockId, saveHistory, changeDocument]);
+
+   const handleDeleteModule = useCallback((module: DocumentModule) => {
+      deleteModule(module.id).catch((error) => console.error('Failed to delete module', error));
+   }, [deleteModule]);
+
+   // Ctrl/Cmd+S - keyboard events from the shadow DOM are composed, so window sees them
+   useEffect(() => {
+      if (!onSave && !storageAdapter) return;
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+         if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 's') {
+            e.preventDefault();
+            handleSave();
+         }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+   }, [onSave, storageAdapter, handleSave]);
+
+   // Ctrl/Cmd+Z / Ctrl/Cmd+Shift+Z - uncommitted typing is left to the browser's native undo
+   const hasUncommittedTypingRef = useRef(false);
+   useEffect(() => {
+      const shadow = shadowRootRef.current;
+      if (!shadow) return;
+
+      const handleInput = () => { hasUncommittedTypingRef.current = true; };
+      const handleFocusOut = () => { hasUncommittedTypingRef.current = false; };
+      shadow.addEventListener('input', handleInput);
+      shadow.addEventListener('focusout', handleFocusOut);
+      return () => {
+         shadow.removeEventListener('input', handleInput);
+         shadow.removeEventListener('focusout', handleFocusOut);
+      };
+   }, [editorKey]);
+
+   useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+         if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+         const key = e.key.toLowerCase();
+         const isUndo = key === 'z' && !e.shiftKey;
+         const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+         if (!isUndo && !isRedo) return;
+
+         const target = e.composedPath()[0] as HTMLElement | undefined;
+         const isFormField = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.tagName === 'SELECT';
+         const isTyping = !!target?.isContentEditable && hasUncommittedTypingRef.current;
+         if (isFormField || isTyping) return;
+
+         e.preventDefault();
+         if (isUndo) undo();
+         else redo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+   }, [undo, redo]);
+
+   useImperativeHandle(ref, () => ({
+      getDocument: readDocument,
+      setDocument: (document) => {
+         saveHistory('Replaced document');
+         setSelectedBlockId(null);
+         setEditorDocument(migrateDocument(document));
+      },
+      exportPDF: handleExportPDF,
+      exportHTML: handleExportHTML,
+      exportEmail: handleExportEmail,
+      undo,
+      redo,
+      insertBlock: (block, index) => {
+         const definition = getBlockDefinition(block);
+         const html = block === 'table'
+            ? generateTableHtml(3, 3)
+            : definition ? getBlockHtml(definition) : block;
+         const inserted = createBlocks(html);
+         if (inserted.length === 0) return null;
+
+         saveHistory('Inserted block');
+         changeDocument(doc => insertDocumentBlock(doc, inserted, { index }));
+         return inserted[0].id;
+      },
+      select: setSelectedBlockId
+   }), [readDocument, changeDocument, saveHistory, handleExportPDF, handleExportHTML, handleExportEmail, undo, redo]);
+
    const elementInfo = getElementInfo();
 
    return (
@@ -336,7 +946,12 @@ export default function DragAndDropBuilder({
          {/* Left Sidebar */}
          {!isPreviewMode && (
             <div className="w-52 bg-white border-r flex flex-col">
-               <ElementsSidebar onDragStart={handleSidebarDragStart} onDragEnd={handleSidebarDragEnd} />
+               <ElementsSidebar
+                  onDragStart={handleSidebarDragStart}
+                  onDragEnd={handleSidebarDragEnd}
+                  modules={modules}
+                  onDeleteModule={modulesAvailable ? handleDeleteModule : undefined}
+               />
             </div>
          )}
 
@@ -345,10 +960,10 @@ export default function DragAndDropBuilder({
             {/* Toolbar */}
             <div className="bg-white border-b p-2 flex items-center justify-between">
                <div className="flex items-center gap-2">
-                  <button onClick={undo} disabled={history.past.length === 0} className="p-2 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50" title="Undo">
+                  <button onClick={undo} disabled={!canUndo} className="p-2 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50" title="Undo">
                      <Undo2 size={18} />
                   </button>
-                  <button onClick={redo} disabled={history.future.length === 0} className="p-2 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50" title="Redo">
+                  <button onClick={redo} disabled={!canRedo} className="p-2 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50" title="Redo">
                      <Redo2 size={18} />
                   </button>
 
@@ -363,6 +978,8 @@ export default function DragAndDropBuilder({
                         html: ''
                      }}
                      onChangeSize={changePageSize}
+                     notePlacement={editorDocument.notePlacement}
+                     onChangeNotePlacement={changeNotePlacement}
                   />
 
                   <div className="w-px h-6 bg-gray-300 mx-2" />
@@ -371,13 +988,41 @@ export default function DragAndDropBuilder({
                      {pageCount} page{pageCount !== 1 ? 's' : ''}
                   </span>
 
+                  {storageAdapter && <SaveStatusIndicator status={saveStatus} lastSavedAt={lastSavedAt} />}
+
                   <div className="w-px h-6 bg-gray-300 mx-2" />
                </div>
 
                <div className="flex items-center gap-2">
+                  <button
+                     onClick={() => setSidePanel(panel => panel === 'history' ? null : 'history')}
+                     className={`flex items-center gap-2 px-4 py-2 rounded text-sm ${sidePanel === 'history' ? 'bg-green-500 text-white hover:bg-green-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                     <ScrollText size={16} />
+                     History
+                  </button>
+                  {versionAdapter && (
+                     <button
+                        onClick={() => setSidePanel(panel => panel === 'versions' ? null : 'versions')}
+                        className={`flex items-center gap-2 px-4 py-2 rounded text-sm ${sidePanel === 'versions' ? 'bg-green-500 text-white hover:bg-green-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                     >
+                        <History size={16} />
+                        Versions
+                     </button>
+                  )}
+                  <button onClick={handleOpenTemplateGallery} className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm">
+                     <LayoutTemplate size={16} />
+                     Templates
+                  </button>
+                  {storageAdapter && (
+                     <button onClick={handleOpenDocumentLibrary} className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm">
+                        <FolderOpen size={16} />
+                        My documents
+                     </button>
+                  )}
                   <button
                      onClick={() => {
-                        setSelectedXPath(null);
+                        setSelectedBlockId(null);
                         setEditorKey(k => k + 1);
                         setIsPreviewMode(!isPreviewMode);
                      }}
@@ -392,12 +1037,18 @@ export default function DragAndDropBuilder({
                      <input type="file" accept=".html,.htm" onChange={importHTML} className="hidden" />
                   </label>
 
-                  <button onClick={() => exportPDF({
-                     name: editorDocument.name,
-                     content: editorDocument.content,
-                     pageWidth: editorDocument.pageWidth,
-                     pageHeight: editorDocument.pageHeight
-                  })} className="flex items-center gap-2 px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 text-sm">
+                  {(onSave || storageAdapter) && (
+                     <button onClick={handleSave} className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm" title="Save (Ctrl+S)">
+                        <Save size={16} />
+                        Save
+                     </button>
+                  )}
+
+                  <button onClick={handleExportEmail} className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm" title="Download HTML for email clients">
+                     <Mail size={16} />
+                     Email HTML
+                  </button>
+                  <button onClick={handleExportPDF} className="flex items-center gap-2 px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 text-sm">
                      <Download size={16} />
                      Export PDF
                   </button>
@@ -417,6 +1068,7 @@ export default function DragAndDropBuilder({
                   onDeleteTableColumn={deleteTableColumn}
                   onDeleteTable={deleteTable}
                   onOpenTableResize={openResizeTableModal}
+                  onInsertEquation={openMathEditor}
                />
             )}
 
@@ -434,26 +1086,112 @@ export default function DragAndDropBuilder({
 
          {/* Right Sidebar */}
          {!isPreviewMode && (
-            <div className={`bg-white border-l transition-all duration-300 ${selectedXPath ? 'w-72' : 'w-0'} overflow-hidden`}>
-               {selectedXPath && elementInfo && (
+            <div className={`bg-white border-l transition-all duration-300 ${selectedBlockId ? 'w-72' : 'w-0'} overflow-hidden`}>
+               {selectedBlockId && elementInfo && (
                   <SettingsPanel
                      elementInfo={elementInfo}
-                     elementKey={selectedXPath}
+                     elementKey={selectedBlockId}
+                     blockDefinition={getBlockDefinition(elementInfo.elementType)}
                      onUpdateContent={updateContent}
                      onUpdateStyle={updateStyle}
                      onUpdateAttribute={updateAttribute}
                      onUpdateInlineLink={updateInlineLink}
                      onRemoveInlineLink={removeInlineLink}
                      onUpdateCustomCss={updateCustomCss}
+                     onUpdateBlockProps={updateBlockSettings}
                      onCommitChanges={() => { saveHistory(); updateContentFromShadow(); }}
+                     linkedModuleName={modules.find(item => item.id === elementInfo.moduleId)?.name ?? null}
+                     onSaveAsModule={modulesAvailable ? handleOpenSaveModule : undefined}
+                     onUpdateModule={elementInfo.moduleId ? () => handleUpdateModule(elementInfo.moduleId!) : undefined}
+                     onUnlinkModule={handleUnlinkModule}
                      onDelete={deleteElement}
                      onDuplicate={duplicateElement}
-                     onClose={() => { setSelectedXPath(null) }}
+                     onClose={() => { setSelectedBlockId(null) }}
                   />
                )}
             </div>
          )}
 
+         {/* Versions Panel */}
+         {sidePanel === 'versions' && versionAdapter && (
+            <div className="w-96 bg-white border-l overflow-hidden">
+               <VersionsPanel
+                  versions={versions}
+                  currentDocument={editorDocument}
+                  onCreateVersion={handleCreateVersion}
+                  onRestoreVersion={handleRestoreVersion}
+                  onDeleteVersion={handleDeleteVersion}
+                  onClose={() => setSidePanel(null)}
+               />
+            </div>
+         )}
+
+         {/* History Panel */}
+         {sidePanel === 'history' && (
+            <div className="w-72 bg-white border-l overflow-hidden">
+               <HistoryPanel
+                  entries={history.entries}
+                  index={history.index}
+                  onJumpTo={jumpTo}
+                  onClose={() => setSidePanel(null)}
+               />
+            </div>
+         )}
+
+         {/* Document Library */}
+         {showDocumentLibrary && (
+            <DocumentLibrary
+               documents={storedDocuments}
+               currentDocumentId={editorDocument.id}
+               onOpen={handleOpenStoredDocument}
+               onCreate={handleCreateDocument}
+               onCreateFromTemplate={handleOpenTemplateGallery}
+               onDelete={handleDeleteStoredDocument}
+               onRename={handleRenameStoredDocument}
+               onClose={() => setShowDocumentLibrary(false)}
+            />
+         )}
+
+         {/* Template Gallery */}
+         {showTemplateGallery && (
+            <TemplateGallery
+               templates={galleryTemplates}
+               currentDocumentName={editorDocument.name}
+               onSelect={handleCreateFromTemplate}
+               onCreateBlank={handleCreateDocument}
+               onSaveTemplate={templatesAvailable ? handleSaveTemplate : undefined}
+               onDeleteTemplate={handleDeleteTemplate}
+               onClose={() => setShowTemplateGallery(false)}
+            />
+         )}
+
+         {/* Save as Module */}
+         {moduleDraft && (
+            <SaveModuleDialog
+               defaultName="New module"
+               snapshot={moduleDraft.snapshot}
+               onSave={handleSaveModule}
+               onClose={() => setModuleDraft(null)}
+            />
+         )}
+
+         {/* Signature capture (preview) */}
+         {signingBlock && (
+            <SignaturePad
+               signerName={signingBlock.signerName}
+               onSave={handleSign}
+               onClose={() => setSigningBlock(null)}
+            />
+         )}
+
+         {editingMath !== null && (
+            <MathEditor
+               latex={editingMath}
+               onSave={handleSaveMath}
+               onClose={() => setEditingMath(null)}
+            />
+         )}
+
          {/* Table Size Selector Modal */}
          {showTableModal && (
             <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -548,4 +1286,7 @@ export default function DragAndDropBuilder({
          )}
       </div>
    );
-}
+});
+
+export default DragAndDropBuilder;
+export type { DragAndDropBuilderHandle, DragAndDropBuilderProps, ExportFormat } from "./type";
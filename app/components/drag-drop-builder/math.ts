@@ -0,0 +1,1008 @@
+import { escapeAttribute, escapeText } from "./blockTree";
+
+// ============================================
+// MATH - LaTeX formulas drawn as SVG, no dependencies
+// ============================================
+//
+// Covers the LaTeX people put in documents: scripts and primes, fractions and binomials,
+// roots, big operators with limits, \left...\right and \big delimiters, accents, matrices,
+// cases and aligned equations, Greek letters and the common symbols. Layout follows TeX's
+// rules in simplified form. The result is one SVG of text, rules and paths - html2canvas
+// rasterizes it like an image, so a PDF shows what the editor shows. Glyphs come from the
+// system's math and serif fonts; the source LaTeX is kept next to the SVG by the callers.
+
+export const MATH_ATTRIBUTE = 'data-math'; // LaTeX of an inline equation
+
+export interface MathOptions {
+   size?: number; // Font size in px
+   color?: string;
+   display?: boolean; // Display style - larger operators, limits above and below
+}
+
+export type MathResult = { svg: string; width: number; height: number } | { error: string };
+
+type MathFont = 'italic' | 'roman' | 'bold';
+type Atom = 'ord' | 'op' | 'bin' | 'rel' | 'open' | 'close' | 'punct' | 'inner';
+type Limits = 'auto' | 'always' | 'never';
+
+type MathNode =
+   | { type: 'symbol'; text: string; atom: Atom; font: MathFont }
+   | { type: 'text'; text: string; font: MathFont }
+   | { type: 'row'; children: MathNode[] }
+   | ScriptsNode
+   | { type: 'frac'; num: MathNode; den: MathNode; rule: boolean; style?: 'display' | 'text'; open: string; close: string }
+   | { type: 'sqrt'; body: MathNode; index?: MathNode }
+   | { type: 'fenced'; open: string; close: string; body: MathNode }
+   | { type: 'delimiter'; text: string; extent: number; atom: Atom } // \big( and friends
+   | { type: 'accent'; accent: string; body: MathNode }
+   | { type: 'space'; width: number }
+   | OperatorNode
+   | { type: 'matrix'; rows: MathNode[][]; env: MatrixEnvironment }
+   | { type: 'style'; display: boolean; body: MathNode };
+
+type ScriptsNode = { type: 'scripts'; base: MathNode | null; sup?: MathNode; sub?: MathNode };
+type OperatorNode = { type: 'operator'; text: string; large: boolean; limits: Limits }; // \sum, \int, \lim, \sin
+
+interface MatrixEnvironment {
+   align: string; // Column alignments, repeated - 'c', 'l', 'rl'
+   open: string;
+   close: string;
+   gaps: number[]; // Em between columns, repeated
+   display: boolean; // Cells in display style (aligned equations) or text style (matrices)
+}
+
+// ============================================
+// SYMBOLS
+// ============================================
+
+const FONT_FAMILY = 'Cambria Math, STIX Two Math, Latin Modern Math, Times New Roman, serif';
+
+const GREEK_LOWER: Record<string, string> = {
+   alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+   theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+   varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ',
+   varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω'
+};
+
+const GREEK_UPPER: Record<string, string> = {
+   Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+   Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω'
+};
+
+const SYMBOLS: Record<string, [string, Atom]> = {
+   // Binary operators
+   pm: ['±', 'bin'], mp: ['∓', 'bin'], times: ['×', 'bin'], div: ['÷', 'bin'], cdot: ['⋅', 'bin'],
+   ast: ['∗', 'bin'], star: ['⋆', 'bin'], circ: ['∘', 'bin'], bullet: ['∙', 'bin'], cup: ['∪', 'bin'],
+   cap: ['∩', 'bin'], wedge: ['∧', 'bin'], land: ['∧', 'bin'], vee: ['∨', 'bin'], lor: ['∨', 'bin'],
+   oplus: ['⊕', 'bin'], ominus: ['⊖', 'bin'], otimes: ['⊗', 'bin'], odot: ['⊙', 'bin'], setminus: ['∖', 'bin'],
+   // Relations
+   leq: ['≤', 'rel'], le: ['≤', 'rel'], geq: ['≥', 'rel'], ge: ['≥', 'rel'], neq: ['≠', 'rel'], ne: ['≠', 'rel'],
+   approx: ['≈', 'rel'], equiv: ['≡', 'rel'], sim: ['∼', 'rel'], simeq: ['≃', 'rel'], cong: ['≅', 'rel'],
+   propto: ['∝', 'rel'], ll: ['≪', 'rel'], gg: ['≫', 'rel'], prec: ['≺', 'rel'], succ: ['≻', 'rel'],
+   in: ['∈', 'rel'], notin: ['∉', 'rel'], ni: ['∋', 'rel'], subset: ['⊂', 'rel'], supset: ['⊃', 'rel'],
+   subseteq: ['⊆', 'rel'], supseteq: ['⊇', 'rel'], mid: ['∣', 'rel'], parallel: ['∥', 'rel'], perp: ['⊥', 'rel'],
+   vdash: ['⊢', 'rel'], models: ['⊨', 'rel'], to: ['→', 'rel'], rightarrow: ['→', 'rel'], leftarrow: ['←', 'rel'],
+   gets: ['←', 'rel'], leftrightarrow: ['↔', 'rel'], Rightarrow: ['⇒', 'rel'], Leftarrow: ['⇐', 'rel'],
+   Leftrightarrow: ['⇔', 'rel'], implies: ['⟹', 'rel'], impliedby: ['⟸', 'rel'], iff: ['⟺', 'rel'],
+   mapsto: ['↦', 'rel'], longrightarrow: ['⟶', 'rel'], longleftarrow: ['⟵', 'rel'], uparrow: ['↑', 'rel'],
+   downarrow: ['↓', 'rel'], coloneqq: ['≔', 'rel'],
+   // Ordinary symbols
+   infty: ['∞', 'ord'], partial: ['∂', 'ord'], nabla: ['∇', 'ord'], forall: ['∀', 'ord'], exists: ['∃', 'ord'],
+   nexists: ['∄', 'ord'], emptyset: ['∅', 'ord'], varnothing: ['∅', 'ord'], ell: ['ℓ', 'ord'], hbar: ['ℏ', 'ord'],
+   Re: ['ℜ', 'ord'], Im: ['ℑ', 'ord'], aleph: ['ℵ', 'ord'], neg: ['¬', 'ord'], lnot: ['¬', 'ord'],
+   prime: ['′', 'ord'], degree: ['°', 'ord'], angle: ['∠', 'ord'], triangle: ['△', 'ord'], therefore: ['∴', 'rel'],
+   because: ['∵', 'rel'], ldots: ['…', 'inner'], dots: ['…', 'inner'], cdots: ['⋯', 'inner'], vdots: ['⋮', 'ord'],
+   ddots: ['⋱', 'inner'], colon: [':', 'punct'],
+   // Escaped characters
+   '{': ['{', 'open'], '}': ['}', 'close'], '%': ['%', 'ord'], '$': ['$', 'ord'], '#': ['#', 'ord'], '&': ['&', 'ord'],
+   '_': ['_', 'ord'], '|': ['‖', 'ord']
+};
+
+const CHARACTERS: Record<string, [string, Atom]> = {
+   '+': ['+', 'bin'], '-': ['−', 'bin'], '*': ['∗', 'bin'], '=': ['=', 'rel'], '<': ['<', 'rel'], '>': ['>', 'rel'],
+   ':': [':', 'rel'], ',': [',', 'punct'], ';': [';', 'punct'], '(': ['(', 'open'], '[': ['[', 'open'],
+   ')': [')', 'close'], ']': [']', 'close'], '!': ['!', 'close'], '?': ['?', 'close'], '|': ['|', 'ord'],
+   '/': ['/', 'ord'], '.': ['.', 'ord'], '~': [' ', 'ord']
+};
+
+const DELIMITERS: Record<string, string> = {
+   '(': '(', ')': ')', '[': '[', ']': ']', '\\{': '{', '\\}': '}', '\\lbrace': '{', '\\rbrace': '}', '|': '|',
+   '\\|': '‖', '\\vert': '|', '\\lvert': '|', '\\rvert': '|', '\\Vert': '‖', '\\lVert': '‖', '\\rVert': '‖',
+   '\\langle': '⟨', '\\rangle': '⟩', '\\lfloor': '⌊', '\\rfloor': '⌋', '\\lceil': '⌈', '\\rceil': '⌉', '/': '/', '.': ''
+};
+
+// Half the height of \big, \Big, \bigg and \Bigg delimiters, in em
+const BIG_DELIMITERS: Record<string, [number, Atom | null]> = {
+   big: [0.6, null], Big: [0.9, null], bigg: [1.2, null], Bigg: [1.5, null],
+   bigl: [0.6, 'open'], Bigl: [0.9, 'open'], biggl: [1.2, 'open'], Biggl: [1.5, 'open'],
+   bigr: [0.6, 'close'], Bigr: [0.9, 'close'], biggr: [1.2, 'close'], Biggr: [1.5, 'close']
+};
+
+const LARGE_OPERATORS: Record<string, string> = {
+   sum: '∑', prod: '∏', coprod: '∐', int: '∫', iint: '∬', iiint: '∭', oint: '∮', bigcup: '⋃', bigcap: '⋂',
+   bigoplus: '⨁', bigotimes: '⨂', bigvee: '⋁', bigwedge: '⋀'
+};
+
+const INTEGRALS = new Set(['int', 'iint', 'iiint', 'oint']);
+
+const FUNCTIONS = new Set([
+   'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'coth',
+   'log', 'ln', 'lg', 'exp', 'det', 'dim', 'ker', 'deg', 'gcd', 'hom', 'arg', 'min', 'max', 'sup', 'inf',
+   'lim', 'liminf', 'limsup', 'Pr'
+]);
+
+const LIMIT_FUNCTIONS = new Set(['det', 'gcd', 'min', 'max', 'sup', 'inf', 'lim', 'liminf', 'limsup', 'Pr']);
+
+const SPACES: Record<string, number> = {
+   '\\,': 3 / 18, '\\thinspace': 3 / 18, '\\:': 4 / 18, '\\>': 4 / 18, '\\;': 5 / 18, '\\!': -3 / 18,
+   '\\ ': 0.25, '\\quad': 1, '\\qquad': 2, '\\enspace': 0.5
+};
+
+const ACCENTS = new Set(['hat', 'widehat', 'bar', 'overline', 'underline', 'vec', 'overrightarrow', 'tilde', 'widetilde', 'dot', 'ddot']);
+
+// \not= and friends - other symbols get a combining slash
+const NEGATIONS: Record<string, string> = { '=': '≠', '<': '≮', '>': '≯', '≤': '≰', '≥': '≱', '∈': '∉', '≡': '≢', '⊂': '⊄', '⊃': '⊅', '∼': '≁', '≈': '≉' };
+
+const MATRIX_ENVIRONMENTS: Record<string, MatrixEnvironment> = {
+   matrix: { align: 'c', open: '', close: '', gaps: [1], display: false },
+   pmatrix: { align: 'c', open: '(', close: ')', gaps: [1], display: false },
+   bmatrix: { align: 'c', open: '[', close: ']', gaps: [1], display: false },
+   Bmatrix: { align: 'c', open: '{', close: '}', gaps: [1], display: false },
+   vmatrix: { align: 'c', open: '|', close: '|', gaps: [1], display: false },
+   Vmatrix: { align: 'c', open: '‖', close: '‖', gaps: [1], display: false },
+   cases: { align: 'l', open: '{', close: '', gaps: [1], display: false },
+   aligned: { align: 'rl', open: '', close: '', gaps: [0, 2], display: true },
+   gathered: { align: 'c', open: '', close: '', gaps: [1], display: true }
+};
+
+// Double-struck and calligraphic capitals - a few live outside the Mathematical Alphanumeric block
+const DOUBLE_STRUCK: Record<string, string> = { C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ' };
+const CALLIGRAPHIC: Record<string, string> = { B: 'ℬ', E: 'ℰ', F: 'ℱ', H: 'ℋ', I: 'ℐ', L: 'ℒ', M: 'ℳ', R: 'ℛ' };
+
+const toAlphabet = (text: string, specials: Record<string, string>, start: number): string =>
+   text.replace(/[A-Z]/g, letter => specials[letter] ?? String.fromCodePoint(start + letter.charCodeAt(0) - 65));
+
+// ============================================
+// PARSER
+// ============================================
+
+const TOKEN_PATTERN = /%[^\n]*|\\[a-zA-Z]+\*?|\\[^a-zA-Z]|\s+|[\s\S]/gu;
+
+const isPrimes = (node: MathNode | undefined): boolean =>
+   node?.type === 'symbol' ? node.text === '′' : node?.type === 'row' && node.children.every(isPrimes);
+
+const toRow = (children: MathNode[]): MathNode => children.length === 1 ? children[0] : { type: 'row', children };
+
+// Applies a font command to the letters and digits of its argument
+const restyle = (node: MathNode, font: MathFont, alphabet?: (text: string) => string): MathNode => {
+   if (node.type === 'symbol' && node.atom === 'ord' && /^[A-Za-z0-9.]+$/.test(node.text)) {
+      return { ...node, font, text: alphabet ? alphabet(node.text) : node.text };
+   }
+   if (node.type === 'row') return { ...node, children: node.children.map(child => restyle(child, font, alphabet)) };
+   if (node.type === 'scripts' && node.base) return { ...node, base: restyle(node.base, font, alphabet) };
+   return node;
+};
+
+const parse = (latex: string): MathNode => {
+   const tokens = latex.match(TOKEN_PATTERN) ?? [];
+   let index = 0;
+
+   const isSpace = (token: string | undefined) => token !== undefined && /^(\s+|%.*)$/.test(token);
+   const peek = (): string | undefined => {
+      while (isSpace(tokens[index])) index++;
+      return tokens[index];
+   };
+   const next = (): string => {
+      const token = peek();
+      if (token === undefined) throw new Error('The formula ends too early');
+      index++;
+      return token;
+   };
+   const expect = (expected: string) => {
+      const token = peek();
+      if (token !== expected) throw new Error(token === undefined ? `Missing ${expected}` : `Expected ${expected} but found ${token}`);
+      index++;
+   };
+
+   // Text of a {...} group with its spaces, for \text and environment names
+   const readRaw = (): string => {
+      if (peek() !== '{') return next();
+      index++;
+      let depth = 0;
+      let text = '';
+      while (index < tokens.length) {
+         const token = tokens[index++];
+         if (token === '{') depth++;
+         if (token === '}' && depth-- === 0) return text;
+         text += /^\\[^a-zA-Z]$/.test(token) ? token[1] : token;
+      }
+      throw new Error('Missing }');
+   };
+
+   const readDelimiter = (): string => {
+      const token = next();
+      const delimiter = DELIMITERS[token];
+      if (delimiter === undefined) throw new Error(`${token} can't be used as a delimiter`);
+      return delimiter;
+   };
+
+   const parseGroup = (): MathNode => {
+      const row = parseRow(['}']);
+      expect('}');
+      return row.type === 'row' ? row : { type: 'row', children: [row] };
+   };
+
+   // Argument of a command - a group or a single token
+   const parseArgument = (): MathNode => {
+      const token = peek();
+      if (token === undefined || token === '}' || token === '&' || token === '\\\\') throw new Error('Missing argument');
+      return parseAtom();
+   };
+
+   const parseOptional = (): MathNode | undefined => {
+      if (peek() !== '[') return undefined;
+      index++;
+      const row = parseRow([']']);
+      expect(']');
+      return row;
+   };
+
+   // Cells of a matrix or aligned equation - & between columns, \\ between rows
+   const parseRows = (terminators: string[]): MathNode[][] => {
+      const rows: MathNode[][] = [[]];
+      for (;;) {
+         rows[rows.length - 1].push(parseRow(['&', '\\\\', ...terminators]));
+         const token = peek();
+         if (token === '&') {
+            index++;
+         } else if (token === '\\\\') {
+            index++;
+            parseOptional(); // \\[2pt] - spacing is fixed here
+            rows.push([]);
+         } else {
+            break;
+         }
+      }
+      const last = rows[rows.length - 1];
+      if (rows.length > 1 && last.length === 1 && last[0].type === 'row' && !last[0].children.length) rows.pop();
+      return rows;
+   };
+
+   const parseEnvironment = (): MathNode => {
+      const name = readRaw().trim();
+      let env = MATRIX_ENVIRONMENTS[name.replace(/\*$/, '')] ?? (name === 'align' || name === 'split' ? MATRIX_ENVIRONMENTS.aligned : undefined);
+      if (name === 'array') {
+         env = { align: readRaw().replace(/[^lcr]/g, '') || 'c', open: '', close: '', gaps: [1], display: false };
+      }
+      if (!env) throw new Error(`Unknown environment ${name}`);
+
+      const rows = parseRows(['\\end']);
+      expect('\\end');
+      if (readRaw().trim() !== name) throw new Error(`\\begin{${name}} ends with a different \\end`);
+      return { type: 'matrix', rows, env };
+   };
+
+   const parseCommand = (token: string): MathNode => {
+      const name = token.slice(1);
+      if (token in SPACES) return { type: 'space', width: SPACES[token] };
+      if (GREEK_LOWER[name]) return { type: 'symbol', text: GREEK_LOWER[name], atom: 'ord', font: 'italic' };
+      if (GREEK_UPPER[name]) return { type: 'symbol', text: GREEK_UPPER[name], atom: 'ord', font: 'roman' };
+      if (SYMBOLS[name]) return { type: 'symbol', text: SYMBOLS[name][0], atom: SYMBOLS[name][1], font: 'roman' };
+      if (LARGE_OPERATORS[name]) {
+         return { type: 'operator', text: LARGE_OPERATORS[name], large: true, limits: INTEGRALS.has(name) ? 'never' : 'auto' };
+      }
+      if (FUNCTIONS.has(name)) {
+         const text = name === 'liminf' ? 'lim inf' : name === 'limsup' ? 'lim sup' : name;
+         return { type: 'operator', text, large: false, limits: LIMIT_FUNCTIONS.has(name) ? 'auto' : 'never' };
+      }
+      if (BIG_DELIMITERS[name]) {
+         const [extent, atom] = BIG_DELIMITERS[name];
+         const text = readDelimiter();
+         return { type: 'delimiter', text, extent, atom: atom ?? (/[([{⟨⌊⌈]/.test(text) ? 'open' : /[)\]}⟩⌋⌉]/.test(text) ? 'close' : 'ord') };
+      }
+      if (ACCENTS.has(name)) return { type: 'accent', accent: name, body: parseArgument() };
+
+      switch (name) {
+         case 'frac':
+         case 'dfrac':
+         case 'tfrac':
+         case 'cfrac': {
+            const style = name === 'dfrac' || name === 'cfrac' ? 'display' : name === 'tfrac' ? 'text' : undefined;
+            return { type: 'frac', num: parseArgument(), den: parseArgument(), rule: true, style, open: '', close: '' };
+         }
+         case 'binom':
+         case 'dbinom':
+         case 'tbinom': {
+            const style = name === 'dbinom' ? 'display' : name === 'tbinom' ? 'text' : undefined;
+            return { type: 'frac', num: parseArgument(), den: parseArgument(), rule: false, style, open: '(', close: ')' };
+         }
+         case 'sqrt': {
+            const rootIndex = parseOptional();
+            return { type: 'sqrt', index: rootIndex, body: parseArgument() };
+         }
+         case 'left': {
+            const open = readDelimiter();
+            const body = parseRow(['\\right']);
+            expect('\\right');
+            return { type: 'fenced', open, close: readDelimiter(), body };
+         }
+         case 'right':
+            throw new Error('\\right without \\left');
+         case 'begin':
+            return parseEnvironment();
+         case 'end':
+            throw new Error('\\end without \\begin');
+         case 'text':
+         case 'textrm':
+         case 'textup':
+         case 'mbox':
+            return { type: 'text', text: readRaw(), font: 'roman' };
+         case 'textit':
+            return { type: 'text', text: readRaw(), font: 'italic' };
+         case 'textbf':
+            return { type: 'text', text: readRaw(), font: 'bold' };
+         case 'operatorname':
+         case 'operatorname*':
+            return { type: 'operator', text: readRaw().trim(), large: false, limits: name.endsWith('*') ? 'auto' : 'never' };
+         case 'mathrm':
+            return restyle(parseArgument(), 'roman');
+         case 'mathbf':
+         case 'boldsymbol':
+            return restyle(parseArgument(), 'bold');
+         case 'mathit':
+            return restyle(parseArgument(), 'italic');
+         case 'mathbb':
+            return restyle(parseArgument(), 'roman', text => toAlphabet(text, DOUBLE_STRUCK, 0x1d538));
+         case 'mathcal':
+            return restyle(parseArgument(), 'roman', text => toAlphabet(text, CALLIGRAPHIC, 0x1d49c));
+         case 'not': {
+            const negated = parseArgument();
+            if (negated.type !== 'symbol') throw new Error('\\not needs a symbol');
+            return { ...negated, text: NEGATIONS[negated.text] ?? `${negated.text}̸`, atom: 'rel' };
+         }
+      }
+      throw new Error(`Unknown command ${token}`);
+   };
+
+   const parseAtom = (): MathNode => {
+      const token = next();
+      if (token === '{') return parseGroup();
+      if (token === '}') throw new Error('Unexpected }');
+      if (token === '&' || token === '\\\\') throw new Error(`${token} is only allowed in matrices and aligned equations`);
+      if (token.startsWith('\\')) return parseCommand(token);
+
+      // Numbers stay together - 3.14 is one glyph run
+      if (/^[0-9]$/.test(token)) {
+         let text = token;
+         while (/^[0-9.]$/.test(tokens[index] ?? '') && !(tokens[index] === '.' && !/^[0-9]$/.test(tokens[index + 1] ?? ''))) text += tokens[index++];
+         return { type: 'symbol', text, atom: 'ord', font: 'roman' };
+      }
+      if (/^[A-Za-z]$/.test(token)) return { type: 'symbol', text: token, atom: 'ord', font: 'italic' };
+      const [text, atom] = CHARACTERS[token] ?? [token, 'ord'];
+      return { type: 'symbol', text, atom, font: 'roman' };
+   };
+
+   function parseRow(terminators: string[]): MathNode {
+      const children: MathNode[] = [];
+      for (let token = peek(); token !== undefined && !terminators.includes(token); token = peek()) {
+         if (token === '^' || token === '_' || token === "'") {
+            index++;
+            const last = children.pop();
+            const scripts: ScriptsNode = last?.type === 'scripts' ? last : { type: 'scripts', base: last ?? null };
+            if (token === "'") {
+               const prime: MathNode = { type: 'symbol', text: '′', atom: 'ord', font: 'roman' };
+               scripts.sup = scripts.sup ? toRow([scripts.sup, prime]) : prime;
+            } else if (token === '^') {
+               if (scripts.sup && !isPrimes(scripts.sup)) throw new Error('Double superscript - group them with { }');
+               scripts.sup = scripts.sup ? toRow([scripts.sup, parseArgument()]) : parseArgument();
+            } else {
+               if (scripts.sub) throw new Error('Double subscript - group them with { }');
+               scripts.sub = parseArgument();
+            }
+            children.push(scripts);
+         } else if (token === '\\displaystyle' || token === '\\textstyle') {
+            index++;
+            children.push({ type: 'style', display: token === '\\displaystyle', body: parseRow(terminators) });
+         } else if (token === '\\limits' || token === '\\nolimits') {
+            index++;
+            const last = children[children.length - 1];
+            if (last?.type !== 'operator') throw new Error(`${token} must follow an operator`);
+            last.limits = token === '\\limits' ? 'always' : 'never';
+         } else {
+            children.push(parseAtom());
+         }
+      }
+      return toRow(children);
+   }
+
+   // Top level - several lines or & columns make an aligned equation
+   const rows = parseRows([]);
+   if (index < tokens.length && peek() !== undefined) throw new Error(`Unexpected ${peek()}`);
+   if (rows.length === 1 && rows[0].length === 1) return rows[0][0];
+   const columns = Math.max(...rows.map(row => row.length));
+   return { type: 'matrix', rows, env: columns > 1 ? MATRIX_ENVIRONMENTS.aligned : MATRIX_ENVIRONMENTS.gathered };
+};
+
+// ============================================
+// LAYOUT
+// ============================================
+//
+// Boxes are measured in px from their baseline: `height` above it, `depth` below.
+// Item coordinates are relative to the box origin (left edge, baseline), y pointing down.
+
+type MathItem =
+   | { kind: 'text'; x: number; y: number; text: string; size: number; font: MathFont }
+   | { kind: 'rect'; x: number; y: number; width: number; height: number }
+   | { kind: 'path'; x: number; y: number; d: string; stroke: number }; // Filled when stroke is 0
+
+interface MathBox {
+   width: number;
+   height: number;
+   depth: number;
+   items: MathItem[];
+}
+
+interface LayoutStyle {
+   size: number;
+   root: number; // Size of the formula - scripts don't shrink below half of it
+   display: boolean;
+}
+
+const THIN = 3 / 18;
+const MEDIUM = 4 / 18;
+const THICK = 5 / 18;
+const AXIS = 0.25; // Math axis above the baseline (fraction bars, operator centers), em
+
+// Space between neighbouring atoms (TeX's table, em)
+const ATOM_SPACING: Partial<Record<Atom, Partial<Record<Atom, number>>>> = {
+   ord: { op: THIN, bin: MEDIUM, rel: THICK, inner: THIN },
+   op: { ord: THIN, op: THIN, rel: THICK, inner: THIN },
+   bin: { ord: MEDIUM, op: MEDIUM, open: MEDIUM, inner: MEDIUM },
+   rel: { ord: THICK, op: THICK, open: THICK, inner: THICK },
+   close: { op: THIN, bin: MEDIUM, rel: THICK, inner: THIN },
+   punct: { ord: THIN, op: THIN, rel: THICK, open: THIN, close: THIN, punct: THIN, inner: THIN },
+   inner: { ord: THIN, op: THIN, bin: MEDIUM, rel: THICK, open: THIN, punct: THIN, inner: THIN }
+};
+
+const emptyBox = (): MathBox => ({ width: 0, height: 0, depth: 0, items: [] });
+
+const moveItems = (items: MathItem[], dx: number, dy: number): MathItem[] =>
+   items.map(item => ({ ...item, x: item.x + dx, y: item.y + dy }));
+
+const scriptSize = (style: LayoutStyle): number => Math.max(style.size * 0.7, style.root * 0.5);
+
+const ruleThickness = (size: number): number => Math.max(1, size * 0.05);
+
+// ---- Glyph metrics ----
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+const widthCache = new Map<string, number>();
+
+// Rough widths for when there is no canvas (server rendering)
+const estimateWidth = (char: string): number => {
+   if (/[ijlt.,:;!'|()[\]f1ıI]/.test(char)) return 0.3;
+   if (/[mwMW]/.test(char)) return 0.85;
+   if (/[A-Z]/.test(char)) return 0.68;
+   if (/[a-z0-9]/.test(char)) return 0.52;
+   if (char === '̸') return 0;
+   return char === ' ' || char === ' ' ? 0.25 : 0.75;
+};
+
+// Advance width of `text`, in em
+const measureText = (text: string, font: MathFont): number => {
+   const key = `${font}:${text}`;
+   const cached = widthCache.get(key);
+   if (cached !== undefined) return cached;
+
+   if (measureContext === undefined) {
+      measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+   }
+   let width: number;
+   if (measureContext) {
+      measureContext.font = `${font === 'italic' ? 'italic ' : ''}${font === 'bold' ? 'bold ' : ''}100px ${FONT_FAMILY}`;
+      width = measureContext.measureText(text).width / 100;
+   } else {
+      width = Array.from(text).reduce((sum, char) => sum + estimateWidth(char), 0);
+   }
+   widthCache.set(key, width);
+   return width;
+};
+
+// Height and depth of a glyph run in em - close enough to place scripts and rules
+const glyphExtent = (text: string, atom: Atom): [number, number] => {
+   if (/[()[\]{}|‖⟨⟩⌊⌋⌈⌉/]/.test(text)) return [0.75, 0.25];
+   if (atom === 'bin' || atom === 'rel') return [0.55, 0.05];
+   const height = /^[acemnorsuvwxzαγεϵικνοπρστυωϖ.,:;…⋯−+=]+$/.test(text) ? 0.45 : 0.7;
+   const depth = /[gjpqyβγζημξρφϕχψς,;]/.test(text) ? 0.2 : 0;
+   return [height, depth];
+};
+
+const glyphBox = (text: string, font: MathFont, atom: Atom, size: number): MathBox => {
+   const [height, depth] = glyphExtent(text, atom);
+   return {
+      width: measureText(text, font) * size,
+      height: height * size,
+      depth: depth * size,
+      items: [{ kind: 'text', x: 0, y: 0, text, size, font }]
+   };
+};
+
+// ---- Delimiters drawn to any height ----
+
+const DELIMITER_WIDTHS: Record<string, number> = {
+   '(': 0.36, ')': 0.36, '[': 0.3, ']': 0.3, '{': 0.45, '}': 0.45, '|': 0.22, '‖': 0.34,
+   '⟨': 0.36, '⟩': 0.36, '⌊': 0.32, '⌋': 0.32, '⌈': 0.32, '⌉': 0.32, '/': 0.45
+};
+
+const fmt = (value: number): string => String(Math.round(value * 100) / 100);
+
+// Outline of a delimiter spanning `top`..`bottom` (y of the box), left-facing shapes mirrored for the right ones
+const delimiterPath = (text: string, width: number, top: number, bottom: number, size: number): string => {
+   const mirrored = /[)\]}⟩⌋⌉]/.test(text);
+   const x = (fraction: number) => fmt((mirrored ? 1 - fraction : fraction) * width);
+   const y = fmt;
+   const middle = (top + bottom) / 2;
+   const curl = Math.min(size * 0.2, (bottom - top) / 6);
+
+   switch (text) {
+      case '(':
+      case ')':
+         return `M${x(0.85)} ${y(top)}Q${x(-0.05)} ${y(middle)} ${x(0.85)} ${y(bottom)}`;
+      case '[':
+      case ']':
+         return `M${x(0.8)} ${y(top)}L${x(0.3)} ${y(top)}L${x(0.3)} ${y(bottom)}L${x(0.8)} ${y(bottom)}`;
+      case '{':
+      case '}':
+         return `M${x(0.9)} ${y(top)}Q${x(0.5)} ${y(top)} ${x(0.5)} ${y(top + curl)}L${x(0.5)} ${y(middle - curl)}`
+            + `Q${x(0.5)} ${y(middle)} ${x(0.1)} ${y(middle)}Q${x(0.5)} ${y(middle)} ${x(0.5)} ${y(middle + curl)}`
+            + `L${x(0.5)} ${y(bottom - curl)}Q${x(0.5)} ${y(bottom)} ${x(0.9)} ${y(bottom)}`;
+      case '|':
+         return `M${x(0.5)} ${y(top)}L${x(0.5)} ${y(bottom)}`;
+      case '‖':
+         return `M${x(0.3)} ${y(top)}L${x(0.3)} ${y(bottom)}M${x(0.7)} ${y(top)}L${x(0.7)} ${y(bottom)}`;
+      case '⟨':
+      case '⟩':
+         return `M${x(0.85)} ${y(top)}L${x(0.15)} ${y(middle)}L${x(0.85)} ${y(bottom)}`;
+      case '⌊':
+      case '⌋':
+         return `M${x(0.3)} ${y(top)}L${x(0.3)} ${y(bottom)}L${x(0.85)} ${y(bottom)}`;
+      case '⌈':
+      case '⌉':
+         return `M${x(0.3)} ${y(bottom)}L${x(0.3)} ${y(top)}L${x(0.85)} ${y(top)}`;
+      default: // '/'
+         return `M${x(0.9)} ${y(top)}L${x(0.1)} ${y(bottom)}`;
+   }
+};
+
+// Delimiter reaching `extent` above and below the math axis; '' is the empty \left.
+const delimiterBox = (text: string, extent: number, size: number): MathBox => {
+   if (!text) return { ...emptyBox(), width: size * 0.12 };
+
+   const width = (DELIMITER_WIDTHS[text] ?? 0.36) * size;
+   const axis = -AXIS * size;
+   const top = axis - extent;
+   const bottom = axis + extent;
+   return {
+      width,
+      height: -top,
+      depth: bottom,
+      items: [{ kind: 'path', x: 0, y: 0, d: delimiterPath(text, width, top, bottom, size), stroke: ruleThickness(size) * 1.2 }]
+   };
+};
+
+// Half height around the axis a delimiter needs to enclose `box`
+const enclosingExtent = (box: MathBox, size: number): number =>
+   Math.max(box.height - AXIS * size, box.depth + AXIS * size, size * 0.5) + size * 0.08;
+
+// ---- Node layouts ----
+
+// Atom type of a node for spacing - spaces take no part
+const atomOf = (node: MathNode): Atom | null => {
+   switch (node.type) {
+      case 'symbol': return node.atom;
+      case 'space': return null;
+      case 'operator': return 'op';
+      case 'delimiter': return node.atom;
+      case 'frac':
+      case 'fenced': return 'inner';
+      case 'scripts': return node.base ? atomOf(node.base) ?? 'ord' : 'ord';
+      default: return 'ord';
+   }
+};
+
+// Places boxes side by side on a common baseline
+const joinBoxes = (parts: { box: MathBox; gap: number }[]): MathBox => {
+   let x = 0;
+   const items: MathItem[] = [];
+   let height = 0;
+   let depth = 0;
+   parts.forEach(({ box, gap }) => {
+      x += gap;
+      items.push(...moveItems(box.items, x, 0));
+      x += box.width;
+      height = Math.max(height, box.height);
+      depth = Math.max(depth, box.depth);
+   });
+   return { width: x, height, depth, items };
+};
+
+const layoutRow = (children: MathNode[], style: LayoutStyle): MathBox => {
+   const atoms = children.map(atomOf);
+
+   // A binary operator with nothing to combine is an ordinary symbol - the minus of -x
+   const spaced = atoms.map((atom, i) => ({ atom, i })).filter(({ atom }) => atom !== null);
+   spaced.forEach(({ atom, i }, position) => {
+      if (atom !== 'bin') return;
+      const before = spaced[position - 1]?.atom;
+      const after = spaced[position + 1]?.atom;
+      if (!before || ['bin', 'op', 'rel', 'open', 'punct'].includes(before) || !after || ['rel', 'close', 'punct'].includes(after)) {
+         atoms[i] = 'ord';
+      }
+   });
+
+   const inScript = style.size < style.root;
+   let previous: Atom | null = null;
+   return joinBoxes(children.map((child, i) => {
+      const atom = atoms[i];
+      let gap = 0;
+      if (atom && previous) {
+         const spacing = ATOM_SPACING[previous]?.[atom] ?? 0;
+         gap = inScript && spacing !== THIN ? 0 : spacing * style.size;
+      }
+      if (atom) previous = atom;
+      return { box: layout(child, style), gap };
+   }));
+};
+
+const layoutOperator = (node: OperatorNode, style: LayoutStyle): MathBox => {
+   if (!node.large) return glyphBox(node.text, 'roman', 'op', style.size);
+
+   // Large operators are centered on the math axis
+   const integral = /[∫∬∭∮]/.test(node.text);
+   const scale = style.display ? (integral ? 2 : 1.6) : (integral ? 1.4 : 1.15);
+   const size = style.size * scale;
+   const height = size * 0.75;
+   const depth = size * 0.25;
+   const baseline = -AXIS * style.size + (height - depth) / 2;
+   return {
+      width: measureText(node.text, 'roman') * size + (integral ? style.size * 0.1 : 0),
+      height: height - baseline,
+      depth: depth + baseline,
+      items: [{ kind: 'text', x: 0, y: baseline, text: node.text, size, font: 'roman' }]
+   };
+};
+
+const layoutScripts = (node: ScriptsNode, style: LayoutStyle): MathBox => {
+   const base = node.base ? layout(node.base, style) : emptyBox();
+   const scriptStyle: LayoutStyle = { ...style, size: scriptSize(style), display: false };
+   const sup = node.sup ? layout(node.sup, scriptStyle) : null;
+   const sub = node.sub ? layout(node.sub, scriptStyle) : null;
+   const size = style.size;
+
+   const operator = node.base?.type === 'operator' ? node.base : null;
+   const limits = operator && (operator.limits === 'always' || (operator.limits === 'auto' && style.display));
+   if (limits) {
+      const gap = size * 0.15;
+      const width = Math.max(base.width, sup?.width ?? 0, sub?.width ?? 0);
+      const items = moveItems(base.items, (width - base.width) / 2, 0);
+      let height = base.height;
+      let depth = base.depth;
+      if (sup) {
+         const shift = base.height + gap + sup.depth;
+         items.push(...moveItems(sup.items, (width - sup.width) / 2, -shift));
+         height = shift + sup.height;
+      }
+      if (sub) {
+         const shift = base.depth + gap + sub.height;
+         items.push(...moveItems(sub.items, (width - sub.width) / 2, shift));
+         depth = shift + sub.depth;
+      }
+      return { width, height, depth, items };
+   }
+
+   // Scripts beside the base, raised over tall bases
+   let supShift = sup ? Math.max(size * (style.display ? 0.42 : 0.38), base.height - size * 0.25, sup.depth + size * 0.12) : 0;
+   let subShift = sub ? Math.max(size * (sup ? 0.25 : 0.15), base.depth + size * 0.05, sub.height - size * 0.36) : 0;
+   if (sup && sub) {
+      const clearance = (supShift - sup.depth) - (sub.height - subShift);
+      if (clearance < size * 0.2) {
+         subShift += (size * 0.2 - clearance) / 2;
+         supShift += (size * 0.2 - clearance) / 2;
+      }
+   }
+
+   const italic = node.base?.type === 'symbol' && node.base.font === 'italic';
+   const supX = base.width + (italic ? size * 0.05 : 0);
+   const items = [...base.items];
+   if (sup) items.push(...moveItems(sup.items, supX, -supShift));
+   if (sub) items.push(...moveItems(sub.items, base.width, subShift));
+
+   const scriptSpace = size * 0.05;
+   return {
+      width: Math.max(sup ? supX + sup.width : 0, sub ? base.width + sub.width : 0, base.width) + scriptSpace,
+      height: Math.max(base.height, sup ? supShift + sup.height : 0),
+      depth: Math.max(base.depth, sub ? subShift + sub.depth : 0),
+      items
+   };
+};
+
+const layoutFraction = (node: Extract<MathNode, { type: 'frac' }>, style: LayoutStyle): MathBox => {
+   const display = node.style ? node.style === 'display' : style.display;
+   const partStyle: LayoutStyle = {
+      ...style,
+      size: node.style === 'text' || !display ? scriptSize(style) : style.size,
+      display: node.style === 'display'
+   };
+   const num = layout(node.num, partStyle);
+   const den = layout(node.den, partStyle);
+   const size = style.size;
+   const thickness = node.rule ? ruleThickness(size) : 0;
+   const gap = size * (node.rule ? (display ? 0.12 : 0.08) : 0.15);
+   const axis = -AXIS * size;
+   const padding = size * 0.12;
+   const width = Math.max(num.width, den.width) + padding * 2;
+
+   const numBaseline = axis - thickness / 2 - gap - num.depth;
+   const denBaseline = axis + thickness / 2 + gap + den.height;
+   const items = [
+      ...moveItems(num.items, (width - num.width) / 2, numBaseline),
+      ...moveItems(den.items, (width - den.width) / 2, denBaseline)
+   ];
+   if (node.rule) items.push({ kind: 'rect', x: padding / 2, y: axis - thickness / 2, width: width - padding, height: thickness });
+
+   const fraction: MathBox = { width, height: num.height - numBaseline, depth: denBaseline + den.depth, items };
+   if (!node.open && !node.close) return fraction;
+
+   const extent = enclosingExtent(fraction, size);
+   return joinBoxes([
+      { box: delimiterBox(node.open, extent, size), gap: 0 },
+      { box: fraction, gap: 0 },
+      { box: delimiterBox(node.close, extent, size), gap: 0 }
+   ]);
+};
+
+const layoutSqrt = (node: Extract<MathNode, { type: 'sqrt' }>, style: LayoutStyle): MathBox => {
+   const body = layout(node.body, style);
+   const size = style.size;
+   const thickness = ruleThickness(size);
+   const gap = size * (style.display ? 0.15 : 0.1);
+
+   const top = -(Math.max(body.height, size * 0.6) + gap + thickness / 2);
+   const bottom = Math.max(body.depth, size * 0.1) + size * 0.05;
+   const tick = top + (bottom - top) * 0.55;
+   const signWidth = size * 0.6;
+
+   const rootIndex = node.index ? layout(node.index, { ...style, size: Math.max(size * 0.5, style.root * 0.5), display: false }) : null;
+   const x0 = rootIndex ? Math.max(0, rootIndex.width - size * 0.3) : 0;
+   const d = `M0 ${fmt(tick + size * 0.05)}L${fmt(size * 0.12)} ${fmt(tick - size * 0.02)}L${fmt(size * 0.32)} ${fmt(bottom)}`
+      + `L${fmt(signWidth)} ${fmt(top)}L${fmt(signWidth + body.width + size * 0.1)} ${fmt(top)}`;
+
+   const items: MathItem[] = [
+      { kind: 'path', x: x0, y: 0, d, stroke: thickness },
+      ...moveItems(body.items, x0 + signWidth + size * 0.05, 0)
+   ];
+   let height = -top + thickness / 2;
+   if (rootIndex) {
+      const baseline = tick - size * 0.1 - rootIndex.depth;
+      items.push(...moveItems(rootIndex.items, 0, baseline));
+      height = Math.max(height, rootIndex.height - baseline);
+   }
+   return { width: x0 + signWidth + body.width + size * 0.12, height, depth: bottom, items };
+};
+
+const layoutAccent = (node: Extract<MathNode, { type: 'accent' }>, style: LayoutStyle): MathBox => {
+   const body = layout(node.body, style);
+   const size = style.size;
+   const thickness = ruleThickness(size);
+   const items = [...body.items];
+   const skew = node.body.type === 'symbol' && node.body.font === 'italic' ? size * 0.08 : 0;
+   const wide = ['widehat', 'widetilde', 'overline', 'overrightarrow', 'underline'].includes(node.accent);
+   const width = wide ? body.width : Math.min(body.width, size * 0.5);
+   const left = (body.width - width) / 2 + skew;
+   const base = -Math.max(body.height, size * 0.45) - size * 0.08;
+   let height = body.height;
+   let depth = body.depth;
+
+   switch (node.accent) {
+      case 'bar':
+      case 'overline':
+         items.push({ kind: 'rect', x: left, y: base - thickness, width, height: thickness });
+         height = -base + thickness;
+         break;
+      case 'underline': {
+         const y = body.depth + size * 0.08;
+         items.push({ kind: 'rect', x: 0, y, width: body.width, height: thickness });
+         depth = y + thickness;
+         break;
+      }
+      case 'hat':
+      case 'widehat': {
+         const rise = size * 0.18;
+         items.push({ kind: 'path', x: left, y: 0, d: `M0 ${fmt(base)}L${fmt(width / 2)} ${fmt(base - rise)}L${fmt(width)} ${fmt(base)}`, stroke: thickness });
+         height = -base + rise + thickness;
+         break;
+      }
+      case 'tilde':
+      case 'widetilde': {
+         const wave = size * 0.08;
+         const y = base - wave;
+         items.push({
+            kind: 'path', x: left, y: 0, stroke: thickness,
+            d: `M0 ${fmt(y + wave)}Q${fmt(width / 4)} ${fmt(y - wave * 2)} ${fmt(width / 2)} ${fmt(y)}T${fmt(width)} ${fmt(y - wave)}`
+         });
+         height = -base + wave * 3;
+         break;
+      }
+      case 'vec':
+      case 'overrightarrow': {
+         const y = base - size * 0.08;
+         const head = size * 0.12;
+         const arrowWidth = Math.max(width, size * 0.4);
+         const x = left - (arrowWidth - width) / 2;
+         items.push({
+            kind: 'path', x, y: 0, stroke: thickness,
+            d: `M0 ${fmt(y)}L${fmt(arrowWidth)} ${fmt(y)}M${fmt(arrowWidth - head)} ${fmt(y - head * 0.7)}L${fmt(arrowWidth)} ${fmt(y)}L${fmt(arrowWidth - head)} ${fmt(y + head * 0.7)}`
+         });
+         height = -y + head;
+         break;
+      }
+      default: { // dot, ddot
+         const radius = size * 0.05;
+         const y = base - radius * 2;
+         const centers = node.accent === 'ddot' ? [width / 2 - radius * 2.5, width / 2 + radius * 2.5] : [width / 2];
+         centers.forEach(center => items.push({
+            kind: 'path', x: left + center - radius, y, stroke: 0,
+            d: `M0 0a${fmt(radius)} ${fmt(radius)} 0 1 0 ${fmt(radius * 2)} 0a${fmt(radius)} ${fmt(radius)} 0 1 0 ${fmt(-radius * 2)} 0`
+         }));
+         height = -y + radius * 2;
+      }
+   }
+   return { width: body.width, height: Math.max(height, body.height), depth, items };
+};
+
+const layoutMatrix = (node: Extract<MathNode, { type: 'matrix' }>, style: LayoutStyle): MathBox => {
+   const { env } = node;
+   const size = style.size;
+   const cellStyle: LayoutStyle = { ...style, display: env.display };
+
+   // Right-hand cells of aligned equations start after an empty atom, so = keeps its spacing
+   const cells = node.rows.map(row => row.map((cell, column) => {
+      const aligned = env.align === 'rl' && column % 2 === 1;
+      return layout(aligned ? { type: 'row', children: [{ type: 'row', children: [] }, cell] } : cell, cellStyle);
+   }));
+   const columns = Math.max(...cells.map(row => row.length));
+   const widths = Array.from({ length: columns }, (_, column) => Math.max(0, ...cells.map(row => row[column]?.width ?? 0)));
+   const rowGap = size * (env.display ? 0.35 : 0.25);
+   const rows = cells.map(row => ({
+      height: Math.max(size * 0.7, ...row.map(cell => cell.height)),
+      depth: Math.max(size * 0.3, ...row.map(cell => cell.depth))
+   }));
+   const total = rows.reduce((sum, row) => sum + row.height + row.depth, 0) + rowGap * (rows.length - 1);
+
+   const items: MathItem[] = [];
+   let y = -AXIS * size - total / 2;
+   cells.forEach((row, r) => {
+      y += rows[r].height;
+      let x = 0;
+      widths.forEach((columnWidth, column) => {
+         const cell = row[column];
+         const align = env.align[column % env.align.length];
+         if (cell) {
+            const offset = align === 'l' ? 0 : align === 'r' ? columnWidth - cell.width : (columnWidth - cell.width) / 2;
+            items.push(...moveItems(cell.items, x + offset, y));
+         }
+         x += columnWidth + (column < columns - 1 ? env.gaps[column % env.gaps.length] * size : 0);
+      });
+      y += rows[r].depth + rowGap;
+   });
+
+   const width = widths.reduce((sum, columnWidth) => sum + columnWidth, 0)
+      + widths.slice(1).reduce((sum, _, column) => sum + env.gaps[column % env.gaps.length] * size, 0);
+   const table: MathBox = { width, height: AXIS * size + total / 2, depth: total / 2 - AXIS * size, items };
+   if (!env.open && !env.close) return table;
+
+   const extent = total / 2 + size * 0.1;
+   const padding = size * 0.1;
+   return joinBoxes([
+      { box: env.open ? delimiterBox(env.open, extent, size) : emptyBox(), gap: 0 },
+      { box: table, gap: padding },
+      { box: env.close ? delimiterBox(env.close, extent, size) : emptyBox(), gap: padding }
+   ]);
+};
+
+function layout(node: MathNode, style: LayoutStyle): MathBox {
+   const size = style.size;
+   switch (node.type) {
+      case 'symbol':
+         return glyphBox(node.text, node.font, node.atom, size);
+      case 'text':
+         return glyphBox(node.text.replace(/ /g, ' '), node.font, 'ord', size);
+      case 'row':
+         return layoutRow(node.children, style);
+      case 'space':
+         return { ...emptyBox(), width: node.width * size };
+      case 'operator':
+         return layoutOperator(node, style);
+      case 'scripts':
+         return layoutScripts(node, style);
+      case 'frac':
+         return layoutFraction(node, style);
+      case 'sqrt':
+         return layoutSqrt(node, style);
+      case 'accent':
+         return layoutAccent(node, style);
+      case 'matrix':
+         return layoutMatrix(node, style);
+      case 'style':
+         return layout(node.body, { ...style, display: node.display });
+      case 'delimiter':
+         return delimiterBox(node.text, node.extent * size, size);
+      case 'fenced': {
+         const body = layout(node.body, style);
+         const extent = enclosingExtent(body, size);
+         return joinBoxes([
+            { box: delimiterBox(node.open, extent, size), gap: 0 },
+            { box: body, gap: size * 0.05 },
+            { box: delimiterBox(node.close, extent, size), gap: size * 0.05 }
+         ]);
+      }
+   }
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+const renderItem = (item: MathItem, color: string): string => {
+   switch (item.kind) {
+      case 'text': {
+         const font = item.font === 'italic' ? ' font-style="italic"' : item.font === 'bold' ? ' font-weight="bold"' : '';
+         return `<text x="${fmt(item.x)}" y="${fmt(item.y)}" font-size="${fmt(item.size)}"${font}>${escapeText(item.text)}</text>`;
+      }
+      case 'rect':
+         return `<rect x="${fmt(item.x)}" y="${fmt(item.y)}" width="${fmt(item.width)}" height="${fmt(item.height)}"/>`;
+      case 'path':
+         return item.stroke
+            ? `<path transform="translate(${fmt(item.x)} ${fmt(item.y)})" d="${item.d}" fill="none" stroke="${color}" stroke-width="${fmt(item.stroke)}" stroke-linecap="round" stroke-linejoin="round"/>`
+            : `<path transform="translate(${fmt(item.x)} ${fmt(item.y)})" d="${item.d}"/>`;
+   }
+};
+
+/**
+ * Renders a LaTeX formula as an inline SVG, aligned to the text baseline by its
+ * vertical-align. Returns the problem instead when the formula can't be read.
+ *
+ * @example
+ * ```ts
+ * const result = renderMath('x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}', { size: 20, display: true });
+ * if ('svg' in result) element.innerHTML = result.svg;
+ * ```
+ */
+export const renderMath = (latex: string, { size = 16, color = '#111827', display = false }: MathOptions = {}): MathResult => {
+   let box: MathBox;
+   try {
+      box = layout(parse(latex), { size, root: size, display });
+   } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+   }
+
+   // Room for italic overhang and stroke caps
+   const padding = size * 0.1;
+   const width = Math.ceil(box.width + padding * 2);
+   const height = Math.ceil(box.height + box.depth + padding * 2);
+   const fill = escapeAttribute(color);
+   const items = moveItems(box.items, padding, padding + box.height).map(item => renderItem(item, fill)).join('');
+   const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeAttribute(latex)}" style="vertical-align: ${fmt(-(box.depth + padding))}px;">`
+      + `<g fill="${fill}" font-family="${FONT_FAMILY}">${items}</g></svg>`;
+   return { svg, width, height };
+};
+
+/**
+ * Inline equation for text blocks - the SVG in a span that keeps its LaTeX, so it can
+ * be edited again. Formulas that can't be read show their source in red.
+ */
+export const createInlineMath = (latex: string, options: MathOptions = {}): string => {
+   const result = renderMath(latex, options);
+   const content = 'svg' in result ? result.svg : `<span style="color: #dc2626;" title="${escapeAttribute(result.error)}">${escapeText(latex)}</span>`;
+   return `<span ${MATH_ATTRIBUTE}="${escapeAttribute(latex)}" contenteditable="false">${content}</span>`;
+};
@@ -0,0 +1,187 @@
+import { BlockType, StoredDocument } from "./type";
+import { blocksToHtml } from "./blockTree";
+import { migrateDocument } from "./migrations";
+import { SCHEMA_VERSION } from "./data";
+
+// ============================================
+// MIGRATION FIXTURES - saved documents from earlier releases
+// ============================================
+//
+// Frozen copies of documents as older builds stored them. Block HTML is copied
+// verbatim, never built from COMPONENT_BLOCKS - the point is to notice when a change
+// to the current block markup stops old documents from loading the same way.
+// `npm run test:migrations` runs checkMigrationFixtures() under jsdom - run it after
+// changing markup conventions or adding a migration.
+
+export type MigrationFixture = {
+   name: string;
+   description: string;
+   document: StoredDocument;
+   expected: {
+      blockTypes: BlockType[]; // Types of the top-level blocks after migration
+      html: string; // Block HTML after migration, without block ids
+   };
+}
+
+const A4 = { pageWidth: { value: 794, unit: 'px' as const }, pageHeight: { value: 1123, unit: 'px' as const } };
+
+export const MIGRATION_FIXTURES: MigrationFixture[] = [
+   {
+      name: 'v0-editor-dom',
+      description: 'Unversioned document saved straight from the editor DOM - toolbars, selection and pagination margins included',
+      document: {
+         id: 'fixture-editor-dom',
+         name: 'Welcome letter',
+         ...A4,
+         content: '<div class="content-flow" data-container="true"><h2 style="color: #333; margin: 0;" contenteditable="true" data-selected="true"><div class="element-toolbar" contenteditable="false"><button class="element-toolbar-btn" data-action="drag" title="Drag">::</button></div>Dear {{user.name}}</h2><p style="margin: 0px; margin-top: 312px;" data-pb-orig-mt="0px" data-page-break-before="1" contenteditable="true">Welcome to {{user.company_name}}.</p><div class="page-break-spacer"></div><div id="table-placeholder-marker" style="display:none;"></div></div>'
+      },
+      expected: {
+         blockTypes: ['heading', 'text'],
+         html: '<h2 style="color: #333; margin: 0;">Dear {{user.name}}</h2><p style="margin: 0px;">Welcome to {{user.company_name}}.</p>'
+      }
+   },
+   {
+      name: 'v0-bare-content',
+      description: 'Unversioned document whose content has no .content-flow wrapper',
+      document: {
+         id: 'fixture-bare-content',
+         name: 'Notes',
+         ...A4,
+         content: '<p style="margin: 0px;">First note</p>Loose text<p style="margin: 0px;">Second note</p>'
+      },
+      expected: {
+         blockTypes: ['text', 'textNode', 'text'],
+         html: '<p style="margin: 0px;">First note</p>Loose text<p style="margin: 0px;">Second note</p>'
+      }
+   },
+   {
+      name: 'v0-multi-page',
+      description: 'Multi-page document from before the single content flow',
+      document: {
+         id: 'fixture-multi-page',
+         name: 'Two pages',
+         pages: [
+            { id: 'page-1', name: 'Page 1', width: { value: 816, unit: 'px' }, height: { value: 1056, unit: 'px' }, html: '<h2 style="color: #333; margin: 0;">Page one</h2>' },
+            { id: 'page-2', name: 'Page 2', width: { value: 816, unit: 'px' }, height: { value: 1056, unit: 'px' }, html: '<p style="margin: 0px;">Page two</p>' }
+         ]
+      },
+      expected: {
+         blockTypes: ['heading', 'text'],
+         html: '<h2 style="color: #333; margin: 0;">Page one</h2><p style="margin: 0px;">Page two</p>'
+      }
+   },
+   {
+      name: 'v0-component-blocks',
+      description: 'Every block of the elements sidebar as the first release inserted it, tables without <tbody>',
+      document: {
+         id: 'fixture-component-blocks',
+         name: 'All blocks',
+         ...A4,
+         content: `<div class="content-flow" data-container="true">`
+            + `<h2 style='color: #333; margin: 0;'>Heading</h2>`
+            + `<p style='margin: 0px;'>Text with <a href="https://example.com" target="_blank" rel="noopener noreferrer">a link</a></p>`
+            + `<a href="#" style='display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 4px; margin: 10px 0;'>Button</a>`
+            + `<img src="https://via.placeholder.com/600x300" alt="Placeholder" style="width: 100%; height: auto; display: block; margin: 15px 0;">`
+            + `<div class='editor-divider' style='border: none; height:2px; background: #e5e7eb; margin: 30px 0;'></div>`
+            + `<div data-element-type='spacer' style='height: 40px;'></div>`
+            + `<div data-table-container="true" style="margin: 10px 0;"><table style="border-collapse: collapse; width: 100%; table-layout: fixed;"><tr><td style="border: 1px solid #ccc; padding: 8px;" contenteditable="true">{{invoice.total}}</td><td style="border: 1px solid #ccc; padding: 8px;" contenteditable="true">&nbsp;</td></tr></table></div>`
+            + `<div style='display: flex; gap: 10px; margin: 10px 0;' data-column-container='true'><div class='drop-zone' style='flex: 1; min-height: 100px;'><p style='margin: 0px;'>Left</p></div><div class='drop-zone' style='flex: 1; min-height: 100px;'></div></div>`
+            + `</div>`
+      },
+      expected: {
+         blockTypes: ['heading', 'text', 'button', 'image', 'divider', 'spacer', 'table', 'columns'],
+         html: '<h2 style="color: #333; margin: 0;">Heading</h2><p style="margin: 0px;">Text with <a href="https://example.com" target="_blank" rel="noopener noreferrer">a link</a></p><a href="#" style="display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 4px; margin: 10px 0;">Button</a><img src="https://via.placeholder.com/600x300" alt="Placeholder" style="width: 100%; height: auto; display: block; margin: 15px 0;"><div class="editor-divider" style="border: none; height: 2px; background: #e5e7eb; margin: 30px 0;"></div><div data-element-type="spacer" style="height: 40px;"></div><div data-table-container="true" style="margin: 10px 0;"><table style="border-collapse: collapse; width: 100%; table-layout: fixed;"><tbody><tr><td style="border: 1px solid #ccc; padding: 8px;">{{invoice.total}}</td><td style="border: 1px solid #ccc; padding: 8px;">&nbsp;</td></tr></tbody></table></div><div data-column-container="true" style="display: flex; gap: 10px; margin: 10px 0;"><div class="drop-zone" style="flex: 1; min-height: 100px;"><p style="margin: 0px;">Left</p></div><div class="drop-zone" style="flex: 1; min-height: 100px;"></div></div>'
+      }
+   },
+   {
+      name: 'v1-current',
+      description: 'Document at the current schema - loading must not change it',
+      document: {
+         id: 'fixture-current',
+         name: 'Current',
+         ...A4,
+         schemaVersion: 1,
+         content: '',
+         blocks: [
+            { id: 'blk-heading', type: 'heading', tag: 'h1', props: {}, styles: { color: '#111827' }, content: 'Invoice {{invoice.number}}' },
+            { id: 'blk-spacer', type: 'spacer', tag: 'div', props: { 'data-element-type': 'spacer' }, styles: { height: '40px' } }
+         ]
+      },
+      expected: {
+         blockTypes: ['heading', 'spacer'],
+         html: '<h1 style="color: #111827;">Invoice {{invoice.number}}</h1><div data-element-type="spacer" style="height: 40px;"></div>'
+      }
+   },
+   {
+      name: 'v0-unsafe-html-block',
+      description: 'Raw HTML block from before the sanitizer - scripts, event handlers and javascript: links',
+      document: {
+         id: 'fixture-unsafe-html-block',
+         name: 'Embed',
+         ...A4,
+         content: '<div class="content-flow" data-container="true"><div data-html-block="true"><img src="x.png" onerror="alert(1)"><a href="javascript:alert(1)">Open</a><script>alert(1)</script></div></div>'
+      },
+      expected: {
+         blockTypes: ['html'],
+         html: '<div data-html-block="true"><img src="x.png"><a>Open</a></div>'
+      }
+   },
+   {
+      name: 'v1-unsafe-html-block',
+      description: 'Current document whose saved block tree carries unsanitized HTML block markup (storage, host values)',
+      document: {
+         id: 'fixture-unsafe-html-tree',
+         name: 'Embed tree',
+         ...A4,
+         schemaVersion: 1,
+         content: '',
+         blocks: [
+            { id: 'blk-html', type: 'html', tag: 'div', props: { 'data-html-block': 'true' }, styles: {}, content: '<iframe src="https://example.com/embed" onload="alert(1)"></iframe><p onclick="alert(1)">Hi</p>' }
+         ]
+      },
+      expected: {
+         blockTypes: ['html'],
+         html: '<div data-html-block="true"><iframe src="https://example.com/embed" sandbox="allow-scripts allow-popups allow-forms"></iframe><p>Hi</p></div>'
+      }
+   }
+];
+
+// Block HTML without ids, style attributes written back by the DOM's own CSS serializer -
+// `margin: 0px` and `margin: 0px 0px 0px 0px` compare equal in any browser or jsdom
+const normalizeHtml = (html: string, ownerDocument: Document): string => {
+   const template = ownerDocument.createElement('template');
+   template.innerHTML = html;
+   template.content.querySelectorAll('[data-block-id]').forEach(el => el.removeAttribute('data-block-id'));
+   template.content.querySelectorAll<HTMLElement>('[style]').forEach(el => el.setAttribute('style', el.style.cssText));
+   return template.innerHTML;
+};
+
+/**
+ * Migrates every fixture and compares the result with its expectation.
+ * Returns the fixtures that no longer match - an empty list means all documents
+ * still load as before.
+ *
+ * @param ownerDocument - Document used to parse markup (pass jsdom's in Node)
+ */
+export const checkMigrationFixtures = (ownerDocument: Document = window.document): { name: string; errors: string[] }[] =>
+   MIGRATION_FIXTURES.map(fixture => {
+      const errors: string[] = [];
+      const migrated = migrateDocument(fixture.document, ownerDocument);
+
+      if (migrated.schemaVersion !== SCHEMA_VERSION) {
+         errors.push(`schemaVersion is ${migrated.schemaVersion}, expected ${SCHEMA_VERSION}`);
+      }
+
+      const blockTypes = migrated.blocks.map(block => block.type);
+      if (blockTypes.join() !== fixture.expected.blockTypes.join()) {
+         errors.push(`block types are [${blockTypes.join(', ')}], expected [${fixture.expected.blockTypes.join(', ')}]`);
+      }
+
+      const html = normalizeHtml(blocksToHtml(migrated.blocks), ownerDocument);
+      const expectedHtml = normalizeHtml(fixture.expected.html, ownerDocument);
+      if (html !== expectedHtml) {
+         errors.push(`block HTML changed:\n${html}\nexpected:\n${expectedHtml}`);
+      }
+
+      return { name: fixture.name, errors };
+   }).filter(result => result.errors.length > 0);
@@ -0,0 +1,83 @@
+import { DocumentMigration, EditorDocument, StoredDocument } from "./type";
+import { SCHEMA_VERSION } from "./data";
+import { CONTENT_FLOW_HTML, createEditorDocument, getDocumentBlocks, htmlToBlocks, sanitizeHtmlBlocks, withDocumentBlocks } from "./blockTree";
+import { stripPaginationState } from "./reconcile";
+
+// ============================================
+// SCHEMA MIGRATIONS - upgrade saved documents on load
+// ============================================
+//
+// Every change to the stored markup conventions (block HTML in COMPONENT_BLOCKS,
+// container attributes, `.content-flow`, ...) gets a migration here and a bump of
+// SCHEMA_VERSION in data.tsx. Migrations run in order, each one receiving the output
+// of the previous, and must keep documents that already follow the new conventions
+// intact. Add a fixture to migrationFixtures.ts for every migration.
+
+export const DOCUMENT_MIGRATIONS: DocumentMigration[] = [
+   {
+      version: 1,
+      description: 'Single content flow with a block tree and persistent block ids',
+      migrate: (document, ownerDocument) => {
+         const { pages, ...rest } = document;
+
+         // Multi-page documents: pages become one continuous flow, sized like the first page
+         let content = rest.content;
+         if (!content && pages?.length) {
+            content = CONTENT_FLOW_HTML(pages.map(page => page.html).join(''));
+            rest.pageWidth = rest.pageWidth ?? pages[0].width;
+            rest.pageHeight = rest.pageHeight ?? pages[0].height;
+         }
+         if (rest.blocks?.length || !content) return { ...rest, content };
+
+         // Older builds saved the live editor DOM - pagination margins, spacers and placeholders included
+         const template = ownerDocument.createElement('template');
+         template.innerHTML = content;
+         stripPaginationState(template.content);
+         template.content.querySelectorAll('#table-placeholder-marker').forEach(el => el.remove());
+
+         return { ...rest, blocks: htmlToBlocks(template.innerHTML, ownerDocument) };
+      }
+   }
+];
+
+export const getSchemaVersion = (document: StoredDocument): number => document.schemaVersion ?? 0;
+
+export const needsMigration = (document: StoredDocument): boolean => getSchemaVersion(document) < SCHEMA_VERSION;
+
+// Content-only documents are parsed (and sanitized) by getDocumentBlocks, saved trees by sanitizeHtmlBlocks
+const sanitizeDocument = (document: EditorDocument, ownerDocument: Document): EditorDocument => {
+   const blocks = sanitizeHtmlBlocks(getDocumentBlocks(document, ownerDocument), ownerDocument);
+   return blocks === document.blocks ? document : withDocumentBlocks(document, blocks);
+};
+
+/**
+ * Brings a stored document up to the current schema. Use it wherever documents
+ * enter the builder from outside (storage, `value`, versions, templates).
+ *
+ * Parsing legacy markup needs a DOM - without one (SSR) the document is returned
+ * unmigrated, keeping its version so the next call on the client upgrades it.
+ * Documents from a newer release are returned as they are, apart from raw HTML
+ * blocks - those are sanitized on every load, stored markup never went through
+ * the settings panel.
+ *
+ * @param document - Saved document JSON, any version
+ * @param ownerDocument - Document used to parse markup (pass jsdom's in Node)
+ */
+export const migrateDocument = (document: StoredDocument, ownerDocument?: Document): EditorDocument => {
+   const version = getSchemaVersion(document);
+   if (version > SCHEMA_VERSION) {
+      console.error(`Failed to migrate document "${document.name}": schema version ${version} is newer than ${SCHEMA_VERSION}`);
+   }
+
+   const parser = ownerDocument ?? (typeof window === 'undefined' ? null : window.document);
+   if (!parser) return createEditorDocument({ ...document, schemaVersion: version });
+   if (version >= SCHEMA_VERSION) return sanitizeDocument(createEditorDocument({ ...document, schemaVersion: version }), parser);
+
+   const migrated = DOCUMENT_MIGRATIONS
+      .filter(migration => migration.version > version && migration.version <= SCHEMA_VERSION)
+      .sort((a, b) => a.version - b.version)
+      .reduce((current, migration) => ({ ...migration.migrate(current, parser), schemaVersion: migration.version }), document);
+
+   return sanitizeDocument(createEditorDocument({ ...migrated, schemaVersion: SCHEMA_VERSION }), parser);
+};
+
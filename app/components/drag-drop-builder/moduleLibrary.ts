@@ -0,0 +1,96 @@
+import { DocumentModule, EditorDocument } from "./type";
+import { BLOCK_ID_ATTRIBUTE, getDocumentBlocks, stripEditorMarkup, walkBlocks } from "./blockTree";
+import { createBlocks, replaceBlock } from "./documentEngine";
+
+// ============================================
+// MODULE LIBRARY - reusable content saved from the editor
+// ============================================
+//
+// A module is the markup of one element (a block or a column container). Copies of
+// linked modules carry the module id and the `updatedAt` they were rendered from:
+//
+//   <div data-module-id="mod-..." data-module-version="1718000000000">...</div>
+//
+// When the master changes, syncModuleInstances re-renders every outdated copy.
+
+export const MODULE_ID_ATTRIBUTE = 'data-module-id';
+export const MODULE_VERSION_ATTRIBUTE = 'data-module-version';
+
+const THUMBNAIL_WIDTH = 320;
+
+export const generateModuleId = (): string => `mod-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Element copy without editor markup, block ids or module link
+const cleanModuleElement = (element: Element): Element => {
+   const clone = element.cloneNode(true) as Element;
+   const fragment = element.ownerDocument.createDocumentFragment();
+   fragment.appendChild(clone);
+   stripEditorMarkup(fragment);
+
+   [clone, ...Array.from(clone.querySelectorAll(`[${BLOCK_ID_ATTRIBUTE}]`))].forEach(el => el.removeAttribute(BLOCK_ID_ATTRIBUTE));
+   clone.removeAttribute(MODULE_ID_ATTRIBUTE);
+   clone.removeAttribute(MODULE_VERSION_ATTRIBUTE);
+   return clone;
+};
+
+// Markup stored as the module master
+export const getModuleMarkup = (element: Element): string => cleanModuleElement(element).outerHTML;
+
+/**
+ * Thumbnail of an element rendered in the editor - an SVG data URL embedding the
+ * markup, so no canvas or network access is needed. External images are not
+ * embedded and show up empty.
+ */
+export const createModuleThumbnail = (element: HTMLElement): string => {
+   const width = Math.max(element.offsetWidth, 1);
+   const height = Math.max(element.offsetHeight, 1);
+   const markup = new XMLSerializer().serializeToString(cleanModuleElement(element));
+
+   const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${Math.round(THUMBNAIL_WIDTH * height / width)}" viewBox="0 0 ${width} ${height}">`
+      + `<foreignObject width="${width}" height="${height}">${markup}</foreignObject>`
+      + `</svg>`;
+   return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Generated thumbnails are refreshed when the master changes; uploaded images are kept
+export const isModuleSnapshot = (thumbnail: string): boolean => thumbnail.startsWith('data:image/svg+xml');
+
+/**
+ * Markup inserted when a module is dropped - copies of linked modules are tagged
+ * with the module id and version.
+ */
+export const getModuleInstanceHtml = (master: DocumentModule, ownerDocument: Document = window.document): string => {
+   if (!master.linked) return master.html;
+
+   const template = ownerDocument.createElement('template');
+   template.innerHTML = master.html;
+   const root = template.content.firstElementChild;
+   if (!root) return master.html;
+
+   root.setAttribute(MODULE_ID_ATTRIBUTE, master.id);
+   root.setAttribute(MODULE_VERSION_ATTRIBUTE, String(master.updatedAt));
+   return template.innerHTML;
+};
+
+/**
+ * Re-renders linked module copies whose version differs from the master.
+ * Copies keep their block id; copies of deleted or unlinked modules are left as
+ * they are. Returns the same document when nothing is outdated.
+ */
+export const syncModuleInstances = (doc: EditorDocument, modules: DocumentModule[], ownerDocument?: Document): EditorDocument => {
+   const masters = new Map(modules.filter(item => item.linked).map(item => [item.id, item]));
+   if (masters.size === 0) return doc;
+
+   const outdated: { id: string; master: DocumentModule }[] = [];
+   walkBlocks(getDocumentBlocks(doc, ownerDocument), block => {
+      const master = masters.get(block.props[MODULE_ID_ATTRIBUTE]);
+      if (!master || block.props[MODULE_VERSION_ATTRIBUTE] === String(master.updatedAt)) return;
+      outdated.push({ id: block.id, master });
+   });
+
+   // Copies nested in an outdated copy are gone once it is re-rendered - replaceBlock skips them
+   return outdated.reduce((current, { id, master }) => {
+      const [root, ...rest] = createBlocks(getModuleInstanceHtml(master, ownerDocument), ownerDocument);
+      return root ? replaceBlock(current, id, [{ ...root, id }, ...rest], ownerDocument) : current;
+   }, doc);
+};
@@ -0,0 +1,186 @@
+import { BLOCK_ID_ATTRIBUTE, stripEditorMarkup } from "./blockTree";
+
+// ============================================
+// RECONCILE - patch the live content flow instead of re-rendering it
+// ============================================
+
+// Attributes written by usePagination - recalculated after every render
+const PAGINATION_ORIGINAL_MARGIN = 'data-pb-orig-mt';
+const PAGINATION_BREAK = 'data-page-break-before';
+
+// Markup each live node was last rendered from, so unchanged blocks skip re-serialization
+const renderedHtml = new WeakMap<Node, string>();
+
+const isBlockElement = (node: Node): node is Element => node.nodeType === 1 && (node as Element).hasAttribute(BLOCK_ID_ATTRIBUTE);
+
+const hasBlockChildren = (el: Element): boolean => Array.from(el.children).some(isBlockElement);
+
+/**
+ * Undoes the margins usePagination adds, in place. Pagination state leaks into
+ * stored content, so both sides are normalized before they are compared.
+ */
+export const stripPaginationState = (root: Element | DocumentFragment) => {
+   const descendants = Array.from(root.querySelectorAll('*'));
+   const elements = root.nodeType === 1 ? [root as Element, ...descendants] : descendants;
+   elements.forEach(el => {
+      const originalMargin = el.getAttribute(PAGINATION_ORIGINAL_MARGIN);
+      if (originalMargin !== null) {
+         (el as HTMLElement).style.marginTop = originalMargin;
+         el.removeAttribute(PAGINATION_ORIGINAL_MARGIN);
+         if (!el.getAttribute('style')) el.removeAttribute('style');
+      }
+      el.removeAttribute(PAGINATION_BREAK);
+   });
+};
+
+// Stored-document markup of a live element, without editor and pagination state
+const getCleanHtml = (el: Element): string => {
+   const fragment = el.ownerDocument.createDocumentFragment();
+   fragment.appendChild(el.cloneNode(true));
+   stripEditorMarkup(fragment);
+   stripPaginationState(fragment);
+   return (fragment.firstChild as Element).outerHTML;
+};
+
+/**
+ * Records the source markup of every block in a freshly parsed tree. Must run
+ * before the tree is prepared for editing (toolbars, contenteditable, ...).
+ */
+export const captureSourceHtml = (root: Element) => {
+   root.querySelectorAll(`[${BLOCK_ID_ATTRIBUTE}]`).forEach(el => renderedHtml.set(el, el.outerHTML));
+};
+
+const syncAttributes = (live: Element, next: Element) => {
+   Array.from(live.attributes).forEach(attr => {
+      if (!next.hasAttribute(attr.name)) live.removeAttribute(attr.name);
+   });
+   Array.from(next.attributes).forEach(attr => {
+      if (live.getAttribute(attr.name) !== attr.value) live.setAttribute(attr.name, attr.value);
+   });
+};
+
+// Makes live.childNodes equal to `nodes`, moving as few kept nodes as possible
+const applyChildren = (live: Element, nodes: Node[]) => {
+   const keep = new Set(nodes);
+   Array.from(live.childNodes).forEach(node => {
+      if (!keep.has(node)) node.remove();
+   });
+   nodes.forEach((node, index) => {
+      const current = live.childNodes[index] ?? null;
+      if (current !== node) live.insertBefore(node, current);
+   });
+};
+
+/**
+ * Patches the children of a live element to match a prepared element.
+ * Blocks are matched by id: unchanged blocks keep their DOM node (and with it
+ * focus, caret and listeners), containers are patched recursively and
+ * changed leaf blocks are replaced.
+ *
+ * @param live - Element currently in the shadow DOM
+ * @param next - Prepared element parsed from the new content (see captureSourceHtml)
+ */
+export const reconcileChildren = (live: Element, next: Element) => {
+   const liveBlocks = new Map<string, Element>();
+   Array.from(live.children).forEach(child => {
+      if (isBlockElement(child)) liveBlocks.set(child.getAttribute(BLOCK_ID_ATTRIBUTE)!, child);
+   });
+   const liveToolbar = Array.from(live.children).find(child => child.classList.contains('element-toolbar'));
+
+   const nodes = Array.from(next.childNodes).map(node => {
+      if (!isBlockElement(node)) {
+         // Keep the live toolbar - its buttons carry no state, but re-creating it flickers
+         return liveToolbar && node.nodeType === 1 && (node as Element).classList.contains('element-toolbar') ? liveToolbar : node;
+      }
+
+      const current = liveBlocks.get(node.getAttribute(BLOCK_ID_ATTRIBUTE)!);
+      const source = renderedHtml.get(node);
+      if (!current || source === undefined) return node;
+
+      if (renderedHtml.get(current) === source || getCleanHtml(current) === source) {
+         renderedHtml.set(current, source);
+         return current;
+      }
+
+      if (current.tagName === node.tagName && hasBlockChildren(node) && hasBlockChildren(current)) {
+         syncAttributes(current, node);
+         reconcileChildren(current, node);
+         renderedHtml.set(current, source);
+         return current;
+      }
+      return node;
+   });
+
+   applyChildren(live, nodes);
+};
+
+// ============================================
+// CARET - keep the caret when the block being edited is replaced
+// ============================================
+
+export interface CaretPosition {
+   blockId: string;
+   /** Character offset from the start of the block's text */
+   offset: number;
+   element: Element;
+   focused: boolean;
+}
+
+const getRootSelection = (root: ShadowRoot): Selection | null =>
+   (root as unknown as { getSelection?: () => Selection | null }).getSelection?.() || window.getSelection();
+
+export const captureCaret = (root: ShadowRoot): CaretPosition | null => {
+   const selection = getRootSelection(root);
+   if (!selection || selection.rangeCount === 0) return null;
+
+   const range = selection.getRangeAt(0);
+   const container = range.startContainer.nodeType === 1 ? range.startContainer as Element : range.startContainer.parentElement;
+   const block = container?.closest(`[${BLOCK_ID_ATTRIBUTE}][contenteditable="true"]`);
+   if (!block || block.getRootNode() !== root) return null;
+
+   const before = range.cloneRange();
+   before.selectNodeContents(block);
+   before.setEnd(range.startContainer, range.startOffset);
+
+   return {
+      blockId: block.getAttribute(BLOCK_ID_ATTRIBUTE)!,
+      offset: before.toString().length,
+      element: block,
+      focused: root.activeElement === block
+   };
+};
+
+/**
+ * Puts the caret back at the same text offset if the block it was in has been
+ * replaced. Does nothing when the block's node survived reconciliation.
+ */
+export const restoreCaret = (root: ShadowRoot, caret: CaretPosition | null) => {
+   if (!caret || caret.element.isConnected) return;
+
+   const block = root.querySelector(`[${BLOCK_ID_ATTRIBUTE}="${caret.blockId}"]`) as HTMLElement | null;
+   if (!block) return;
+   if (caret.focused) block.focus({ preventScroll: true });
+
+   const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+   let remaining = caret.offset;
+   let node = walker.nextNode();
+   while (node) {
+      const length = node.textContent?.length ?? 0;
+      if (remaining <= length) break;
+      remaining -= length;
+      node = walker.nextNode();
+   }
+
+   const range = block.ownerDocument.createRange();
+   if (node) {
+      range.setStart(node, remaining);
+   } else {
+      range.selectNodeContents(block);
+      range.collapse(false);
+   }
+   range.collapse(true);
+
+   const selection = getRootSelection(root);
+   selection?.removeAllRanges();
+   selection?.addRange(range);
+};
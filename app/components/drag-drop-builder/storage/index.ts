@@ -0,0 +1,12 @@
+/**
+ * Document persistence
+ *
+ * Storage adapters implement `DocumentStorageAdapter` (see type.ts) and can be
+ * passed to the builder through its `storage` prop.
+ */
+
+export { createIndexedDbAdapter } from './indexedDbAdapter';
+export { createRestAdapter } from './restAdapter';
+export type { RestAdapterOptions } from './restAdapter';
+export { createKeyedStore, DATABASE_NAME } from './indexedDb';
+export type { KeyedStore } from './indexedDb';
@@ -0,0 +1,64 @@
+// ============================================
+// INDEXEDDB - shared database and keyed stores
+// ============================================
+
+export const DATABASE_NAME = 'drag-drop-builder';
+
+// Bump DATABASE_VERSION whenever a store is added
+const DATABASE_VERSION = 4;
+const STORE_NAMES = ['documents', 'versions', 'modules', 'templates'];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+   request.onsuccess = () => resolve(request.result);
+   request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+   if (databasePromise) return databasePromise;
+   if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+   }
+
+   databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+         const db = request.result;
+         STORE_NAMES.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+         });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+         databasePromise = null;
+         reject(request.error);
+      };
+   });
+   return databasePromise;
+};
+
+export type KeyedStore<T> = {
+   getAll: () => Promise<T[]>;
+   get: (key: string) => Promise<T | null>;
+   put: (key: string, value: T) => Promise<void>;
+   delete: (key: string) => Promise<void>;
+}
+
+/**
+ * Minimal promise wrapper around one object store of the builder database.
+ * The database is opened lazily, so creating a store is safe during SSR.
+ */
+export const createKeyedStore = <T>(storeName: string): KeyedStore<T> => {
+   const run = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+      const db = await openDatabase();
+      return requestToPromise(fn(db.transaction(storeName, mode).objectStore(storeName)));
+   };
+
+   return {
+      getAll: () => run('readonly', store => store.getAll() as IDBRequest<T[]>),
+      get: async (key) => (await run('readonly', store => store.get(key) as IDBRequest<T | undefined>)) ?? null,
+      put: async (key, value) => { await run('readwrite', store => store.put(value, key)); },
+      delete: async (key) => { await run('readwrite', store => store.delete(key)); }
+   };
+};
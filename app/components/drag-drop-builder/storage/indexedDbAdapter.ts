@@ -0,0 +1,86 @@
+import { DocumentModule, DocumentStorageAdapter, DocumentTemplate, DocumentVersion, EditorDocument, ModuleStorageAdapter, StoredDocumentSummary, TemplateStorageAdapter, VersionStorageAdapter } from "../type";
+import { createKeyedStore } from "./indexedDb";
+
+type StoredDocument = {
+   document: EditorDocument;
+   updatedAt: number;
+}
+
+const toSummary = ({ document, updatedAt }: StoredDocument): StoredDocumentSummary => ({
+   id: document.id,
+   name: document.name,
+   updatedAt
+});
+
+const createIndexedDbVersionAdapter = (): VersionStorageAdapter => {
+   const store = createKeyedStore<DocumentVersion>('versions');
+
+   return {
+      list: async (documentId) => {
+         const versions = await store.getAll();
+         return versions
+            .filter(version => version.documentId === documentId)
+            .sort((a, b) => b.createdAt - a.createdAt);
+      },
+      save: (version) => store.put(version.id, version),
+      delete: (_documentId, versionId) => store.delete(versionId)
+   };
+};
+
+const createIndexedDbModuleAdapter = (): ModuleStorageAdapter => {
+   const store = createKeyedStore<DocumentModule>('modules');
+
+   return {
+      list: async () => {
+         const modules = await store.getAll();
+         return modules.sort((a, b) => b.updatedAt - a.updatedAt);
+      },
+      save: (module) => store.put(module.id, module),
+      delete: (id) => store.delete(id)
+   };
+};
+
+const createIndexedDbTemplateAdapter = (): TemplateStorageAdapter => {
+   const store = createKeyedStore<DocumentTemplate>('templates');
+
+   return {
+      list: async () => {
+         const templates = await store.getAll();
+         return templates.sort((a, b) => b.createdAt - a.createdAt);
+      },
+      save: (template) => store.put(template.id, template),
+      delete: (id) => store.delete(id)
+   };
+};
+
+/**
+ * Default storage adapter - keeps documents in the browser's IndexedDB.
+ */
+export const createIndexedDbAdapter = (): DocumentStorageAdapter => {
+   const store = createKeyedStore<StoredDocument>('documents');
+   const versions = createIndexedDbVersionAdapter();
+   const modules = createIndexedDbModuleAdapter();
+   const templates = createIndexedDbTemplateAdapter();
+
+   return {
+      list: async () => {
+         const records = await store.getAll();
+         return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+      },
+      load: async (id) => (await store.get(id))?.document ?? null,
+      save: (document) => store.put(document.id, { document, updatedAt: Date.now() }),
+      delete: async (id) => {
+         await store.delete(id);
+         const documentVersions = await versions.list(id);
+         await Promise.all(documentVersions.map(version => versions.delete(id, version.id)));
+      },
+      rename: async (id, name) => {
+         const record = await store.get(id);
+         if (!record) throw new Error(`Document "${id}" not found`);
+         await store.put(id, { document: { ...record.document, name }, updatedAt: Date.now() });
+      },
+      versions,
+      modules,
+      templates
+   };
+};
@@ -0,0 +1,115 @@
+import { DocumentModule, DocumentStorageAdapter, DocumentTemplate, DocumentVersion, EditorDocument, StoredDocumentSummary } from "../type";
+
+export type RestAdapterOptions = {
+   baseUrl: string; // e.g. https://api.example.com - documents live under `${baseUrl}/documents`, modules and templates under `${baseUrl}/modules` and `${baseUrl}/templates`
+   headers?: Record<string, string> | (() => Record<string, string>); // Static or per-request (auth tokens)
+   fetch?: typeof fetch;
+}
+
+/**
+ * Storage adapter for a JSON REST backend:
+ *
+ * - GET    /documents       -> StoredDocumentSummary[]
+ * - GET    /documents/:id   -> EditorDocument (404 when missing)
+ * - PUT    /documents/:id   <- EditorDocument
+ * - PATCH  /documents/:id   <- { name }
+ * - DELETE /documents/:id
+ * - GET    /documents/:id/versions       -> DocumentVersion[]
+ * - PUT    /documents/:id/versions/:vid  <- DocumentVersion
+ * - DELETE /documents/:id/versions/:vid
+ * - GET    /modules         -> DocumentModule[]
+ * - PUT    /modules/:id     <- DocumentModule
+ * - DELETE /modules/:id
+ * - GET    /templates       -> DocumentTemplate[]
+ * - PUT    /templates/:id   <- DocumentTemplate
+ * - DELETE /templates/:id
+ *
+ * `npm run mock:storage` starts an in-memory server implementing this contract.
+ */
+export const createRestAdapter = ({ baseUrl, headers, fetch: fetchFn = fetch }: RestAdapterOptions): DocumentStorageAdapter => {
+   const apiRoot = baseUrl.replace(/\/+$/, '');
+
+   const send = async (path: string, init: RequestInit = {}): Promise<Response> => {
+      const extraHeaders = typeof headers === 'function' ? headers() : headers;
+      const response = await fetchFn(`${apiRoot}${path}`, {
+         ...init,
+         headers: { 'Content-Type': 'application/json', ...extraHeaders, ...init.headers }
+      });
+      if (!response.ok && response.status !== 404) {
+         throw new Error(`Storage request ${init.method ?? 'GET'} ${path} failed with status ${response.status}`);
+      }
+      return response;
+   };
+
+   const request = (path: string, init?: RequestInit) => send(`/documents${path}`, init);
+   const moduleRequest = (path: string, init?: RequestInit) => send(`/modules${path}`, init);
+   const templateRequest = (path: string, init?: RequestInit) => send(`/templates${path}`, init);
+
+   const documentPath = (id: string) => `/${encodeURIComponent(id)}`;
+
+   return {
+      list: async () => {
+         const response = await request('');
+         const summaries = await response.json() as StoredDocumentSummary[];
+         return [...summaries].sort((a, b) => b.updatedAt - a.updatedAt);
+      },
+      load: async (id) => {
+         const response = await request(documentPath(id));
+         if (response.status === 404) return null;
+         return await response.json() as EditorDocument;
+      },
+      save: async (document) => {
+         await request(documentPath(document.id), { method: 'PUT', body: JSON.stringify(document) });
+      },
+      delete: async (id) => {
+         await request(documentPath(id), { method: 'DELETE' });
+      },
+      rename: async (id, name) => {
+         const response = await request(documentPath(id), { method: 'PATCH', body: JSON.stringify({ name }) });
+         if (response.status === 404) throw new Error(`Document "${id}" not found`);
+      },
+      versions: {
+         list: async (documentId) => {
+            const response = await request(`${documentPath(documentId)}/versions`);
+            if (response.status === 404) return [];
+            const versions = await response.json() as DocumentVersion[];
+            return [...versions].sort((a, b) => b.createdAt - a.createdAt);
+         },
+         save: async (version) => {
+            const path = `${documentPath(version.documentId)}/versions/${encodeURIComponent(version.id)}`;
+            await request(path, { method: 'PUT', body: JSON.stringify(version) });
+         },
+         delete: async (documentId, versionId) => {
+            await request(`${documentPath(documentId)}/versions/${encodeURIComponent(versionId)}`, { method: 'DELETE' });
+         }
+      },
+      modules: {
+         list: async () => {
+            const response = await moduleRequest('');
+            if (response.status === 404) return [];
+            const modules = await response.json() as DocumentModule[];
+            return [...modules].sort((a, b) => b.updatedAt - a.updatedAt);
+         },
+         save: async (module) => {
+            await moduleRequest(`/${encodeURIComponent(module.id)}`, { method: 'PUT', body: JSON.stringify(module) });
+         },
+         delete: async (id) => {
+            await moduleRequest(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+         }
+      },
+      templates: {
+         list: async () => {
+            const response = await templateRequest('');
+            if (response.status === 404) return [];
+            const templates = await response.json() as DocumentTemplate[];
+            return [...templates].sort((a, b) => b.createdAt - a.createdAt);
+         },
+         save: async (template) => {
+            await templateRequest(`/${encodeURIComponent(template.id)}`, { method: 'PUT', body: JSON.stringify(template) });
+         },
+         delete: async (id) => {
+            await templateRequest(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+         }
+      }
+   };
+};
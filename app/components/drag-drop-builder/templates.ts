@@ -0,0 +1,235 @@
+import { DocumentTemplate, EditorDocument, MergeFieldDefinition } from "./type";
+import { blocksToHtml, CONTENT_FLOW_HTML, createEditorDocument, getDocumentBlocks } from "./blockTree";
+import { createBlocks } from "./documentEngine";
+import { migrateDocument } from "./migrations";
+import { extractMergeFields, humanizeName } from "./utils";
+
+// ============================================
+// TEMPLATES - starter documents for "New from template"
+// ============================================
+//
+// Template documents use the markup of the sidebar blocks (headings, text, column
+// containers, tables) so everything stays editable, and declare the merge fields
+// they use so autocomplete offers them in documents created from the template.
+
+export const TEMPLATE_CATEGORIES = ['Finance', 'HR', 'Legal', 'Marketing', 'Education'];
+
+const CELL = 'border: 1px solid #ccc; padding: 8px; word-wrap: break-word; overflow-wrap: break-word;';
+const HEAD_CELL = `${CELL} background: #f3f4f6; font-weight: 600;`;
+
+const table = (rows: string[][], header = true): string => /* html */`
+   <div data-table-container="true" style="margin: 10px 0;">
+      <table style="border-collapse: collapse; width: 100%; table-layout: fixed;">
+         <tbody>
+            ${rows.map((cells, rowIndex) => `<tr>${cells.map(cell => `<td style="${header && rowIndex === 0 ? HEAD_CELL : CELL}">${cell}</td>`).join('')}</tr>`).join('')}
+         </tbody>
+      </table>
+   </div>
+`;
+
+const columns = (...zones: string[]): string => /* html */`
+   <div style="display: flex; gap: 20px; margin: 10px 0;" data-column-container="true">
+      ${zones.map(zone => `<div class="drop-zone" style="flex: 1; min-height: 100px;">${zone}</div>`).join('')}
+   </div>
+`;
+
+const DIVIDER = /* html */`<div class="editor-divider" style="border: none; height: 2px; background: #e5e7eb; margin: 30px 0;"></div>`;
+
+const COMPANY_FIELDS: MergeFieldDefinition[] = [
+   { path: 'user.company_name', label: 'Company Name', category: 'User' },
+   { path: 'user.name', label: 'User Name', category: 'User' },
+   { path: 'user.email', label: 'User Email', category: 'User' }
+];
+
+const CLIENT_FIELDS: MergeFieldDefinition[] = [
+   { path: 'client.name', label: 'Client Name', category: 'Client' },
+   { path: 'client.company_name', label: 'Client Company Name', category: 'Client' },
+   { path: 'client.email', label: 'Client Email', category: 'Client' }
+];
+
+const starter = (
+   id: string,
+   name: string,
+   category: string,
+   description: string,
+   pageFormat: string,
+   mergeFields: MergeFieldDefinition[],
+   html: string
+): DocumentTemplate => ({
+   id: `starter-${id}`,
+   name,
+   description,
+   category,
+   builtIn: true,
+   createdAt: 0,
+   document: { name, pageFormat, mergeFields, content: CONTENT_FLOW_HTML(html) }
+});
+
+export const STARTER_TEMPLATES: DocumentTemplate[] = [
+   starter('invoice', 'Invoice', 'Finance', 'Itemized invoice with billing details, line items and payment terms.', 'a4', [
+      ...COMPANY_FIELDS,
+      ...CLIENT_FIELDS,
+      { path: 'invoice.number', label: 'Invoice Number', category: 'Invoice' },
+      { path: 'invoice.date', label: 'Invoice Date', category: 'Invoice' },
+      { path: 'invoice.due_date', label: 'Due Date', category: 'Invoice' },
+      { path: 'invoice.total', label: 'Invoice Total', category: 'Invoice' }
+   ], /* html */`
+      ${columns(
+         `<h1 style="color: #333; margin: 0;">INVOICE</h1><p style="margin: 0px;">{{user.company_name}}<br>{{user.email}}</p>`,
+         `<p style="margin: 0px; text-align: right;">Invoice #{{invoice.number}}<br>Date: {{invoice.date}}<br>Due: {{invoice.due_date}}</p>`
+      )}
+      ${DIVIDER}
+      <h3 style="color: #333; margin: 0;">Bill to</h3>
+      <p style="margin: 0px;">{{client.name}}<br>{{client.company_name}}<br>{{client.email}}</p>
+      ${table([
+         ['Description', 'Quantity', 'Unit price', 'Amount'],
+         ['Consulting services', '10', '$150.00', '$1,500.00'],
+         ['Design work', '5', '$120.00', '$600.00'],
+         ['&nbsp;', '&nbsp;', '&nbsp;', '&nbsp;']
+      ])}
+      <h3 style="color: #333; margin: 0; text-align: right;">Total: {{invoice.total}}</h3>
+      <p style="margin: 20px 0px 0px; color: #6b7280;">Payment is due within 30 days. Thank you for your business!</p>
+   `),
+
+   starter('offer-letter', 'Offer Letter', 'HR', 'Formal job offer covering position, start date and compensation.', 'letter', [
+      ...COMPANY_FIELDS,
+      { path: 'candidate.name', label: 'Candidate Name', category: 'Candidate' },
+      { path: 'candidate.address', label: 'Candidate Address', category: 'Candidate' },
+      { path: 'position.title', label: 'Position Title', category: 'Position' },
+      { path: 'position.start_date', label: 'Start Date', category: 'Position' },
+      { path: 'position.salary', label: 'Salary', category: 'Position' },
+      { path: 'position.manager', label: 'Reporting Manager', category: 'Position' }
+   ], /* html */`
+      <h2 style="color: #333; margin: 0;">{{user.company_name}}</h2>
+      ${DIVIDER}
+      <p style="margin: 0px;">{{candidate.name}}<br>{{candidate.address}}</p>
+      <p style="margin: 20px 0px 0px;">Dear {{candidate.name}},</p>
+      <p style="margin: 10px 0px 0px;">We are delighted to offer you the position of <strong>{{position.title}}</strong> at {{user.company_name}}. You will report to {{position.manager}}, and your first day will be {{position.start_date}}.</p>
+      <p style="margin: 10px 0px 0px;">Your annual salary will be {{position.salary}}, paid in accordance with our standard payroll schedule. You will also be eligible for the benefits described in the enclosed summary.</p>
+      <p style="margin: 10px 0px 0px;">Please confirm your acceptance by signing and returning this letter. We look forward to welcoming you to the team.</p>
+      <p style="margin: 30px 0px 0px;">Sincerely,<br><br>{{user.name}}<br>{{user.company_name}}</p>
+      ${DIVIDER}
+      <p style="margin: 0px;">Accepted by: ______________________________ &nbsp; Date: ______________</p>
+   `),
+
+   starter('nda', 'Non-Disclosure Agreement', 'Legal', 'Mutual NDA between two parties with standard confidentiality terms.', 'letter', [
+      ...COMPANY_FIELDS,
+      ...CLIENT_FIELDS,
+      { path: 'agreement.date', label: 'Effective Date', category: 'Agreement' },
+      { path: 'agreement.term', label: 'Term', category: 'Agreement' },
+      { path: 'agreement.jurisdiction', label: 'Jurisdiction', category: 'Agreement' }
+   ], /* html */`
+      <h1 style="color: #333; margin: 0; text-align: center;">Mutual Non-Disclosure Agreement</h1>
+      <p style="margin: 20px 0px 0px;">This Agreement is entered into as of {{agreement.date}} between <strong>{{user.company_name}}</strong> and <strong>{{client.company_name}}</strong> (each a "Party").</p>
+      <h3 style="color: #333; margin: 20px 0 0;">1. Confidential Information</h3>
+      <p style="margin: 10px 0px 0px;">"Confidential Information" means any non-public information disclosed by one Party to the other, whether in writing, orally or by inspection, that is designated as confidential or should reasonably be understood to be confidential.</p>
+      <h3 style="color: #333; margin: 20px 0 0;">2. Obligations</h3>
+      <p style="margin: 10px 0px 0px;">Each Party shall use the other Party's Confidential Information only to evaluate the business relationship, and shall not disclose it to any third party without prior written consent.</p>
+      <h3 style="color: #333; margin: 20px 0 0;">3. Term</h3>
+      <p style="margin: 10px 0px 0px;">This Agreement remains in effect for {{agreement.term}} from the effective date.</p>
+      <h3 style="color: #333; margin: 20px 0 0;">4. Governing Law</h3>
+      <p style="margin: 10px 0px 0px;">This Agreement is governed by the laws of {{agreement.jurisdiction}}.</p>
+      ${columns(
+         `<p style="margin: 0px;"><strong>{{user.company_name}}</strong><br><br>Signature: ____________________<br>Name: {{user.name}}</p>`,
+         `<p style="margin: 0px;"><strong>{{client.company_name}}</strong><br><br>Signature: ____________________<br>Name: {{client.name}}</p>`
+      )}
+   `),
+
+   starter('newsletter', 'Newsletter', 'Marketing', 'Monthly newsletter with a feature story, highlights and a call to action.', 'a4', [
+      ...COMPANY_FIELDS,
+      { path: 'client.name', label: 'Client Name', category: 'Client' },
+      { path: 'newsletter.issue', label: 'Issue', category: 'Newsletter' },
+      { path: 'newsletter.date', label: 'Issue Date', category: 'Newsletter' }
+   ], /* html */`
+      <h1 style="color: #333; margin: 0; text-align: center;">{{user.company_name}} News</h1>
+      <p style="margin: 0px; text-align: center; color: #6b7280;">Issue {{newsletter.issue}} · {{newsletter.date}}</p>
+      ${DIVIDER}
+      <p style="margin: 0px;">Hi {{client.name}},</p>
+      <h2 style="color: #333; margin: 20px 0 0;">Feature story</h2>
+      <p style="margin: 10px 0px 0px;">Share the biggest news of the month here - a product launch, a milestone or a customer story.</p>
+      ${columns(
+         `<h3 style="color: #333; margin: 0;">Highlight one</h3><p style="margin: 0px;">A short summary of an update your readers will care about.</p>`,
+         `<h3 style="color: #333; margin: 0;">Highlight two</h3><p style="margin: 0px;">Another update, event or tip worth a quick read.</p>`
+      )}
+      <p style="margin: 20px 0px 0px; text-align: center;"><a href="#" style="display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 4px; margin: 10px 0;">Read more</a></p>
+      ${DIVIDER}
+      <p style="margin: 0px; text-align: center; color: #6b7280; font-size: 12px;">You are receiving this newsletter from {{user.company_name}} · {{user.email}}</p>
+   `),
+
+   starter('certificate', 'Certificate', 'Education', 'Certificate of completion with recipient, course and signature line.', 'letter', [
+      { path: 'user.name', label: 'User Name', category: 'User' },
+      { path: 'user.company_name', label: 'Company Name', category: 'User' },
+      { path: 'recipient.name', label: 'Recipient Name', category: 'Recipient' },
+      { path: 'certificate.course', label: 'Course', category: 'Certificate' },
+      { path: 'certificate.date', label: 'Completion Date', category: 'Certificate' }
+   ], /* html */`
+      <div data-element-type="spacer" style="height: 80px;"></div>
+      <h1 style="color: #333; margin: 0; text-align: center; letter-spacing: 2px;">CERTIFICATE OF COMPLETION</h1>
+      <p style="margin: 30px 0px 0px; text-align: center;">This certifies that</p>
+      <h2 style="color: #1d4ed8; margin: 10px 0 0; text-align: center; font-size: 36px;">{{recipient.name}}</h2>
+      <p style="margin: 20px 0px 0px; text-align: center;">has successfully completed</p>
+      <h3 style="color: #333; margin: 10px 0 0; text-align: center;">{{certificate.course}}</h3>
+      <p style="margin: 10px 0px 0px; text-align: center;">on {{certificate.date}}</p>
+      <div data-element-type="spacer" style="height: 60px;"></div>
+      ${columns(
+         `<p style="margin: 0px; text-align: center;">____________________<br>{{user.name}}</p>`,
+         `<p style="margin: 0px; text-align: center;">____________________<br>{{user.company_name}}</p>`
+      )}
+   `)
+];
+
+/**
+ * New document from a template - its own id and block ids, the template's page
+ * size and merge fields.
+ */
+export const createDocumentFromTemplate = (template: DocumentTemplate, ownerDocument?: Document): EditorDocument => {
+   const source = migrateDocument(template.document, ownerDocument);
+   const blocks = createBlocks(blocksToHtml(getDocumentBlocks(source, ownerDocument)), ownerDocument);
+   return createEditorDocument({ ...source, id: undefined, name: template.name, blocks });
+};
+
+// 'due_date' -> 'Due Date'
+const toLabel = (name: string): string => humanizeName(name).replace(/\b\w/g, letter => letter.toUpperCase());
+
+/**
+ * Template from a document. Merge field tokens the document uses without
+ * declaring them are added, labeled from their path.
+ */
+export const createTemplateFromDocument = (
+   doc: EditorDocument,
+   { name, description, category }: Pick<DocumentTemplate, 'name' | 'description' | 'category'>
+): DocumentTemplate => {
+   const declared = doc.mergeFields ?? [];
+   const undeclared = extractMergeFields(doc.content)
+      .filter(path => !declared.some(field => field.path === path))
+      .map(path => ({ path, label: toLabel(path.split('.').pop() ?? path), category: toLabel(path.split('.')[0]) }));
+
+   // The block tree is rebuilt from the content, with fresh ids, for every new document
+   const { pageFormat, pageWidth, pageHeight, content, schemaVersion, notePlacement } = doc;
+   return {
+      id: `tpl-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      name,
+      description,
+      category,
+      createdAt: Date.now(),
+      document: {
+         name, pageFormat, pageWidth, pageHeight, content, schemaVersion, mergeFields: [...declared, ...undeclared],
+         ...(notePlacement ? { notePlacement } : {})
+      }
+   };
+};
+
+// Case-insensitive match on name, description, category and merge field labels
+export const searchTemplates = (templates: DocumentTemplate[], query: string, category: string | null = null): DocumentTemplate[] => {
+   const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+   return templates.filter(template => {
+      if (category && template.category !== category) return false;
+      const text = [
+         template.name,
+         template.description,
+         template.category,
+         ...(template.document.mergeFields ?? []).map(field => field.label)
+      ].join(' ').toLowerCase();
+      return terms.every(term => text.includes(term));
+   });
+};
@@ -1,4 +1,4 @@
-import { JSX } from "react";
+import type { JSX } from "react";
 
 export type ElementStyles = {
    [key: string]: string;
@@ -16,8 +16,48 @@ export type EditorDocument = {
    name: string;
    pageWidth: Width;
    pageHeight: Height;
-   content: string; // Single continuous HTML content
+   content: string; // Single continuous HTML content (serialized from `blocks`)
+   blocks: BlockNode[]; // Canonical block tree of the content flow
    pageFormat?: string;
+   schemaVersion: number; // Markup conventions the document was written with - see migrations.ts
+   mergeFields?: MergeFieldDefinition[]; // Fields offered by merge field autocomplete besides the builder's own
+   notePlacement?: NotePlacement; // Where footnote references show their notes - footnotes when unset
+}
+
+// Bottom of the page the reference is on, or one list at the end of the document
+export type NotePlacement = 'footnotes' | 'endnotes';
+
+export interface MergeFieldDefinition {
+   path: string;
+   label: string;
+   category?: string;
+}
+
+// Semantic block types - derived from the markup conventions in COMPONENT_BLOCKS
+export type BlockType =
+   | 'heading'
+   | 'text'
+   | 'button'
+   | 'image'
+   | 'divider'
+   | 'spacer'
+   | 'html'
+   | 'table'
+   | 'columns'
+   | 'column'
+   | 'textNode'
+   | 'element'
+   | (string & {});
+
+// A single node of the structured document tree
+export type BlockNode = {
+   id: string;
+   type: BlockType;
+   tag: string; // Lower-case tag name, '#text' for bare text nodes
+   props: Record<string, string>; // Attributes except `style` and the block id
+   styles: ElementStyles;
+   content?: string; // Inner HTML of leaf blocks (rich text, table cells, ...)
+   children?: BlockNode[]; // Child blocks of structural nodes (columns, tables)
 }
 
 export type ElementInfo = {
@@ -28,6 +68,7 @@ export type ElementInfo = {
    src: string;
    href: string;
    alt: string;
+   id: string;
    isHtmlBlock: boolean;
    customCss: string;
    inlineLinks?: InlineLink[];
@@ -37,6 +78,11 @@ export type ElementInfo = {
    tableElement?: HTMLTableElement | null;
    cellRowIndex?: number;
    cellColIndex?: number;
+   // Registered block context
+   elementType?: string;
+   blockProps?: Record<string, unknown>;
+   // Linked module context
+   moduleId?: string;
 }
 
 export type Block = {
@@ -72,4 +118,270 @@ export type PagePreset = {
    height: Height;
    default?: boolean;
    show: boolean;
-}
\ No newline at end of file
+}
+// ============================================
+// PERSISTENCE
+// ============================================
+
+export type StoredDocumentSummary = {
+   id: string;
+   name: string;
+   updatedAt: number; // Epoch milliseconds
+}
+
+// Backend for the document library and autosave (IndexedDB, REST, ...)
+export type DocumentStorageAdapter = {
+   list: () => Promise<StoredDocumentSummary[]>; // Most recently updated first
+   load: (id: string) => Promise<EditorDocument | null>;
+   save: (document: EditorDocument) => Promise<void>;
+   delete: (id: string) => Promise<void>;
+   rename: (id: string, name: string) => Promise<void>;
+   versions?: VersionStorageAdapter; // Named versions - the versions panel is hidden without it
+   modules?: ModuleStorageAdapter; // Module library - "Save as module" is hidden without it
+   templates?: TemplateStorageAdapter; // Saved templates - only the starter templates are offered without it
+}
+
+// Durable named snapshot of a document
+export type DocumentVersion = {
+   id: string;
+   documentId: string;
+   name: string;
+   createdAt: number; // Epoch milliseconds
+   trigger: 'manual' | 'export';
+   document: EditorDocument;
+}
+
+export type VersionStorageAdapter = {
+   list: (documentId: string) => Promise<DocumentVersion[]>; // Newest first
+   save: (version: DocumentVersion) => Promise<void>;
+   delete: (documentId: string, versionId: string) => Promise<void>;
+}
+
+// Reusable content saved from the editor - listed in the Modules tab of the elements sidebar
+export type DocumentModule = {
+   id: string;
+   name: string;
+   thumbnail: string; // Image URL or data URL
+   html: string; // Markup of the module's root element, without block ids
+   linked: boolean; // Dropped copies stay linked and follow edits of the master
+   createdAt: number; // Epoch milliseconds
+   updatedAt: number; // Epoch milliseconds - also the version linked copies compare against
+}
+
+export type ModuleStorageAdapter = {
+   list: () => Promise<DocumentModule[]>; // Most recently updated first
+   save: (module: DocumentModule) => Promise<void>;
+   delete: (id: string) => Promise<void>;
+}
+
+// Starter document for "New from template" - built in or saved from a document
+export type DocumentTemplate = {
+   id: string;
+   name: string;
+   description: string;
+   category: string;
+   document: StoredDocument; // Documents created from the template get their own id and block ids
+   builtIn?: boolean;
+   createdAt: number; // Epoch milliseconds
+}
+
+export type TemplateStorageAdapter = {
+   list: () => Promise<DocumentTemplate[]>; // Newest first
+   save: (template: DocumentTemplate) => Promise<void>;
+   delete: (id: string) => Promise<void>;
+}
+
+export type TextDiffSegment = {
+   type: 'equal' | 'insert' | 'delete';
+   text: string;
+}
+
+// One block of a version comparison; `children` compares the child blocks of structural blocks
+export type BlockDiffEntry = {
+   status: 'unchanged' | 'added' | 'removed' | 'changed';
+   before?: BlockNode;
+   after?: BlockNode;
+   text?: TextDiffSegment[]; // Inline text changes of changed leaf blocks
+   children?: BlockDiffEntry[];
+}
+
+export type SaveStatus = 'idle' | 'unsaved' | 'saving' | 'saved' | 'error';
+
+// ============================================
+// BLOCK REGISTRY
+// ============================================
+
+type BlockPropBase = {
+   label: string;
+   help?: string; // Shown under the field
+}
+
+// Single-value field - `type` picks the form control and the value type
+export type BlockScalarPropSchema =
+   | (BlockPropBase & { type: 'text' | 'url' | 'color' | 'datetime' | 'date'; default?: string; placeholder?: string })
+   | (BlockPropBase & { type: 'textarea'; default?: string; placeholder?: string; latex?: boolean; code?: boolean }) // `latex` adds a rendered preview, `code` a monospace editor with Tab indentation
+   | (BlockPropBase & { type: 'number'; default?: number; min?: number; max?: number; step?: number })
+   | (BlockPropBase & { type: 'boolean'; default?: boolean })
+   | (BlockPropBase & { type: 'image'; default?: string; signature?: boolean }) // URL or data URL; `signature` adds draw/type capture
+   | (BlockPropBase & { type: 'select'; options: readonly { label: string; value: string }[]; default?: string });
+
+export type BlockListItemValues = Record<string, string | number | boolean>;
+
+// One field of a block's props schema. Lists hold items the user adds, removes and reorders
+export type BlockPropSchema =
+   | BlockScalarPropSchema
+   | (BlockPropBase & {
+      type: 'list';
+      item: Record<string, BlockScalarPropSchema>; // Fields of every item
+      default?: readonly BlockListItemValues[];
+      itemTitle?: string; // Field whose value titles an item in the form
+      addLabel?: string;
+   });
+
+export type BlockPropsSchema = Record<string, BlockPropSchema>;
+
+export type BlockPropValue<P extends BlockPropSchema> =
+   P extends { type: 'list'; item: infer I extends Record<string, BlockScalarPropSchema> } ? { [K in keyof I]: BlockPropValue<I[K]> }[]
+   : P extends { type: 'number' } ? number
+   : P extends { type: 'boolean' } ? boolean
+   : string;
+
+// Values of a block's props, typed from its schema
+export type BlockPropValues<S extends BlockPropsSchema = BlockPropsSchema> = {
+   [K in keyof S]: BlockPropValue<S[K]>;
+}
+
+export type BlockDefinition<S extends BlockPropsSchema = BlockPropsSchema> = {
+   id: string; // Unique block type - stored as `data-element-type` on blocks with props
+   label: string;
+   icon: JSX.Element;
+   category: Block['category'];
+   /**
+    * Block markup. Blocks with a props schema get a function; the result is
+    * re-rendered whenever a prop changes, so it should escape the values it embeds.
+    */
+   template: string | ((props: BlockPropValues<S>) => string);
+   /**
+    * Markup for PDF and email export, where the template can't render
+    * (iframes, players, live content). Exports use `template` when omitted.
+    */
+   staticTemplate?: (props: BlockPropValues<S>) => string;
+   /**
+    * Markup for the HTML export when it differs from the builder
+    * (e.g. real form controls). The HTML export uses `template` when omitted.
+    */
+   exportTemplate?: (props: BlockPropValues<S>) => string;
+   props?: S; // Settings form of the block - omitted for static blocks
+}
+
+// ============================================
+// SCHEMA MIGRATIONS
+// ============================================
+
+// A document as stored by any earlier release - fields may be missing or legacy
+export type StoredDocument = Partial<Omit<EditorDocument, 'schemaVersion'>> & {
+   schemaVersion?: number; // Missing on documents saved before versioning (version 0)
+   pages?: EditorPage[]; // Multi-page documents from before the single content flow
+}
+
+// Upgrades a document from `version - 1` to `version`
+export type DocumentMigration = {
+   version: number;
+   description: string;
+   migrate: (document: StoredDocument, ownerDocument: Document) => StoredDocument;
+}
+
+// ============================================
+// DOCUMENT ENGINE
+// ============================================
+
+// Where a block sits: index within its parent's children (null parent = top level)
+export type BlockPosition = {
+   parentId: string | null;
+   index: number;
+}
+
+// A pure document transformation - every DocumentEngine operation has this shape once bound
+export type DocumentChange = (document: EditorDocument) => EditorDocument;
+
+export type DocumentEngineOptions = {
+   ownerDocument?: Document; // Used to parse HTML - pass jsdom's document when running in Node
+}
+
+// Stateful wrapper over the DocumentEngine operations for scripts and backend jobs
+export type DocumentEngine = {
+   getDocument: () => EditorDocument;
+   getHtml: () => string; // Block HTML of the content flow
+   insertBlock: (block: string | BlockNode | BlockNode[], position?: Partial<BlockPosition>) => string[]; // Returns the new block ids
+   moveBlock: (id: string, position: BlockPosition) => void;
+   deleteBlock: (id: string) => void;
+   duplicateBlock: (id: string) => string | null;
+   updateStyle: (id: string, styles: Record<string, string | null>) => void;
+   updateProps: (id: string, props: Record<string, string | null>) => void;
+   updateContent: (id: string, html: string) => void;
+   insertTable: (rows: number, cols: number, position?: Partial<BlockPosition>) => string; // Returns the table container id
+   addTableRow: (tableId: string, position: 'above' | 'below', rowIndex?: number) => void;
+   addTableColumn: (tableId: string, position: 'left' | 'right', colIndex?: number) => void;
+   deleteTableRow: (tableId: string, rowIndex: number) => void;
+   deleteTableColumn: (tableId: string, colIndex: number) => void;
+   resizeTable: (tableId: string, rows: number, cols: number) => void;
+   resolveMergeFields: (data: Record<string, unknown>) => void;
+}
+
+// ============================================
+// BUILDER COMPONENT API
+// ============================================
+
+export type BuilderUser = {
+   name: string;
+   email: string;
+   id: string;
+   company_name: string;
+}
+
+export type ExportFormat = 'pdf' | 'html' | 'email';
+
+export type DragAndDropBuilderProps = {
+   user?: BuilderUser;
+   value?: EditorDocument; // Controlled document - the builder mirrors it and reports edits via onChange
+   defaultValue?: Partial<EditorDocument>; // Initial document for uncontrolled usage
+   onChange?: (document: EditorDocument) => void;
+   onSave?: (document: EditorDocument) => void; // Save button / Ctrl+S
+   onExport?: (document: EditorDocument, format: ExportFormat) => void; // Called after an export finished
+   storage?: DocumentStorageAdapter | null; // Defaults to IndexedDB, null disables persistence
+   autosaveDelay?: number; // Milliseconds of inactivity before an autosave
+}
+
+// Imperative API exposed through the builder's ref
+export type DragAndDropBuilderHandle = {
+   getDocument: () => EditorDocument;
+   setDocument: (document: EditorDocument) => void;
+   exportPDF: () => Promise<void>;
+   exportHTML: () => void;
+   exportEmail: () => void; // HTML for email clients - players become linked posters
+   undo: () => void;
+   redo: () => void;
+   /**
+    * Inserts a registered block (by id, e.g. 'heading') or raw HTML
+    * at `index` of the top level (appends by default). Returns the new block id.
+    */
+   insertBlock: (block: string, index?: number) => string | null;
+   select: (blockId: string | null) => void;
+}
+
+// ============================================
+// DOCUMENT VIEWER
+// ============================================
+
+export type DocumentViewerProps = {
+   document: StoredDocument; // Saved document of any schema version - migrated before rendering
+   data?: Record<string, unknown>; // Merge field values, e.g. { user: { name: 'Ada' } }
+   showPrintButton?: boolean;
+   className?: string;
+   onPageCountChange?: (count: number) => void;
+}
+
+// Imperative API exposed through the viewer's ref
+export type DocumentViewerHandle = {
+   print: () => void;
+}
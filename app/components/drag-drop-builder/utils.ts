@@ -92,26 +92,54 @@ export const createDefaultPage = (name: string = 'Page 1', preset?: PagePreset):
    })
 });
 
-export const generateXPath = (el: HTMLElement, root: HTMLElement): string => {
-   if (!el || el === root || !el.parentElement) return '';
-   const parent = el.parentElement;
-   const siblings = Array.from(parent.children);
-   const index = siblings.filter(s => s.tagName === el.tagName).indexOf(el) + 1;
-   const tag = el.tagName.toLowerCase();
-   const parentPath = generateXPath(parent, root);
-   return parentPath ? `${parentPath}/${tag}[${index}]` : `/${tag}[${index}]`;
-};
-
-
+/**
+ * Parses an inline style string into a property map.
+ * Semicolons and colons inside quotes or parentheses are kept as part of the value,
+ * so values like `url(data:image/png;base64,...)` survive intact.
+ */
 export const parseStyles = (styleStr: string): ElementStyles => {
    if (!styleStr) return {};
-   return styleStr.split(';').reduce((acc: ElementStyles, rule: string) => {
-      const [prop, val] = rule.split(':').map(s => s.trim());
+
+   const declarations: string[] = [];
+   let current = '';
+   let depth = 0;
+   let quote: string | null = null;
+
+   for (const char of styleStr) {
+      if (quote) {
+         if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+         quote = char;
+      } else if (char === '(') {
+         depth++;
+      } else if (char === ')') {
+         depth = Math.max(0, depth - 1);
+      } else if (char === ';' && depth === 0) {
+         declarations.push(current);
+         current = '';
+         continue;
+      }
+      current += char;
+   }
+   declarations.push(current);
+
+   return declarations.reduce((acc: ElementStyles, rule: string) => {
+      const colon = rule.indexOf(':');
+      if (colon === -1) return acc;
+      const prop = rule.slice(0, colon).trim();
+      const val = rule.slice(colon + 1).trim();
       if (prop && val) acc[prop] = val;
       return acc;
    }, {});
 };
 
+// Inverse of parseStyles
+export const serializeStyles = (styles: ElementStyles): string => {
+   return Object.entries(styles)
+      .map(([prop, val]) => `${prop}: ${val};`)
+      .join(' ');
+};
+
 export const extractBodyContent = (html: string): string => {
    const match = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
    return match ? match[1] : html;
@@ -131,6 +159,7 @@ export const isEditableElement = (el: HTMLElement): boolean => {
    const tag = el.tagName.toUpperCase();
    if (NON_EDITABLE_TAGS.includes(tag)) return false;
    if (el.hasAttribute('data-html-block')) return false;
+   if (el.hasAttribute('data-block-props')) return false; // Registered blocks are edited through their props form
    if (el.hasAttribute('data-element-type') && el.getAttribute('data-element-type') === 'spacer') return false;
    return true;
 };
@@ -156,7 +185,7 @@ export const detectOverflow = (shadowRoot: ShadowRoot, pageHeight: number): HTML
    // Get direct children that are content elements (not toolbars)
    const children = Array.from(container.children).filter(child => {
       const el = child as HTMLElement;
-      return el.hasAttribute('data-xpath') && !el.classList.contains('element-toolbar');
+      return el.hasAttribute('data-block-id') && !el.classList.contains('element-toolbar');
    }) as HTMLElement[];
 
    const overflowing: HTMLElement[] = [];
@@ -250,8 +279,9 @@ export const splitTextElement = (
    const overflowWords = words.slice(splitIndex);
 
    // Build HTML preserving the element structure
+   // Both halves get fresh block ids on the next render - they are no longer the original block
    const clone = element.cloneNode(false) as HTMLElement;
-   clone.removeAttribute('data-xpath');
+   clone.removeAttribute('data-block-id');
    clone.removeAttribute('data-selected');
    clone.removeAttribute('contenteditable');
    clone.removeAttribute('draggable');
@@ -275,15 +305,15 @@ export const cleanElementForMigration = (element: HTMLElement): string => {
    const clone = element.cloneNode(true) as HTMLElement;
 
    // Remove editor-specific attributes from root and all children
+   // Block ids are kept - the element keeps its identity when migrated
    const cleanAttrs = (el: Element) => {
-      el.removeAttribute('data-xpath');
       el.removeAttribute('data-selected');
       el.removeAttribute('contenteditable');
       el.removeAttribute('draggable');
    };
 
    cleanAttrs(clone);
-   clone.querySelectorAll('[data-xpath]').forEach(cleanAttrs);
+   clone.querySelectorAll('[data-block-id]').forEach(cleanAttrs);
    clone.querySelectorAll('.element-toolbar').forEach(t => t.remove());
 
    return clone.outerHTML;
@@ -325,3 +355,133 @@ export function applyPaginationMargin(el: HTMLElement, addPx: number) {
    el.style.marginTop = `${base + addPx}px`;
 }
 
+
+/**
+ * Elements under `root` matching `selector` in document order, with the page each falls on.
+ * Pages come from the breaks usePagination marked - data-page-break-before holds the page
+ * before the break - so without pagination everything is on page 1.
+ */
+export const getElementPages = (root: ParentNode, selector: string): { element: Element; page: number }[] => {
+   const result: { element: Element; page: number }[] = [];
+   let page = 1;
+
+   root.querySelectorAll(`[data-page-break-before], ${selector}`).forEach(element => {
+      const pageBefore = Number(element.getAttribute('data-page-break-before'));
+      if (element.hasAttribute('data-page-break-before') && Number.isFinite(pageBefore)) page = pageBefore + 1;
+      if (element.matches(selector)) result.push({ element, page });
+   });
+   return result;
+};
+
+// 'backgroundColor' / 'font-size' / 'insertUnorderedList' -> 'background color' / 'font size' / 'insert unordered list'
+export const humanizeName = (name: string): string => name
+   .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+   .replace(/[-_]+/g, ' ')
+   .toLowerCase()
+   .trim();
+
+// ============================================
+// HISTORY PATCHES - compact diffs between two states
+// ============================================
+
+// Replaces the changed middle section of a string or array
+export type SplicePatch<V> = {
+   index: number;
+   removed: V;
+   inserted: V;
+}
+
+export type FieldPatch =
+   | { kind: 'set'; before: unknown; after: unknown }
+   | { kind: 'string'; splice: SplicePatch<string> }
+   | { kind: 'array'; splice: SplicePatch<unknown[]> };
+
+// Top-level fields that changed; untouched fields aren't stored
+export type StatePatch = Record<string, FieldPatch>;
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+   if (a === b) return true;
+   if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+   return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const spliceRange = (lengthA: number, lengthB: number, equalAt: (i: number, j: number) => boolean) => {
+   let start = 0;
+   while (start < lengthA && start < lengthB && equalAt(start, start)) start++;
+
+   let endA = lengthA;
+   let endB = lengthB;
+   while (endA > start && endB > start && equalAt(endA - 1, endB - 1)) {
+      endA--;
+      endB--;
+   }
+   return { start, endA, endB };
+};
+
+/**
+ * Diffs two states field by field. Strings and arrays only store the changed
+ * middle section, so typing in one block or inserting one block stays small.
+ */
+export const createStatePatch = <T extends object>(before: T, after: T): StatePatch => {
+   const patch: StatePatch = {};
+   const a = before as Record<string, unknown>;
+   const b = after as Record<string, unknown>;
+
+   new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key => {
+      const valueA = a[key];
+      const valueB = b[key];
+      if (valueA === valueB) return;
+
+      // Element by element - tree operations share untouched blocks, so only the changed ones are stringified
+      if (Array.isArray(valueA) && Array.isArray(valueB)) {
+         const { start, endA, endB } = spliceRange(valueA.length, valueB.length, (i, j) => isSameValue(valueA[i], valueB[j]));
+         if (start === endA && start === endB) return;
+         patch[key] = { kind: 'array', splice: { index: start, removed: valueA.slice(start, endA), inserted: valueB.slice(start, endB) } };
+         return;
+      }
+      if (isSameValue(valueA, valueB)) return;
+
+      if (typeof valueA === 'string' && typeof valueB === 'string') {
+         const { start, endA, endB } = spliceRange(valueA.length, valueB.length, (i, j) => valueA[i] === valueB[j]);
+         patch[key] = { kind: 'string', splice: { index: start, removed: valueA.slice(start, endA), inserted: valueB.slice(start, endB) } };
+      } else {
+         patch[key] = { kind: 'set', before: valueA, after: valueB };
+      }
+   });
+
+   return patch;
+};
+
+export const isEmptyPatch = (patch: StatePatch): boolean => Object.keys(patch).length === 0;
+
+/**
+ * Applies a patch forward (before -> after) or backward (after -> before).
+ */
+export const applyStatePatch = <T extends object>(state: T, patch: StatePatch, direction: 'forward' | 'backward'): T => {
+   const next = { ...state } as Record<string, unknown>;
+   const forward = direction === 'forward';
+
+   Object.entries(patch).forEach(([key, field]) => {
+      if (field.kind === 'set') {
+         const value = forward ? field.after : field.before;
+         if (value === undefined) delete next[key];
+         else next[key] = value;
+         return;
+      }
+
+      const { index, removed, inserted } = field.splice;
+      const remove = forward ? removed : inserted;
+      const insert = forward ? inserted : removed;
+
+      if (field.kind === 'string') {
+         const current = next[key] as string;
+         next[key] = current.slice(0, index) + insert + current.slice(index + remove.length);
+      } else {
+         const current = [...(next[key] as unknown[])];
+         current.splice(index, (remove as unknown[]).length, ...(insert as unknown[]));
+         next[key] = current;
+      }
+   });
+
+   return next as T;
+};
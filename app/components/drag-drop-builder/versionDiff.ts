@@ -0,0 +1,195 @@
+import { BlockDiffEntry, BlockNode, TextDiffSegment } from "./type";
+import { blockToHtml, escapeText } from "./blockTree";
+import { parseStyles } from "./utils";
+
+// ============================================
+// VERSION DIFF - block-level comparison of two block trees
+// ============================================
+
+const DIFF_STYLES = {
+   added: 'background-color: #dcfce7; outline: 2px solid #22c55e; outline-offset: 2px;',
+   removed: 'background-color: #fee2e2; outline: 2px solid #ef4444; outline-offset: 2px; opacity: 0.75;',
+   changed: 'outline: 2px dashed #f59e0b; outline-offset: 2px;',
+   insert: 'background-color: #bbf7d0; color: #166534; text-decoration: none;',
+   delete: 'background-color: #fecaca; color: #991b1b;'
+};
+
+/**
+ * Longest common subsequence of two sequences, as matched index pairs.
+ * Common prefix/suffix are matched first so typical edits stay cheap.
+ */
+const matchSequences = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[number, number]> => {
+   let start = 0;
+   while (start < a.length && start < b.length && equals(a[start], b[start])) start++;
+
+   let endA = a.length;
+   let endB = b.length;
+   while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) {
+      endA--;
+      endB--;
+   }
+
+   const n = endA - start;
+   const m = endB - start;
+   const table = new Uint32Array((n + 1) * (m + 1));
+   const at = (i: number, j: number) => i * (m + 1) + j;
+
+   for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+         table[at(i, j)] = equals(a[start + i], b[start + j])
+            ? table[at(i + 1, j + 1)] + 1
+            : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+      }
+   }
+
+   const pairs: Array<[number, number]> = [];
+   for (let k = 0; k < start; k++) pairs.push([k, k]);
+
+   let i = 0;
+   let j = 0;
+   while (i < n && j < m) {
+      if (equals(a[start + i], b[start + j])) {
+         pairs.push([start + i, start + j]);
+         i++;
+         j++;
+      } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+         i++;
+      } else {
+         j++;
+      }
+   }
+
+   for (let k = 0; k < a.length - endA; k++) pairs.push([endA + k, endB + k]);
+   return pairs;
+};
+
+/**
+ * Word-level diff of two plain texts.
+ */
+export const diffText = (before: string, after: string): TextDiffSegment[] => {
+   const a = before.split(/(\s+)/).filter(Boolean);
+   const b = after.split(/(\s+)/).filter(Boolean);
+   const pairs = matchSequences(a, b, (x, y) => x === y);
+
+   const segments: TextDiffSegment[] = [];
+   const push = (type: TextDiffSegment['type'], text: string) => {
+      const last = segments[segments.length - 1];
+      if (last?.type === type) last.text += text;
+      else segments.push({ type, text });
+   };
+
+   let i = 0;
+   let j = 0;
+   for (const [pi, pj] of [...pairs, [a.length, b.length] as [number, number]]) {
+      while (i < pi) push('delete', a[i++]);
+      while (j < pj) push('insert', b[j++]);
+      if (pi < a.length) {
+         push('equal', a[pi]);
+         i++;
+         j++;
+      }
+   }
+   return segments;
+};
+
+const getBlockText = (block: BlockNode, ownerDocument: Document): string => {
+   if (block.tag === '#text') return block.content ?? '';
+   const template = ownerDocument.createElement('template');
+   template.innerHTML = block.content ?? '';
+   return template.content.textContent ?? '';
+};
+
+// The parser adds an implicit <tbody> to tables, which never had a stored id
+const isSameBlock = (a: BlockNode, b: BlockNode): boolean => a.id === b.id || (a.tag === 'tbody' && b.tag === 'tbody');
+
+/**
+ * Compares two block trees. Blocks are matched by id; blocks present in both
+ * but serialized differently are `changed` - structural blocks compare their
+ * children, leaf blocks get a word-level text diff.
+ *
+ * @param before - Blocks of the older version
+ * @param after - Blocks of the newer version
+ * @param ownerDocument - Document used to extract block text
+ */
+export const diffBlocks = (before: BlockNode[], after: BlockNode[], ownerDocument: Document = window.document): BlockDiffEntry[] => {
+   const pairs = matchSequences(before, after, isSameBlock);
+   const entries: BlockDiffEntry[] = [];
+
+   let i = 0;
+   let j = 0;
+   for (const [pi, pj] of [...pairs, [before.length, after.length] as [number, number]]) {
+      while (i < pi) entries.push({ status: 'removed', before: before[i++] });
+      while (j < pj) entries.push({ status: 'added', after: after[j++] });
+      if (pi >= before.length) break;
+
+      const a = before[pi];
+      const b = after[pj];
+      i++;
+      j++;
+
+      if (blockToHtml(a) === blockToHtml(b)) {
+         entries.push({ status: 'unchanged', before: a, after: b });
+      } else if (a.children && b.children) {
+         entries.push({ status: 'changed', before: a, after: b, children: diffBlocks(a.children, b.children, ownerDocument) });
+      } else {
+         entries.push({ status: 'changed', before: a, after: b, text: diffText(getBlockText(a, ownerDocument), getBlockText(b, ownerDocument)) });
+      }
+   }
+   return entries;
+};
+
+// Highlights are merged into the block's own styles - wrappers would break tables
+const withHighlight = (block: BlockNode, css: string): BlockNode => ({
+   ...block,
+   styles: { ...block.styles, ...parseStyles(css) }
+});
+
+const renderTextSegments = (segments: TextDiffSegment[]): string => segments.map(segment => {
+   const text = escapeText(segment.text);
+   if (segment.type === 'insert') return `<ins style="${DIFF_STYLES.insert}">${text}</ins>`;
+   if (segment.type === 'delete') return `<del style="${DIFF_STYLES.delete}">${text}</del>`;
+   return text;
+}).join('');
+
+const renderHighlighted = (block: BlockNode, css: string): string => {
+   if (block.tag === '#text') return `<span style="${css}">${escapeText(block.content ?? '')}</span>`;
+   return blockToHtml(withHighlight(block, css));
+};
+
+/**
+ * Renders a diff as HTML: added blocks in green, removed blocks in red and
+ * changed blocks outlined with their text changes marked inline.
+ */
+export const renderDiffHtml = (entries: BlockDiffEntry[]): string => entries.map(entry => {
+   switch (entry.status) {
+      case 'added':
+         return renderHighlighted(entry.after!, DIFF_STYLES.added);
+      case 'removed':
+         return renderHighlighted(entry.before!, DIFF_STYLES.removed);
+      case 'changed': {
+         const block = entry.after!;
+         if (entry.children) {
+            return blockToHtml({ ...block, children: undefined, content: renderDiffHtml(entry.children) });
+         }
+         const hasTextChanges = entry.text?.some(segment => segment.type !== 'equal');
+         if (block.tag === '#text') return renderTextSegments(entry.text ?? []);
+         if (!hasTextChanges) return renderHighlighted(block, DIFF_STYLES.changed);
+         return blockToHtml(withHighlight({ ...block, content: renderTextSegments(entry.text ?? []) }, DIFF_STYLES.changed));
+      }
+      default:
+         return blockToHtml(entry.after!);
+   }
+}).join('');
+
+// Number of added/removed/changed blocks, counted at the deepest level that changed
+export const summarizeDiff = (entries: BlockDiffEntry[]) => entries.reduce((summary, entry) => {
+   if (entry.status === 'changed' && entry.children) {
+      const nested = summarizeDiff(entry.children);
+      summary.added += nested.added;
+      summary.removed += nested.removed;
+      summary.changed += nested.changed;
+   } else if (entry.status !== 'unchanged') {
+      summary[entry.status]++;
+   }
+   return summary;
+}, { added: 0, removed: 0, changed: 0 });
@@ -0,0 +1,16 @@
+// Loads every migration fixture (see app/components/drag-drop-builder/migrationFixtures.ts)
+// under jsdom and fails when a saved document no longer migrates as expected.
+// Usage: npm run test:migrations
+import { JSDOM } from 'jsdom';
+import { checkMigrationFixtures, MIGRATION_FIXTURES } from '../app/components/drag-drop-builder/migrationFixtures';
+
+const { window } = new JSDOM();
+const failures = checkMigrationFixtures(window.document);
+
+failures.forEach(({ name, errors }) => {
+   console.error(`✗ ${name}`);
+   errors.forEach(error => console.error(`   ${error.replace(/\n/g, '\n   ')}`));
+});
+console.log(`${MIGRATION_FIXTURES.length - failures.length}/${MIGRATION_FIXTURES.length} migration fixtures pass`);
+
+if (failures.length) process.exit(1);
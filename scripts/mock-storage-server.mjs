@@ -0,0 +1,128 @@
+// In-memory implementation of the REST storage contract (see storage/restAdapter.ts).
+// Usage: npm run mock:storage  ->  createRestAdapter({ baseUrl: 'http://localhost:4010' })
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 4010);
+const documents = new Map(); // id -> { document, updatedAt }
+const versions = new Map(); // document id -> Map(version id -> version)
+const collections = {
+   modules: new Map(), // id -> module
+   templates: new Map() // id -> template
+};
+
+const send = (res, status, body) => {
+   res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+   });
+   res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+   let data = '';
+   req.on('data', chunk => { data += chunk; });
+   req.on('end', () => {
+      try {
+         resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+         reject(error);
+      }
+   });
+});
+
+// Flat keyed collections (modules, templates)
+const handleCollection = async (req, res, items, itemId) => {
+   if (!itemId) {
+      if (req.method !== 'GET') return send(res, 405, { error: 'Method not allowed' });
+      return send(res, 200, [...items.values()]);
+   }
+   switch (req.method) {
+      case 'PUT':
+         items.set(itemId, { ...(await readBody(req)), id: itemId });
+         return send(res, 204);
+      case 'DELETE':
+         items.delete(itemId);
+         return send(res, 204);
+      default:
+         return send(res, 405, { error: 'Method not allowed' });
+   }
+};
+
+const server = createServer(async (req, res) => {
+   const { pathname } = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+   const match = pathname.match(/^\/documents(?:\/([^/]+)(\/versions(?:\/([^/]+))?)?)?\/?$/);
+   const collectionMatch = pathname.match(/^\/(modules|templates)(?:\/([^/]+))?\/?$/);
+
+   if (req.method === 'OPTIONS') return send(res, 204);
+   if (collectionMatch) {
+      const items = collections[collectionMatch[1]];
+      try {
+         return await handleCollection(req, res, items, collectionMatch[2] ? decodeURIComponent(collectionMatch[2]) : null);
+      } catch {
+         return send(res, 400, { error: 'Invalid JSON body' });
+      }
+   }
+   if (!match) return send(res, 404, { error: 'Not found' });
+
+   const id = match[1] ? decodeURIComponent(match[1]) : null;
+   const versionId = match[3] ? decodeURIComponent(match[3]) : null;
+
+   try {
+      if (id && match[2]) {
+         const documentVersions = versions.get(id) ?? new Map();
+         versions.set(id, documentVersions);
+
+         if (!versionId) {
+            if (req.method !== 'GET') return send(res, 405, { error: 'Method not allowed' });
+            return send(res, 200, [...documentVersions.values()]);
+         }
+         switch (req.method) {
+            case 'PUT':
+               documentVersions.set(versionId, { ...(await readBody(req)), id: versionId, documentId: id });
+               return send(res, 204);
+            case 'DELETE':
+               documentVersions.delete(versionId);
+               return send(res, 204);
+            default:
+               return send(res, 405, { error: 'Method not allowed' });
+         }
+      }
+
+      if (!id) {
+         if (req.method !== 'GET') return send(res, 405, { error: 'Method not allowed' });
+         const summaries = [...documents.values()].map(({ document, updatedAt }) => ({ id: document.id, name: document.name, updatedAt }));
+         return send(res, 200, summaries);
+      }
+
+      const record = documents.get(id);
+      switch (req.method) {
+         case 'GET':
+            return record ? send(res, 200, record.document) : send(res, 404, { error: 'Not found' });
+         case 'PUT': {
+            const document = await readBody(req);
+            documents.set(id, { document: { ...document, id }, updatedAt: Date.now() });
+            return send(res, 204);
+         }
+         case 'PATCH': {
+            if (!record) return send(res, 404, { error: 'Not found' });
+            const { name } = await readBody(req);
+            documents.set(id, { document: { ...record.document, name }, updatedAt: Date.now() });
+            return send(res, 204);
+         }
+         case 'DELETE':
+            documents.delete(id);
+            versions.delete(id);
+            return send(res, 204);
+         default:
+            return send(res, 405, { error: 'Method not allowed' });
+      }
+   } catch {
+      return send(res, 400, { error: 'Invalid JSON body' });
+   }
+});
+
+server.listen(PORT, () => {
+   console.log(`Mock storage server listening on http://localhost:${PORT}/documents`);
+});